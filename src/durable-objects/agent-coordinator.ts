@@ -0,0 +1,46 @@
+/**
+ * Agent Coordinator Durable Object
+ * Hosts the coordinator service on top of SQLite-backed storage
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { AgentCoordinatorService } from '../services/agent-coordinator';
+import { CoordinatorStore } from '../services/coordinator-store';
+import { createA2ARoutes } from '../routes/a2a';
+import { AGENT_COORDINATOR_MCP_PATH, createAgentCoordinatorMcpServer } from '../mcp/agent-coordinator-server';
+import { serveMcp } from '../mcp/server-utils';
+import { alarmScheduler, type AlarmScheduler } from './alarm-scheduler';
+
+export class AgentCoordinator extends DurableObject<Env> {
+	protected readonly coordinator: AgentCoordinatorService;
+	private readonly scheduler: AlarmScheduler;
+	private readonly routes: ReturnType<typeof createA2ARoutes>;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.scheduler = alarmScheduler(ctx.storage);
+		this.coordinator = new AgentCoordinatorService(new CoordinatorStore(ctx.storage), this.scheduler);
+
+		// Run schema migrations before any request is served
+		ctx.blockConcurrencyWhile(() => this.coordinator.initialize());
+		this.routes = createA2ARoutes(this.coordinator, { operatorToken: env.A2A_OPERATOR_TOKEN });
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		if (new URL(request.url).pathname === AGENT_COORDINATOR_MCP_PATH) {
+			return serveMcp(() => createAgentCoordinatorMcpServer(this.coordinator), request);
+		}
+
+		return this.routes.fetch(request);
+	}
+
+	/**
+	 * Run due coordinator work and re-arm the alarm for the next deadline
+	 */
+	async alarm(): Promise<void> {
+		const next = await this.coordinator.runScheduledWork(Date.now());
+		if (next !== undefined) {
+			await this.scheduler.scheduleAt(next);
+		}
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * Alarm Scheduler
+ * Schedules a Durable Object's next wake-up on its single storage alarm
+ */
+
+export interface AlarmScheduler {
+	scheduleAt(time: number): Promise<void>;
+}
+
+/**
+ * Move the alarm earlier if `time` comes before the one already set
+ */
+export function alarmScheduler(storage: DurableObjectStorage): AlarmScheduler {
+	return {
+		async scheduleAt(time) {
+			const current = await storage.getAlarm();
+			if (current === null || time < current) {
+				await storage.setAlarm(time);
+			}
+		},
+	};
+}
@@ -0,0 +1,43 @@
+/**
+ * Position Watchdog Durable Object
+ * Hosts the watchdog service on top of SQLite-backed storage; alarms drive the scheduled checks
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { PositionWatchdogService } from '../services/position-watchdog';
+import { WatchdogStore } from '../services/watchdog-store';
+import { configureRpc } from '../services/chains';
+import { createWatchdogRoutes } from '../routes/watchdog';
+import { alarmScheduler, type AlarmScheduler } from './alarm-scheduler';
+
+export class PositionWatchdog extends DurableObject<Env> {
+	protected readonly watchdog: PositionWatchdogService;
+	private readonly scheduler: AlarmScheduler;
+	private readonly routes: ReturnType<typeof createWatchdogRoutes>;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		configureRpc(env);
+
+		this.scheduler = alarmScheduler(ctx.storage);
+		this.watchdog = new PositionWatchdogService(new WatchdogStore(ctx.storage), this.scheduler);
+
+		// Run schema migrations before any request is served
+		ctx.blockConcurrencyWhile(() => this.watchdog.initialize());
+		this.routes = createWatchdogRoutes(this.watchdog);
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		return this.routes.fetch(request);
+	}
+
+	/**
+	 * Run due checks and re-arm the alarm for the next one
+	 */
+	async alarm(): Promise<void> {
+		const next = await this.watchdog.runScheduledWork(Date.now());
+		if (next !== undefined) {
+			await this.scheduler.scheduleAt(next);
+		}
+	}
+}
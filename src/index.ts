@@ -1,14 +1,30 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
 import { ToolboxService } from '@nullshot/agent';
 import { stepCountIs, type LanguageModel, type Provider, tool } from 'ai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
 import { AiSdkAgent, AIUISDKMessage } from '@nullshot/agent';
-import { createPublicClient, http, formatUnits } from 'viem';
-import { mainnet, arbitrum, optimism, polygon, base } from 'viem/chains';
+import { erc20Abi, formatEther, formatGwei } from 'viem';
 import { z } from 'zod';
 import mcpConfig from '../mcp.json'
+import { toolRegistry, parseToolConfig } from './tools/registry';
+import { createDiscoverAgentsTool } from './tools/coordinator-tools';
+import { createStandInAgent } from './routes/a2a-stand-in';
+import { AGENT_COORDINATOR_MCP_PATH } from './mcp/agent-coordinator-server';
+import { createDefiDataMcpServer, DEFI_DATA_MCP_PATH } from './mcp/defi-data-server';
+import { BLOCKCHAIN_RPC_MCP_PATH, createBlockchainRpcMcpServer } from './mcp/blockchain-rpc-server';
+import { serveMcp } from './mcp/server-utils';
+import { resolveMcpConfig } from './mcp/mcp-config';
+import { DefiDataService } from './services/defi-data';
+import { BlockchainRpcService } from './services/blockchain-rpc';
+import { getTokenBalances, tokenBalancesSchema } from './services/multicall';
+import { configureRpc, getPublicClient, getRpcHealth } from './services/chains';
+import { blockchainCapabilities } from './tools/blockchain-tools';
+import { createToolRoutes } from './routes/tools';
+
+export { AgentCoordinator } from './durable-objects/agent-coordinator';
+export { PositionWatchdog } from './durable-objects/position-watchdog';
 
 // Instantiate application with Hono
 const app = new Hono<{ Bindings: Env }>();
@@ -17,49 +33,28 @@ app.use(
 	'*',
 	cors({
 		origin: '*', // Allow any origin for development; restrict this in production
-		allowMethods: ['POST', 'GET', 'OPTIONS'],
-		allowHeaders: ['Content-Type'],
+		allowMethods: ['POST', 'GET', 'PATCH', 'DELETE', 'OPTIONS'],
+		allowHeaders: ['Content-Type', 'Accept', 'Mcp-Protocol-Version', 'Mcp-Session-Id'],
 		exposeHeaders: ['X-Session-Id'],
 		maxAge: 86400, // 24 hours
 	}),
 );
 
+// Every route and tool reads the chain through the shared RPC layer, configured from this deployment's env
+app.use('*', async (c, next) => {
+	configureRpc(c.env);
+	await next();
+});
+
 // API endpoint to get real-time Base data
 app.get('/api/base-data', async (c) => {
-	const { BASE_RPC_URL } = c.env;
-	
 	try {
-		// Fetch gas price
-		const gasPriceResponse = await fetch(BASE_RPC_URL, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				jsonrpc: '2.0',
-				method: 'eth_gasPrice',
-				params: [],
-				id: 1
-			})
-		});
-		const gasPriceData: any = await gasPriceResponse.json();
-		const gasPrice = parseInt(gasPriceData.result, 16) / 1e9; // Convert to gwei
-		
-		// Fetch latest block
-		const blockResponse = await fetch(BASE_RPC_URL, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				jsonrpc: '2.0',
-				method: 'eth_blockNumber',
-				params: [],
-				id: 2
-			})
-		});
-		const blockData: any = await blockResponse.json();
-		const blockNumber = parseInt(blockData.result, 16);
-		
+		const client = getPublicClient('base');
+		const [gasPrice, blockNumber] = await Promise.all([client.getGasPrice(), client.getBlockNumber()]);
+
 		return c.json({
-			gasPrice: gasPrice.toFixed(4),
-			blockNumber,
+			gasPrice: Number(formatGwei(gasPrice)).toFixed(4),
+			blockNumber: Number(blockNumber),
 			network: 'Base',
 			rpcHealthy: true
 		});
@@ -68,26 +63,18 @@ app.get('/api/base-data', async (c) => {
 	}
 });
 
+// API endpoint to get circuit state, error rate and latency of every configured RPC endpoint
+app.get('/api/rpc-health', (c) => {
+	return c.json(getRpcHealth());
+});
+
 // API endpoint to get ETH balance
 app.post('/api/eth-balance', async (c) => {
-	const { BASE_RPC_URL } = c.env;
 	const { address } = await c.req.json();
 	
 	try {
-		const response = await fetch(BASE_RPC_URL, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				jsonrpc: '2.0',
-				method: 'eth_getBalance',
-				params: [address, 'latest'],
-				id: 1
-			})
-		});
-		
-		const result: any = await response.json();
-		const balanceWei = result.result ? parseInt(result.result, 16) : 0;
-		const balanceEth = (balanceWei / 1e18).toFixed(4);
+		const balanceWei = await getPublicClient('base').getBalance({ address });
+		const balanceEth = Number(formatEther(balanceWei)).toFixed(4);
 		
 		return c.json({ balance: balanceEth, address });
 	} catch (error: any) {
@@ -97,36 +84,40 @@ app.post('/api/eth-balance', async (c) => {
 
 // API endpoint to get token balance
 app.post('/api/token-balance', async (c) => {
-	const { BASE_RPC_URL } = c.env;
 	const { address, tokenAddress } = await c.req.json();
 	
 	try {
-		// ERC20 balanceOf function signature
-		const data = '0x70a08231' + address.slice(2).padStart(64, '0');
-		
-		const response = await fetch(BASE_RPC_URL, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				jsonrpc: '2.0',
-				method: 'eth_call',
-				params: [{
-					to: tokenAddress,
-					data: data
-				}, 'latest'],
-				id: 1
-			})
+		const balance = await getPublicClient('base').readContract({
+			address: tokenAddress,
+			abi: erc20Abi,
+			functionName: 'balanceOf',
+			args: [address],
 		});
 		
-		const result: any = await response.json();
-		const balance = result.result ? parseInt(result.result, 16) : 0;
-		
 		return c.json({ balance: balance.toString(), address, tokenAddress });
 	} catch (error: any) {
 		return c.json({ error: error.message }, 500);
 	}
 });
 
+// API endpoints for every blockchain tool: GET /api/tools, POST /api/tools/<name>
+app.route('/', createToolRoutes(blockchainCapabilities));
+
+// API endpoint to get many token balances for many wallets across chains, one multicall per chain
+app.post('/api/token-balances', async (c) => {
+	const body = await c.req.json().catch(() => undefined);
+	const query = tokenBalancesSchema.safeParse(body);
+	if (!query.success) {
+		return c.json({ error: 'Invalid request', details: query.error.flatten() }, 400);
+	}
+
+	try {
+		return c.json(await getTokenBalances(query.data));
+	} catch (error: any) {
+		return c.json({ error: error.message }, 500);
+	}
+});
+
 // Serve the UI at root
 app.get('/', (c) => {
 	return c.html(`<!DOCTYPE html>
@@ -698,7 +689,7 @@ app.get('/', (c) => {
                 <p>Elite DeFi alpha for sophisticated traders</p>
             </div>
             <div style="display: flex; gap: 8px; align-items: center;">
-                <button id="refreshBtn" onclick="fetchAllTokenBalances()" style="display: none; padding: 10px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 12px; color: #888; font-size: 18px; cursor: pointer; transition: all 0.2s; line-height: 1;" onmouseover="this.style.background='rgba(0, 82, 255, 0.1)'; this.style.borderColor='rgba(0, 82, 255, 0.3)'; this.style.transform='rotate(180deg)';" onmouseout="this.style.background='rgba(255, 255, 255, 0.05)'; this.style.borderColor='rgba(255, 255, 255, 0.1)'; this.style.transform='rotate(0deg)';" title="Refresh balances">
+                <button id="refreshBtn" onclick="refreshPortfolio()" style="display: none; padding: 10px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 12px; color: #888; font-size: 18px; cursor: pointer; transition: all 0.2s; line-height: 1;" onmouseover="this.style.background='rgba(0, 82, 255, 0.1)'; this.style.borderColor='rgba(0, 82, 255, 0.3)'; this.style.transform='rotate(180deg)';" onmouseout="this.style.background='rgba(255, 255, 255, 0.05)'; this.style.borderColor='rgba(255, 255, 255, 0.1)'; this.style.transform='rotate(0deg)';" title="Refresh balances">
                     🔄
                 </button>
                 <button class="wallet-btn" id="walletBtn" onclick="connectWallet()">
@@ -722,8 +713,17 @@ app.get('/', (c) => {
                     <label>Network</label>
                     <div class="value" id="network">-</div>
                 </div>
+                <div class="portfolio-item">
+                    <label>Aave Health</label>
+                    <div class="value" id="aaveHealth">-</div>
+                </div>
+                <div class="portfolio-item" id="aavePositionsItem" style="grid-column: 1 / -1; display: none;">
+                    <label>Aave Positions</label>
+                    <div id="aavePositions" style="font-size: 12px; margin-top: 4px; line-height: 1.6;"></div>
+                    <button id="watchHealthBtn" onclick="watchHealthFactor()" style="margin-top: 6px; padding: 4px 8px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 6px; color: #888; font-size: 11px; cursor: pointer;">🔔 Alert me below a health factor</button>
+                </div>
                 <div class="portfolio-item" style="grid-column: 1 / -1;">
-                    <button onclick="fetchAllTokenBalances()" style="width: 100%; padding: 6px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 6px; color: #888; font-size: 11px; cursor: pointer; font-weight: 500; transition: all 0.2s;" onmouseover="this.style.background='rgba(0, 82, 255, 0.1)'; this.style.borderColor='rgba(0, 82, 255, 0.3)'; this.style.color='#0052FF';" onmouseout="this.style.background='rgba(255, 255, 255, 0.05)'; this.style.borderColor='rgba(255, 255, 255, 0.1)'; this.style.color='#888';">
+                    <button onclick="refreshPortfolio()" style="width: 100%; padding: 6px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 6px; color: #888; font-size: 11px; cursor: pointer; font-weight: 500; transition: all 0.2s;" onmouseover="this.style.background='rgba(0, 82, 255, 0.1)'; this.style.borderColor='rgba(0, 82, 255, 0.3)'; this.style.color='#0052FF';" onmouseout="this.style.background='rgba(255, 255, 255, 0.05)'; this.style.borderColor='rgba(255, 255, 255, 0.1)'; this.style.color='#888';">
                         🔄 Refresh
                     </button>
                 </div>
@@ -769,16 +769,16 @@ app.get('/', (c) => {
                 <div class="protocol-item" onclick="sendExample('Tell me about Aerodrome Finance')">
                     <div class="protocol-header">
                         <span class="protocol-name">Aerodrome</span>
-                        <span class="protocol-apy">12.5%</span>
+                        <span class="protocol-apy" id="aerodrome-apr">--%</span>
                     </div>
-                    <div class="protocol-tvl">TVL: $450M</div>
+                    <div class="protocol-tvl" id="aerodrome-tvl">vAMM-WETH/USDC</div>
                 </div>
                 <div class="protocol-item" onclick="sendExample('What is Moonwell on Base?')">
                     <div class="protocol-header">
                         <span class="protocol-name">Moonwell</span>
-                        <span class="protocol-apy">8.3%</span>
+                        <span class="protocol-apy" id="moonwell-apy">--%</span>
                     </div>
-                    <div class="protocol-tvl">TVL: $180M</div>
+                    <div class="protocol-tvl" id="moonwell-tvl">USDC supply + WELL</div>
                 </div>
                 <div class="protocol-item" onclick="sendExample('Explain BaseSwap yields')">
                     <div class="protocol-header">
@@ -927,6 +927,7 @@ app.get('/', (c) => {
                 
                 // Fetch token balances silently - they show in portfolio section above
                 await fetchAllTokenBalances();
+                await fetchAavePosition();
                 
             } catch (error) {
                 console.error('Error connecting wallet:', error);
@@ -1040,44 +1041,69 @@ app.get('/', (c) => {
             }
         }
         
-        // Fetch token balance for connected wallet
-        async function fetchTokenBalance(tokenSymbol) {
-            if (!walletAddress) return null;
-            
+        // Aerodrome's flagship WETH/USDC volatile pool: gauge emissions APR and TVL, read on-chain
+        async function updateAerodrome() {
             try {
-                const tokenAddress = BASE_TOKENS[tokenSymbol];
-                if (!tokenAddress) return null;
-                
-                const response = await fetch('/api/token-balance', {
+                const response = await fetch('/api/tools/getAerodromePool', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        address: walletAddress,
-                        tokenAddress: tokenAddress
-                    })
+                    body: JSON.stringify({ tokenA: 'WETH', tokenB: 'USDC', stable: false })
                 });
+                if (!response.ok) throw new Error('Aerodrome request failed with status ' + response.status);
                 
                 const data = await response.json();
-                return data.balance;
+                const apr = data.gauge && data.gauge.emissionsAPR;
+                document.getElementById('aerodrome-apr').textContent = apr === null ? '--%' : apr.toFixed(1) + '%';
+                if (data.tvl.usd !== null) {
+                    document.getElementById('aerodrome-tvl').textContent = data.symbol + ' TVL: $' + (data.tvl.usd / 1e6).toFixed(1) + 'M';
+                }
             } catch (error) {
-                console.error(\`Error fetching \${tokenSymbol} balance:\`, error);
-                return null;
+                console.error('Error fetching Aerodrome pool:', error);
             }
         }
         
-        // Fetch all token balances
+        // Moonwell USDC market on Base: supply APY plus WELL reward APR, read on-chain
+        async function updateMoonwell() {
+            try {
+                const response = await fetch('/api/tools/getMoonwellData', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ asset: 'USDC' })
+                });
+                if (!response.ok) throw new Error('Moonwell request failed with status ' + response.status);
+                
+                const market = await response.json();
+                const apy = market.data.supplyAPY + (market.data.supplyRewardAPR || 0);
+                document.getElementById('moonwell-apy').textContent = apy.toFixed(1) + '%';
+                document.getElementById('moonwell-tvl').textContent = 'USDC supplied: $' + (Number(market.data.totalSupplied) * market.data.priceUsd / 1e6).toFixed(1) + 'M';
+            } catch (error) {
+                console.error('Error fetching Moonwell market:', error);
+            }
+        }
+        
+        // Fetch all token balances in one batched request
         async function fetchAllTokenBalances() {
             if (!walletAddress) return;
             
-            const tokens = ['USDC', 'USDbC', 'AERO', 'WETH'];
             const balances = {};
             
-            for (const token of tokens) {
-                const balance = await fetchTokenBalance(token);
-                if (balance) {
-                    const decimals = token === 'USDC' || token === 'USDbC' ? 6 : 18;
-                    balances[token] = (parseInt(balance) / Math.pow(10, decimals)).toFixed(4);
+            try {
+                const response = await fetch('/api/token-balances', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        owners: [walletAddress],
+                        tokens: Object.keys(BASE_TOKENS),
+                        chains: ['base']
+                    })
+                });
+                
+                const data = await response.json();
+                for (const entry of data.balances || []) {
+                    balances[entry.symbol] = parseFloat(entry.formatted).toFixed(4);
                 }
+            } catch (error) {
+                console.error('Error fetching token balances:', error);
             }
             
             console.log('Token balances:', balances);
@@ -1086,6 +1112,104 @@ app.get('/', (c) => {
             // No need to spam chat with redundant balance info
         }
         
+        // Aave V3 position on Base: health factor, then supplied/borrowed per asset with liquidation prices
+        async function fetchAavePosition() {
+            if (!walletAddress) return;
+            
+            try {
+                const response = await fetch('/api/tools/getAavePosition', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ chain: 'base', address: walletAddress })
+                });
+                if (!response.ok) throw new Error('Position request failed with status ' + response.status);
+                
+                const data = await response.json();
+                const health = data.account.healthFactor;
+                const healthEl = document.getElementById('aaveHealth');
+                healthEl.textContent = data.positions.length === 0 ? 'No position' : health === null ? 'No debt' : health.toFixed(2);
+                healthEl.style.color = health !== null && health < 1.1 ? '#ef4444' : health !== null && health < 1.5 ? '#f59e0b' : '#10b981';
+                
+                const rows = data.positions.map((position) => {
+                    const parts = [];
+                    if (parseFloat(position.supplied) > 0) parts.push('supplied ' + parseFloat(position.supplied).toFixed(4) + (position.usedAsCollateral ? ' (collateral)' : ''));
+                    if (parseFloat(position.borrowed) > 0) parts.push('borrowed ' + parseFloat(position.borrowed).toFixed(4));
+                    if (position.liquidationPriceUsd !== null) parts.push('liquidation at $' + position.liquidationPriceUsd);
+                    return '<div><strong>' + position.asset.symbol + '</strong>: ' + parts.join(', ') + '</div>';
+                });
+                document.getElementById('aavePositions').innerHTML = rows.join('') +
+                    (data.positions.length > 0 ? '<div style="color: #888;">Available to borrow: $' + data.account.availableBorrowsUsd + '</div>' : '');
+                document.getElementById('aavePositionsItem').style.display = data.positions.length > 0 ? 'block' : 'none';
+            } catch (error) {
+                console.error('Error fetching Aave position:', error);
+                document.getElementById('aaveHealth').textContent = '-';
+            }
+        }
+        
+        // Health-factor watch on the connected wallet; alerts land in this chat session's inbox.
+        // The owner token from the first registration is reused for later watches and sent with every poll.
+        let lastAlertId = 0;
+        let alertPoller = null;
+        let watchdogToken = null;
+        
+        async function watchHealthFactor() {
+            if (!walletAddress) return;
+            const input = prompt('Alert me when the Aave health factor drops below:', '1.5');
+            if (input === null) return;
+            
+            try {
+                const register = () => fetch('/watchdog/watches', {
+                    method: 'POST',
+                    headers: Object.assign({ 'Content-Type': 'application/json' }, watchdogToken ? { Authorization: 'Bearer ' + watchdogToken } : {}),
+                    body: JSON.stringify({ wallet: walletAddress, chain: 'base', protocol: 'aave-v3', threshold: parseFloat(input), sessionId })
+                });
+                let response = await register();
+                // The watchdog forgets a token once all its watches are deleted: start over with a new one
+                if (response.status === 401 && watchdogToken) {
+                    watchdogToken = null;
+                    response = await register();
+                }
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error.message);
+                watchdogToken = data.ownerToken;
+                
+                const health = data.watch.lastHealthFactor;
+                addMessage('🔔 Watching your Aave position: you will be alerted here when the health factor drops below **' + data.watch.threshold + '**' +
+                    (health !== undefined ? ' (currently ' + health.toFixed(2) + ').' : '.'), false);
+                if (!alertPoller) alertPoller = setInterval(pollAlerts, 60000);
+                await pollAlerts();
+            } catch (error) {
+                console.error('Error registering watch:', error);
+                alert('Failed to register watch: ' + error.message);
+            }
+        }
+        
+        async function pollAlerts() {
+            if (!watchdogToken) return;
+            try {
+                const response = await fetch('/watchdog/alerts?sessionId=' + encodeURIComponent(sessionId) + '&after=' + lastAlertId, {
+                    headers: { Authorization: 'Bearer ' + watchdogToken }
+                });
+                if (!response.ok) return;
+                
+                const data = await response.json();
+                for (const entry of data.alerts) {
+                    lastAlertId = entry.id;
+                    const steps = entry.suggestions.map((plan) =>
+                        '- **' + plan.action + ' ' + plan.amount + ' ' + plan.asset.symbol + '** (~$' + plan.amountUsd + ') → health factor ' + plan.targetHealthFactor +
+                        ', ' + plan.transactions.length + ' transactions ready to sign');
+                    addMessage('## ⚠️ Health factor alert\\n' + entry.summary + (steps.length > 0 ? '\\n' + steps.join('\\n') : ''), false);
+                }
+                if (data.alerts.length > 0) fetchAavePosition();
+            } catch (error) {
+                console.error('Error polling alerts:', error);
+            }
+        }
+        
+        async function refreshPortfolio() {
+            await Promise.all([fetchAllTokenBalances(), fetchAavePosition()]);
+        }
+        
         // Fetch prices on load and every 30 seconds
         fetchPrices();
         setInterval(fetchPrices, 30000);
@@ -1093,6 +1217,12 @@ app.get('/', (c) => {
         // Update Base metrics on load and every 15 seconds
         updateBaseMetrics();
         setInterval(updateBaseMetrics, 15000);
+        
+        // Emissions only change weekly; refresh the Aerodrome figures every 5 minutes
+        updateAerodrome();
+        setInterval(updateAerodrome, 300000);
+        updateMoonwell();
+        setInterval(updateMoonwell, 300000);
 
         function removeLoadingMessage() {
             const loading = document.getElementById('loading');
@@ -1221,8 +1351,43 @@ app.all('/agent/chat/:sessionId?', async (c) => {
 	return await AGENT.get(id).fetch(forwardRequest);
 });
 
+// Local stand-in A2A agent for testing card import (enable with A2A_STAND_IN=true)
+const standInAgent = createStandInAgent('/a2a-stand-in');
+app.all('/a2a-stand-in/*', async (c) => {
+	if (c.env.A2A_STAND_IN !== 'true') {
+		return c.notFound();
+	}
+
+	return standInAgent.fetch(c.req.raw);
+});
+
+// Route A2A coordinator requests (REST, JSON-RPC and the agent-coordinator MCP server)
+// to the single coordinator durable object
+const forwardToCoordinator = async (c: Context<{ Bindings: Env }>) => {
+	const { COORDINATOR } = c.env;
+	const id = COORDINATOR.idFromName('default');
+
+	return await COORDINATOR.get(id).fetch(c.req.raw);
+};
+app.all('/a2a/*', forwardToCoordinator);
+app.all(AGENT_COORDINATOR_MCP_PATH, forwardToCoordinator);
+// The agent card lists the skills of registered agents, which only the coordinator knows
+app.get('/.well-known/agent.json', forwardToCoordinator);
+
+// Position watches and their alerts live in the single watchdog durable object
+app.all('/watchdog/*', async (c) => {
+	const { WATCHDOG } = c.env;
+	return await WATCHDOG.get(WATCHDOG.idFromName('default')).fetch(c.req.raw);
+});
+
+// Stateless MCP servers that only read from chain
+app.all(DEFI_DATA_MCP_PATH, (c) => serveMcp(() => createDefiDataMcpServer(new DefiDataService()), c.req.raw));
+app.all(BLOCKCHAIN_RPC_MCP_PATH, (c) => serveMcp(() => createBlockchainRpcMcpServer(new BlockchainRpcService()), c.req.raw));
+
 //
 export class SimplePromptAgent extends AiSdkAgent<Env> {
+	private readonly enabledTools;
+
 	constructor(state: DurableObjectState, env: Env) {
 		 // Use string model identifier - AI SDK v5 supports this directly
 		let provider: Provider;
@@ -1244,7 +1409,11 @@ export class SimplePromptAgent extends AiSdkAgent<Env> {
 				throw new Error(`Unsupported AI provider: ${env.AI_PROVIDER}`);
 		}
 
-		super(state, env, model, [new ToolboxService(env, mcpConfig)]);
+		super(state, env, model, [new ToolboxService(env, resolveMcpConfig(mcpConfig, env.MCP_BASE_URL))]);
+		// Blockchain tools run in this object's isolate, which the worker's middleware does not reach
+		configureRpc(env);
+		const coordinator = env.COORDINATOR.get(env.COORDINATOR.idFromName('default'));
+		this.enabledTools = toolRegistry.with('discoverAgents', createDiscoverAgentsTool(coordinator)).getTools(parseToolConfig(env));
 	}
 
 	async processMessage(sessionId: string, messages: AIUISDKMessage): Promise<Response> {
@@ -1294,6 +1463,7 @@ BASE ADVANTAGES (for context):
 - Growing TVL: $1.2B+ across protocols
 
 Be concise, technical, and alpha-focused. Users are here for edge, not education.`,
+				tools: this.enabledTools,
 				maxSteps: 10,
 				stopWhen: stepCountIs(10),
 				experimental_toolCallStreaming: true,
@@ -0,0 +1,113 @@
+/**
+ * Agent Coordinator MCP Server
+ * Exposes agent registration, discovery, delegation, messaging and workflows as MCP tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AgentCoordinatorService } from '../services/agent-coordinator';
+import { agentQuerySchema } from '../services/agent-query';
+import { composeWorkflowSchema, delegateTaskSchema, registerAgentSchema, sendMessageSchema } from '../routes/a2a-schemas';
+import { runTool } from './server-utils';
+
+/**
+ * Path the server is mounted at, in the Worker and the coordinator Durable Object
+ */
+export const AGENT_COORDINATOR_MCP_PATH = '/mcp/agent-coordinator';
+
+/**
+ * Build the MCP server around a coordinator instance
+ */
+export function createAgentCoordinatorMcpServer(coordinator: AgentCoordinatorService): McpServer {
+	const server = new McpServer({ name: 'agent-coordinator', version: '1.0.0' });
+
+	server.registerTool(
+		'registerAgent',
+		{
+			description:
+				'Register (or re-register) an agent with its endpoint, capabilities and message signer (required). Re-registering an agent requires its signed proof.',
+			inputSchema: registerAgentSchema,
+		},
+		async ({ proof, ...registration }) => runTool(async () => ({ agent: await coordinator.registerAgent(registration, proof) }))
+	);
+
+	server.registerTool(
+		'discoverAgents',
+		{
+			description:
+				'Find agents by the chains, protocols and operations they support, minimum reputation or text. Results are ranked and explain why each agent matched.',
+			inputSchema: agentQuerySchema,
+		},
+		async (query) => runTool(async () => ({ ...(await coordinator.searchAgents(query)) }))
+	);
+
+	server.registerTool(
+		'delegateTask',
+		{
+			description:
+				'Delegate a task to another agent. Delegating for an agent that has a signer requires its signed proof. Returns the delegation with its taskId; poll getDelegation for the result.',
+			inputSchema: delegateTaskSchema,
+		},
+		async ({ proof, ...delegation }) => runTool(async () => ({ delegation: await coordinator.delegateTask(delegation, proof) }))
+	);
+
+	server.registerTool(
+		'getDelegation',
+		{
+			description: 'Get the status and result of a delegated task',
+			inputSchema: z.object({ taskId: z.string().min(1) }),
+		},
+		async ({ taskId }) =>
+			runTool(async () => {
+				const delegation = await coordinator.getDelegation(taskId);
+				if (!delegation) throw new Error(`Delegation not found: ${taskId}`);
+				return { delegation };
+			})
+	);
+
+	server.registerTool(
+		'sendMessage',
+		{
+			description:
+				"Send a message to an agent. The message must be EIP-712 signed by the sender's registered signer (see message-signing.ts).",
+			inputSchema: sendMessageSchema.extend({ to: z.string().min(1) }),
+		},
+		async (message) =>
+			runTool(async () => {
+				await coordinator.sendMessage({ ...message, payload: message.payload ?? null });
+				return { queued: true };
+			})
+	);
+
+	server.registerTool(
+		'coordinateWorkflow',
+		{
+			description:
+				'Start a multi-agent workflow. Steps run as a DAG (dependsOn, join, when) and can reference earlier results with {{steps.<id>.result.<path>}}. Poll getWorkflowRun for progress.',
+			inputSchema: composeWorkflowSchema,
+		},
+		async (workflow) =>
+			runTool(async () => ({
+				run: await coordinator.composeWorkflow({
+					...workflow,
+					steps: workflow.steps.map((step) => ({ ...step, task: step.task ?? {} })),
+				}),
+			}))
+	);
+
+	server.registerTool(
+		'getWorkflowRun',
+		{
+			description: 'Get the status, step results and errors of a workflow run',
+			inputSchema: z.object({ runId: z.string().min(1) }),
+		},
+		async ({ runId }) =>
+			runTool(async () => {
+				const run = await coordinator.getWorkflowRun(runId);
+				if (!run) throw new Error(`Workflow run not found: ${runId}`);
+				return { run };
+			})
+	);
+
+	return server;
+}
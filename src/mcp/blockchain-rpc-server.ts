@@ -0,0 +1,75 @@
+/**
+ * Blockchain RPC MCP Server
+ * Exposes batched reads, contract state, event logs, signed-transaction relay and the blockchain tool capabilities as MCP tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	batchCallsSchema,
+	contractStateSchema,
+	executeTransactionSchema,
+	watchEventsSchema,
+	type BlockchainRpcService,
+} from '../services/blockchain-rpc';
+import type { PublicClientFactory } from '../services/chains';
+import { blockchainCapabilities } from '../tools/blockchain-tools';
+import { registerCapabilities, runTool } from './server-utils';
+
+/**
+ * Path the server is mounted at in the Worker
+ */
+export const BLOCKCHAIN_RPC_MCP_PATH = '/mcp/blockchain-rpc';
+
+/**
+ * Build the MCP server around a blockchain RPC service. Capabilities (simulateTransaction, callContract, ...)
+ * read through clientFor, defaulting to the shared RPC layer.
+ */
+export function createBlockchainRpcMcpServer(rpc: BlockchainRpcService, clientFor?: PublicClientFactory): McpServer {
+	const server = new McpServer({ name: 'blockchain-rpc', version: '1.0.0' });
+
+	server.registerTool(
+		'batchCalls',
+		{
+			description: 'Run up to 100 read-only contract calls in one Multicall3 request at a single block. Each call succeeds or fails on its own.',
+			inputSchema: batchCallsSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => rpc.batchCalls(params))
+	);
+
+	server.registerTool(
+		'getContractState',
+		{
+			description: 'Read raw storage slots of a contract and detect proxies (EIP-1967, beacon, EIP-1822, EIP-1167) with their implementation',
+			inputSchema: contractStateSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => rpc.getContractState(params))
+	);
+
+	server.registerTool(
+		'watchEvents',
+		{
+			description:
+				'Page through event logs by block range, optionally decoding one event. Pass nextCursor back to get the next page; at the chain head the cursor can be polled for new events.',
+			inputSchema: watchEventsSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => rpc.watchEvents(params))
+	);
+
+	server.registerTool(
+		'executeTransaction',
+		{
+			description:
+				'Broadcast a transaction that the user already signed in their wallet. It is simulated first and not sent if it would revert. This tool never signs transactions.',
+			inputSchema: executeTransactionSchema,
+			annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+		},
+		async (params) => runTool(() => rpc.executeTransaction(params))
+	);
+
+	registerCapabilities(server, blockchainCapabilities, clientFor);
+
+	return server;
+}
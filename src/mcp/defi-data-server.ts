@@ -0,0 +1,81 @@
+/**
+ * DeFi Data MCP Server
+ * Exposes on-chain protocol yields, comparisons, history, TVL and risk as MCP tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	compareProtocolsSchema,
+	historicalAPYSchema,
+	protocolRisksSchema,
+	protocolYieldsSchema,
+	tvlDataSchema,
+	type DefiDataService,
+} from '../services/defi-data';
+import { runTool } from './server-utils';
+
+/**
+ * Path the server is mounted at in the Worker
+ */
+export const DEFI_DATA_MCP_PATH = '/mcp/defi-data';
+
+/**
+ * Build the MCP server around a DeFi data service
+ */
+export function createDefiDataMcpServer(defiData: DefiDataService): McpServer {
+	const server = new McpServer({ name: 'defi-data', version: '1.0.0' });
+
+	server.registerTool(
+		'getProtocolYields',
+		{
+			description:
+				'Current supply and borrow APYs (percent) of lending markets (Aave V3, Compound V3, Moonwell) on a chain, read from chain with the block number and contract used',
+			inputSchema: protocolYieldsSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => defiData.getProtocolYields(params))
+	);
+
+	server.registerTool(
+		'compareProtocols',
+		{
+			description: 'Compare supply and borrow APYs for one asset across protocols on a chain, with the best place to supply and to borrow',
+			inputSchema: compareProtocolsSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => defiData.compareProtocols(params))
+	);
+
+	server.registerTool(
+		'getHistoricalAPY',
+		{
+			description: 'Supply and borrow APYs for one market sampled at past blocks over the last N days (requires an archive RPC)',
+			inputSchema: historicalAPYSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => defiData.getHistoricalAPY(params))
+	);
+
+	server.registerTool(
+		'getTVLData',
+		{
+			description: 'Supplied and borrowed amounts per market and USD TVL valued with the protocol oracle, totalled per protocol',
+			inputSchema: tvlDataSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => defiData.getTVLData(params))
+	);
+
+	server.registerTool(
+		'getProtocolRisks',
+		{
+			description:
+				'Risk parameters (LTV, liquidation threshold, caps) and flags (pauses, frozen reserves, high utilization, bad debt) for the markets of a protocol',
+			inputSchema: protocolRisksSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async (params) => runTool(() => defiData.getProtocolRisks(params))
+	);
+
+	return server;
+}
@@ -0,0 +1,33 @@
+/**
+ * MCP Config
+ * Resolves the in-Worker MCP servers listed in mcp.json by path against the Worker's own public origin
+ */
+
+interface McpServerEntry {
+	url?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Resolve path-only server URLs against `baseUrl` (MCP_BASE_URL). Without one those servers are left out:
+ * the agent calls the same tools in-process, and a guessed origin would point at whatever listens there.
+ */
+export function resolveMcpConfig<T extends { mcpServers: Record<string, McpServerEntry> }>(config: T, baseUrl: string | undefined): T {
+	const mcpServers: Record<string, McpServerEntry> = {};
+	const skipped: string[] = [];
+
+	for (const [name, server] of Object.entries(config.mcpServers)) {
+		if (server.url === undefined || /^https?:\/\//.test(server.url)) {
+			mcpServers[name] = server;
+		} else if (baseUrl) {
+			mcpServers[name] = { ...server, url: new URL(server.url, baseUrl).toString() };
+		} else {
+			skipped.push(name);
+		}
+	}
+
+	if (skipped.length > 0) {
+		console.warn(`MCP_BASE_URL is not set, so these MCP servers are not connected: ${skipped.join(', ')}`);
+	}
+	return { ...config, mcpServers };
+}
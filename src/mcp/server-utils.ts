@@ -0,0 +1,79 @@
+/**
+ * MCP Server Utilities
+ * Serve in-Worker MCP servers over Streamable HTTP and shape tool results
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { PublicClientFactory } from '../services/chains';
+import { toJsonSafe, type Capability } from '../tools/capability';
+
+/**
+ * Handle one MCP request with a fresh, stateless server (no session id, JSON responses)
+ */
+export async function serveMcp(createServer: () => McpServer, request: Request): Promise<Response> {
+	const server = createServer();
+	const transport = new WebStandardStreamableHTTPServerTransport({
+		sessionIdGenerator: undefined,
+		enableJsonResponse: true,
+	});
+
+	await server.connect(transport);
+	try {
+		return await transport.handleRequest(request);
+	} finally {
+		await server.close();
+	}
+}
+
+/**
+ * Successful tool result, as JSON text plus structured content
+ */
+export function jsonResult(data: Record<string, unknown>): CallToolResult {
+	const structuredContent = toJsonSafe(data);
+	return {
+		content: [{ type: 'text', text: JSON.stringify(structuredContent) }],
+		structuredContent,
+	};
+}
+
+/**
+ * Failed tool result. Errors are reported to the model instead of failing the request.
+ */
+export function errorResult(error: unknown): CallToolResult {
+	const message = error instanceof Error ? error.message : String(error);
+	return {
+		content: [{ type: 'text', text: message }],
+		isError: true,
+	};
+}
+
+/**
+ * Run a tool body, turning thrown errors into error results
+ */
+export async function runTool(body: () => Promise<Record<string, unknown>>): Promise<CallToolResult> {
+	try {
+		return jsonResult(await body());
+	} catch (error) {
+		return errorResult(error);
+	}
+}
+
+/**
+ * Register capabilities as tools, with their input and output schemas
+ */
+export function registerCapabilities(server: McpServer, capabilities: readonly Capability[], clientFor?: PublicClientFactory): void {
+	for (const capability of capabilities) {
+		server.registerTool(
+			capability.name,
+			{
+				description: capability.description,
+				inputSchema: capability.input,
+				outputSchema: capability.output,
+				annotations: { readOnlyHint: capability.readOnly },
+			},
+			async (params) => runTool(() => capability.call(params, clientFor))
+		);
+	}
+}
@@ -0,0 +1,126 @@
+/**
+ * A2A JSON-RPC
+ * Agent2Agent protocol task methods on top of coordinator delegations
+ */
+
+import { z } from 'zod';
+import { AgentCoordinatorService, CoordinatorError } from '../services/agent-coordinator';
+import {
+	JSON_RPC_ERRORS,
+	delegationToTask,
+	messageSendParamsSchema,
+	taskQueryParamsSchema,
+	type A2ATask,
+} from '../services/a2a-protocol';
+import { messageProofSchema } from './a2a-schemas';
+
+const requestSchema = z.object({
+	jsonrpc: z.literal('2.0'),
+	id: z.union([z.string(), z.number(), z.null()]).optional(),
+	method: z.string().min(1),
+	params: z.any().optional(),
+});
+
+type JsonRpcId = string | number | null;
+
+export type JsonRpcResponse =
+	| { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+	| { jsonrpc: '2.0'; id: JsonRpcId; error: { code: number; message: string; data?: unknown } };
+
+class JsonRpcError extends Error {
+	constructor(
+		public code: number,
+		message: string,
+		public data?: unknown
+	) {
+		super(message);
+	}
+}
+
+function parseParams<T extends z.ZodTypeAny>(schema: T, params: unknown): z.infer<T> {
+	const parsed = schema.safeParse(params);
+	if (!parsed.success) {
+		throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params', parsed.error.flatten());
+	}
+	return parsed.data;
+}
+
+type MethodHandler = (coordinator: AgentCoordinatorService, params: unknown) => Promise<unknown>;
+
+const METHODS: Record<string, MethodHandler> = {
+	'message/send': async (coordinator, params): Promise<A2ATask> => {
+		const { message, metadata } = parseParams(messageSendParamsSchema, params);
+		if (message.taskId) {
+			throw new JsonRpcError(JSON_RPC_ERRORS.UNSUPPORTED_OPERATION, 'Continuing an existing task is not supported');
+		}
+
+		try {
+			const delegation = await coordinator.submitA2ATask(message, { ...message.metadata, ...metadata });
+			return delegationToTask(delegation);
+		} catch (error) {
+			if (error instanceof CoordinatorError && error.code === 'NOT_FOUND') {
+				throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, error.message);
+			}
+			throw error;
+		}
+	},
+
+	'tasks/get': async (coordinator, params): Promise<A2ATask> => {
+		const { id } = parseParams(taskQueryParamsSchema, params);
+		const delegation = await coordinator.getDelegation(id);
+		if (!delegation) {
+			throw new JsonRpcError(JSON_RPC_ERRORS.TASK_NOT_FOUND, `Task not found: ${id}`);
+		}
+		return delegationToTask(delegation);
+	},
+
+	// Tasks delegated by an agent with a signer need its proof in `metadata` ({ timestamp, nonce, signature })
+	'tasks/cancel': async (coordinator, params): Promise<A2ATask> => {
+		const { id, metadata } = parseParams(taskQueryParamsSchema, params);
+		const proof = messageProofSchema.safeParse(metadata);
+		try {
+			return delegationToTask(await coordinator.cancelDelegation(id, proof.success ? proof.data : undefined));
+		} catch (error) {
+			if (error instanceof CoordinatorError && error.code === 'NOT_FOUND') {
+				throw new JsonRpcError(JSON_RPC_ERRORS.TASK_NOT_FOUND, error.message);
+			}
+			if (error instanceof CoordinatorError && error.code === 'CONFLICT') {
+				throw new JsonRpcError(JSON_RPC_ERRORS.TASK_NOT_CANCELABLE, error.message);
+			}
+			if (error instanceof CoordinatorError && error.code === 'UNAUTHORIZED') {
+				throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, error.message);
+			}
+			throw error;
+		}
+	},
+};
+
+// Pre-0.2 clients send tasks with `tasks/send`
+METHODS['tasks/send'] = METHODS['message/send'];
+
+/**
+ * Handle one JSON-RPC request body. Always resolves to a JSON-RPC response.
+ */
+export async function handleJsonRpc(coordinator: AgentCoordinatorService, body: unknown): Promise<JsonRpcResponse> {
+	const request = requestSchema.safeParse(body);
+	if (!request.success) {
+		return { jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid JSON-RPC request' } };
+	}
+
+	const { id = null, method, params } = request.data;
+	const handler = METHODS[method];
+	if (!handler) {
+		return { jsonrpc: '2.0', id, error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${method}` } };
+	}
+
+	try {
+		return { jsonrpc: '2.0', id, result: await handler(coordinator, params) };
+	} catch (error: any) {
+		if (error instanceof JsonRpcError) {
+			return { jsonrpc: '2.0', id, error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) } };
+		}
+
+		console.error('A2A JSON-RPC request failed', error);
+		return { jsonrpc: '2.0', id, error: { code: JSON_RPC_ERRORS.INTERNAL_ERROR, message: error.message } };
+	}
+}
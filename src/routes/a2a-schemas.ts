@@ -0,0 +1,135 @@
+/**
+ * A2A Request Schemas
+ * Validation shared by the REST API and the agent-coordinator MCP server
+ */
+
+import { z } from 'zod';
+import { publicHttpsUrlSchema } from '../services/public-url';
+import type { WorkflowCondition } from '../services/workflow-engine';
+
+export const capabilitySchema = z.object({
+	id: z.string().min(1),
+	name: z.string().min(1),
+	description: z.string().default(''),
+	chains: z.array(z.string()).default([]),
+	protocols: z.array(z.string()).default([]),
+	operations: z.array(z.string()).default([]),
+});
+
+export const signatureSchema = z.string().regex(/^0x[0-9a-fA-F]+$/, 'Expected a hex signature');
+
+export const messageProofSchema = z.object({
+	timestamp: z.number().int().positive(),
+	nonce: z.string().min(1),
+	signature: signatureSchema,
+});
+
+export const registerAgentSchema = z.object({
+	id: z.string().min(1),
+	name: z.string().min(1),
+	endpoint: publicHttpsUrlSchema.describe('Public https URL messages are pushed to'),
+	capabilities: z.array(capabilitySchema).min(1),
+	signer: z
+		.string()
+		.optional()
+		.describe('EOA address that signs this agent\'s messages; this or publicKey is required (unsigned agents can only be imported from a card)'),
+	publicKey: z.string().optional().describe('Uncompressed secp256k1 public key, alternative to signer'),
+	delivery: z
+		.enum(['push', 'poll', 'a2a'])
+		.optional()
+		.describe('Push messages to the endpoint (default), let the agent poll, or call its A2A JSON-RPC endpoint'),
+	proof: messageProofSchema
+		.optional()
+		.describe('Required to re-register an agent: its signer\'s signature over the registration (without `proof`)'),
+});
+
+export const importAgentSchema = z.object({
+	cardUrl: publicHttpsUrlSchema.describe('URL of the agent card, e.g. https://agent.example/.well-known/agent.json'),
+	id: z.string().min(1).optional().describe('Registry id; defaults to the card name as a slug'),
+});
+
+export const heartbeatSchema = messageProofSchema;
+
+export const discoverAgentsSchema = z.object({
+	capability: z.string().min(1),
+});
+
+export const sendMessageSchema = z.object({
+	from: z.string().min(1),
+	type: z.enum(['request', 'response', 'event', 'delegation']),
+	payload: z.any(),
+	timestamp: z.number().int().positive(),
+	nonce: z.string().min(1),
+	signature: signatureSchema,
+});
+
+export const acknowledgeMessagesSchema = messageProofSchema.extend({
+	ids: z.array(z.number().int().positive()).min(1).max(500),
+});
+
+export const delegateTaskSchema = z.object({
+	fromAgent: z.string().min(1),
+	toAgent: z.string().min(1),
+	task: z.object({
+		type: z.string().min(1),
+		description: z.string().default(''),
+		parameters: z.record(z.any()).default({}),
+	}),
+	proof: messageProofSchema
+		.optional()
+		.describe('Required when fromAgent has a signer: its signature over a `delegation` message to toAgent with payload `{ task }`'),
+});
+
+export const updateDelegationSchema = z.object({
+	status: z.enum(['pending', 'in-progress', 'completed', 'failed']),
+	result: z.any().optional(),
+	error: z.string().optional(),
+	timestamp: z.number().int().positive(),
+	nonce: z.string().min(1),
+	signature: signatureSchema,
+});
+
+export const retryPolicySchema = z.object({
+	maxAttempts: z.number().int().min(1).max(10).optional(),
+	backoffMs: z.number().int().min(0).optional(),
+});
+
+export const workflowConditionSchema: z.ZodType<WorkflowCondition> = z.lazy(() =>
+	z.union([
+		z.object({
+			ref: z.string().min(1),
+			op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'exists', 'truthy']),
+			value: z.any().optional(),
+		}),
+		z.object({ all: z.array(workflowConditionSchema).min(1) }),
+		z.object({ any: z.array(workflowConditionSchema).min(1) }),
+		z.object({ not: workflowConditionSchema }),
+	])
+);
+
+export const composeWorkflowSchema = z.object({
+	name: z.string().min(1),
+	input: z.record(z.any()).optional(),
+	defaults: z
+		.object({
+			timeoutMs: z.number().int().positive().optional(),
+			retry: retryPolicySchema.optional(),
+		})
+		.optional(),
+	steps: z
+		.array(
+			z.object({
+				id: z.string().min(1).optional(),
+				agentCapability: z.string().min(1),
+				task: z.any(),
+				dependsOn: z.array(z.string().min(1)).optional(),
+				join: z.enum(['all', 'any']).optional(),
+				when: workflowConditionSchema.optional(),
+				timeoutMs: z.number().int().positive().optional(),
+				retry: retryPolicySchema.optional(),
+			})
+		)
+		.min(1),
+});
+
+export const workflowStatusSchema = z.enum(['running', 'completed', 'failed']);
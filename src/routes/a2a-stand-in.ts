@@ -0,0 +1,85 @@
+/**
+ * A2A Stand-in Agent
+ * Minimal local Agent2Agent agent for testing card import and JSON-RPC clients.
+ * Completes every task immediately by echoing its parts back as an artifact.
+ */
+
+import { Hono } from 'hono';
+import {
+	A2A_PROTOCOL_VERSION,
+	JSON_RPC_ERRORS,
+	a2aMessageSchema,
+	type A2APart,
+	type A2ATask,
+	type AgentCard,
+} from '../services/a2a-protocol';
+
+/**
+ * Create the stand-in agent, serving its card at `<basePath>/.well-known/agent.json`
+ * and JSON-RPC at `<basePath>/jsonrpc`
+ */
+export function createStandInAgent(basePath: string) {
+	const app = new Hono().basePath(basePath);
+	const tasks = new Map<string, A2ATask>();
+
+	app.get('/.well-known/agent.json', (c) => {
+		const card: AgentCard = {
+			protocolVersion: A2A_PROTOCOL_VERSION,
+			name: 'Stand-in Echo Agent',
+			description: 'Local test agent that echoes every task back',
+			url: `${new URL(c.req.url).origin}${basePath}/jsonrpc`,
+			preferredTransport: 'JSONRPC',
+			version: '1.0.0',
+			capabilities: { streaming: false, pushNotifications: false, stateTransitionHistory: false },
+			defaultInputModes: ['text/plain', 'application/json'],
+			defaultOutputModes: ['application/json'],
+			skills: [
+				{
+					id: 'echo',
+					name: 'Echo',
+					description: 'Returns the message parts it was sent',
+					tags: ['base', 'test'],
+				},
+			],
+		};
+		return c.json(card);
+	});
+
+	app.post('/jsonrpc', async (c) => {
+		const request = await c.req.json().catch(() => undefined);
+		const id = request?.id ?? null;
+		const fail = (code: number, message: string) => c.json({ jsonrpc: '2.0', id, error: { code, message } });
+
+		switch (request?.method) {
+			case 'message/send':
+			case 'tasks/send': {
+				const message = a2aMessageSchema.safeParse(request.params?.message);
+				if (!message.success) return fail(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params');
+
+				const taskId = crypto.randomUUID();
+				const task: A2ATask = {
+					kind: 'task',
+					id: taskId,
+					contextId: message.data.contextId ?? crypto.randomUUID(),
+					status: { state: 'completed', timestamp: new Date().toISOString() },
+					artifacts: [{ artifactId: `${taskId}-echo`, name: 'echo', parts: message.data.parts as A2APart[] }],
+				};
+				tasks.set(taskId, task);
+				return c.json({ jsonrpc: '2.0', id, result: task });
+			}
+
+			case 'tasks/get':
+			case 'tasks/cancel': {
+				const task = tasks.get(request.params?.id);
+				if (!task) return fail(JSON_RPC_ERRORS.TASK_NOT_FOUND, `Task not found: ${request.params?.id}`);
+				if (request.method === 'tasks/cancel') return fail(JSON_RPC_ERRORS.TASK_NOT_CANCELABLE, 'Task already completed');
+				return c.json({ jsonrpc: '2.0', id, result: task });
+			}
+
+			default:
+				return fail(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${request?.method}`);
+		}
+	});
+
+	return app;
+}
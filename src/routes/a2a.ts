@@ -0,0 +1,254 @@
+/**
+ * A2A REST API
+ * HTTP routes for agent registration, discovery, messaging and delegation
+ */
+
+import { Hono } from 'hono';
+import { AgentCoordinatorService, CoordinatorError } from '../services/agent-coordinator';
+import { agentQuerySchema } from '../services/agent-query';
+import { JSON_RPC_ERRORS, buildAgentCard } from '../services/a2a-protocol';
+import { bearerToken, tokenMatches } from '../services/access-tokens';
+import { handleJsonRpc } from './a2a-jsonrpc';
+import {
+	acknowledgeMessagesSchema,
+	composeWorkflowSchema,
+	delegateTaskSchema,
+	discoverAgentsSchema,
+	heartbeatSchema,
+	importAgentSchema,
+	messageProofSchema,
+	registerAgentSchema,
+	sendMessageSchema,
+	updateDelegationSchema,
+	workflowStatusSchema,
+} from './a2a-schemas';
+import { errorResponse, parseBody, STATUS_BY_CODE } from './route-utils';
+
+export interface A2ARouteOptions {
+	/** Bearer token for operator routes (dead letters). Those routes are disabled while unset. */
+	operatorToken?: string;
+}
+
+/**
+ * Create the A2A router around a coordinator instance
+ */
+export function createA2ARoutes(coordinator: AgentCoordinatorService, options: A2ARouteOptions = {}) {
+	const routes = new Hono();
+
+	routes.onError((error, c) => {
+		if (error instanceof CoordinatorError) {
+			return errorResponse(c, STATUS_BY_CODE[error.code], error.code, error.message);
+		}
+
+		console.error('A2A request failed', error);
+		return errorResponse(c, 500, 'INTERNAL_ERROR', error.message);
+	});
+
+	routes.notFound((c) => errorResponse(c, 404, 'NOT_FOUND', `Route not found: ${c.req.method} ${c.req.path}`));
+
+	// Register an agent
+	routes.post('/a2a/agents', async (c) => {
+		const body = await parseBody(c, registerAgentSchema);
+		if ('response' in body) return body.response;
+
+		const { proof, ...registration } = body.data;
+		const agent = await coordinator.registerAgent(registration, proof);
+		return c.json({ agent }, 201);
+	});
+
+	// Register an agent from its A2A agent card
+	routes.post('/a2a/agents/import', async (c) => {
+		const body = await parseBody(c, importAgentSchema);
+		if ('response' in body) return body.response;
+
+		const agent = await coordinator.importAgent(body.data.cardUrl, body.data.id);
+		return c.json({ agent }, 201);
+	});
+
+	// List all agents
+	routes.get('/a2a/agents', async (c) => {
+		const agents = await coordinator.listAgents();
+		return c.json({ agents });
+	});
+
+	// Discover agents by capability
+	routes.post('/a2a/agents/discover', async (c) => {
+		const body = await parseBody(c, discoverAgentsSchema);
+		if ('response' in body) return body.response;
+
+		const agents = await coordinator.discoverAgents(body.data.capability);
+		return c.json({ agents });
+	});
+
+	// Search agents by chains, protocols, operations, reputation and text
+	routes.post('/a2a/agents/search', async (c) => {
+		const body = await parseBody(c, agentQuerySchema);
+		if ('response' in body) return body.response;
+
+		return c.json(await coordinator.searchAgents(body.data));
+	});
+
+	// Refresh an agent's liveness
+	routes.post('/a2a/agents/:agentId/heartbeat', async (c) => {
+		const body = await parseBody(c, heartbeatSchema);
+		if ('response' in body) return body.response;
+
+		const agent = await coordinator.heartbeat(c.req.param('agentId'), body.data);
+		return c.json({ agent });
+	});
+
+	// Get an agent's reputation, overall and per capability
+	routes.get('/a2a/agents/:agentId/reputation', async (c) => {
+		const reputation = await coordinator.getReputation(c.req.param('agentId'));
+		return c.json({ reputation });
+	});
+
+	// Send a message to an agent
+	routes.post('/a2a/messages/:agentId', async (c) => {
+		const body = await parseBody(c, sendMessageSchema);
+		if ('response' in body) return body.response;
+
+		await coordinator.sendMessage({ ...body.data, payload: body.data.payload ?? null, to: c.req.param('agentId') });
+		return c.json({ queued: true }, 202);
+	});
+
+	// Poll queued messages for an agent (redelivered unless acknowledged), signed by the agent in X-A2A-* headers
+	routes.get('/a2a/messages/:agentId', async (c) => {
+		const proof = messageProofSchema.safeParse({
+			timestamp: Number(c.req.header('X-A2A-Timestamp')),
+			nonce: c.req.header('X-A2A-Nonce'),
+			signature: c.req.header('X-A2A-Signature'),
+		});
+		if (!proof.success) {
+			return errorResponse(c, 401, 'UNAUTHORIZED', 'Polling must be signed: send X-A2A-Timestamp, X-A2A-Nonce and X-A2A-Signature');
+		}
+
+		const messages = await coordinator.receiveMessages(c.req.param('agentId'), proof.data);
+		return c.json({ messages });
+	});
+
+	// Acknowledge polled messages
+	routes.post('/a2a/messages/:agentId/ack', async (c) => {
+		const body = await parseBody(c, acknowledgeMessagesSchema);
+		if ('response' in body) return body.response;
+
+		const { ids, ...proof } = body.data;
+		const acknowledged = await coordinator.acknowledgeMessages(c.req.param('agentId'), ids, proof);
+		return c.json({ acknowledged });
+	});
+
+	// Dead-letter routes are for operators only
+	routes.use('/a2a/dead-letters/*', async (c, next) => {
+		if (!options.operatorToken) {
+			return errorResponse(c, 403, 'FORBIDDEN', 'Dead-letter routes are disabled: A2A_OPERATOR_TOKEN is not set');
+		}
+		if (!(await tokenMatches(bearerToken(c.req.header('Authorization')), options.operatorToken))) {
+			return errorResponse(c, 401, 'UNAUTHORIZED', 'Dead-letter routes require the operator token as a Bearer token');
+		}
+		await next();
+	});
+
+	// Inspect messages that exhausted their delivery attempts
+	routes.get('/a2a/dead-letters', async (c) => {
+		const messages = await coordinator.listDeadLetters(c.req.query('agentId'));
+		return c.json({ messages });
+	});
+
+	// Requeue a dead-lettered message
+	routes.post('/a2a/dead-letters/:id/retry', async (c) => {
+		const id = Number(c.req.param('id'));
+		if (!Number.isInteger(id) || id <= 0) {
+			return errorResponse(c, 400, 'VALIDATION_ERROR', `Invalid message id: ${c.req.param('id')}`);
+		}
+
+		const message = await coordinator.retryDeadLetter(id);
+		return c.json({ message });
+	});
+
+	// Delegate a task
+	routes.post('/a2a/delegations', async (c) => {
+		const body = await parseBody(c, delegateTaskSchema);
+		if ('response' in body) return body.response;
+
+		const { proof, ...request } = body.data;
+		const delegation = await coordinator.delegateTask(request, proof);
+		return c.json({ delegation }, 201);
+	});
+
+	// Get delegation status
+	routes.get('/a2a/delegations/:taskId', async (c) => {
+		const taskId = c.req.param('taskId');
+		const delegation = await coordinator.getDelegation(taskId);
+		if (!delegation) {
+			return errorResponse(c, 404, 'NOT_FOUND', `Delegation not found: ${taskId}`);
+		}
+
+		return c.json({ delegation });
+	});
+
+	// Update delegation status
+	routes.patch('/a2a/delegations/:taskId', async (c) => {
+		const body = await parseBody(c, updateDelegationSchema);
+		if ('response' in body) return body.response;
+
+		const taskId = c.req.param('taskId');
+		const { status, result, error, timestamp, nonce, signature } = body.data;
+		await coordinator.updateDelegation(taskId, status, result, error, { timestamp, nonce, signature });
+
+		return c.json({ delegation: await coordinator.getDelegation(taskId) });
+	});
+
+	// Agent2Agent protocol agent card, advertising the skills of registered agents
+	routes.get('/.well-known/agent.json', async (c) => {
+		return c.json(buildAgentCard(new URL(c.req.url).origin, await coordinator.listA2ASkills()));
+	});
+
+	// Agent2Agent protocol JSON-RPC (message/send, tasks/get, tasks/cancel)
+	routes.post('/a2a/jsonrpc', async (c) => {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' } });
+		}
+
+		return c.json(await handleJsonRpc(coordinator, body));
+	});
+
+	// Start a workflow run
+	routes.post('/a2a/workflows', async (c) => {
+		const body = await parseBody(c, composeWorkflowSchema);
+		if ('response' in body) return body.response;
+
+		const run = await coordinator.composeWorkflow({
+			...body.data,
+			steps: body.data.steps.map((step) => ({ ...step, task: step.task ?? {} })),
+		});
+		return c.json({ run }, 202);
+	});
+
+	// List workflow runs
+	routes.get('/a2a/workflows', async (c) => {
+		const status = c.req.query('status');
+		const parsed = workflowStatusSchema.optional().safeParse(status);
+		if (!parsed.success) {
+			return errorResponse(c, 400, 'VALIDATION_ERROR', `Invalid status filter: ${status}`);
+		}
+
+		const runs = await coordinator.listWorkflowRuns(parsed.data);
+		return c.json({ runs });
+	});
+
+	// Get a workflow run
+	routes.get('/a2a/workflows/:runId', async (c) => {
+		const runId = c.req.param('runId');
+		const run = await coordinator.getWorkflowRun(runId);
+		if (!run) {
+			return errorResponse(c, 404, 'NOT_FOUND', `Workflow run not found: ${runId}`);
+		}
+
+		return c.json({ run });
+	});
+
+	return routes;
+}
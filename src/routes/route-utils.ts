@@ -0,0 +1,47 @@
+/**
+ * Route Utilities
+ * Error envelope, status mapping and body validation shared by the HTTP routers
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { z } from 'zod';
+import type { CoordinatorErrorCode } from '../services/coordinator-errors';
+import type { WatchdogErrorCode } from '../services/position-watchdog';
+
+/**
+ * HTTP status for each tagged service error code
+ */
+export const STATUS_BY_CODE: Record<CoordinatorErrorCode | WatchdogErrorCode, ContentfulStatusCode> = {
+	NOT_FOUND: 404,
+	CONFLICT: 409,
+	INVALID: 400,
+	UNAUTHORIZED: 401,
+};
+
+/**
+ * Build the shared error envelope
+ */
+export function errorResponse(c: Context, status: ContentfulStatusCode, code: string, message: string, details?: unknown) {
+	return c.json({ error: { code, message, ...(details !== undefined ? { details } : {}) } }, status);
+}
+
+/**
+ * Parse and validate a JSON request body.
+ * Returns the parsed value, or an error response to return as-is.
+ */
+export async function parseBody<T extends z.ZodTypeAny>(c: Context, schema: T): Promise<{ data: z.infer<T> } | { response: Response }> {
+	let body: unknown;
+	try {
+		body = await c.req.json();
+	} catch {
+		return { response: errorResponse(c, 400, 'INVALID_JSON', 'Request body must be valid JSON') };
+	}
+
+	const parsed = schema.safeParse(body);
+	if (!parsed.success) {
+		return { response: errorResponse(c, 400, 'VALIDATION_ERROR', 'Invalid request body', parsed.error.flatten()) };
+	}
+
+	return { data: parsed.data };
+}
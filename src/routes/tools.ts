@@ -0,0 +1,36 @@
+/**
+ * Tool HTTP API
+ * One POST route per blockchain capability, taking the same input as the AI SDK and MCP tools
+ */
+
+import { Hono } from 'hono';
+import type { PublicClientFactory } from '../services/chains';
+import { toJsonSafe, type Capability } from '../tools/capability';
+import { errorResponse, parseBody } from './route-utils';
+
+/**
+ * Create the tool router: GET /api/tools lists the capabilities, POST /api/tools/<name> runs one
+ */
+export function createToolRoutes(capabilities: readonly Capability[], clientFor?: PublicClientFactory) {
+	const routes = new Hono();
+
+	routes.get('/api/tools', (c) =>
+		c.json({ tools: capabilities.map(({ name, description, readOnly }) => ({ name, description, readOnly, path: `/api/tools/${name}` })) })
+	);
+
+	for (const capability of capabilities) {
+		routes.post(`/api/tools/${capability.name}`, async (c) => {
+			const input = await parseBody(c, capability.input);
+			if ('response' in input) return input.response;
+
+			try {
+				return c.json(toJsonSafe(await capability.call(input.data, clientFor)));
+			} catch (error: any) {
+				console.error(`Tool ${capability.name} failed`, error);
+				return errorResponse(c, 500, 'TOOL_FAILED', error.message);
+			}
+		});
+	}
+
+	return routes;
+}
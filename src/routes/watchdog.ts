@@ -0,0 +1,74 @@
+/**
+ * Watchdog REST API
+ * HTTP routes for registering position watches and reading their alerts
+ */
+
+import { Hono, type Context } from 'hono';
+import { PositionWatchdogService, WatchdogError, registerWatchSchema } from '../services/position-watchdog';
+import { bearerToken } from '../services/access-tokens';
+import { errorResponse, parseBody, STATUS_BY_CODE } from './route-utils';
+
+/**
+ * Create the watchdog router around a service instance.
+ * Every route but registration needs the owner token returned at registration as a Bearer token.
+ */
+export function createWatchdogRoutes(watchdog: PositionWatchdogService) {
+	const routes = new Hono();
+	const ownerToken = (c: Context) => bearerToken(c.req.header('Authorization'));
+
+	routes.onError((error, c) => {
+		if (error instanceof WatchdogError) {
+			return errorResponse(c, STATUS_BY_CODE[error.code], error.code, error.message);
+		}
+
+		console.error('Watchdog request failed', error);
+		return errorResponse(c, 500, 'INTERNAL_ERROR', error.message);
+	});
+
+	routes.notFound((c) => errorResponse(c, 404, 'NOT_FOUND', `Route not found: ${c.req.method} ${c.req.path}`));
+
+	// Register a watch; the first check runs before responding. Send an owner token to add to its watches.
+	routes.post('/watchdog/watches', async (c) => {
+		const body = await parseBody(c, registerWatchSchema);
+		if ('response' in body) return body.response;
+
+		return c.json(await watchdog.registerWatch(body.data, ownerToken(c)), 201);
+	});
+
+	// List the owner's watches, optionally for one wallet
+	routes.get('/watchdog/watches', async (c) => {
+		const wallet = c.req.query('wallet');
+		if (wallet !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(wallet)) {
+			return errorResponse(c, 400, 'VALIDATION_ERROR', 'wallet must be a 20-byte hex address');
+		}
+
+		return c.json({ watches: await watchdog.listWatches(ownerToken(c), wallet) });
+	});
+
+	routes.get('/watchdog/watches/:id', async (c) => c.json({ watch: await watchdog.getWatch(c.req.param('id'), ownerToken(c)) }));
+
+	routes.delete('/watchdog/watches/:id', async (c) => {
+		await watchdog.deleteWatch(c.req.param('id'), ownerToken(c));
+		return c.body(null, 204);
+	});
+
+	// Check a watch immediately
+	routes.post('/watchdog/watches/:id/check', async (c) => c.json(await watchdog.checkWatch(c.req.param('id'), ownerToken(c))));
+
+	// Alerts for a chat session or a watch; pass the last seen alert id as `after` to poll for new ones
+	routes.get('/watchdog/alerts', async (c) => {
+		const sessionId = c.req.query('sessionId');
+		const watchId = c.req.query('watchId');
+		const after = Number(c.req.query('after') ?? 0);
+		if (sessionId === undefined && watchId === undefined) {
+			return errorResponse(c, 400, 'VALIDATION_ERROR', 'Provide a sessionId or a watchId');
+		}
+		if (!Number.isInteger(after) || after < 0) {
+			return errorResponse(c, 400, 'VALIDATION_ERROR', 'after must be a non-negative alert id');
+		}
+
+		return c.json({ alerts: await watchdog.listAlerts(ownerToken(c), { sessionId, watchId, after }) });
+	});
+
+	return routes;
+}
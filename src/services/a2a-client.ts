@@ -0,0 +1,87 @@
+/**
+ * A2A Client
+ * JSON-RPC calls to agents imported from an Agent2Agent card
+ */
+
+import { z } from 'zod';
+import { a2aMessageSchema, partSchema, type A2AMessage } from './a2a-protocol';
+import { DELIVERY_TIMEOUT_MS } from './message-delivery';
+import { isPublicHttpsUrl } from './public-url';
+
+/**
+ * A task as reported by a remote agent. States outside our own task model
+ * (`input-required`, `rejected`, ...) are kept as-is.
+ */
+export const remoteTaskSchema = z.object({
+	kind: z.literal('task').optional(),
+	id: z.string().min(1),
+	contextId: z.string().optional(),
+	status: z.object({
+		state: z.string().min(1),
+		message: a2aMessageSchema.optional(),
+	}),
+	artifacts: z.array(z.object({ parts: z.array(partSchema) })).optional(),
+});
+
+export type RemoteTask = z.infer<typeof remoteTaskSchema>;
+
+// message/send answers with a task, or with a message when the agent replies straight away
+const sendResultSchema = z.union([remoteTaskSchema, a2aMessageSchema.extend({ kind: z.literal('message') })]);
+
+/**
+ * A JSON-RPC error returned by the remote agent (`code` set) or a transport failure
+ */
+export class A2AClientError extends Error {
+	constructor(
+		message: string,
+		public code?: number
+	) {
+		super(message);
+		this.name = 'A2AClientError';
+	}
+}
+
+/**
+ * The JSON-RPC methods the coordinator calls on card agents
+ */
+export interface A2AClient {
+	sendMessage(endpoint: string, message: A2AMessage, metadata?: Record<string, any>): Promise<RemoteTask | A2AMessage>;
+	getTask(endpoint: string, id: string): Promise<RemoteTask>;
+	cancelTask(endpoint: string, id: string): Promise<RemoteTask>;
+}
+
+async function call<T extends z.ZodTypeAny>(endpoint: string, method: string, params: unknown, schema: T): Promise<z.infer<T>> {
+	if (!isPublicHttpsUrl(endpoint)) {
+		throw new A2AClientError(`Refusing to call a non-public endpoint: ${endpoint}`);
+	}
+
+	const response = await fetch(endpoint, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+		body: JSON.stringify({ jsonrpc: '2.0', id: crypto.randomUUID(), method, params }),
+		signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new A2AClientError(`${method} failed with status ${response.status}`);
+	}
+
+	const body: any = await response.json().catch(() => undefined);
+	if (body?.error) {
+		throw new A2AClientError(`${method} failed: ${body.error.message ?? 'unknown error'}`, body.error.code);
+	}
+
+	const parsed = schema.safeParse(body?.result);
+	if (!parsed.success) {
+		throw new A2AClientError(`${method} returned an unexpected result`);
+	}
+	return parsed.data;
+}
+
+/**
+ * A2A client over HTTP JSON-RPC
+ */
+export const jsonRpcClient: A2AClient = {
+	sendMessage: (endpoint, message, metadata) => call(endpoint, 'message/send', { message, ...(metadata ? { metadata } : {}) }, sendResultSchema),
+	getTask: (endpoint, id) => call(endpoint, 'tasks/get', { id }, remoteTaskSchema),
+	cancelTask: (endpoint, id) => call(endpoint, 'tasks/cancel', { id }, remoteTaskSchema),
+};
@@ -0,0 +1,318 @@
+/**
+ * Agent2Agent (A2A) Protocol
+ * Agent card, JSON-RPC task shapes and their mapping onto coordinator delegations
+ */
+
+import { z } from 'zod';
+import type { AgentCapability, AgentRegistration, RegisteredAgent, TaskDelegation } from './agent-coordinator';
+import type { RemoteTask } from './a2a-client';
+
+export const A2A_PROTOCOL_VERSION = '0.3.0';
+
+/**
+ * Delegating agent id used for tasks submitted by external A2A clients
+ */
+export const A2A_CLIENT_AGENT_ID = 'a2a-client';
+
+/**
+ * Skill used when a client does not name one in `metadata.skillId`
+ */
+export const DEFAULT_A2A_SKILL = 'optimize-yield';
+
+// Card tags that name chains; other tags are indexed as protocols
+const CHAIN_TAGS = ['base', 'mainnet', 'ethereum', 'arbitrum', 'optimism', 'polygon'];
+
+export const JSON_RPC_ERRORS = {
+	PARSE_ERROR: -32700,
+	INVALID_REQUEST: -32600,
+	METHOD_NOT_FOUND: -32601,
+	INVALID_PARAMS: -32602,
+	INTERNAL_ERROR: -32603,
+	TASK_NOT_FOUND: -32001,
+	TASK_NOT_CANCELABLE: -32002,
+	UNSUPPORTED_OPERATION: -32004,
+} as const;
+
+const skillSchema = z.object({
+	id: z.string().min(1),
+	name: z.string().min(1),
+	description: z.string().default(''),
+	tags: z.array(z.string()).default([]),
+	examples: z.array(z.string()).optional(),
+	inputModes: z.array(z.string()).optional(),
+	outputModes: z.array(z.string()).optional(),
+});
+
+export const agentCardSchema = z.object({
+	protocolVersion: z.string().optional(),
+	name: z.string().min(1),
+	description: z.string().default(''),
+	url: z.string().url(),
+	preferredTransport: z.string().optional(),
+	version: z.string().optional(),
+	provider: z.object({ organization: z.string(), url: z.string().optional() }).optional(),
+	capabilities: z
+		.object({
+			streaming: z.boolean().optional(),
+			pushNotifications: z.boolean().optional(),
+			stateTransitionHistory: z.boolean().optional(),
+		})
+		.default({}),
+	defaultInputModes: z.array(z.string()).default([]),
+	defaultOutputModes: z.array(z.string()).default([]),
+	skills: z.array(skillSchema).min(1),
+});
+
+export type AgentCard = z.infer<typeof agentCardSchema>;
+export type AgentSkill = z.infer<typeof skillSchema>;
+
+export const partSchema = z.union([
+	z.object({ kind: z.literal('text'), text: z.string(), metadata: z.record(z.any()).optional() }),
+	z.object({ kind: z.literal('data'), data: z.record(z.any()), metadata: z.record(z.any()).optional() }),
+	z.object({ kind: z.literal('file'), file: z.record(z.any()), metadata: z.record(z.any()).optional() }),
+]);
+
+export type A2APart = z.infer<typeof partSchema>;
+
+export const a2aMessageSchema = z.object({
+	kind: z.literal('message').optional(),
+	messageId: z.string().min(1),
+	role: z.enum(['user', 'agent']),
+	parts: z.array(partSchema).min(1),
+	taskId: z.string().optional(),
+	contextId: z.string().optional(),
+	metadata: z.record(z.any()).optional(),
+});
+
+export type A2AMessage = z.infer<typeof a2aMessageSchema>;
+
+export const messageSendParamsSchema = z.object({
+	message: a2aMessageSchema,
+	metadata: z.record(z.any()).optional(),
+});
+
+export const taskQueryParamsSchema = z.object({
+	id: z.string().min(1),
+	historyLength: z.number().int().min(0).optional(),
+	metadata: z.record(z.any()).optional(),
+});
+
+export type A2ATaskState = 'submitted' | 'working' | 'completed' | 'failed' | 'canceled';
+
+export interface A2ATask {
+	kind: 'task';
+	id: string;
+	contextId: string;
+	status: {
+		state: A2ATaskState;
+		timestamp: string;
+		message?: A2AMessage;
+	};
+	artifacts?: Array<{ artifactId: string; name?: string; parts: A2APart[] }>;
+	metadata?: Record<string, any>;
+}
+
+const TASK_STATES: Record<TaskDelegation['status'], A2ATaskState> = {
+	pending: 'submitted',
+	'in-progress': 'working',
+	completed: 'completed',
+	failed: 'failed',
+	canceled: 'canceled',
+};
+
+/**
+ * Skills the coordinator can route: one per operation offered by a registered agent.
+ * Skill ids are the capability values tasks are routed on.
+ */
+export function skillsFromAgents(agents: RegisteredAgent[]): AgentSkill[] {
+	const skills = new Map<string, AgentSkill>();
+
+	for (const capability of agents.flatMap((agent) => agent.capabilities)) {
+		for (const operation of capability.operations) {
+			const skill = skills.get(operation) ?? { id: operation, name: capability.name, description: capability.description, tags: [] };
+			skill.tags = [...new Set([...skill.tags, ...capability.chains, ...capability.protocols])];
+			skills.set(operation, skill);
+		}
+	}
+
+	return [...skills.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Build the agent card served at `/.well-known/agent.json`. It advertises only what registered agents can serve.
+ */
+export function buildAgentCard(origin: string, skills: AgentSkill[]): AgentCard {
+	return {
+		protocolVersion: A2A_PROTOCOL_VERSION,
+		name: 'Base Yield Agent',
+		description: 'Routes DeFi tasks on Base to registered specialised agents; name a skill in `metadata.skillId`',
+		url: `${origin}/a2a/jsonrpc`,
+		preferredTransport: 'JSONRPC',
+		version: '1.0.0',
+		capabilities: { streaming: false, pushNotifications: false, stateTransitionHistory: false },
+		defaultInputModes: ['text/plain', 'application/json'],
+		defaultOutputModes: ['application/json'],
+		skills,
+	};
+}
+
+/**
+ * Join text parts and merge data parts
+ */
+function splitParts(parts: A2APart[]): { text: string; data: Record<string, any> } {
+	const text = parts
+		.filter((part): part is Extract<A2APart, { kind: 'text' }> => part.kind === 'text')
+		.map((part) => part.text)
+		.join('\n');
+	const data = parts
+		.filter((part): part is Extract<A2APart, { kind: 'data' }> => part.kind === 'data')
+		.reduce<Record<string, any>>((merged, part) => ({ ...merged, ...part.data }), {});
+
+	return { text, data };
+}
+
+/**
+ * Map an A2A message onto a delegation task: text parts form the description, data parts the parameters
+ */
+export function messageToTask(message: A2AMessage, skillId: string): TaskDelegation['task'] {
+	const { text, data } = splitParts(message.parts);
+	return { type: skillId, description: text, parameters: data };
+}
+
+/**
+ * Map a delegation onto the A2A message sent to a card agent: the description as a text part, the parameters as a data part
+ */
+export function delegationToMessage(delegation: TaskDelegation): A2AMessage {
+	const { description, parameters } = delegation.task;
+	const data = parameters !== null && typeof parameters === 'object' && !Array.isArray(parameters) ? parameters : { value: parameters ?? null };
+
+	return {
+		kind: 'message',
+		messageId: delegation.taskId,
+		role: 'user',
+		parts: [...(description ? [{ kind: 'text' as const, text: description }] : []), { kind: 'data', data }],
+		metadata: { skillId: delegation.task.type },
+	};
+}
+
+/**
+ * Collect message or artifact parts into a delegation result: data parts merged, text parts joined as `text`
+ */
+export function partsToResult(parts: A2APart[]): Record<string, any> {
+	const { text, data } = splitParts(parts);
+	return text ? { ...data, text } : data;
+}
+
+/**
+ * Map a card agent's task onto the delegation status it implies
+ */
+export function remoteTaskUpdate(task: RemoteTask): { status: TaskDelegation['status']; result?: any; error?: string } {
+	const statusText = task.status.message ? partsToResult(task.status.message.parts).text : undefined;
+
+	switch (task.status.state) {
+		case 'completed':
+			return { status: 'completed', result: partsToResult((task.artifacts ?? []).flatMap((artifact) => artifact.parts)) };
+		case 'failed':
+		case 'rejected':
+			return { status: 'failed', error: statusText ?? `Agent reported the task as ${task.status.state}` };
+		case 'canceled':
+			return { status: 'canceled' };
+		case 'input-required':
+		case 'auth-required':
+			// Delegations have no way to answer back
+			return { status: 'failed', error: `Agent needs more from the client (${task.status.state}): ${statusText ?? 'no details'}` };
+		default:
+			return { status: 'in-progress' };
+	}
+}
+
+/**
+ * Present a delegation as an A2A task
+ */
+export function delegationToTask(delegation: TaskDelegation): A2ATask {
+	const task: A2ATask = {
+		kind: 'task',
+		id: delegation.taskId,
+		contextId: delegation.contextId ?? delegation.taskId,
+		status: {
+			state: TASK_STATES[delegation.status],
+			timestamp: (delegation.updatedAt ?? delegation.createdAt).toISOString(),
+		},
+		metadata: { skillId: delegation.task.type, agentId: delegation.toAgent },
+	};
+
+	if (delegation.error) {
+		task.status.message = {
+			kind: 'message',
+			messageId: `${delegation.taskId}-status`,
+			role: 'agent',
+			parts: [{ kind: 'text', text: delegation.error }],
+			taskId: delegation.taskId,
+			contextId: task.contextId,
+		};
+	}
+
+	if (delegation.result !== undefined) {
+		const isObject = delegation.result !== null && typeof delegation.result === 'object' && !Array.isArray(delegation.result);
+		task.artifacts = [
+			{
+				artifactId: `${delegation.taskId}-result`,
+				name: 'result',
+				parts: [isObject ? { kind: 'data', data: delegation.result } : { kind: 'text', text: JSON.stringify(delegation.result) }],
+			},
+		];
+	}
+
+	return task;
+}
+
+/**
+ * Map an agent card onto a registration. Each skill becomes a capability offering the skill id as an operation;
+ * chain-name tags become chains and the remaining tags protocols.
+ */
+export function cardToRegistration(card: AgentCard, id: string): AgentRegistration {
+	const capabilities: AgentCapability[] = card.skills.map((skill) => ({
+		id: skill.id,
+		name: skill.name,
+		description: skill.description,
+		chains: skill.tags.filter((tag) => CHAIN_TAGS.includes(tag.toLowerCase())).map((tag) => tag.toLowerCase()),
+		protocols: skill.tags.filter((tag) => !CHAIN_TAGS.includes(tag.toLowerCase())).map((tag) => tag.toLowerCase()),
+		operations: [skill.id],
+	}));
+
+	return {
+		id,
+		name: card.name,
+		endpoint: card.url,
+		capabilities,
+		// Card agents speak JSON-RPC, not our push format
+		delivery: 'a2a',
+	};
+}
+
+/**
+ * Default registry id for an imported agent: the card name as a slug
+ */
+export function agentIdFromCard(card: AgentCard): string {
+	return card.name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Fetch and validate an agent card
+ */
+export async function fetchAgentCard(cardUrl: string): Promise<AgentCard> {
+	const response = await fetch(cardUrl, { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(10 * 1000) });
+	if (!response.ok) {
+		throw new Error(`Agent card request failed with status ${response.status}`);
+	}
+
+	const parsed = agentCardSchema.safeParse(await response.json());
+	if (!parsed.success) {
+		throw new Error(`Invalid agent card: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+	}
+
+	return parsed.data;
+}
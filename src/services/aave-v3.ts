@@ -0,0 +1,358 @@
+/**
+ * Aave V3
+ * On-chain reserve reader: rates, supplies, oracle prices and risk parameters
+ */
+
+import { formatUnits, parseAbi, zeroAddress, type Address, type PublicClient } from 'viem';
+import type { ChainName } from './chains';
+import { rateToAPY, RAY, SECONDS_PER_YEAR, type TokenInfo } from './defi-math';
+import { matchesAsset } from './tokens';
+
+export const AAVE_V3_POOLS: Record<ChainName, Address> = {
+	base: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+	mainnet: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+	arbitrum: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+	optimism: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+	polygon: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+};
+
+export const aavePoolAbi = parseAbi([
+	'function getReservesList() view returns (address[])',
+	'function ADDRESSES_PROVIDER() view returns (address)',
+	'function getReserveData(address asset) view returns ((uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+]);
+
+const addressesProviderAbi = parseAbi(['function getPriceOracle() view returns (address)']);
+
+// Aave V3 markets price assets in USD with 8 decimals
+const oracleAbi = parseAbi(['function getAssetsPrices(address[] assets) view returns (uint256[])']);
+const ORACLE_DECIMALS = 8;
+
+const erc20Abi = parseAbi(['function symbol() view returns (string)', 'function totalSupply() view returns (uint256)']);
+
+/**
+ * Risk parameters packed into the reserve configuration bitmap.
+ * Percentages are fractions (0.8 = 80%); caps are whole tokens, 0 meaning uncapped.
+ */
+export interface AaveReserveConfiguration {
+	ltv: number;
+	liquidationThreshold: number;
+	/** Bonus paid to liquidators on top of the repaid debt, e.g. 0.05 */
+	liquidationBonus: number;
+	decimals: number;
+	active: boolean;
+	frozen: boolean;
+	borrowingEnabled: boolean;
+	paused: boolean;
+	reserveFactor: number;
+	borrowCap: number;
+	supplyCap: number;
+	/** E-mode category id, 0 when the asset is in no category */
+	eModeCategory: number;
+}
+
+export interface AaveReserve {
+	asset: TokenInfo;
+	aToken: Address;
+	variableDebtToken: Address;
+	stableDebtToken: Address;
+	supplyAPR: number;
+	supplyAPY: number;
+	borrowAPR: number;
+	borrowAPY: number;
+	/** Liquidity index in ray; grows with accrued supply interest */
+	liquidityIndex: bigint;
+	lastUpdateTimestamp: number;
+	totalSupplied: string;
+	totalBorrowed: string;
+	utilization: number;
+	priceUsd?: number;
+	configuration: AaveReserveConfiguration;
+}
+
+function bits(value: bigint, offset: number, width: number): number {
+	return Number((value >> BigInt(offset)) & ((1n << BigInt(width)) - 1n));
+}
+
+/**
+ * Decode the reserve configuration bitmap (see Aave's ReserveConfiguration library)
+ */
+export function decodeReserveConfiguration(configuration: bigint): AaveReserveConfiguration {
+	const liquidationBonus = bits(configuration, 32, 16);
+	return {
+		ltv: bits(configuration, 0, 16) / 10_000,
+		liquidationThreshold: bits(configuration, 16, 16) / 10_000,
+		liquidationBonus: liquidationBonus > 0 ? (liquidationBonus - 10_000) / 10_000 : 0,
+		decimals: bits(configuration, 48, 8),
+		active: bits(configuration, 56, 1) === 1,
+		frozen: bits(configuration, 57, 1) === 1,
+		borrowingEnabled: bits(configuration, 58, 1) === 1,
+		paused: bits(configuration, 60, 1) === 1,
+		reserveFactor: bits(configuration, 64, 16) / 10_000,
+		borrowCap: bits(configuration, 80, 36),
+		supplyCap: bits(configuration, 116, 36),
+		eModeCategory: bits(configuration, 168, 8),
+	};
+}
+
+/**
+ * Reserve assets listed on the chain's pool, with their symbols
+ */
+export async function listAaveAssets(client: PublicClient, chain: ChainName, blockNumber: bigint): Promise<Array<{ address: Address; symbol: string }>> {
+	const assets = await client.readContract({
+		address: AAVE_V3_POOLS[chain],
+		abi: aavePoolAbi,
+		functionName: 'getReservesList',
+		blockNumber,
+	});
+
+	return Promise.all(
+		assets.map(async (address) => ({
+			address,
+			symbol: await client
+				.readContract({ address, abi: erc20Abi, functionName: 'symbol', blockNumber })
+				.catch(() => address),
+		}))
+	);
+}
+
+/**
+ * Find a listed reserve by address or symbol ("ETH" also matches WETH)
+ */
+export async function findAaveAsset(
+	client: PublicClient,
+	chain: ChainName,
+	asset: string,
+	blockNumber: bigint
+): Promise<{ address: Address; symbol: string } | undefined> {
+	const assets = await listAaveAssets(client, chain, blockNumber);
+	return assets.find((candidate) => matchesAsset(candidate, asset));
+}
+
+/**
+ * Read reserves at a block. Borrows count variable and (legacy) stable debt. Prices are omitted when the oracle read fails.
+ */
+export async function readAaveReserves(
+	client: PublicClient,
+	chain: ChainName,
+	assets: Array<{ address: Address; symbol: string }>,
+	blockNumber: bigint
+): Promise<AaveReserve[]> {
+	const pool = AAVE_V3_POOLS[chain];
+
+	const prices = await readOraclePrices(client, pool, assets.map((asset) => asset.address), blockNumber).catch((error) => {
+		console.error('Aave oracle read failed', error);
+		return undefined;
+	});
+
+	return Promise.all(
+		assets.map(async ({ address, symbol }, index) => {
+			const reserve = await client.readContract({
+				address: pool,
+				abi: aavePoolAbi,
+				functionName: 'getReserveData',
+				args: [address],
+				blockNumber,
+			});
+
+			const totalSupply = (token: Address) =>
+				token === zeroAddress ? Promise.resolve(0n) : client.readContract({ address: token, abi: erc20Abi, functionName: 'totalSupply', blockNumber });
+			const [supplied, variableDebt, stableDebt] = await Promise.all([
+				totalSupply(reserve.aTokenAddress),
+				totalSupply(reserve.variableDebtTokenAddress),
+				totalSupply(reserve.stableDebtTokenAddress),
+			]);
+			const borrowed = variableDebt + stableDebt;
+
+			const configuration = decodeReserveConfiguration(reserve.configuration);
+			const supplyAPR = Number(reserve.currentLiquidityRate) / Number(RAY);
+			const borrowAPR = Number(reserve.currentVariableBorrowRate) / Number(RAY);
+
+			return {
+				asset: { address, symbol, decimals: configuration.decimals },
+				aToken: reserve.aTokenAddress,
+				variableDebtToken: reserve.variableDebtTokenAddress,
+				stableDebtToken: reserve.stableDebtTokenAddress,
+				supplyAPR,
+				supplyAPY: rateToAPY(supplyAPR / SECONDS_PER_YEAR),
+				borrowAPR,
+				borrowAPY: rateToAPY(borrowAPR / SECONDS_PER_YEAR),
+				liquidityIndex: reserve.liquidityIndex,
+				lastUpdateTimestamp: reserve.lastUpdateTimestamp,
+				totalSupplied: formatUnits(supplied, configuration.decimals),
+				totalBorrowed: formatUnits(borrowed, configuration.decimals),
+				utilization: supplied > 0n ? Number(borrowed) / Number(supplied) : 0,
+				priceUsd: prices ? Number(formatUnits(prices[index], ORACLE_DECIMALS)) : undefined,
+				configuration,
+			};
+		})
+	);
+}
+
+async function readOraclePrices(client: PublicClient, pool: Address, assets: Address[], blockNumber: bigint): Promise<readonly bigint[]> {
+	const provider = await client.readContract({ address: pool, abi: aavePoolAbi, functionName: 'ADDRESSES_PROVIDER', blockNumber });
+	const oracle = await client.readContract({ address: provider, abi: addressesProviderAbi, functionName: 'getPriceOracle', blockNumber });
+	return client.readContract({ address: oracle, abi: oracleAbi, functionName: 'getAssetsPrices', args: [assets], blockNumber });
+}
+
+/**
+ * A user's reserve: balances in whole tokens, values in USD
+ */
+export interface AavePositionAsset {
+	asset: TokenInfo;
+	supplied: string;
+	borrowed: string;
+	suppliedUsd: number;
+	borrowedUsd: number;
+	usedAsCollateral: boolean;
+	liquidationThreshold: number;
+	priceUsd: number;
+	/**
+	 * Price at which the position becomes liquidatable if this asset alone moves; undefined when it cannot
+	 * (not collateral, no debt, or debt in the same asset outweighs it)
+	 */
+	liquidationPriceUsd?: number;
+}
+
+/**
+ * Account totals from getUserAccountData
+ */
+export interface AaveAccountData {
+	totalCollateralUsd: number;
+	totalDebtUsd: number;
+	availableBorrowsUsd: number;
+	/** Weighted by collateral, as fractions */
+	ltv: number;
+	liquidationThreshold: number;
+	/** Below 1 the position can be liquidated; undefined without debt */
+	healthFactor?: number;
+}
+
+export interface AaveUserPosition extends AaveAccountData {
+	eModeCategory: number;
+	assets: AavePositionAsset[];
+}
+
+const userPoolAbi = parseAbi([
+	'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+	'function getUserConfiguration(address user) view returns ((uint256 data))',
+	'function getUserEMode(address user) view returns (uint256)',
+]);
+
+const balanceAbi = parseAbi(['function balanceOf(address owner) view returns (uint256)']);
+
+// getUserAccountData reports USD in the oracle's base currency unit and the health factor in wad
+const HEALTH_FACTOR_DECIMALS = 18;
+const NO_DEBT_HEALTH_FACTOR = 2n ** 256n - 1n;
+
+/**
+ * Read only a user's account totals and health factor: one call, cheap enough to poll
+ */
+export async function readAaveAccountData(client: PublicClient, chain: ChainName, user: Address, blockNumber?: bigint): Promise<AaveAccountData> {
+	const account = await client.readContract({
+		address: AAVE_V3_POOLS[chain],
+		abi: userPoolAbi,
+		functionName: 'getUserAccountData',
+		args: [user],
+		blockNumber,
+	});
+	return toAccountData(account);
+}
+
+/**
+ * Read a user's account totals and every reserve they supply or borrow.
+ * Liquidation prices use each reserve's own threshold, so they are approximate in e-mode.
+ */
+export async function readAaveUserPosition(client: PublicClient, chain: ChainName, user: Address, blockNumber: bigint): Promise<AaveUserPosition> {
+	const pool = AAVE_V3_POOLS[chain];
+	const [account, userConfiguration, eModeCategory, assets] = await Promise.all([
+		readAaveAccountData(client, chain, user, blockNumber),
+		client.readContract({ address: pool, abi: userPoolAbi, functionName: 'getUserConfiguration', args: [user], blockNumber }),
+		client.readContract({ address: pool, abi: userPoolAbi, functionName: 'getUserEMode', args: [user], blockNumber }),
+		listAaveAssets(client, chain, blockNumber),
+	]);
+
+	const reserves = await Promise.all(
+		assets.map(async ({ address, symbol }) => {
+			const reserve = await client.readContract({ address: pool, abi: aavePoolAbi, functionName: 'getReserveData', args: [address], blockNumber });
+			const balanceOf = (token: Address) =>
+				token === zeroAddress ? Promise.resolve(0n) : client.readContract({ address: token, abi: balanceAbi, functionName: 'balanceOf', args: [user], blockNumber });
+			const [supplied, variableDebt, stableDebt] = await Promise.all([
+				balanceOf(reserve.aTokenAddress),
+				balanceOf(reserve.variableDebtTokenAddress),
+				balanceOf(reserve.stableDebtTokenAddress),
+			]);
+			return { address, symbol, reserve, supplied, borrowed: variableDebt + stableDebt };
+		})
+	);
+
+	const held = reserves.filter((entry) => entry.supplied > 0n || entry.borrowed > 0n);
+	const prices = held.length > 0 ? await readOraclePrices(client, pool, held.map((entry) => entry.address), blockNumber) : [];
+
+	const positions = held.map((entry, index) => {
+		const configuration = decodeReserveConfiguration(entry.reserve.configuration);
+		const priceUsd = Number(formatUnits(prices[index], ORACLE_DECIMALS));
+		const supplied = formatUnits(entry.supplied, configuration.decimals);
+		const borrowed = formatUnits(entry.borrowed, configuration.decimals);
+		// Bit 2i + 1 of the user configuration marks reserve i as collateral
+		const usedAsCollateral = entry.supplied > 0n && ((userConfiguration.data >> BigInt(entry.reserve.id * 2 + 1)) & 1n) === 1n;
+
+		return {
+			asset: { address: entry.address, symbol: entry.symbol, decimals: configuration.decimals },
+			supplied,
+			borrowed,
+			suppliedUsd: Number(supplied) * priceUsd,
+			borrowedUsd: Number(borrowed) * priceUsd,
+			usedAsCollateral,
+			liquidationThreshold: configuration.liquidationThreshold,
+			priceUsd,
+		};
+	});
+
+	return {
+		...account,
+		eModeCategory: Number(eModeCategory),
+		assets: positions.map((position) => ({ ...position, liquidationPriceUsd: liquidationPrice(position, positions) })),
+	};
+}
+
+function toAccountData([totalCollateralBase, totalDebtBase, availableBorrowsBase, currentLiquidationThreshold, ltv, healthFactor]: readonly [
+	bigint,
+	bigint,
+	bigint,
+	bigint,
+	bigint,
+	bigint,
+]): AaveAccountData {
+	return {
+		totalCollateralUsd: Number(formatUnits(totalCollateralBase, ORACLE_DECIMALS)),
+		totalDebtUsd: Number(formatUnits(totalDebtBase, ORACLE_DECIMALS)),
+		availableBorrowsUsd: Number(formatUnits(availableBorrowsBase, ORACLE_DECIMALS)),
+		ltv: Number(ltv) / 10_000,
+		liquidationThreshold: Number(currentLiquidationThreshold) / 10_000,
+		healthFactor: healthFactor === NO_DEBT_HEALTH_FACTOR ? undefined : Number(formatUnits(healthFactor, HEALTH_FACTOR_DECIMALS)),
+	};
+}
+
+/**
+ * Solve for the price of one asset at which threshold-weighted collateral equals debt, all other prices fixed:
+ * p * (supplied * threshold - borrowed) = otherDebt - otherCollateral
+ */
+export function liquidationPrice(
+	position: Pick<AavePositionAsset, 'asset' | 'supplied' | 'borrowed' | 'liquidationThreshold' | 'usedAsCollateral'>,
+	positions: Array<Pick<AavePositionAsset, 'asset' | 'suppliedUsd' | 'borrowedUsd' | 'liquidationThreshold' | 'usedAsCollateral'>>
+): number | undefined {
+	if (!position.usedAsCollateral || position.liquidationThreshold === 0) return undefined;
+
+	let otherCollateral = 0;
+	let otherDebt = 0;
+	for (const other of positions) {
+		if (other.asset.address === position.asset.address) continue;
+		if (other.usedAsCollateral) otherCollateral += other.suppliedUsd * other.liquidationThreshold;
+		otherDebt += other.borrowedUsd;
+	}
+
+	const exposure = Number(position.supplied) * position.liquidationThreshold - Number(position.borrowed);
+	const price = (otherDebt - otherCollateral) / exposure;
+	return exposure > 0 && price > 0 ? price : undefined;
+}
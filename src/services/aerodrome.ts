@@ -0,0 +1,576 @@
+/**
+ * Aerodrome
+ * On-chain reader for Aerodrome on Base: stable and volatile pools, gauge emissions, the fees and bribes
+ * voters earn per epoch, and veAERO locks with their votes. Values are priced in AERO through the router.
+ */
+
+import { formatUnits, parseAbi, zeroAddress, type Address, type PublicClient } from 'viem';
+import { SECONDS_PER_YEAR, type TokenInfo } from './defi-math';
+import { readAll, readMany, type ContractRead } from './multicall';
+import { KNOWN_TOKENS } from './tokens';
+import { readPoolTokens, type PoolToken } from './uniswap-v3';
+
+export const AERODROME = {
+	poolFactory: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da',
+	router: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43',
+	voter: '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5',
+	votingEscrow: '0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4',
+	aero: KNOWN_TOKENS.base.AERO,
+} as const satisfies Record<string, Address>;
+
+/**
+ * Votes, emissions and rewards run in weekly epochs starting Thursday 00:00 UTC
+ */
+export const EPOCH_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * veAERO NFTs read per wallet
+ */
+export const MAX_LOCKS = 50;
+
+/**
+ * Reward tokens read per fee or bribe contract; anyone can add bribe tokens
+ */
+export const MAX_REWARD_TOKENS = 20;
+
+const poolAbi = parseAbi([
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function stable() view returns (bool)',
+	'function symbol() view returns (string)',
+	'function totalSupply() view returns (uint256)',
+	'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+	'function getAmountOut(uint256 amountIn, address tokenIn) view returns (uint256)',
+]);
+
+const factoryAbi = parseAbi([
+	'function getPool(address tokenA, address tokenB, bool stable) view returns (address)',
+	'function getFee(address pool, bool stable) view returns (uint256)',
+]);
+
+const routerAbi = parseAbi([
+	'struct Route { address from; address to; bool stable; address factory; }',
+	'function getAmountsOut(uint256 amountIn, Route[] routes) view returns (uint256[] amounts)',
+]);
+
+const voterAbi = parseAbi([
+	'function gauges(address pool) view returns (address)',
+	'function isAlive(address gauge) view returns (bool)',
+	'function gaugeToFees(address gauge) view returns (address)',
+	'function gaugeToBribe(address gauge) view returns (address)',
+	'function weights(address pool) view returns (uint256)',
+	'function totalWeight() view returns (uint256)',
+	'function maxVotingNum() view returns (uint256)',
+	'function votes(uint256 tokenId, address pool) view returns (uint256)',
+	'function usedWeights(uint256 tokenId) view returns (uint256)',
+	'function lastVoted(uint256 tokenId) view returns (uint256)',
+	'function poolVote(uint256 tokenId, uint256 index) view returns (address)',
+]);
+
+const gaugeAbi = parseAbi([
+	'function rewardRate() view returns (uint256)',
+	'function periodFinish() view returns (uint256)',
+	'function totalSupply() view returns (uint256)',
+]);
+
+const votingRewardAbi = parseAbi([
+	'function rewardsListLength() view returns (uint256)',
+	'function rewards(uint256 index) view returns (address)',
+	'function tokenRewardsPerEpoch(address token, uint256 epochStart) view returns (uint256)',
+]);
+
+const votingEscrowAbi = parseAbi([
+	'struct LockedBalance { int128 amount; uint256 end; bool isPermanent; }',
+	'function balanceOf(address owner) view returns (uint256)',
+	'function ownerToNFTokenIdList(address owner, uint256 index) view returns (uint256)',
+	'function locked(uint256 tokenId) view returns (LockedBalance)',
+	'function balanceOfNFT(uint256 tokenId) view returns (uint256)',
+]);
+
+/**
+ * One pool's state and what staking in it or voting for it earns. Amounts are in whole tokens;
+ * values in AERO are undefined when no route prices the pool's tokens.
+ */
+export interface AerodromePool {
+	pool: Address;
+	blockNumber: bigint;
+	timestamp: number;
+	symbol: string;
+	stable: boolean;
+	/** Swap fee as a fraction (0.003 = 0.3%) */
+	fee: number;
+	token0: PoolToken;
+	token1: PoolToken;
+	reserve0: number;
+	reserve1: number;
+	/** Price of one token0 in token1, and the inverse */
+	token0Price: number;
+	token1Price: number;
+	tvlInToken1: number;
+	tvlAero?: number;
+	/** Only when AERO itself can be priced against USDC */
+	tvlUsd?: number;
+	aeroUsd?: number;
+	gauge?: AerodromeGauge;
+	voting?: AerodromeVoting;
+}
+
+export interface AerodromeGauge {
+	address: Address;
+	/** Killed gauges get no emissions or votes */
+	alive: boolean;
+	/** AERO streamed to stakers per second; zero once the period has finished */
+	rewardRate: number;
+	periodFinish: number;
+	emissionsPerEpoch: number;
+	/** Share of the pool's LP tokens staked in the gauge; only those earn emissions */
+	stakedShare: number;
+	stakedTvlAero?: number;
+	/** Emissions annualized over the staked TVL, as a fraction */
+	emissionsAPR?: number;
+}
+
+/**
+ * What voters for a pool earn: trading fees and bribes, per epoch
+ */
+export interface AerodromeVoting {
+	epochStart: number;
+	epochEnd: number;
+	/** veAERO voting for the pool this epoch, and its share of all votes */
+	votes: number;
+	voteShare: number;
+	feesAddress: Address;
+	bribesAddress: Address;
+	fees: EpochReward[];
+	bribes: EpochReward[];
+	/** Fees and bribes of the last finished epoch, over the votes cast now, annualized as a fraction; counts veAERO as AERO */
+	votingAPR?: number;
+}
+
+/**
+ * One reward token's amounts for the running and the last finished epoch
+ */
+export interface EpochReward {
+	token: PoolToken;
+	currentEpoch: number;
+	previousEpoch: number;
+	/** AERO per token; undefined when no route prices it */
+	priceAero?: number;
+}
+
+/**
+ * A veAERO lock and where its votes went
+ */
+export interface VeAeroLock {
+	tokenId: bigint;
+	/** AERO locked */
+	amount: number;
+	/** Unix time the lock expires; undefined for permanent locks */
+	unlockTime?: number;
+	permanent: boolean;
+	votingPower: number;
+	/** Unix time of the last vote or reset; undefined if it never voted */
+	lastVoted?: number;
+	votedThisEpoch: boolean;
+	votes: Array<{ pool: Address; symbol: string; votes: number; share: number }>;
+}
+
+/**
+ * Start of the epoch a timestamp falls in
+ */
+export function epochStart(timestamp: number): number {
+	return timestamp - (timestamp % EPOCH_SECONDS);
+}
+
+/**
+ * The stable and volatile pools that exist for a token pair, with their reserve of tokenA to compare depth
+ */
+export async function findAerodromePools(
+	client: PublicClient,
+	tokenA: Address,
+	tokenB: Address,
+	stable?: boolean,
+	blockNumber?: bigint
+): Promise<Array<{ pool: Address; stable: boolean; reserveA: bigint }>> {
+	const kinds = stable === undefined ? [false, true] : [stable];
+	const pools = (await readAll(
+		client,
+		kinds.map((kind) => ({ address: AERODROME.poolFactory, abi: factoryAbi, functionName: 'getPool', args: [tokenA, tokenB, kind] })),
+		blockNumber
+	)) as Address[];
+
+	const existing = kinds.map((kind, index) => ({ pool: pools[index], stable: kind })).filter(({ pool }) => pool !== zeroAddress);
+	const state = await readAll(
+		client,
+		existing.flatMap(({ pool }) => [
+			{ address: pool, abi: poolAbi, functionName: 'token0' },
+			{ address: pool, abi: poolAbi, functionName: 'getReserves' },
+		]),
+		blockNumber
+	);
+
+	return existing.map((entry, index) => {
+		const [token0, [reserve0, reserve1]] = [state[index * 2] as Address, state[index * 2 + 1] as readonly [bigint, bigint, bigint]];
+		return { ...entry, reserveA: token0.toLowerCase() === tokenA.toLowerCase() ? reserve0 : reserve1 };
+	});
+}
+
+/**
+ * Read a pool with its gauge and voting rewards at the latest block
+ */
+export async function readAerodromePool(client: PublicClient, pool: Address): Promise<AerodromePool> {
+	const block = await client.getBlock();
+	const blockNumber = block.number;
+	const timestamp = Number(block.timestamp);
+	const start = epochStart(timestamp);
+
+	const [token0, token1, stable, symbol, supply, reserves, gauge, weight, totalWeight] = await readAll(
+		client,
+		[
+			{ address: pool, abi: poolAbi, functionName: 'token0' },
+			{ address: pool, abi: poolAbi, functionName: 'token1' },
+			{ address: pool, abi: poolAbi, functionName: 'stable' },
+			{ address: pool, abi: poolAbi, functionName: 'symbol' },
+			{ address: pool, abi: poolAbi, functionName: 'totalSupply' },
+			{ address: pool, abi: poolAbi, functionName: 'getReserves' },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'gauges', args: [pool] },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'weights', args: [pool] },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'totalWeight' },
+		],
+		blockNumber
+	);
+	const gaugeAddress = gauge as Address;
+	const hasGauge = gaugeAddress !== zeroAddress;
+
+	const [fee, ...gaugeState] = await readAll(
+		client,
+		[
+			{ address: AERODROME.poolFactory, abi: factoryAbi, functionName: 'getFee', args: [pool, stable] },
+			...(hasGauge
+				? [
+						{ address: gaugeAddress, abi: gaugeAbi, functionName: 'rewardRate' },
+						{ address: gaugeAddress, abi: gaugeAbi, functionName: 'periodFinish' },
+						{ address: gaugeAddress, abi: gaugeAbi, functionName: 'totalSupply' },
+						{ address: AERODROME.voter, abi: voterAbi, functionName: 'isAlive', args: [gaugeAddress] },
+						{ address: AERODROME.voter, abi: voterAbi, functionName: 'gaugeToFees', args: [gaugeAddress] },
+						{ address: AERODROME.voter, abi: voterAbi, functionName: 'gaugeToBribe', args: [gaugeAddress] },
+					]
+				: []),
+		],
+		blockNumber
+	);
+	const [rewardRate, periodFinish, staked, alive, feesAddress, bribesAddress] = gaugeState as [bigint, bigint, bigint, boolean, Address, Address];
+
+	const rewardTokens = hasGauge ? await readRewardTokens(client, [feesAddress, bribesAddress], blockNumber) : [[], []];
+	const rewardAddresses = [...new Set([...rewardTokens[0], ...rewardTokens[1]].map((token) => token.toLowerCase()))] as Address[];
+	const others = rewardAddresses.filter((token) => token !== (token0 as string).toLowerCase() && token !== (token1 as string).toLowerCase());
+
+	const [tokens, amounts] = await Promise.all([
+		readPoolTokens(client, pool, [token0 as Address, token1 as Address, ...others], blockNumber),
+		readEpochRewards(client, [feesAddress, bribesAddress], rewardTokens, start, blockNumber),
+	]);
+	const [first, second] = tokens;
+	const [reserve0, reserve1] = reserves as readonly [bigint, bigint, bigint];
+	const amount0 = Number(formatUnits(reserve0, first.token.decimals));
+	const amount1 = Number(formatUnits(reserve1, second.token.decimals));
+	const feeFraction = Number(fee) / 10_000;
+
+	const token0Price = stable
+		? await quoteStablePrice(client, pool, first.token, second.token, reserve0, feeFraction, blockNumber)
+		: amount0 > 0
+			? amount1 / amount0
+			: 0;
+	const tvlInToken1 = amount0 * token0Price + amount1;
+
+	const { prices, aeroUsd } = await quoteInAero(
+		client,
+		tokens.map(({ token }) => token),
+		blockNumber
+	);
+	// One priced side is enough: the pool's own price values the other
+	const direct0 = prices.get(first.token.address.toLowerCase());
+	const direct1 = prices.get(second.token.address.toLowerCase());
+	const price1 = direct1 ?? (direct0 !== undefined && token0Price > 0 ? direct0 / token0Price : undefined);
+	const price0 = direct0 ?? (price1 === undefined ? undefined : price1 * token0Price);
+	const priceOf = (address: Address) => {
+		const key = address.toLowerCase();
+		return key === first.token.address.toLowerCase() ? price0 : key === second.token.address.toLowerCase() ? price1 : prices.get(key);
+	};
+	const tvlAero = price1 === undefined ? undefined : tvlInToken1 * price1;
+	const tvlUsd = tvlAero === undefined || aeroUsd === undefined ? undefined : tvlAero * aeroUsd;
+
+	const result: AerodromePool = {
+		pool,
+		blockNumber,
+		timestamp,
+		symbol: String(symbol),
+		stable: stable as boolean,
+		fee: feeFraction,
+		token0: first.token,
+		token1: second.token,
+		reserve0: amount0,
+		reserve1: amount1,
+		token0Price,
+		token1Price: token0Price > 0 ? 1 / token0Price : 0,
+		tvlInToken1,
+		tvlAero,
+		tvlUsd,
+		aeroUsd,
+	};
+	if (!hasGauge) return result;
+
+	const lpSupply = supply as bigint;
+	const streaming = Number(periodFinish) > timestamp ? Number(formatUnits(rewardRate, 18)) : 0;
+	const stakedShare = lpSupply > 0n ? Number(staked) / Number(lpSupply) : 0;
+	const stakedTvlAero = tvlAero === undefined ? undefined : tvlAero * stakedShare;
+
+	const byAddress = new Map(tokens.map(({ token }) => [token.address.toLowerCase(), token]));
+	const toRewards = (list: Address[], raw: Array<[bigint, bigint]>): EpochReward[] =>
+		list.map((address, index) => {
+			const token = byAddress.get(address.toLowerCase())!;
+			return {
+				token,
+				currentEpoch: Number(formatUnits(raw[index][0], token.decimals)),
+				previousEpoch: Number(formatUnits(raw[index][1], token.decimals)),
+				priceAero: priceOf(address),
+			};
+		});
+	const fees = toRewards(rewardTokens[0], amounts[0]);
+	const bribes = toRewards(rewardTokens[1], amounts[1]);
+
+	const votes = Number(formatUnits(weight as bigint, 18));
+	const previousAero = [...fees, ...bribes].reduce((sum, reward) => sum + reward.previousEpoch * (reward.priceAero ?? 0), 0);
+
+	return {
+		...result,
+		gauge: {
+			address: gaugeAddress,
+			alive,
+			rewardRate: streaming,
+			periodFinish: Number(periodFinish),
+			emissionsPerEpoch: streaming * EPOCH_SECONDS,
+			stakedShare,
+			stakedTvlAero,
+			emissionsAPR: stakedTvlAero ? (streaming * SECONDS_PER_YEAR) / stakedTvlAero : undefined,
+		},
+		voting: {
+			epochStart: start,
+			epochEnd: start + EPOCH_SECONDS,
+			votes,
+			voteShare: (totalWeight as bigint) > 0n ? Number(weight) / Number(totalWeight) : 0,
+			feesAddress,
+			bribesAddress,
+			fees,
+			bribes,
+			votingAPR: votes > 0 ? (previousAero * SECONDS_PER_YEAR) / EPOCH_SECONDS / votes : undefined,
+		},
+	};
+}
+
+/**
+ * A wallet's veAERO locks with their voting power and the pools each one votes for
+ */
+export async function readVeAeroLocks(client: PublicClient, owner: Address): Promise<{ blockNumber: bigint; total: number; locks: VeAeroLock[] }> {
+	const block = await client.getBlock();
+	const blockNumber = block.number;
+	const start = epochStart(Number(block.timestamp));
+
+	const [count, maxVotingNum] = await readAll(
+		client,
+		[
+			{ address: AERODROME.votingEscrow, abi: votingEscrowAbi, functionName: 'balanceOf', args: [owner] },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'maxVotingNum' },
+		],
+		blockNumber
+	);
+	const indexes = Array.from({ length: Math.min(Number(count), MAX_LOCKS) }, (_, index) => BigInt(index));
+	const tokenIds = (await readAll(
+		client,
+		indexes.map((index) => ({ address: AERODROME.votingEscrow, abi: votingEscrowAbi, functionName: 'ownerToNFTokenIdList', args: [owner, index] })),
+		blockNumber
+	)) as bigint[];
+
+	const lockState = await readAll(
+		client,
+		tokenIds.flatMap((tokenId) => [
+			{ address: AERODROME.votingEscrow, abi: votingEscrowAbi, functionName: 'locked', args: [tokenId] },
+			{ address: AERODROME.votingEscrow, abi: votingEscrowAbi, functionName: 'balanceOfNFT', args: [tokenId] },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'usedWeights', args: [tokenId] },
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'lastVoted', args: [tokenId] },
+		]),
+		blockNumber
+	);
+
+	// poolVote has no length getter: read every slot up to the voting limit and stop at the first revert
+	const slots = Array.from({ length: Number(maxVotingNum) }, (_, index) => BigInt(index));
+	const voting = tokenIds.filter((_, index) => (lockState[index * 4 + 2] as bigint) > 0n);
+	const slotResults = await readMany(
+		client,
+		voting.flatMap((tokenId) => slots.map((slot) => ({ address: AERODROME.voter, abi: voterAbi, functionName: 'poolVote', args: [tokenId, slot] }))),
+		blockNumber
+	);
+	const votedPools = voting.map((_, index) => {
+		const results = slotResults.slice(index * slots.length, (index + 1) * slots.length);
+		const end = results.findIndex((result) => !result.success);
+		return results.slice(0, end === -1 ? undefined : end).map((result) => (result as { result: Address }).result);
+	});
+
+	const pairs = voting.flatMap((tokenId, index) => votedPools[index].map((pool) => ({ tokenId, pool })));
+	const voteState = await readAll(
+		client,
+		pairs.flatMap(({ tokenId, pool }) => [
+			{ address: AERODROME.voter, abi: voterAbi, functionName: 'votes', args: [tokenId, pool] },
+			{ address: pool, abi: poolAbi, functionName: 'symbol' },
+		]),
+		blockNumber
+	);
+
+	const locks = tokenIds.map((tokenId, index) => {
+		const [locked, power, used, lastVoted] = lockState.slice(index * 4, index * 4 + 4) as [
+			{ amount: bigint; end: bigint; isPermanent: boolean },
+			bigint,
+			bigint,
+			bigint,
+		];
+		const votes = pairs
+			.map((pair, pairIndex) => ({ ...pair, raw: voteState[pairIndex * 2] as bigint, symbol: String(voteState[pairIndex * 2 + 1]) }))
+			.filter((pair) => pair.tokenId === tokenId)
+			.map(({ pool, raw, symbol }) => ({ pool, symbol, votes: Number(formatUnits(raw, 18)), share: used > 0n ? Number(raw) / Number(used) : 0 }));
+
+		return {
+			tokenId,
+			amount: Number(formatUnits(locked.amount, 18)),
+			unlockTime: locked.isPermanent ? undefined : Number(locked.end),
+			permanent: locked.isPermanent,
+			votingPower: Number(formatUnits(power, 18)),
+			lastVoted: lastVoted > 0n ? Number(lastVoted) : undefined,
+			votedThisEpoch: Number(lastVoted) >= start,
+			votes,
+		};
+	});
+
+	return { blockNumber, total: Number(count), locks };
+}
+
+/**
+ * AERO per whole token for each token, quoted through the router for one token in. Tries direct pools and hops
+ * through WETH and USDC, and keeps the best quote; the quote includes swap fees and the price impact of one token.
+ * Also quotes AERO in USDC.
+ */
+export async function quoteInAero(
+	client: PublicClient,
+	tokens: TokenInfo[],
+	blockNumber?: bigint
+): Promise<{ prices: Map<string, number>; aeroUsd?: number }> {
+	const { aero } = AERODROME;
+	const { WETH, USDC } = KNOWN_TOKENS.base;
+	const hop = (from: Address, to: Address, stable = false) => ({ from, to, stable, factory: AERODROME.poolFactory });
+	const same = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase();
+
+	const routesFor = (token: Address) =>
+		[
+			[hop(token, aero)],
+			[hop(token, aero, true)],
+			...(same(token, WETH) ? [] : [[hop(token, WETH), hop(WETH, aero)]]),
+			...(same(token, USDC) ? [] : [[hop(token, USDC), hop(USDC, aero)], [hop(token, USDC, true), hop(USDC, aero)]]),
+		];
+	const priced = tokens.filter((token) => !same(token.address, aero));
+	const candidates = priced.map((token) => routesFor(token.address));
+	const usdRoutes = [[hop(aero, USDC)], [hop(aero, WETH), hop(WETH, USDC)]];
+
+	const quote = (amountIn: bigint, routes: ReturnType<typeof hop>[]): ContractRead => ({
+		address: AERODROME.router,
+		abi: routerAbi,
+		functionName: 'getAmountsOut',
+		args: [amountIn, routes],
+	});
+	const results = await readMany(
+		client,
+		[
+			...priced.flatMap((token, index) => candidates[index].map((routes) => quote(10n ** BigInt(token.decimals), routes))),
+			...usdRoutes.map((routes) => quote(10n ** 18n, routes)),
+		],
+		blockNumber
+	);
+	const best = (slice: typeof results) =>
+		slice.reduce((max, result) => {
+			if (!result.success) return max;
+			const amounts = result.result as readonly bigint[];
+			const out = amounts[amounts.length - 1];
+			return out > max ? out : max;
+		}, 0n);
+
+	const prices = new Map<string, number>();
+	for (const token of tokens) {
+		if (same(token.address, aero)) prices.set(token.address.toLowerCase(), 1);
+	}
+	let offset = 0;
+	priced.forEach((token, index) => {
+		const out = best(results.slice(offset, offset + candidates[index].length));
+		offset += candidates[index].length;
+		if (out > 0n) prices.set(token.address.toLowerCase(), Number(formatUnits(out, 18)));
+	});
+	const usd = best(results.slice(offset));
+
+	return { prices, aeroUsd: usd > 0n ? Number(formatUnits(usd, 6)) : undefined };
+}
+
+/**
+ * Reward token lists of the fee and bribe contracts, capped at MAX_REWARD_TOKENS each
+ */
+async function readRewardTokens(client: PublicClient, contracts: Address[], blockNumber: bigint): Promise<Address[][]> {
+	const lengths = (await readAll(
+		client,
+		contracts.map((address) => ({ address, abi: votingRewardAbi, functionName: 'rewardsListLength' })),
+		blockNumber
+	)) as bigint[];
+	const counts = lengths.map((length) => Math.min(Number(length), MAX_REWARD_TOKENS));
+
+	const tokens = (await readAll(
+		client,
+		contracts.flatMap((address, index) =>
+			Array.from({ length: counts[index] }, (_, slot) => ({ address, abi: votingRewardAbi, functionName: 'rewards', args: [BigInt(slot)] }))
+		),
+		blockNumber
+	)) as Address[];
+
+	let offset = 0;
+	return counts.map((count) => tokens.slice(offset, (offset += count)));
+}
+
+/**
+ * Raw amounts each contract holds for each of its tokens in the running and the previous epoch
+ */
+async function readEpochRewards(
+	client: PublicClient,
+	contracts: Address[],
+	tokens: Address[][],
+	start: number,
+	blockNumber: bigint
+): Promise<Array<Array<[bigint, bigint]>>> {
+	const epochs = [BigInt(start), BigInt(start - EPOCH_SECONDS)];
+	const amounts = (await readAll(
+		client,
+		contracts.flatMap((address, index) =>
+			tokens[index].flatMap((token) =>
+				epochs.map((epoch) => ({ address, abi: votingRewardAbi, functionName: 'tokenRewardsPerEpoch', args: [token, epoch] }))
+			)
+		),
+		blockNumber
+	)) as bigint[];
+
+	let offset = 0;
+	return tokens.map((list) => list.map(() => [amounts[offset++], amounts[offset++]] as [bigint, bigint]));
+}
+
+/**
+ * Marginal price on the stable curve: quote a sliver of the token0 reserve and add back the swap fee
+ */
+async function quoteStablePrice(client: PublicClient, pool: Address, token0: PoolToken, token1: PoolToken, reserve0: bigint, fee: number, blockNumber: bigint) {
+	// A ten-thousandth of the reserve: negligible price impact, enough digits to survive rounding
+	const amountIn = reserve0 / 10_000n;
+	if (amountIn === 0n) return 0;
+
+	const out = await client.readContract({ address: pool, abi: poolAbi, functionName: 'getAmountOut', args: [amountIn, token0.address], blockNumber });
+	return Number(formatUnits(out, token1.decimals)) / Number(formatUnits(amountIn, token0.decimals)) / (1 - fee);
+}
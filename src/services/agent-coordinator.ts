@@ -4,6 +4,76 @@
  */
 
 import { Service } from '@nullshot/agent';
+import type { Address } from 'viem';
+import { CoordinatorStore } from './coordinator-store';
+import { CoordinatorError } from './coordinator-errors';
+import {
+	DEFAULT_QUERY_LIMIT,
+	matchAgent,
+	queryTerms,
+	rankMatches,
+	type AgentMatch,
+	type AgentQuery,
+	type AgentQueryResult,
+} from './agent-query';
+import {
+	A2A_TASK_POLL_MS,
+	DELIVERY_BATCH_SIZE,
+	DELIVERY_TIMEOUT_MS,
+	MAX_DELIVERY_ATTEMPTS,
+	POLL_LEASE_MS,
+	deliveryBackoff,
+	httpTransport,
+	isPushDelivery,
+	type DeliveryMode,
+	type MessageTransport,
+	type QueuedMessage,
+} from './message-delivery';
+import {
+	A2A_CLIENT_AGENT_ID,
+	DEFAULT_A2A_SKILL,
+	JSON_RPC_ERRORS,
+	agentIdFromCard,
+	cardToRegistration,
+	delegationToMessage,
+	fetchAgentCard,
+	messageToTask,
+	partsToResult,
+	remoteTaskUpdate,
+	skillsFromAgents,
+	type A2AMessage,
+	type AgentSkill,
+} from './a2a-protocol';
+import { A2AClientError, jsonRpcClient, type A2AClient, type RemoteTask } from './a2a-client';
+import { isPublicHttpsUrl } from './public-url';
+import { MAX_MESSAGE_AGE_MS, resolveSignerAddress, verifyAgentMessage, type SignableMessage } from './message-signing';
+import {
+	NEUTRAL_REPUTATION,
+	applyOutcome,
+	clampReputation,
+	decayReputation,
+	outcomeDelta,
+	type CapabilityReputation,
+	type DelegationOutcome,
+} from './reputation';
+import { COORDINATOR_AGENT_ID, WorkflowEngine, type WorkflowDefinition, type WorkflowRun } from './workflow-engine';
+
+export { CoordinatorError, type CoordinatorErrorCode } from './coordinator-errors';
+
+/**
+ * Agents should heartbeat at least this often
+ */
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Agents not seen for this long are marked unhealthy and ranked last in discovery
+ */
+export const UNHEALTHY_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Unhealthy agents not seen for this long are removed from the registry
+ */
+export const EVICT_AFTER_MS = 24 * 60 * 60 * 1000;
 
 export interface AgentCapability {
 	id: string;
@@ -22,6 +92,9 @@ export interface RegisteredAgent {
 	registeredAt: Date;
 	lastSeen: Date;
 	reputation: number;
+	health: 'healthy' | 'unhealthy';
+	delivery: DeliveryMode;
+	signer?: Address;
 }
 
 export interface AgentMessage {
@@ -30,9 +103,31 @@ export interface AgentMessage {
 	type: 'request' | 'response' | 'event' | 'delegation';
 	payload: any;
 	timestamp: number;
+	nonce?: string;
 	signature?: string;
 }
 
+/**
+ * Message as submitted by an agent, signed with EIP-712 (see message-signing.ts)
+ */
+export type SignedAgentMessage = AgentMessage & { nonce: string; signature: string };
+
+/**
+ * Signature over a delegation update, made by the delegate as a `response` message
+ * to the delegating agent with payload `{ taskId, status, result, error }`
+ */
+export interface MessageProof {
+	timestamp: number;
+	nonce: string;
+	signature: string;
+}
+
+export type AgentRegistration = Omit<RegisteredAgent, 'registeredAt' | 'lastSeen' | 'reputation' | 'health' | 'delivery' | 'signer'> & {
+	signer?: string;
+	publicKey?: string;
+	delivery?: DeliveryMode;
+};
+
 export interface TaskDelegation {
 	taskId: string;
 	fromAgent: string;
@@ -42,9 +137,48 @@ export interface TaskDelegation {
 		description: string;
 		parameters: any;
 	};
-	status: 'pending' | 'in-progress' | 'completed' | 'failed';
+	status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'canceled';
 	result?: any;
 	error?: string;
+	/** A2A conversation the task belongs to, for tasks submitted over JSON-RPC */
+	contextId?: string;
+	/** Task id at the delegate, for agents reached over A2A JSON-RPC */
+	remoteTaskId?: string;
+	createdAt: Date;
+	updatedAt?: Date;
+}
+
+export type DelegationRequest = Omit<TaskDelegation, 'taskId' | 'status' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * An agent's overall reputation plus its per-capability track records, decayed to now
+ */
+export interface AgentReputation {
+	agentId: string;
+	reputation: number;
+	capabilities: CapabilityReputation[];
+}
+
+/**
+ * Whether a delegation reached a final status
+ */
+function isSettled(status: TaskDelegation['status']): boolean {
+	return status === 'completed' || status === 'failed' || status === 'canceled';
+}
+
+/**
+ * Whether a message maps onto A2A JSON-RPC: a delegation (`message/send`) or a cancellation (`tasks/cancel`)
+ */
+function isA2ADeliverable(message: AgentMessage): boolean {
+	return message.type === 'delegation' || (message.type === 'event' && message.payload?.status === 'canceled');
+}
+
+/**
+ * Wakes the coordinator for scheduled work (timeouts, retries). Backed by Durable Object alarms.
+ */
+export interface CoordinatorScheduler {
+	/** Ensure the coordinator runs scheduled work no later than `time` (epoch ms) */
+	scheduleAt(time: number): Promise<void>;
 }
 
 /**
@@ -53,99 +187,456 @@ export interface TaskDelegation {
  */
 export class AgentCoordinatorService implements Service {
 	name = '@nullshot/agent-coordinator';
-	private agents: Map<string, RegisteredAgent> = new Map();
-	private messages: Map<string, AgentMessage[]> = new Map();
-	private delegations: Map<string, TaskDelegation> = new Map();
+	private workflows: WorkflowEngine;
+
+	constructor(
+		private store: CoordinatorStore,
+		private scheduler: CoordinatorScheduler,
+		private transport: MessageTransport = httpTransport,
+		private a2aClient: A2AClient = jsonRpcClient
+	) {
+		this.workflows = new WorkflowEngine(
+			store,
+			{
+				discoverAgents: (capability) => this.discoverAgents(capability),
+				delegateTask: (delegation) => this.createDelegation(delegation),
+				expireDelegation: (taskId, error) => this.expireDelegation(taskId, error),
+				cancelDelegation: async (taskId) => {
+					const delegation = this.store.getDelegation(taskId);
+					if (delegation && !isSettled(delegation.status)) await this.cancelOpenDelegation(delegation);
+				},
+			},
+			scheduler
+		);
+	}
 
 	async initialize(): Promise<void> {
 		console.log('Initializing Agent Coordinator Service');
-		// In production, load from D1 or KV
+		this.store.migrate();
+
+		// Make sure the sweep runs even if no alarm was ever set for existing agents
+		const next = this.nextWakeTime();
+		if (next !== undefined) {
+			await this.scheduler.scheduleAt(next);
+		}
 	}
 
 	/**
-	 * Register an agent in the network
+	 * Register an agent in the network. Agents registered directly must name a signer; agents without one
+	 * can only be imported from their agent card. Re-registering an agent must be signed by its signer:
+	 * an `event` message to the coordinator with payload `{ type: 'register', registration }`.
 	 */
-	async registerAgent(agent: Omit<RegisteredAgent, 'registeredAt' | 'lastSeen' | 'reputation'>): Promise<RegisteredAgent> {
+	async registerAgent(registration: AgentRegistration, proof?: MessageProof): Promise<RegisteredAgent> {
+		const { signer: signerAddress, publicKey, delivery, ...agent } = registration;
+		if (!signerAddress && !publicKey) {
+			throw new CoordinatorError('INVALID', 'Registration needs a signer or publicKey; agents without one can only be imported from an agent card');
+		}
+
+		let signer: Address;
+		try {
+			signer = resolveSignerAddress({ address: signerAddress, publicKey });
+		} catch (error: any) {
+			throw new CoordinatorError('INVALID', error.message);
+		}
+
+		const existing = this.store.getAgent(agent.id);
+		if (existing && !existing.signer) {
+			throw new CoordinatorError('CONFLICT', `Agent ${agent.id} was imported from an agent card; re-import it from its card`);
+		}
+		if (existing) {
+			if (!proof) {
+				throw new CoordinatorError('UNAUTHORIZED', `Re-registering ${agent.id} must be signed by its registered signer`);
+			}
+
+			await this.verifyMessage(
+				{
+					from: agent.id,
+					to: COORDINATOR_AGENT_ID,
+					type: 'event',
+					payload: { type: 'register', registration },
+					timestamp: proof.timestamp,
+					nonce: proof.nonce,
+				},
+				proof.signature
+			);
+			if (existing.signer !== signer) {
+				throw new CoordinatorError('CONFLICT', `Agent ${agent.id} is already registered with a different signer`);
+			}
+		}
+
+		return this.saveRegistration({ ...agent, signer }, delivery, existing);
+	}
+
+	/**
+	 * Re-registration keeps the original registration time and earned reputation
+	 */
+	private async saveRegistration(
+		agent: Omit<RegisteredAgent, 'registeredAt' | 'lastSeen' | 'reputation' | 'health' | 'delivery'>,
+		delivery: DeliveryMode | undefined,
+		existing: RegisteredAgent | undefined
+	): Promise<RegisteredAgent> {
 		const registeredAgent: RegisteredAgent = {
 			...agent,
-			registeredAt: new Date(),
+			registeredAt: existing?.registeredAt ?? new Date(),
 			lastSeen: new Date(),
-			reputation: 100, // Start with neutral reputation
+			reputation: existing?.reputation ?? NEUTRAL_REPUTATION,
+			health: 'healthy',
+			delivery: delivery ?? existing?.delivery ?? 'push',
 		};
 
-		this.agents.set(agent.id, registeredAgent);
+		this.store.saveAgent(registeredAgent);
+		await this.scheduler.scheduleAt(registeredAgent.lastSeen.getTime() + UNHEALTHY_AFTER_MS);
 		console.log(`Agent registered: ${agent.name} (${agent.id})`);
 
 		return registeredAgent;
 	}
 
 	/**
-	 * Discover agents by capability
+	 * Record a signed heartbeat: an `event` message to the coordinator with payload `{ type: 'heartbeat' }`
+	 */
+	async heartbeat(agentId: string, proof: MessageProof): Promise<RegisteredAgent> {
+		if (!this.store.getAgent(agentId)) {
+			throw new CoordinatorError('NOT_FOUND', `Agent not found: ${agentId}`);
+		}
+
+		await this.verifyMessage(
+			{
+				from: agentId,
+				to: COORDINATOR_AGENT_ID,
+				type: 'event',
+				payload: { type: 'heartbeat' },
+				timestamp: proof.timestamp,
+				nonce: proof.nonce,
+			},
+			proof.signature
+		);
+
+		return this.store.getAgent(agentId)!;
+	}
+
+	/**
+	 * Discover agents by capability. Unhealthy agents are ranked after healthy ones.
 	 */
 	async discoverAgents(capability: string): Promise<RegisteredAgent[]> {
-		const matchingAgents: RegisteredAgent[] = [];
-
-		for (const agent of this.agents.values()) {
-			// Check if agent has the required capability
-			const hasCapability = agent.capabilities.some(
-				(cap) =>
-					cap.operations.includes(capability) ||
-					cap.protocols.includes(capability) ||
-					cap.chains.includes(capability)
-			);
+		// Indexed lookup over operations, protocols and chains, ranked by capability score
+		return this.store.findAgentsByCapability(capability);
+	}
 
-			if (hasCapability) {
-				matchingAgents.push(agent);
-			}
+	/**
+	 * Search agents with structured criteria. Every required chain, protocol and operation must be
+	 * offered by a single capability. Results are ranked and explain why each agent matched.
+	 */
+	async searchAgents(query: AgentQuery): Promise<AgentQueryResult> {
+		const now = Date.now();
+		const matches = this.store
+			.findAgentsWithTerms(queryTerms(query))
+			.map((agent) => matchAgent(agent, this.store.listCapabilityReputations(agent.id), query, now))
+			.filter((match): match is AgentMatch => match !== undefined);
+
+		const offset = query.offset ?? 0;
+		const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+
+		return {
+			matches: rankMatches(matches).slice(offset, offset + limit),
+			total: matches.length,
+			offset,
+			limit,
+		};
+	}
+
+	/**
+	 * Verify a signed message against the sender's registered signer,
+	 * rejecting stale timestamps and reused nonces
+	 */
+	private async verifyMessage(message: SignableMessage, signature: string): Promise<void> {
+		const sender = this.store.getAgent(message.from);
+		if (!sender?.signer) {
+			throw new CoordinatorError('UNAUTHORIZED', `Agent ${message.from} has no registered signer`);
 		}
 
-		// Sort by reputation
-		return matchingAgents.sort((a, b) => b.reputation - a.reputation);
+		if (Math.abs(Date.now() - message.timestamp) > MAX_MESSAGE_AGE_MS) {
+			throw new CoordinatorError('UNAUTHORIZED', 'Message timestamp outside the accepted window');
+		}
+
+		if (!(await verifyAgentMessage(message, signature, sender.signer))) {
+			throw new CoordinatorError('UNAUTHORIZED', `Invalid signature for agent ${message.from}`);
+		}
+
+		// Checked last so a forged message cannot burn a legitimate nonce
+		if (!this.store.consumeNonce(message.from, message.nonce, message.timestamp + MAX_MESSAGE_AGE_MS)) {
+			throw new CoordinatorError('UNAUTHORIZED', `Nonce already used: ${message.nonce}`);
+		}
+
+		// Any authenticated message proves the sender is alive
+		await this.touchAgent(message.from);
 	}
 
 	/**
-	 * Send message to another agent
+	 * Refresh an agent's lastSeen and wake up in time to notice if it goes quiet
 	 */
-	async sendMessage(message: Omit<AgentMessage, 'timestamp'>): Promise<void> {
-		const fullMessage: AgentMessage = {
-			...message,
-			timestamp: Date.now(),
-		};
+	private async touchAgent(agentId: string): Promise<void> {
+		const now = Date.now();
+		this.store.touchAgent(agentId, now);
+		await this.scheduler.scheduleAt(now + UNHEALTHY_AFTER_MS);
+	}
+
+	/**
+	 * Mark agents that stopped heartbeating as unhealthy, and evict those gone for too long
+	 */
+	private sweepAgents(now: number): void {
+		for (const agentId of this.store.markAgentsUnhealthy(now - UNHEALTHY_AFTER_MS)) {
+			console.log(`Agent unhealthy: ${agentId}`);
+		}
+
+		for (const agentId of this.store.evictAgents(now - EVICT_AFTER_MS)) {
+			console.log(`Agent evicted: ${agentId}`);
+		}
+	}
+
+	/**
+	 * Send a signed message to another agent
+	 */
+	async sendMessage(message: SignedAgentMessage): Promise<void> {
+		await this.verifyMessage(message, message.signature);
 
-		// Store message in recipient's queue
-		const recipientMessages = this.messages.get(message.to) || [];
-		recipientMessages.push(fullMessage);
-		this.messages.set(message.to, recipientMessages);
+		await this.enqueue(message);
+	}
+
+	/**
+	 * Queue a message originated by the coordinator itself (no signature)
+	 */
+	private async notify(message: Omit<AgentMessage, 'timestamp'>): Promise<void> {
+		await this.enqueue({ ...message, timestamp: Date.now() });
+	}
+
+	/**
+	 * Store a message in the recipient's queue and wake up to push it if the recipient takes pushes
+	 */
+	private async enqueue(message: AgentMessage): Promise<void> {
+		this.store.enqueueMessage(message);
+
+		if (isPushDelivery(this.store.getAgent(message.to)?.delivery)) {
+			await this.scheduler.scheduleAt(Date.now());
+		}
 
 		console.log(`Message sent from ${message.from} to ${message.to}`);
+	}
+
+	/**
+	 * Receive due messages for an agent (polling). Messages stay queued until acknowledged
+	 * and are handed out again if not acknowledged within the lease.
+	 * Signed by the agent as an `event` message to the coordinator with payload `{ type: 'poll' }`.
+	 */
+	async receiveMessages(agentId: string, proof: MessageProof): Promise<QueuedMessage[]> {
+		await this.verifyInboxRequest(agentId, { type: 'poll' }, proof);
+
+		const now = Date.now();
+		return this.store.leaseMessages(agentId, now, now + POLL_LEASE_MS, MAX_DELIVERY_ATTEMPTS);
+	}
+
+	/**
+	 * Acknowledge received messages so they are not delivered again. Returns the ids removed from the queue.
+	 * Signed by the agent as an `event` message to the coordinator with payload `{ type: 'ack', ids }`.
+	 */
+	async acknowledgeMessages(agentId: string, ids: number[], proof: MessageProof): Promise<number[]> {
+		await this.verifyInboxRequest(agentId, { type: 'ack', ids }, proof);
+
+		return this.store.acknowledgeMessages(agentId, ids);
+	}
+
+	/**
+	 * Check that a request on an agent's inbox was signed by the agent itself
+	 */
+	private async verifyInboxRequest(agentId: string, payload: Record<string, unknown>, proof: MessageProof): Promise<void> {
+		if (!this.store.getAgent(agentId)) {
+			throw new CoordinatorError('NOT_FOUND', `Agent not found: ${agentId}`);
+		}
+
+		await this.verifyMessage(
+			{
+				from: agentId,
+				to: COORDINATOR_AGENT_ID,
+				type: 'event',
+				payload,
+				timestamp: proof.timestamp,
+				nonce: proof.nonce,
+			},
+			proof.signature
+		);
+	}
+
+	/**
+	 * Push due messages to push-mode and A2A agents. Failures back off exponentially, then go to the dead-letter queue.
+	 */
+	private async deliverDueMessages(now: number): Promise<void> {
+		const claimed = this.store.claimPushMessages(now, now + DELIVERY_TIMEOUT_MS * 2, DELIVERY_BATCH_SIZE);
+
+		await Promise.all(
+			claimed.map(async ({ endpoint, delivery, message }) => {
+				if (delivery === 'a2a' && !isA2ADeliverable(message)) {
+					this.store.failMessageDelivery(message.id, 'A2A agents only accept delegations and cancellations', null);
+					return;
+				}
+
+				try {
+					if (delivery === 'a2a') {
+						await this.deliverA2A(endpoint, message);
+					} else {
+						await this.transport.deliver(endpoint, message);
+					}
+					this.store.acknowledgeMessages(message.to, [message.id]);
+				} catch (error: any) {
+					const exhausted = message.attempts >= MAX_DELIVERY_ATTEMPTS;
+					this.store.failMessageDelivery(message.id, error.message, exhausted ? null : Date.now() + deliveryBackoff(message.attempts));
+
+					if (exhausted) {
+						console.log(`Message ${message.id} to ${message.to} dead-lettered after ${message.attempts} attempts: ${error.message}`);
+					}
+				}
+			})
+		);
+	}
+
+	/**
+	 * Hand a delegation to a card agent with `message/send`, or cancel its remote task with `tasks/cancel`
+	 */
+	private async deliverA2A(endpoint: string, message: QueuedMessage): Promise<void> {
+		const delegation = this.store.getDelegation(message.payload?.taskId);
+		if (!delegation) return;
+
+		if (message.type === 'event') {
+			if (!delegation.remoteTaskId) return;
+			try {
+				await this.a2aClient.cancelTask(endpoint, delegation.remoteTaskId);
+			} catch (error) {
+				// Finished or unknown remote tasks have nothing left to cancel
+				const code = error instanceof A2AClientError ? error.code : undefined;
+				if (code !== JSON_RPC_ERRORS.TASK_NOT_CANCELABLE && code !== JSON_RPC_ERRORS.TASK_NOT_FOUND) throw error;
+			}
+			return;
+		}
+
+		if (isSettled(delegation.status) || delegation.remoteTaskId) return;
+
+		const reply = await this.a2aClient.sendMessage(endpoint, delegationToMessage(delegation), { skillId: delegation.task.type });
+		await this.touchAgent(delegation.toAgent);
+
+		// Agents may answer with a message instead of a task when they reply straight away
+		if ('messageId' in reply) {
+			await this.applyDelegationUpdate(delegation, 'completed', partsToResult(reply.parts));
+			return;
+		}
 
-		// In production, use Durable Objects or Queue for reliable delivery
+		this.store.setRemoteTask(delegation.taskId, reply.id, Date.now() + A2A_TASK_POLL_MS);
+		delegation.remoteTaskId = reply.id;
+		await this.applyRemoteTask(delegation, reply);
 	}
 
 	/**
-	 * Receive messages for an agent
+	 * Follow up on tasks handed to card agents with `tasks/get` until they settle
 	 */
-	async receiveMessages(agentId: string): Promise<AgentMessage[]> {
-		const messages = this.messages.get(agentId) || [];
-		this.messages.delete(agentId); // Clear after reading
-		return messages;
+	private async pollRemoteTasks(now: number): Promise<void> {
+		for (const delegation of this.store.listDueRemoteTasks(now, DELIVERY_BATCH_SIZE)) {
+			const agent = this.store.getAgent(delegation.toAgent);
+			if (!agent || !delegation.remoteTaskId) {
+				this.store.scheduleRemotePoll(delegation.taskId, null);
+				continue;
+			}
+
+			this.store.scheduleRemotePoll(delegation.taskId, now + A2A_TASK_POLL_MS);
+			try {
+				const task = await this.a2aClient.getTask(agent.endpoint, delegation.remoteTaskId);
+				await this.touchAgent(agent.id);
+				await this.applyRemoteTask(delegation, task);
+			} catch (error: any) {
+				if (error instanceof A2AClientError && error.code === JSON_RPC_ERRORS.TASK_NOT_FOUND) {
+					await this.applyDelegationUpdate(delegation, 'failed', undefined, `Agent lost the task: ${error.message}`);
+				} else {
+					console.log(`Polling task ${delegation.taskId} at ${agent.id} failed: ${error.message}`);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Apply the status a card agent reports for a delegated task, if it changed
+	 */
+	private async applyRemoteTask(delegation: TaskDelegation, task: RemoteTask): Promise<void> {
+		const { status, result, error } = remoteTaskUpdate(task);
+		if (isSettled(delegation.status) || status === delegation.status) return;
+
+		await this.applyDelegationUpdate(delegation, status, result, error);
+	}
+
+	/**
+	 * List dead-lettered messages, optionally for one recipient
+	 */
+	async listDeadLetters(agentId?: string): Promise<QueuedMessage[]> {
+		return this.store.listDeadLetters(agentId);
+	}
+
+	/**
+	 * Move a dead-lettered message back into its recipient's queue
+	 */
+	async retryDeadLetter(id: number): Promise<QueuedMessage> {
+		const message = this.store.requeueDeadLetter(id);
+		if (!message) {
+			throw new CoordinatorError('NOT_FOUND', `Dead letter not found: ${id}`);
+		}
+
+		if (isPushDelivery(this.store.getAgent(message.to)?.delivery)) {
+			await this.scheduler.scheduleAt(Date.now());
+		}
+
+		return message;
 	}
 
 	/**
-	 * Delegate task to another agent
+	 * Delegate task to another agent. If the delegating agent has a signer, the delegation must be signed by it
+	 * as a `delegation` message to the delegate with payload `{ task }`.
 	 */
-	async delegateTask(delegation: Omit<TaskDelegation, 'taskId' | 'status'>): Promise<TaskDelegation> {
+	async delegateTask(delegation: DelegationRequest, proof?: MessageProof): Promise<TaskDelegation> {
+		if (this.store.getAgent(delegation.fromAgent)?.signer) {
+			if (!proof) {
+				throw new CoordinatorError('UNAUTHORIZED', `Delegations from ${delegation.fromAgent} must be signed by it`);
+			}
+
+			await this.verifyMessage(
+				{
+					from: delegation.fromAgent,
+					to: delegation.toAgent,
+					type: 'delegation',
+					payload: { task: delegation.task },
+					timestamp: proof.timestamp,
+					nonce: proof.nonce,
+				},
+				proof.signature
+			);
+		}
+
+		return this.createDelegation(delegation);
+	}
+
+	/**
+	 * Store a delegation that passed the caller's checks and queue it for the delegate
+	 */
+	private async createDelegation(delegation: DelegationRequest): Promise<TaskDelegation> {
+		if (!this.store.getAgent(delegation.toAgent)) {
+			throw new CoordinatorError('NOT_FOUND', `Agent not found: ${delegation.toAgent}`);
+		}
+
 		const taskId = crypto.randomUUID();
 		const fullDelegation: TaskDelegation = {
 			...delegation,
 			taskId,
 			status: 'pending',
+			createdAt: new Date(),
 		};
 
-		this.delegations.set(taskId, fullDelegation);
+		this.store.saveDelegation(fullDelegation);
 
 		// Send delegation message to target agent
-		await this.sendMessage({
+		await this.notify({
 			from: delegation.fromAgent,
 			to: delegation.toAgent,
 			type: 'delegation',
@@ -161,22 +652,66 @@ export class AgentCoordinatorService implements Service {
 	}
 
 	/**
-	 * Update task delegation status
+	 * Update task delegation status. The update must be signed by the delegate.
 	 */
-	async updateDelegation(taskId: string, status: TaskDelegation['status'], result?: any, error?: string): Promise<void> {
-		const delegation = this.delegations.get(taskId);
+	async updateDelegation(taskId: string, status: TaskDelegation['status'], result?: any, error?: string, proof?: MessageProof): Promise<void> {
+		const delegation = this.store.getDelegation(taskId);
 		if (!delegation) {
-			throw new Error(`Delegation not found: ${taskId}`);
+			throw new CoordinatorError('NOT_FOUND', `Delegation not found: ${taskId}`);
+		}
+
+		if (!proof) {
+			throw new CoordinatorError('UNAUTHORIZED', `Delegation updates must be signed by ${delegation.toAgent}`);
+		}
+
+		if (isSettled(delegation.status)) {
+			throw new CoordinatorError('CONFLICT', `Delegation is already ${delegation.status}: ${taskId}`);
+		}
+
+		await this.verifyMessage(
+			{
+				from: delegation.toAgent,
+				to: delegation.fromAgent,
+				type: 'response',
+				payload: { taskId, status, result, error },
+				timestamp: proof.timestamp,
+				nonce: proof.nonce,
+			},
+			proof.signature
+		);
+
+		await this.applyDelegationUpdate(delegation, status, result, error);
+	}
+
+	/**
+	 * Persist a delegation status change, score the delegate once it settles and notify the delegating agent.
+	 * Settled delegations are final: the stored status is checked again since it may have settled while the caller awaited.
+	 */
+	private async applyDelegationUpdate(
+		delegation: TaskDelegation,
+		status: TaskDelegation['status'],
+		result?: any,
+		error?: string,
+		timedOut = false
+	): Promise<void> {
+		const { taskId } = delegation;
+		const stored = this.store.getDelegation(taskId);
+		if (stored && isSettled(stored.status)) {
+			throw new CoordinatorError('CONFLICT', `Delegation is already ${stored.status}: ${taskId}`);
 		}
 
 		delegation.status = status;
 		if (result) delegation.result = result;
 		if (error) delegation.error = error;
 
-		this.delegations.set(taskId, delegation);
+		this.store.saveDelegation(delegation);
+
+		if (status === 'completed' || status === 'failed') {
+			this.recordOutcome(delegation, status === 'completed' ? 'completed' : timedOut ? 'timeout' : 'failed');
+		}
 
 		// Notify originating agent
-		await this.sendMessage({
+		await this.notify({
 			from: delegation.toAgent,
 			to: delegation.fromAgent,
 			type: 'response',
@@ -187,77 +722,259 @@ export class AgentCoordinatorService implements Service {
 				error,
 			},
 		});
+
+		await this.workflows.onDelegationUpdate(delegation);
+	}
+
+	/**
+	 * Score the delegate for a settled delegation, both for the task's capability and overall
+	 */
+	private recordOutcome(delegation: TaskDelegation, outcome: DelegationOutcome): void {
+		const agent = this.store.getAgent(delegation.toAgent);
+		if (!agent) return;
+
+		const now = Date.now();
+		const latencyMs = now - delegation.createdAt.getTime();
+		const capability = delegation.task.type;
+
+		const current = this.store.getCapabilityReputation(agent.id, capability);
+		const next = applyOutcome(current, agent.id, capability, outcome, latencyMs, now);
+		this.store.saveCapabilityReputation(next);
+
+		agent.reputation = clampReputation(agent.reputation + outcomeDelta(outcome, latencyMs));
+		this.store.saveAgent(agent);
+
+		console.log(`Reputation updated: ${agent.id} ${capability} ${outcome} -> ${next.score.toFixed(1)}`);
+	}
+
+	/**
+	 * Fail an open delegation on the coordinator's behalf after it timed out
+	 */
+	private async expireDelegation(taskId: string, error: string): Promise<void> {
+		const delegation = this.store.getDelegation(taskId);
+		if (!delegation) return;
+
+		if (isSettled(delegation.status)) {
+			// Already settled - make sure any waiting workflow sees the outcome
+			await this.workflows.onDelegationUpdate(delegation);
+			return;
+		}
+
+		await this.applyDelegationUpdate(delegation, 'failed', undefined, error, true);
+	}
+
+	/**
+	 * Cancel an open delegation on behalf of the delegating side. Cancellations do not affect reputation.
+	 * If the delegating agent has a signer, the cancellation must be signed by it as an `event` message
+	 * to the delegate with payload `{ taskId, status: 'canceled' }`.
+	 */
+	async cancelDelegation(taskId: string, proof?: MessageProof): Promise<TaskDelegation> {
+		const delegation = this.store.getDelegation(taskId);
+		if (!delegation) {
+			throw new CoordinatorError('NOT_FOUND', `Delegation not found: ${taskId}`);
+		}
+
+		if (this.store.getAgent(delegation.fromAgent)?.signer) {
+			if (!proof) {
+				throw new CoordinatorError('UNAUTHORIZED', `Cancellations must be signed by ${delegation.fromAgent}`);
+			}
+
+			await this.verifyMessage(
+				{
+					from: delegation.fromAgent,
+					to: delegation.toAgent,
+					type: 'event',
+					payload: { taskId, status: 'canceled' },
+					timestamp: proof.timestamp,
+					nonce: proof.nonce,
+				},
+				proof.signature
+			);
+		}
+
+		return this.cancelOpenDelegation(delegation);
+	}
+
+	/**
+	 * Cancel a delegation that passed the caller's checks and tell the delegate to stop
+	 */
+	private async cancelOpenDelegation(delegation: TaskDelegation): Promise<TaskDelegation> {
+		const { taskId } = delegation;
+		if (isSettled(delegation.status)) {
+			throw new CoordinatorError('CONFLICT', `Delegation is already ${delegation.status}: ${taskId}`);
+		}
+
+		await this.applyDelegationUpdate(delegation, 'canceled');
+
+		// Tell the delegate to stop working on it
+		await this.notify({
+			from: delegation.fromAgent,
+			to: delegation.toAgent,
+			type: 'event',
+			payload: { taskId, status: 'canceled' },
+		});
+
+		return this.store.getDelegation(taskId)!;
+	}
+
+	/**
+	 * Accept a task from an external A2A client. It is delegated to `metadata.agentId` if given,
+	 * otherwise to the best agent for `metadata.skillId` (default: yield optimization).
+	 */
+	async submitA2ATask(message: A2AMessage, metadata: Record<string, any> = {}): Promise<TaskDelegation> {
+		const skillId = typeof metadata.skillId === 'string' ? metadata.skillId : DEFAULT_A2A_SKILL;
+
+		let toAgent: string | undefined = typeof metadata.agentId === 'string' ? metadata.agentId : undefined;
+		if (!toAgent) {
+			const [best] = await this.discoverAgents(skillId);
+			if (!best) {
+				throw new CoordinatorError('NOT_FOUND', `No agent found with skill: ${skillId}`);
+			}
+			toAgent = best.id;
+		}
+
+		return this.createDelegation({
+			fromAgent: A2A_CLIENT_AGENT_ID,
+			toAgent,
+			task: messageToTask(message, skillId),
+			contextId: message.contextId ?? crypto.randomUUID(),
+		});
+	}
+
+	/**
+	 * Register an agent described by an A2A agent card. Its skills become capabilities.
+	 * Re-importing may refresh an imported agent, but not move it to another endpoint or replace a signed agent.
+	 */
+	async importAgent(cardUrl: string, id?: string): Promise<RegisteredAgent> {
+		let registration: AgentRegistration;
+		try {
+			const card = await fetchAgentCard(cardUrl);
+			if (!isPublicHttpsUrl(card.url)) {
+				throw new Error(`Card url must be an https URL on a public host: ${card.url}`);
+			}
+			registration = cardToRegistration(card, id ?? agentIdFromCard(card));
+		} catch (error: any) {
+			throw new CoordinatorError('INVALID', `Could not import agent card from ${cardUrl}: ${error.message}`);
+		}
+
+		const { signer: _signer, publicKey: _publicKey, delivery, ...agent } = registration;
+		const existing = this.store.getAgent(agent.id);
+		if (existing?.signer) {
+			throw new CoordinatorError('CONFLICT', `Agent ${agent.id} is registered with a signer; re-register it with a signed registration`);
+		}
+		if (existing && existing.endpoint !== agent.endpoint) {
+			throw new CoordinatorError('CONFLICT', `Agent ${agent.id} is already imported with endpoint ${existing.endpoint}`);
+		}
+
+		return this.saveRegistration(agent, delivery, existing);
+	}
+
+	/**
+	 * Skills for the served agent card: the operations registered agents offer
+	 */
+	async listA2ASkills(): Promise<AgentSkill[]> {
+		return skillsFromAgents(this.store.listAgents());
 	}
 
 	/**
 	 * Get delegation status
 	 */
 	async getDelegation(taskId: string): Promise<TaskDelegation | undefined> {
-		return this.delegations.get(taskId);
+		return this.store.getDelegation(taskId);
+	}
+
+	/**
+	 * List delegations by status
+	 */
+	async listDelegations(status: TaskDelegation['status']): Promise<TaskDelegation[]> {
+		return this.store.listDelegationsByStatus(status);
 	}
 
 	/**
 	 * Get all registered agents
 	 */
 	async listAgents(): Promise<RegisteredAgent[]> {
-		return Array.from(this.agents.values());
+		return this.store.listAgents();
 	}
 
 	/**
-	 * Update agent reputation based on performance
+	 * Manually adjust an agent's overall reputation.
+	 * Delegation outcomes are scored automatically; this is for out-of-band feedback.
 	 */
 	async updateReputation(agentId: string, delta: number): Promise<void> {
-		const agent = this.agents.get(agentId);
+		const agent = this.store.getAgent(agentId);
 		if (!agent) {
-			throw new Error(`Agent not found: ${agentId}`);
+			throw new CoordinatorError('NOT_FOUND', `Agent not found: ${agentId}`);
 		}
 
-		agent.reputation = Math.max(0, Math.min(200, agent.reputation + delta));
-		agent.lastSeen = new Date();
-		this.agents.set(agentId, agent);
+		agent.reputation = clampReputation(agent.reputation + delta);
+		this.store.saveAgent(agent);
 	}
 
 	/**
-	 * Compose multi-agent workflow
+	 * Get an agent's reputation, overall and per capability
 	 */
-	async composeWorkflow(workflow: {
-		name: string;
-		steps: Array<{
-			agentCapability: string;
-			task: any;
-		}>;
-	}): Promise<any[]> {
-		const results: any[] = [];
+	async getReputation(agentId: string): Promise<AgentReputation> {
+		const agent = this.store.getAgent(agentId);
+		if (!agent) {
+			throw new CoordinatorError('NOT_FOUND', `Agent not found: ${agentId}`);
+		}
 
-		for (const step of workflow.steps) {
-			// Find best agent for this step
-			const agents = await this.discoverAgents(step.agentCapability);
-			if (agents.length === 0) {
-				throw new Error(`No agent found with capability: ${step.agentCapability}`);
-			}
+		const now = Date.now();
+		return {
+			agentId,
+			reputation: agent.reputation,
+			capabilities: this.store
+				.listCapabilityReputations(agentId)
+				.map((record) => ({ ...record, score: decayReputation(record.score, record.updatedAt.getTime(), now) })),
+		};
+	}
 
-			const bestAgent = agents[0];
+	/**
+	 * Compose multi-agent workflow.
+	 * Starts a persisted run; steps advance as their delegations complete (see WorkflowEngine).
+	 */
+	async composeWorkflow(workflow: WorkflowDefinition): Promise<WorkflowRun> {
+		return this.workflows.start(workflow);
+	}
 
-			// Delegate task
-			const delegation = await this.delegateTask({
-				fromAgent: 'coordinator',
-				toAgent: bestAgent.id,
-				task: {
-					type: step.agentCapability,
-					description: `Workflow step: ${workflow.name}`,
-					parameters: step.task,
-				},
-			});
+	/**
+	 * Get a workflow run by id
+	 */
+	async getWorkflowRun(runId: string): Promise<WorkflowRun | undefined> {
+		return this.workflows.getRun(runId);
+	}
 
-			// Wait for completion (in production, use async/await with timeout)
-			// For now, simulate immediate completion
-			results.push({
-				step: step.agentCapability,
-				agent: bestAgent.name,
-				result: delegation,
-			});
-		}
+	/**
+	 * List workflow runs, optionally filtered by status
+	 */
+	async listWorkflowRuns(status?: WorkflowRun['status']): Promise<WorkflowRun[]> {
+		return this.workflows.listRuns(status);
+	}
+
+	/**
+	 * Run work that is due (liveness sweep, message pushes, step timeouts, retries).
+	 * Returns when the coordinator next needs to wake up, if ever.
+	 */
+	async runScheduledWork(now: number = Date.now()): Promise<number | undefined> {
+		this.sweepAgents(now);
+		await this.deliverDueMessages(now);
+		await this.pollRemoteTasks(now);
+		await this.workflows.runScheduledWork(now);
+		return this.nextWakeTime();
+	}
 
-		return results;
+	/**
+	 * Earliest of the next liveness deadline, message push, A2A task poll and workflow deadline or retry
+	 */
+	private nextWakeTime(): number | undefined {
+		const times = [
+			this.store.getNextLivenessDeadline(UNHEALTHY_AFTER_MS, EVICT_AFTER_MS),
+			this.store.getNextDeliveryTime(),
+			this.store.getNextRemotePollTime(),
+			this.store.getNextWorkflowWakeTime(),
+		];
+		const due = times.filter((time): time is number => time !== undefined);
+		return due.length > 0 ? Math.min(...due) : undefined;
 	}
 }
@@ -0,0 +1,131 @@
+/**
+ * Agent Query
+ * Structured multi-criteria agent discovery: matching, ranking and explanations
+ */
+
+import { z } from 'zod';
+import type { AgentCapability, RegisteredAgent } from './agent-coordinator';
+import { decayReputation, type CapabilityReputation } from './reputation';
+
+export const DEFAULT_QUERY_LIMIT = 20;
+export const MAX_QUERY_LIMIT = 100;
+
+const termsSchema = z.array(z.string().min(1)).max(10);
+
+/**
+ * Shared by the REST API and the agent's discovery tool
+ */
+export const agentQuerySchema = z.object({
+	chains: termsSchema.optional().describe('Chains the agent must support, e.g. ["base"]'),
+	protocols: termsSchema.optional().describe('Protocols the agent must support, e.g. ["aave"]'),
+	operations: termsSchema.optional().describe('Operations the agent must support, e.g. ["swap"]'),
+	minReputation: z.number().min(0).max(200).optional().describe('Minimum overall reputation (neutral is 100)'),
+	text: z.string().min(1).max(200).optional().describe('Case-insensitive text to find in the agent name or capability description'),
+	healthyOnly: z.boolean().optional().describe('Exclude agents that stopped heartbeating'),
+	limit: z.number().int().min(1).max(MAX_QUERY_LIMIT).optional(),
+	offset: z.number().int().min(0).optional(),
+});
+
+export type AgentQuery = z.infer<typeof agentQuerySchema>;
+
+export interface AgentMatch {
+	agent: RegisteredAgent;
+	/** Capability that satisfied the chain, protocol and operation requirements */
+	capabilityId: string;
+	/** Ranking score: capability scores for the requested terms, or overall reputation */
+	score: number;
+	/** Human-readable reasons the agent matched and how it was scored */
+	reasons: string[];
+}
+
+export interface AgentQueryResult {
+	matches: AgentMatch[];
+	total: number;
+	offset: number;
+	limit: number;
+}
+
+/**
+ * Kind-qualified capability terms a query requires, for indexed prefiltering
+ */
+export function queryTerms(query: AgentQuery): Array<{ kind: string; value: string }> {
+	return [
+		...(query.chains ?? []).map((value) => ({ kind: 'chain', value })),
+		...(query.protocols ?? []).map((value) => ({ kind: 'protocol', value })),
+		...(query.operations ?? []).map((value) => ({ kind: 'operation', value })),
+	];
+}
+
+/**
+ * Whether a single capability covers every required chain, protocol and operation
+ */
+function capabilitySatisfies(capability: AgentCapability, query: AgentQuery): boolean {
+	const covers = (offered: string[], required?: string[]) => (required ?? []).every((value) => offered.includes(value));
+	return covers(capability.chains, query.chains) && covers(capability.protocols, query.protocols) && covers(capability.operations, query.operations);
+}
+
+/**
+ * Match one agent against a query. Returns undefined if it does not qualify.
+ * `reputations` are the agent's capability track records (as stored, not decayed).
+ */
+export function matchAgent(agent: RegisteredAgent, reputations: CapabilityReputation[], query: AgentQuery, now: number = Date.now()): AgentMatch | undefined {
+	if (query.healthyOnly && agent.health !== 'healthy') return undefined;
+	if (query.minReputation !== undefined && agent.reputation < query.minReputation) return undefined;
+
+	const text = query.text?.toLowerCase();
+	const nameMatches = text !== undefined && agent.name.toLowerCase().includes(text);
+
+	// Requirements must be met by one capability, so "swap" on "base" does not match swap on another chain
+	const capability = agent.capabilities.find(
+		(candidate) =>
+			capabilitySatisfies(candidate, query) && (text === undefined || nameMatches || candidate.description.toLowerCase().includes(text))
+	);
+	if (!capability) return undefined;
+
+	const reasons: string[] = [];
+	const required = [
+		['chains', query.chains],
+		['protocols', query.protocols],
+		['operations', query.operations],
+	] as const;
+	const met = required.filter(([, values]) => values?.length).map(([kind, values]) => `${kind} ${values!.join(', ')}`);
+	reasons.push(met.length > 0 ? `Capability ${capability.id} supports ${met.join('; ')}` : `Capability ${capability.id}`);
+
+	if (text !== undefined) {
+		reasons.push(nameMatches ? `Name matches "${query.text}"` : `Description of ${capability.id} matches "${query.text}"`);
+	}
+	if (query.minReputation !== undefined) {
+		reasons.push(`Reputation ${agent.reputation.toFixed(1)} >= ${query.minReputation}`);
+	}
+	if (agent.health !== 'healthy') {
+		reasons.push('Agent is unhealthy (ranked last)');
+	}
+
+	// Score on the track records for the requested protocols and operations, if the agent has any
+	const scored = [...(query.protocols ?? []), ...(query.operations ?? [])]
+		.map((term) => reputations.find((record) => record.capability === term))
+		.filter((record): record is CapabilityReputation => record !== undefined)
+		.map((record) => ({ capability: record.capability, score: decayReputation(record.score, record.updatedAt.getTime(), now) }));
+
+	let score = agent.reputation;
+	if (scored.length > 0) {
+		score = scored.reduce((sum, record) => sum + record.score, 0) / scored.length;
+		reasons.push(`Scored on ${scored.map((record) => `${record.capability} ${record.score.toFixed(1)}`).join(', ')}`);
+	} else {
+		reasons.push(`Scored on overall reputation ${agent.reputation.toFixed(1)}`);
+	}
+
+	return { agent, capabilityId: capability.id, score, reasons };
+}
+
+/**
+ * Order matches healthy first, then by score, then by overall reputation
+ */
+export function rankMatches(matches: AgentMatch[]): AgentMatch[] {
+	return [...matches].sort(
+		(a, b) =>
+			Number(b.agent.health === 'healthy') - Number(a.agent.health === 'healthy') ||
+			b.score - a.score ||
+			b.agent.reputation - a.agent.reputation
+	);
+}
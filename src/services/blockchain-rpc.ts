@@ -0,0 +1,360 @@
+/**
+ * Blockchain RPC Service
+ * Batched contract reads, raw storage and proxy inspection, paged event logs
+ * and relaying of transactions the user has already signed
+ */
+
+import { z } from 'zod';
+import {
+	getAbiItem,
+	keccak256,
+	parseAbi,
+	parseAbiItem,
+	parseTransaction,
+	recoverTransactionAddress,
+	sliceHex,
+	toHex,
+	type Abi,
+	type AbiEvent,
+	type AbiFunction,
+	type Address,
+	type Hex,
+	type PublicClient,
+} from 'viem';
+import { simulateTransaction } from '../tools/blockchain-tools';
+import { CHAIN_NAMES, CHAINS, getPublicClient, type PublicClientFactory } from './chains';
+
+export const MAX_BATCH_CALLS = 100;
+export const MAX_STORAGE_SLOTS = 32;
+export const DEFAULT_LOG_PAGE_BLOCKS = 2_000;
+export const MAX_LOG_PAGE_BLOCKS = 10_000;
+
+// How long executeTransaction waits for a receipt when asked to
+const RECEIPT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Well-known proxy storage slots
+ */
+export const PROXY_SLOTS = {
+	// EIP-1967: bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+	eip1967Implementation: '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+	eip1967Admin: '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103',
+	eip1967Beacon: '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50',
+	// EIP-1822 (UUPS): keccak256('PROXIABLE')
+	eip1822Proxiable: '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7',
+	// OpenZeppelin proxies before EIP-1967: keccak256('org.zeppelinos.proxy.implementation')
+	zeppelinosImplementation: '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3',
+} as const satisfies Record<string, Hex>;
+
+// EIP-1167 minimal proxy runtime code wraps the implementation address
+const MINIMAL_PROXY_PREFIX = '0x363d3d373d3d3d363d73';
+const MINIMAL_PROXY_SUFFIX = '5af43d82803e903d91602b57fd5bf3';
+
+const beaconAbi = parseAbi(['function implementation() view returns (address)']);
+
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 20-byte hex address');
+const blockNumberSchema = z.union([z.number().int().min(0), z.string().regex(/^\d+$/)]).describe('Block number (default: latest)');
+
+const callSchema = z
+	.object({
+		address: addressSchema.describe('Contract address'),
+		signature: z.string().optional().describe('Function signature, e.g. "function balanceOf(address owner) view returns (uint256)"'),
+		abi: z.array(z.any()).optional().describe('Contract ABI, instead of a signature'),
+		functionName: z.string().optional().describe('Function to call (required with abi)'),
+		args: z.array(z.any()).optional().describe('Function arguments; pass large integers as decimal strings'),
+	})
+	.refine((call) => call.signature || (call.abi && call.functionName), 'Provide a signature, or an abi and functionName');
+
+export const batchCallsSchema = z.object({
+	chain: z.enum(CHAIN_NAMES),
+	calls: z.array(callSchema).min(1).max(MAX_BATCH_CALLS),
+	blockNumber: blockNumberSchema.optional(),
+});
+
+export const contractStateSchema = z.object({
+	chain: z.enum(CHAIN_NAMES),
+	address: addressSchema,
+	slots: z
+		.array(z.string().min(1))
+		.max(MAX_STORAGE_SLOTS)
+		.optional()
+		.describe('Storage slots to read, as hex (0x...) or decimal'),
+	includeProxy: z.boolean().default(true).describe('Also detect EIP-1967, EIP-1822, legacy OpenZeppelin and EIP-1167 proxies'),
+	blockNumber: blockNumberSchema.optional(),
+});
+
+export const watchEventsSchema = z.object({
+	chain: z.enum(CHAIN_NAMES),
+	address: z.union([addressSchema, z.array(addressSchema).min(1).max(20)]).optional().describe('Emitting contract(s)'),
+	event: z
+		.string()
+		.optional()
+		.describe('Event signature to filter and decode, e.g. "event Transfer(address indexed from, address indexed to, uint256 value)"'),
+	args: z.record(z.any()).optional().describe('Indexed argument filters, by name (requires event)'),
+	fromBlock: blockNumberSchema.optional().describe('First block of the first page (default: latest minus one page)'),
+	toBlock: blockNumberSchema.optional().describe('Last block to scan (default: follow the chain head)'),
+	pageSize: z.number().int().min(1).max(MAX_LOG_PAGE_BLOCKS).default(DEFAULT_LOG_PAGE_BLOCKS).describe('Blocks per page'),
+	cursor: z.string().optional().describe('nextCursor from the previous page; the other filters must stay the same'),
+});
+
+export const executeTransactionSchema = z.object({
+	chain: z.enum(CHAIN_NAMES),
+	signedTransaction: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]+$/)
+		.describe('Serialized transaction already signed by the user wallet'),
+	simulate: z.boolean().default(true).describe('Simulate before broadcasting and refuse to relay transactions that would revert'),
+	waitForReceipt: z.boolean().default(false),
+});
+
+interface LogCursor {
+	fromBlock: string;
+	toBlock?: string;
+}
+
+export class BlockchainRpcService {
+	constructor(private clientFor: PublicClientFactory = getPublicClient) {}
+
+	/**
+	 * Run many read calls in one Multicall3 aggregate3 request. A failing call does not fail the batch.
+	 */
+	async batchCalls(params: z.infer<typeof batchCallsSchema>) {
+		const client = this.clientFor(params.chain);
+		const blockNumber = params.blockNumber !== undefined ? BigInt(params.blockNumber) : await client.getBlockNumber();
+
+		const contracts = params.calls.map((call) => {
+			const abi = (call.signature ? parseAbi([call.signature]) : call.abi) as Abi;
+			const functionName = call.functionName ?? (abi.find((item) => item.type === 'function') as AbiFunction | undefined)?.name;
+			if (!functionName) throw new Error(`No function in signature: ${call.signature}`);
+
+			const args = coerceArgs(abi, functionName, call.args ?? []);
+			return { address: call.address as Address, abi, functionName, args };
+		});
+
+		const results = await client.multicall({ contracts, allowFailure: true, blockNumber });
+
+		return {
+			chain: params.chain,
+			blockNumber: Number(blockNumber),
+			multicall: CHAINS[params.chain].contracts.multicall3.address,
+			results: results.map((result, index) => ({
+				address: contracts[index].address,
+				functionName: contracts[index].functionName,
+				...(result.status === 'success' ? { success: true, result: result.result } : { success: false, error: result.error.message }),
+			})),
+		};
+	}
+
+	/**
+	 * Read raw storage slots and resolve proxy implementations
+	 */
+	async getContractState(params: z.input<typeof contractStateSchema>) {
+		const { chain, address, slots = [], includeProxy, blockNumber: requestedBlock } = contractStateSchema.parse(params);
+		const client = this.clientFor(chain);
+		const blockNumber = requestedBlock !== undefined ? BigInt(requestedBlock) : await client.getBlockNumber();
+		const target = address as Address;
+
+		const code = await client.getCode({ address: target, blockNumber });
+		const storage = await Promise.all(
+			slots.map(async (slot) => {
+				const position = toHex(BigInt(slot), { size: 32 });
+				return { slot: position, value: (await client.getStorageAt({ address: target, slot: position, blockNumber })) ?? toHex(0, { size: 32 }) };
+			})
+		);
+
+		return {
+			chain,
+			address,
+			blockNumber: Number(blockNumber),
+			isContract: !!code && code !== '0x',
+			codeSize: code ? (code.length - 2) / 2 : 0,
+			codeHash: code && code !== '0x' ? keccak256(code) : undefined,
+			storage,
+			proxy: includeProxy ? await this.detectProxy(client, target, code, blockNumber) : undefined,
+		};
+	}
+
+	/**
+	 * One page of logs over a block range. Pass nextCursor back to continue; once caught up with the
+	 * chain head the cursor keeps pointing at the next block, so the same call can be polled for new events.
+	 */
+	async watchEvents(params: z.input<typeof watchEventsSchema>) {
+		const { chain, address, event, args, fromBlock, toBlock, pageSize, cursor } = watchEventsSchema.parse(params);
+		if (args && !event) throw new Error('Argument filters require an event signature');
+
+		const client = this.clientFor(chain);
+		const latestBlock = await client.getBlockNumber();
+		const position = cursor ? decodeCursor(cursor) : undefined;
+
+		const end = position?.toBlock !== undefined ? BigInt(position.toBlock) : toBlock !== undefined ? BigInt(toBlock) : undefined;
+		const start = position
+			? BigInt(position.fromBlock)
+			: fromBlock !== undefined
+				? BigInt(fromBlock)
+				: maxBigInt(0n, latestBlock - BigInt(pageSize) + 1n);
+
+		const head = end !== undefined && end < latestBlock ? end : latestBlock;
+		if (start > head) {
+			// Nothing new yet: hand back the same position
+			const done = end !== undefined && start > end;
+			return {
+				chain,
+				fromBlock: Number(start),
+				toBlock: Number(start) - 1,
+				latestBlock: Number(latestBlock),
+				logs: [],
+				nextCursor: done ? null : encodeCursor({ fromBlock: start.toString(), toBlock: end?.toString() }),
+				done,
+			};
+		}
+
+		const pageEnd = minBigInt(start + BigInt(pageSize) - 1n, head);
+		const filter = {
+			address: address as Address | Address[] | undefined,
+			fromBlock: start,
+			toBlock: pageEnd,
+		};
+		const logs = event
+			? await client.getLogs({ ...filter, event: parseAbiItem(event) as AbiEvent, args })
+			: await client.getLogs(filter);
+
+		const done = end !== undefined && pageEnd >= end;
+
+		return {
+			chain,
+			fromBlock: Number(start),
+			toBlock: Number(pageEnd),
+			latestBlock: Number(latestBlock),
+			logs: logs.map((log) => ({
+				address: log.address,
+				blockNumber: log.blockNumber !== null ? Number(log.blockNumber) : null,
+				transactionHash: log.transactionHash,
+				logIndex: log.logIndex,
+				topics: log.topics,
+				data: log.data,
+				...('eventName' in log ? { eventName: log.eventName, args: (log as { args?: unknown }).args } : {}),
+			})),
+			nextCursor: done ? null : encodeCursor({ fromBlock: (pageEnd + 1n).toString(), toBlock: end?.toString() }),
+			done,
+		};
+	}
+
+	/**
+	 * Broadcast a transaction the user already signed. Never signs anything itself.
+	 */
+	async executeTransaction(params: z.input<typeof executeTransactionSchema>) {
+		const { chain, signedTransaction, simulate, waitForReceipt } = executeTransactionSchema.parse(params);
+		const client = this.clientFor(chain);
+		const serialized = signedTransaction as Hex;
+
+		const transaction = parseTransaction(serialized);
+		if (transaction.chainId !== undefined && transaction.chainId !== CHAINS[chain].id) {
+			throw new Error(`Transaction is signed for chain ${transaction.chainId}, not ${chain} (${CHAINS[chain].id})`);
+		}
+		if (!transaction.to) {
+			throw new Error('Contract deployments are not relayed');
+		}
+
+		const from = await recoverTransactionAddress({ serializedTransaction: serialized as Parameters<typeof recoverTransactionAddress>[0]['serializedTransaction'] });
+
+		if (simulate) {
+			const { simulation } = await simulateTransaction(
+				{ chain, from, to: transaction.to, data: transaction.data, value: transaction.value?.toString() },
+				() => client
+			);
+			if (!simulation.willSucceed) {
+				throw new Error(`Simulation failed, transaction not broadcast: ${simulation.error}`);
+			}
+		}
+
+		const hash = await client.sendRawTransaction({ serializedTransaction: serialized });
+		console.log(`Relayed transaction ${hash} from ${from} on ${chain}`);
+
+		const receipt = waitForReceipt ? await client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS }) : undefined;
+
+		return {
+			chain,
+			hash,
+			from,
+			to: transaction.to,
+			nonce: transaction.nonce,
+			receipt: receipt && {
+				status: receipt.status,
+				blockNumber: Number(receipt.blockNumber),
+				gasUsed: receipt.gasUsed.toString(),
+			},
+		};
+	}
+
+	private async detectProxy(client: PublicClient, address: Address, code: Hex | undefined, blockNumber: bigint) {
+		const read = async (slot: Hex) => slotToAddress(await client.getStorageAt({ address, slot, blockNumber }));
+
+		const [implementation, admin, beacon, proxiable, zeppelinos] = await Promise.all([
+			read(PROXY_SLOTS.eip1967Implementation),
+			read(PROXY_SLOTS.eip1967Admin),
+			read(PROXY_SLOTS.eip1967Beacon),
+			read(PROXY_SLOTS.eip1822Proxiable),
+			read(PROXY_SLOTS.zeppelinosImplementation),
+		]);
+
+		if (implementation) return { type: 'eip1967', implementation, admin };
+		if (beacon) {
+			const beaconImplementation = await client
+				.readContract({ address: beacon, abi: beaconAbi, functionName: 'implementation', blockNumber })
+				.catch(() => undefined);
+			return { type: 'eip1967-beacon', beacon, implementation: beaconImplementation, admin };
+		}
+		if (proxiable) return { type: 'eip1822', implementation: proxiable };
+		if (zeppelinos) return { type: 'zeppelinos', implementation: zeppelinos };
+
+		const normalized = code?.toLowerCase();
+		if (normalized?.startsWith(MINIMAL_PROXY_PREFIX) && normalized.endsWith(MINIMAL_PROXY_SUFFIX) && normalized.length === 2 + 45 * 2) {
+			return { type: 'eip1167', implementation: sliceHex(code!, 10, 30) };
+		}
+
+		return null;
+	}
+}
+
+/**
+ * Address stored right-aligned in a slot, or undefined for an empty slot
+ */
+function slotToAddress(value: Hex | undefined): Address | undefined {
+	if (!value || BigInt(value) === 0n) return undefined;
+	return sliceHex(value, 12, 32) as Address;
+}
+
+/**
+ * JSON callers send large integers as strings; viem wants bigints for (u)int parameters
+ */
+function coerceArgs(abi: Abi, functionName: string, args: unknown[]): unknown[] {
+	const item = getAbiItem({ abi, name: functionName }) as AbiFunction | undefined;
+	if (!item) return args;
+
+	return args.map((arg, index) => {
+		const type = item.inputs[index]?.type;
+		return type && /^u?int\d*$/.test(type) && (typeof arg === 'string' || typeof arg === 'number') ? BigInt(arg) : arg;
+	});
+}
+
+function encodeCursor(cursor: LogCursor): string {
+	return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(cursor: string): LogCursor {
+	try {
+		const decoded = JSON.parse(atob(cursor));
+		if (typeof decoded.fromBlock !== 'string') throw new Error();
+		return decoded;
+	} catch {
+		throw new Error('Invalid cursor');
+	}
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+	return a > b ? a : b;
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+	return a < b ? a : b;
+}
@@ -0,0 +1,176 @@
+/**
+ * Chains
+ * Supported networks and the public clients used to read from them.
+ * Every read in the worker goes through getPublicClient, whose endpoints come from the environment.
+ */
+
+import { createPublicClient, type PublicClient } from 'viem';
+import { base, mainnet, arbitrum, optimism, polygon } from 'viem/chains';
+import { createRedundantTransport, type EndpointHealth, type RpcEndpoint, type RpcTransportOptions } from './rpc-transport';
+
+// Chain configuration
+export const CHAINS = {
+	base,
+	mainnet,
+	arbitrum,
+	optimism,
+	polygon,
+};
+
+export type ChainName = keyof typeof CHAINS;
+
+/**
+ * Public endpoints used for a chain with no RPC_URLS_<CHAIN> configured
+ */
+const DEFAULT_RPC_URLS: Record<ChainName, string[]> = {
+	base: ['https://mainnet.base.org', 'https://base.llamarpc.com'],
+	mainnet: ['https://eth.llamarpc.com', 'https://ethereum-rpc.publicnode.com'],
+	arbitrum: ['https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com'],
+	optimism: ['https://mainnet.optimism.io', 'https://optimism-rpc.publicnode.com'],
+	polygon: ['https://polygon-rpc.com', 'https://polygon-bor-rpc.publicnode.com'],
+};
+
+const DEFAULT_TRANSPORT_OPTIONS: RpcTransportOptions = {
+	timeoutMs: 10_000,
+	failureThreshold: 5,
+	cooldownMs: 30_000,
+};
+
+export const CHAIN_NAMES = Object.keys(CHAINS) as [ChainName, ...ChainName[]];
+
+/**
+ * Calldata bytes per Multicall3 aggregate3 request before it is split
+ */
+export const MULTICALL_BATCH_BYTES = 16_384;
+
+/**
+ * Creates the public client used for reads on a chain. Injectable so readers can run against a mocked transport.
+ */
+export type PublicClientFactory = (chainName: ChainName) => PublicClient;
+
+/**
+ * RPC settings read from the deployment config. URL lists are comma-separated and tried in order;
+ * BASE_RPC_URL is kept as the first Base endpoint.
+ */
+export type RpcEnv = Partial<Record<RpcEnvKey, string>>;
+
+type RpcEnvKey = `RPC_URLS_${Uppercase<ChainName>}` | 'BASE_RPC_URL' | 'RPC_TIMEOUT_MS' | 'RPC_CIRCUIT_FAILURES' | 'RPC_CIRCUIT_COOLDOWN_MS';
+
+const RPC_ENV_KEYS: RpcEnvKey[] = [
+	...CHAIN_NAMES.map((chain) => `RPC_URLS_${chain.toUpperCase() as Uppercase<ChainName>}` as const),
+	'BASE_RPC_URL',
+	'RPC_TIMEOUT_MS',
+	'RPC_CIRCUIT_FAILURES',
+	'RPC_CIRCUIT_COOLDOWN_MS',
+];
+
+export interface RpcConfig {
+	urls: Record<ChainName, string[]>;
+	transport: RpcTransportOptions;
+}
+
+/**
+ * Resolve per-chain endpoints and transport options, falling back to the public defaults
+ */
+export function parseRpcConfig(env: RpcEnv): RpcConfig {
+	const split = (value?: string) =>
+		(value || '')
+			.split(',')
+			.map((url) => url.trim())
+			.filter(Boolean);
+	const number = (value: string | undefined, fallback: number) => {
+		const parsed = Number(value);
+		return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+	};
+
+	const urls = {} as Record<ChainName, string[]>;
+	for (const chain of CHAIN_NAMES) {
+		const configured = split(env[`RPC_URLS_${chain.toUpperCase() as Uppercase<ChainName>}`]);
+		if (chain === 'base') configured.unshift(...split(env.BASE_RPC_URL));
+		const unique = [...new Set(configured)];
+		urls[chain] = unique.length > 0 ? unique : DEFAULT_RPC_URLS[chain];
+	}
+
+	return {
+		urls,
+		transport: {
+			timeoutMs: number(env.RPC_TIMEOUT_MS, DEFAULT_TRANSPORT_OPTIONS.timeoutMs),
+			failureThreshold: Math.max(1, number(env.RPC_CIRCUIT_FAILURES, DEFAULT_TRANSPORT_OPTIONS.failureThreshold)),
+			cooldownMs: number(env.RPC_CIRCUIT_COOLDOWN_MS, DEFAULT_TRANSPORT_OPTIONS.cooldownMs),
+		},
+	};
+}
+
+let rpcConfig = parseRpcConfig({});
+// Raw RPC settings the config was parsed from, and the env object last seen
+let rpcEnvKey = rpcEnvKeyOf({});
+let configuredEnv: RpcEnv | undefined;
+
+// Clients are kept per isolate so breaker state and health stats carry across requests
+const clients = new Map<ChainName, { client: PublicClient; endpoints: RpcEndpoint[] }>();
+
+function rpcEnvKeyOf(env: RpcEnv): string {
+	return JSON.stringify(RPC_ENV_KEYS.map((key) => env[key] ?? ''));
+}
+
+/**
+ * Apply the deployment's RPC settings. An isolate passes the same env object to every request, so repeat calls
+ * return at once; a different env is only parsed, and clients rebuilt, when its RPC values changed.
+ */
+export function configureRpc(env: RpcEnv): void {
+	if (env === configuredEnv) return;
+	configuredEnv = env;
+
+	const key = rpcEnvKeyOf(env);
+	if (key === rpcEnvKey) return;
+
+	rpcConfig = parseRpcConfig(env);
+	rpcEnvKey = key;
+	clients.clear();
+}
+
+function chainClient(chainName: ChainName) {
+	let entry = clients.get(chainName);
+	if (!entry) {
+		const { transport, endpoints } = createRedundantTransport(rpcConfig.urls[chainName], rpcConfig.transport);
+		// Chain-specific block formatters (OP stack deposits) only narrow types, reads are unaffected
+		const client = createPublicClient({
+			chain: CHAINS[chainName],
+			transport,
+			batch: { multicall: { batchSize: MULTICALL_BATCH_BYTES } },
+		}) as PublicClient;
+		entry = { client, endpoints };
+		clients.set(chainName, entry);
+	}
+	return entry;
+}
+
+/**
+ * Get public client for a chain. Contract reads issued in the same tick for the same block
+ * are coalesced into Multicall3 aggregate3 calls; each read still resolves or rejects on its own.
+ */
+export function getPublicClient(chainName: ChainName): PublicClient {
+	return chainClient(chainName).client;
+}
+
+/**
+ * Circuit state, error rate and latency of every endpoint, in the order the configuration lists them
+ */
+export function getRpcHealth(): Record<ChainName, EndpointHealth[]> {
+	const health = {} as Record<ChainName, EndpointHealth[]>;
+	for (const chain of CHAIN_NAMES) {
+		health[chain] = chainClient(chain).endpoints.map((endpoint) => endpoint.health());
+	}
+	return health;
+}
+
+// Blocks between the two headers used to estimate block time
+const BLOCK_TIME_PROBE = 1_000n;
+
+/**
+ * Average block time over the last thousand blocks, for turning a duration into a past block number
+ */
+export async function secondsPerBlock(client: PublicClient, latest: { number: bigint; timestamp: bigint }): Promise<number> {
+	const probe = await client.getBlock({ blockNumber: latest.number - BLOCK_TIME_PROBE });
+	return Number(latest.timestamp - probe.timestamp) / Number(BLOCK_TIME_PROBE);
+}
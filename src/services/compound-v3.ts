@@ -0,0 +1,137 @@
+/**
+ * Compound V3
+ * On-chain Comet market reader: base asset rates, supply, borrows and pause state
+ */
+
+import { formatUnits, parseAbi, type Address, type PublicClient } from 'viem';
+import type { ChainName } from './chains';
+import { rateToAPY, SECONDS_PER_YEAR, WAD, type TokenInfo } from './defi-math';
+
+/**
+ * Comet proxies per chain (one market per base asset)
+ */
+export const COMPOUND_V3_MARKETS: Record<ChainName, Address[]> = {
+	base: ['0xb125E6687d4313864e53df431d5425969c15Eb2F', '0x46e6b214b524310239732D51387075E0e70970bf'],
+	mainnet: ['0xc3d688B66703497DAA19211EEdff47f25384cdc3', '0xA17581A9E3356d9A858b789D68B4d866e593aE94'],
+	arbitrum: ['0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf'],
+	optimism: ['0x2e44e174f7D53F0212823acC11C01A11d58c5bCB'],
+	polygon: ['0xF25212E676D1F7F89Cd72fFEe66158f541246445'],
+};
+
+export const cometAbi = parseAbi([
+	'function baseToken() view returns (address)',
+	'function baseTokenPriceFeed() view returns (address)',
+	'function getPrice(address priceFeed) view returns (uint256)',
+	'function getUtilization() view returns (uint256)',
+	'function getSupplyRate(uint256 utilization) view returns (uint64)',
+	'function getBorrowRate(uint256 utilization) view returns (uint64)',
+	'function totalSupply() view returns (uint256)',
+	'function totalBorrow() view returns (uint256)',
+	'function decimals() view returns (uint8)',
+	'function getReserves() view returns (int256)',
+	'function isSupplyPaused() view returns (bool)',
+	'function isWithdrawPaused() view returns (bool)',
+]);
+
+const erc20Abi = parseAbi(['function symbol() view returns (string)']);
+
+// Comet price feeds report with 8 decimals, in USD except for the markets below
+const PRICE_DECIMALS = 8;
+
+/**
+ * WETH markets price in ETH (their base feed is a constant 1.0), keyed by Comet with the
+ * Chainlink ETH/USD feed that converts those prices to USD
+ */
+const ETH_QUOTED_COMETS: Record<string, Address> = {
+	'0x46e6b214b524310239732d51387075e0e70970bf': '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+	'0xa17581a9e3356d9a858b789d68b4d866e593ae94': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+};
+
+export interface CometMarket {
+	comet: Address;
+	asset: TokenInfo;
+	supplyAPR: number;
+	supplyAPY: number;
+	borrowAPR: number;
+	borrowAPY: number;
+	totalSupplied: string;
+	totalBorrowed: string;
+	utilization: number;
+	priceUsd: number;
+	/** Protocol reserves in base units; negative means bad debt exceeds reserves */
+	reserves: string;
+	supplyPaused: boolean;
+	withdrawPaused: boolean;
+}
+
+/**
+ * Base asset of each market, for matching a requested asset before the full read
+ */
+export async function listCometAssets(
+	client: PublicClient,
+	chain: ChainName,
+	blockNumber: bigint
+): Promise<Array<{ comet: Address; address: Address; symbol: string }>> {
+	return Promise.all(
+		COMPOUND_V3_MARKETS[chain].map(async (comet) => {
+			const address = await client.readContract({ address: comet, abi: cometAbi, functionName: 'baseToken', blockNumber });
+			const symbol = await client.readContract({ address, abi: erc20Abi, functionName: 'symbol', blockNumber }).catch(() => address);
+			return { comet, address, symbol };
+		})
+	);
+}
+
+/**
+ * Read one Comet market at a block
+ */
+export async function readCometMarket(
+	client: PublicClient,
+	market: { comet: Address; address: Address; symbol: string },
+	blockNumber: bigint
+): Promise<CometMarket> {
+	const read = <T extends 'getUtilization' | 'totalSupply' | 'totalBorrow' | 'decimals' | 'getReserves' | 'isSupplyPaused' | 'isWithdrawPaused' | 'baseTokenPriceFeed'>(
+		functionName: T
+	) => client.readContract({ address: market.comet, abi: cometAbi, functionName, blockNumber });
+
+	const [utilization, supplied, borrowed, decimals, reserves, supplyPaused, withdrawPaused, priceFeed] = await Promise.all([
+		read('getUtilization'),
+		read('totalSupply'),
+		read('totalBorrow'),
+		read('decimals'),
+		read('getReserves'),
+		read('isSupplyPaused'),
+		read('isWithdrawPaused'),
+		read('baseTokenPriceFeed'),
+	]);
+
+	// getPrice reads any Chainlink feed, so ETH-quoted markets convert through the ETH/USD feed
+	const ethUsdFeed = ETH_QUOTED_COMETS[market.comet.toLowerCase()];
+	const getPrice = (feed: Address) => client.readContract({ address: market.comet, abi: cometAbi, functionName: 'getPrice', args: [feed], blockNumber });
+	const [supplyRate, borrowRate, price, ethUsd] = await Promise.all([
+		client.readContract({ address: market.comet, abi: cometAbi, functionName: 'getSupplyRate', args: [utilization], blockNumber }),
+		client.readContract({ address: market.comet, abi: cometAbi, functionName: 'getBorrowRate', args: [utilization], blockNumber }),
+		getPrice(priceFeed),
+		ethUsdFeed ? getPrice(ethUsdFeed) : undefined,
+	]);
+	const priceUsd = Number(formatUnits(price, PRICE_DECIMALS)) * (ethUsd === undefined ? 1 : Number(formatUnits(ethUsd, PRICE_DECIMALS)));
+
+	// Rates are per second, scaled by 1e18
+	const supplyPerSecond = Number(supplyRate) / Number(WAD);
+	const borrowPerSecond = Number(borrowRate) / Number(WAD);
+
+	return {
+		comet: market.comet,
+		asset: { address: market.address, symbol: market.symbol, decimals },
+		supplyAPR: supplyPerSecond * SECONDS_PER_YEAR,
+		supplyAPY: rateToAPY(supplyPerSecond),
+		borrowAPR: borrowPerSecond * SECONDS_PER_YEAR,
+		borrowAPY: rateToAPY(borrowPerSecond),
+		totalSupplied: formatUnits(supplied, decimals),
+		totalBorrowed: formatUnits(borrowed, decimals),
+		utilization: Number(utilization) / Number(WAD),
+		priceUsd,
+		reserves: formatUnits(reserves, decimals),
+		supplyPaused,
+		withdrawPaused,
+	};
+}
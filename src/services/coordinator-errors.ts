@@ -0,0 +1,19 @@
+/**
+ * Coordinator Errors
+ * Tagged errors that transports map to status codes
+ */
+
+export type CoordinatorErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'INVALID' | 'UNAUTHORIZED';
+
+/**
+ * Error raised by the coordinator, tagged so transports can map it to a status code
+ */
+export class CoordinatorError extends Error {
+	constructor(
+		public code: CoordinatorErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = 'CoordinatorError';
+	}
+}
@@ -0,0 +1,914 @@
+/**
+ * Coordinator Store
+ * SQLite-backed Durable Object storage for the agent coordinator
+ */
+
+import type { AgentMessage, RegisteredAgent, TaskDelegation } from './agent-coordinator';
+import type { WorkflowRun } from './workflow-engine';
+import { decayReputation, type CapabilityReputation } from './reputation';
+import type { QueuedMessage } from './message-delivery';
+
+interface Migration {
+	version: number;
+	name: string;
+	statements: string[];
+}
+
+/**
+ * Schema migrations, applied in order. Never edit a shipped migration - append a new one.
+ */
+const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: 'initial-schema',
+		statements: [
+			`CREATE TABLE agents (
+				id TEXT PRIMARY KEY,
+				name TEXT NOT NULL,
+				endpoint TEXT NOT NULL,
+				capabilities TEXT NOT NULL,
+				registered_at INTEGER NOT NULL,
+				last_seen INTEGER NOT NULL,
+				reputation REAL NOT NULL
+			)`,
+			`CREATE TABLE agent_capabilities (
+				agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+				kind TEXT NOT NULL,
+				value TEXT NOT NULL,
+				PRIMARY KEY (agent_id, kind, value)
+			)`,
+			`CREATE INDEX idx_agent_capabilities_value ON agent_capabilities(value, kind)`,
+			`CREATE TABLE messages (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				recipient TEXT NOT NULL,
+				sender TEXT NOT NULL,
+				type TEXT NOT NULL,
+				payload TEXT NOT NULL,
+				timestamp INTEGER NOT NULL,
+				signature TEXT
+			)`,
+			`CREATE INDEX idx_messages_recipient ON messages(recipient, id)`,
+			`CREATE TABLE delegations (
+				task_id TEXT PRIMARY KEY,
+				from_agent TEXT NOT NULL,
+				to_agent TEXT NOT NULL,
+				task TEXT NOT NULL,
+				status TEXT NOT NULL,
+				result TEXT,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			)`,
+			`CREATE INDEX idx_delegations_status ON delegations(status, updated_at)`,
+			`CREATE INDEX idx_delegations_to_agent ON delegations(to_agent, status)`,
+		],
+	},
+	{
+		version: 2,
+		name: 'message-signatures',
+		statements: [
+			`ALTER TABLE agents ADD COLUMN signer_address TEXT`,
+			`ALTER TABLE messages ADD COLUMN nonce TEXT`,
+			`CREATE TABLE message_nonces (
+				agent_id TEXT NOT NULL,
+				nonce TEXT NOT NULL,
+				expires_at INTEGER NOT NULL,
+				PRIMARY KEY (agent_id, nonce)
+			)`,
+			`CREATE INDEX idx_message_nonces_expires_at ON message_nonces(expires_at)`,
+		],
+	},
+	{
+		version: 3,
+		name: 'workflow-runs',
+		statements: [
+			`CREATE TABLE workflow_runs (
+				run_id TEXT PRIMARY KEY,
+				name TEXT NOT NULL,
+				status TEXT NOT NULL,
+				state TEXT NOT NULL,
+				wake_at INTEGER,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			)`,
+			`CREATE INDEX idx_workflow_runs_status ON workflow_runs(status, updated_at)`,
+			`CREATE INDEX idx_workflow_runs_wake_at ON workflow_runs(wake_at)`,
+			`CREATE TABLE workflow_tasks (
+				task_id TEXT PRIMARY KEY,
+				run_id TEXT NOT NULL,
+				step_id TEXT NOT NULL,
+				deadline INTEGER NOT NULL,
+				settled INTEGER NOT NULL DEFAULT 0
+			)`,
+			`CREATE INDEX idx_workflow_tasks_deadline ON workflow_tasks(settled, deadline)`,
+		],
+	},
+	{
+		version: 4,
+		name: 'agent-reputation',
+		statements: [
+			`ALTER TABLE agents ADD COLUMN reputation_updated_at INTEGER`,
+			`CREATE TABLE agent_reputation (
+				agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+				capability TEXT NOT NULL,
+				score REAL NOT NULL,
+				completed INTEGER NOT NULL DEFAULT 0,
+				failed INTEGER NOT NULL DEFAULT 0,
+				timed_out INTEGER NOT NULL DEFAULT 0,
+				avg_latency_ms INTEGER,
+				updated_at INTEGER NOT NULL,
+				PRIMARY KEY (agent_id, capability)
+			)`,
+		],
+	},
+	{
+		version: 5,
+		name: 'agent-health',
+		statements: [
+			`ALTER TABLE agents ADD COLUMN health TEXT NOT NULL DEFAULT 'healthy'`,
+			`CREATE INDEX idx_agents_last_seen ON agents(health, last_seen)`,
+		],
+	},
+	{
+		version: 6,
+		name: 'message-delivery',
+		statements: [
+			// Agents registered before push delivery existed keep polling
+			`ALTER TABLE agents ADD COLUMN delivery TEXT NOT NULL DEFAULT 'poll'`,
+			`ALTER TABLE messages ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'`,
+			`ALTER TABLE messages ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0`,
+			`ALTER TABLE messages ADD COLUMN next_attempt_at INTEGER NOT NULL DEFAULT 0`,
+			`ALTER TABLE messages ADD COLUMN last_error TEXT`,
+			`CREATE INDEX idx_messages_delivery ON messages(status, next_attempt_at)`,
+		],
+	},
+	{
+		version: 7,
+		name: 'a2a-context',
+		statements: [`ALTER TABLE delegations ADD COLUMN context_id TEXT`],
+	},
+	{
+		version: 8,
+		name: 'a2a-remote-tasks',
+		statements: [
+			`ALTER TABLE delegations ADD COLUMN remote_task_id TEXT`,
+			`ALTER TABLE delegations ADD COLUMN next_poll_at INTEGER`,
+			`CREATE INDEX idx_delegations_next_poll_at ON delegations(next_poll_at)`,
+		],
+	},
+];
+
+type AgentRow = {
+	id: string;
+	name: string;
+	endpoint: string;
+	capabilities: string;
+	registered_at: number;
+	last_seen: number;
+	reputation: number;
+	reputation_updated_at: number | null;
+	signer_address: string | null;
+	health: string;
+	delivery: string;
+};
+
+type RankedAgentRow = AgentRow & {
+	capability_score: number | null;
+	capability_updated_at: number | null;
+};
+
+type CapabilityReputationRow = {
+	agent_id: string;
+	capability: string;
+	score: number;
+	completed: number;
+	failed: number;
+	timed_out: number;
+	avg_latency_ms: number | null;
+	updated_at: number;
+};
+
+type MessageRow = {
+	id: number;
+	recipient: string;
+	sender: string;
+	type: string;
+	payload: string;
+	timestamp: number;
+	signature: string | null;
+	nonce: string | null;
+	status: string;
+	attempts: number;
+	next_attempt_at: number;
+	last_error: string | null;
+};
+
+type DelegationRow = {
+	task_id: string;
+	from_agent: string;
+	to_agent: string;
+	task: string;
+	status: string;
+	result: string | null;
+	error: string | null;
+	created_at: number;
+	updated_at: number;
+	context_id: string | null;
+	remote_task_id: string | null;
+	next_poll_at: number | null;
+};
+
+type WorkflowRunRow = {
+	run_id: string;
+	name: string;
+	status: string;
+	state: string;
+	wake_at: number | null;
+	created_at: number;
+	updated_at: number;
+};
+
+type WorkflowTaskRow = {
+	task_id: string;
+	run_id: string;
+	step_id: string;
+	deadline: number;
+	settled: number;
+};
+
+export interface WorkflowTaskLink {
+	taskId: string;
+	runId: string;
+	stepId: string;
+	deadline: number;
+	settled: boolean;
+}
+
+/**
+ * Parse a JSON column, tolerating NULL
+ */
+function parseJson<T>(value: string | null): T | undefined {
+	return value === null ? undefined : (JSON.parse(value) as T);
+}
+
+function rowToAgent(row: AgentRow): RegisteredAgent {
+	return {
+		id: row.id,
+		name: row.name,
+		endpoint: row.endpoint,
+		capabilities: JSON.parse(row.capabilities),
+		registeredAt: new Date(row.registered_at),
+		lastSeen: new Date(row.last_seen),
+		// Stored scores decay toward neutral until the next outcome is recorded
+		reputation: decayReputation(row.reputation, row.reputation_updated_at ?? row.last_seen),
+		health: row.health as RegisteredAgent['health'],
+		delivery: row.delivery as RegisteredAgent['delivery'],
+		...(row.signer_address ? { signer: row.signer_address as RegisteredAgent['signer'] } : {}),
+	};
+}
+
+function rowToMessage(row: MessageRow): QueuedMessage {
+	return {
+		id: row.id,
+		from: row.sender,
+		to: row.recipient,
+		type: row.type as AgentMessage['type'],
+		payload: JSON.parse(row.payload),
+		timestamp: row.timestamp,
+		...(row.signature ? { signature: row.signature } : {}),
+		...(row.nonce ? { nonce: row.nonce } : {}),
+		attempts: row.attempts,
+		...(row.last_error !== null ? { lastError: row.last_error } : {}),
+	};
+}
+
+function rowToDelegation(row: DelegationRow): TaskDelegation {
+	const delegation: TaskDelegation = {
+		taskId: row.task_id,
+		fromAgent: row.from_agent,
+		toAgent: row.to_agent,
+		task: JSON.parse(row.task),
+		status: row.status as TaskDelegation['status'],
+		createdAt: new Date(row.created_at),
+		updatedAt: new Date(row.updated_at),
+	};
+
+	const result = parseJson(row.result);
+	if (result !== undefined) delegation.result = result;
+	if (row.error !== null) delegation.error = row.error;
+	if (row.context_id !== null) delegation.contextId = row.context_id;
+	if (row.remote_task_id !== null) delegation.remoteTaskId = row.remote_task_id;
+
+	return delegation;
+}
+
+function rowToCapabilityReputation(row: CapabilityReputationRow): CapabilityReputation {
+	return {
+		agentId: row.agent_id,
+		capability: row.capability,
+		score: row.score,
+		completed: row.completed,
+		failed: row.failed,
+		timedOut: row.timed_out,
+		...(row.avg_latency_ms !== null ? { avgLatencyMs: row.avg_latency_ms } : {}),
+		updatedAt: new Date(row.updated_at),
+	};
+}
+
+function rowToWorkflowRun(row: WorkflowRunRow): WorkflowRun {
+	const state = JSON.parse(row.state);
+	return {
+		...state,
+		runId: row.run_id,
+		name: row.name,
+		status: row.status as WorkflowRun['status'],
+		createdAt: new Date(row.created_at),
+		updatedAt: new Date(row.updated_at),
+		...(state.completedAt ? { completedAt: new Date(state.completedAt) } : {}),
+	};
+}
+
+function rowToWorkflowTask(row: WorkflowTaskRow): WorkflowTaskLink {
+	return {
+		taskId: row.task_id,
+		runId: row.run_id,
+		stepId: row.step_id,
+		deadline: row.deadline,
+		settled: row.settled === 1,
+	};
+}
+
+/**
+ * Coordinator Store
+ * Persists the agent registry, message queues and delegation records
+ */
+export class CoordinatorStore {
+	constructor(private storage: DurableObjectStorage) {}
+
+	private get sql(): SqlStorage {
+		return this.storage.sql;
+	}
+
+	/**
+	 * Apply pending schema migrations
+	 */
+	migrate(): void {
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at INTEGER NOT NULL
+		)`);
+
+		const { version } = this.sql.exec<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations').one();
+		const current = version ?? 0;
+
+		for (const migration of MIGRATIONS) {
+			if (migration.version <= current) continue;
+
+			this.storage.transactionSync(() => {
+				for (const statement of migration.statements) {
+					this.sql.exec(statement);
+				}
+				this.sql.exec(
+					'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+					migration.version,
+					migration.name,
+					Date.now()
+				);
+			});
+
+			console.log(`Coordinator store migrated to v${migration.version} (${migration.name})`);
+		}
+	}
+
+	/**
+	 * Insert or replace an agent and re-index its capabilities
+	 */
+	saveAgent(agent: RegisteredAgent): void {
+		this.storage.transactionSync(() => {
+			this.sql.exec(
+				`INSERT INTO agents (id, name, endpoint, capabilities, registered_at, last_seen, reputation, reputation_updated_at, signer_address, health, delivery)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(id) DO UPDATE SET
+					name = excluded.name,
+					endpoint = excluded.endpoint,
+					capabilities = excluded.capabilities,
+					registered_at = excluded.registered_at,
+					last_seen = excluded.last_seen,
+					reputation = excluded.reputation,
+					reputation_updated_at = excluded.reputation_updated_at,
+					signer_address = excluded.signer_address,
+					health = excluded.health,
+					delivery = excluded.delivery`,
+				agent.id,
+				agent.name,
+				agent.endpoint,
+				JSON.stringify(agent.capabilities),
+				agent.registeredAt.getTime(),
+				agent.lastSeen.getTime(),
+				agent.reputation,
+				Date.now(),
+				agent.signer ?? null,
+				agent.health,
+				agent.delivery
+			);
+
+			this.sql.exec('DELETE FROM agent_capabilities WHERE agent_id = ?', agent.id);
+			for (const capability of agent.capabilities) {
+				const entries: Array<[string, string[]]> = [
+					['operation', capability.operations],
+					['protocol', capability.protocols],
+					['chain', capability.chains],
+				];
+
+				for (const [kind, values] of entries) {
+					for (const value of values) {
+						this.sql.exec('INSERT OR IGNORE INTO agent_capabilities (agent_id, kind, value) VALUES (?, ?, ?)', agent.id, kind, value);
+					}
+				}
+			}
+		});
+	}
+
+	getAgent(agentId: string): RegisteredAgent | undefined {
+		const rows = this.sql.exec<AgentRow>('SELECT * FROM agents WHERE id = ?', agentId).toArray();
+		return rows.length > 0 ? rowToAgent(rows[0]) : undefined;
+	}
+
+	listAgents(): RegisteredAgent[] {
+		return this.sql.exec<AgentRow>('SELECT * FROM agents ORDER BY registered_at').toArray().map(rowToAgent);
+	}
+
+	/**
+	 * Record that an agent was seen, restoring it to healthy
+	 */
+	touchAgent(agentId: string, seenAt: number): void {
+		this.sql.exec(`UPDATE agents SET last_seen = ?, health = 'healthy' WHERE id = ?`, seenAt, agentId);
+	}
+
+	/**
+	 * Mark healthy agents not seen since `before` as unhealthy. Returns their ids.
+	 */
+	markAgentsUnhealthy(before: number): string[] {
+		return this.sql
+			.exec<{ id: string }>(`UPDATE agents SET health = 'unhealthy' WHERE health = 'healthy' AND last_seen < ? RETURNING id`, before)
+			.toArray()
+			.map((row) => row.id);
+	}
+
+	/**
+	 * Remove unhealthy agents not seen since `before`, with their capabilities, scores and queued messages.
+	 * Delegation history is kept. Returns the evicted ids.
+	 */
+	evictAgents(before: number): string[] {
+		return this.storage.transactionSync(() => {
+			const ids = this.sql
+				.exec<{ id: string }>(`SELECT id FROM agents WHERE health = 'unhealthy' AND last_seen < ?`, before)
+				.toArray()
+				.map((row) => row.id);
+
+			for (const id of ids) {
+				this.sql.exec('DELETE FROM agent_capabilities WHERE agent_id = ?', id);
+				this.sql.exec('DELETE FROM agent_reputation WHERE agent_id = ?', id);
+				this.sql.exec('DELETE FROM messages WHERE recipient = ?', id);
+				this.sql.exec('DELETE FROM agents WHERE id = ?', id);
+			}
+
+			return ids;
+		});
+	}
+
+	/**
+	 * Next time an agent goes stale: a healthy one after `unhealthyAfterMs`, an unhealthy one after `evictAfterMs`
+	 */
+	getNextLivenessDeadline(unhealthyAfterMs: number, evictAfterMs: number): number | undefined {
+		const { next } = this.sql
+			.exec<{ next: number | null }>(
+				`SELECT MIN(t) AS next FROM (
+					SELECT MIN(last_seen) + ? AS t FROM agents WHERE health = 'healthy'
+					UNION ALL
+					SELECT MIN(last_seen) + ? AS t FROM agents WHERE health = 'unhealthy'
+				)`,
+				unhealthyAfterMs,
+				evictAfterMs
+			)
+			.one();
+		return next ?? undefined;
+	}
+
+	/**
+	 * Find agents advertising a capability value (operation, protocol or chain), best first.
+	 * Healthy agents come first; within each group agents are ranked on their score for that
+	 * capability, falling back to overall reputation.
+	 */
+	findAgentsByCapability(value: string): RegisteredAgent[] {
+		const now = Date.now();
+		return this.sql
+			.exec<RankedAgentRow>(
+				`SELECT a.*, r.score AS capability_score, r.updated_at AS capability_updated_at FROM agents a
+				LEFT JOIN agent_reputation r ON r.agent_id = a.id AND r.capability = ?
+				WHERE a.id IN (SELECT agent_id FROM agent_capabilities WHERE value = ?)`,
+				value,
+				value
+			)
+			.toArray()
+			.map((row) => {
+				const agent = rowToAgent(row);
+				const rank =
+					row.capability_score !== null && row.capability_updated_at !== null
+						? decayReputation(row.capability_score, row.capability_updated_at, now)
+						: agent.reputation;
+				return { agent, rank };
+			})
+			.sort(
+				(a, b) =>
+					Number(b.agent.health === 'healthy') - Number(a.agent.health === 'healthy') ||
+					b.rank - a.rank ||
+					b.agent.reputation - a.agent.reputation
+			)
+			.map(({ agent }) => agent);
+	}
+
+	/**
+	 * Agents advertising every given capability term, matched on kind as well as value
+	 */
+	findAgentsWithTerms(terms: Array<{ kind: string; value: string }>): RegisteredAgent[] {
+		if (terms.length === 0) return this.listAgents();
+
+		const clauses = terms.map(() => 'a.id IN (SELECT agent_id FROM agent_capabilities WHERE kind = ? AND value = ?)');
+		return this.sql
+			.exec<AgentRow>(
+				`SELECT a.* FROM agents a WHERE ${clauses.join(' AND ')} ORDER BY a.registered_at`,
+				...terms.flatMap((term) => [term.kind, term.value])
+			)
+			.toArray()
+			.map(rowToAgent);
+	}
+
+	getCapabilityReputation(agentId: string, capability: string): CapabilityReputation | undefined {
+		const rows = this.sql
+			.exec<CapabilityReputationRow>('SELECT * FROM agent_reputation WHERE agent_id = ? AND capability = ?', agentId, capability)
+			.toArray();
+		return rows.length > 0 ? rowToCapabilityReputation(rows[0]) : undefined;
+	}
+
+	/**
+	 * Capability track records for an agent, as last recorded (not decayed)
+	 */
+	listCapabilityReputations(agentId: string): CapabilityReputation[] {
+		return this.sql
+			.exec<CapabilityReputationRow>('SELECT * FROM agent_reputation WHERE agent_id = ? ORDER BY capability', agentId)
+			.toArray()
+			.map(rowToCapabilityReputation);
+	}
+
+	saveCapabilityReputation(reputation: CapabilityReputation): void {
+		this.sql.exec(
+			`INSERT INTO agent_reputation (agent_id, capability, score, completed, failed, timed_out, avg_latency_ms, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(agent_id, capability) DO UPDATE SET
+				score = excluded.score,
+				completed = excluded.completed,
+				failed = excluded.failed,
+				timed_out = excluded.timed_out,
+				avg_latency_ms = excluded.avg_latency_ms,
+				updated_at = excluded.updated_at`,
+			reputation.agentId,
+			reputation.capability,
+			reputation.score,
+			reputation.completed,
+			reputation.failed,
+			reputation.timedOut,
+			reputation.avgLatencyMs ?? null,
+			reputation.updatedAt.getTime()
+		);
+	}
+
+	/**
+	 * Append a message to the recipient's queue, due for delivery now. Returns the message id.
+	 */
+	enqueueMessage(message: AgentMessage): number {
+		const { id } = this.sql
+			.exec<{ id: number }>(
+				`INSERT INTO messages (recipient, sender, type, payload, timestamp, signature, nonce, next_attempt_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+				message.to,
+				message.from,
+				message.type,
+				JSON.stringify(message.payload ?? null),
+				message.timestamp,
+				message.signature ?? null,
+				message.nonce ?? null,
+				Date.now()
+			)
+			.one();
+		return id;
+	}
+
+	/**
+	 * Record a sender's nonce. Returns false if it was already used (a replay).
+	 * Expired nonces are pruned on the way in.
+	 */
+	consumeNonce(agentId: string, nonce: string, expiresAt: number): boolean {
+		return this.storage.transactionSync(() => {
+			this.sql.exec('DELETE FROM message_nonces WHERE expires_at < ?', Date.now());
+
+			const seen = this.sql.exec('SELECT 1 FROM message_nonces WHERE agent_id = ? AND nonce = ?', agentId, nonce).toArray();
+			if (seen.length > 0) return false;
+
+			this.sql.exec('INSERT INTO message_nonces (agent_id, nonce, expires_at) VALUES (?, ?, ?)', agentId, nonce, expiresAt);
+			return true;
+		});
+	}
+
+	/**
+	 * Hand out a recipient's due messages and hide them until `leaseUntil` while awaiting acknowledgement.
+	 * Messages that already used up `maxAttempts` are dead-lettered instead.
+	 */
+	leaseMessages(recipient: string, now: number, leaseUntil: number, maxAttempts: number): QueuedMessage[] {
+		return this.storage.transactionSync(() => {
+			this.sql.exec(
+				`UPDATE messages SET status = 'dead', last_error = 'Not acknowledged'
+				WHERE recipient = ? AND status = 'pending' AND next_attempt_at <= ? AND attempts >= ?`,
+				recipient,
+				now,
+				maxAttempts
+			);
+
+			return this.sql
+				.exec<MessageRow>(
+					`UPDATE messages SET attempts = attempts + 1, next_attempt_at = ?
+					WHERE recipient = ? AND status = 'pending' AND next_attempt_at <= ?
+					RETURNING *`,
+					leaseUntil,
+					recipient,
+					now
+				)
+				.toArray()
+				.map(rowToMessage)
+				.sort((a, b) => a.id - b.id);
+		});
+	}
+
+	/**
+	 * Claim due messages for push-mode and A2A recipients, hiding them until `claimUntil` while the push is in flight
+	 */
+	claimPushMessages(
+		now: number,
+		claimUntil: number,
+		limit: number
+	): Array<{ endpoint: string; delivery: RegisteredAgent['delivery']; message: QueuedMessage }> {
+		return this.storage.transactionSync(() => {
+			const rows = this.sql
+				.exec<MessageRow & { endpoint: string; delivery: string }>(
+					`SELECT m.*, a.endpoint, a.delivery FROM messages m JOIN agents a ON a.id = m.recipient
+					WHERE m.status = 'pending' AND m.next_attempt_at <= ? AND a.delivery IN ('push', 'a2a')
+					ORDER BY m.next_attempt_at, m.id LIMIT ?`,
+					now,
+					limit
+				)
+				.toArray();
+
+			for (const row of rows) {
+				this.sql.exec('UPDATE messages SET attempts = attempts + 1, next_attempt_at = ? WHERE id = ?', claimUntil, row.id);
+			}
+
+			return rows.map((row) => ({
+				endpoint: row.endpoint,
+				delivery: row.delivery as RegisteredAgent['delivery'],
+				message: rowToMessage({ ...row, attempts: row.attempts + 1 }),
+			}));
+		});
+	}
+
+	/**
+	 * Remove acknowledged messages. Returns the ids that were still pending for the recipient.
+	 */
+	acknowledgeMessages(recipient: string, ids: number[]): number[] {
+		if (ids.length === 0) return [];
+
+		return this.sql
+			.exec<{ id: number }>(
+				`DELETE FROM messages WHERE recipient = ? AND status = 'pending' AND id IN (${ids.map(() => '?').join(', ')}) RETURNING id`,
+				recipient,
+				...ids
+			)
+			.toArray()
+			.map((row) => row.id);
+	}
+
+	/**
+	 * Record a failed attempt: retry at `nextAttemptAt`, or dead-letter when `nextAttemptAt` is null
+	 */
+	failMessageDelivery(id: number, error: string, nextAttemptAt: number | null): void {
+		if (nextAttemptAt === null) {
+			this.sql.exec(`UPDATE messages SET status = 'dead', last_error = ? WHERE id = ?`, error, id);
+		} else {
+			this.sql.exec('UPDATE messages SET next_attempt_at = ?, last_error = ? WHERE id = ?', nextAttemptAt, error, id);
+		}
+	}
+
+	/**
+	 * Dead-lettered messages, oldest first, optionally for one recipient
+	 */
+	listDeadLetters(recipient?: string, limit = 100): QueuedMessage[] {
+		const rows = recipient
+			? this.sql.exec<MessageRow>(`SELECT * FROM messages WHERE status = 'dead' AND recipient = ? ORDER BY id LIMIT ?`, recipient, limit)
+			: this.sql.exec<MessageRow>(`SELECT * FROM messages WHERE status = 'dead' ORDER BY id LIMIT ?`, limit);
+		return rows.toArray().map(rowToMessage);
+	}
+
+	/**
+	 * Put a dead-lettered message back in its queue with a fresh attempt budget
+	 */
+	requeueDeadLetter(id: number): QueuedMessage | undefined {
+		const rows = this.sql
+			.exec<MessageRow>(
+				`UPDATE messages SET status = 'pending', attempts = 0, next_attempt_at = ?, last_error = NULL
+				WHERE id = ? AND status = 'dead' RETURNING *`,
+				Date.now(),
+				id
+			)
+			.toArray();
+		return rows.length > 0 ? rowToMessage(rows[0]) : undefined;
+	}
+
+	/**
+	 * Earliest pending push (or A2A) delivery
+	 */
+	getNextDeliveryTime(): number | undefined {
+		const { next } = this.sql
+			.exec<{ next: number | null }>(
+				`SELECT MIN(m.next_attempt_at) AS next FROM messages m JOIN agents a ON a.id = m.recipient
+				WHERE m.status = 'pending' AND a.delivery IN ('push', 'a2a')`
+			)
+			.one();
+		return next ?? undefined;
+	}
+
+	/**
+	 * Insert or update a delegation record
+	 */
+	saveDelegation(delegation: TaskDelegation): void {
+		const now = Date.now();
+		this.sql.exec(
+			`INSERT INTO delegations (task_id, from_agent, to_agent, task, status, result, error, created_at, updated_at, context_id)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(task_id) DO UPDATE SET
+				status = excluded.status,
+				result = excluded.result,
+				error = excluded.error,
+				updated_at = excluded.updated_at`,
+			delegation.taskId,
+			delegation.fromAgent,
+			delegation.toAgent,
+			JSON.stringify(delegation.task),
+			delegation.status,
+			delegation.result === undefined ? null : JSON.stringify(delegation.result),
+			delegation.error ?? null,
+			delegation.createdAt.getTime(),
+			now,
+			delegation.contextId ?? null
+		);
+	}
+
+	getDelegation(taskId: string): TaskDelegation | undefined {
+		const rows = this.sql.exec<DelegationRow>('SELECT * FROM delegations WHERE task_id = ?', taskId).toArray();
+		return rows.length > 0 ? rowToDelegation(rows[0]) : undefined;
+	}
+
+	/**
+	 * Record the task a card agent created for a delegation and when to next ask it for the status
+	 */
+	setRemoteTask(taskId: string, remoteTaskId: string, nextPollAt: number): void {
+		this.sql.exec('UPDATE delegations SET remote_task_id = ?, next_poll_at = ? WHERE task_id = ?', remoteTaskId, nextPollAt, taskId);
+	}
+
+	/**
+	 * Reschedule (or with null, stop) status polling for a delegation's remote task
+	 */
+	scheduleRemotePoll(taskId: string, nextPollAt: number | null): void {
+		this.sql.exec('UPDATE delegations SET next_poll_at = ? WHERE task_id = ?', nextPollAt, taskId);
+	}
+
+	/**
+	 * Open delegations whose remote task is due for a status poll, most overdue first
+	 */
+	listDueRemoteTasks(now: number, limit: number): TaskDelegation[] {
+		return this.sql
+			.exec<DelegationRow>(
+				`SELECT * FROM delegations WHERE next_poll_at <= ? AND status IN ('pending', 'in-progress') ORDER BY next_poll_at LIMIT ?`,
+				now,
+				limit
+			)
+			.toArray()
+			.map(rowToDelegation);
+	}
+
+	getNextRemotePollTime(): number | undefined {
+		const { next } = this.sql
+			.exec<{ next: number | null }>(`SELECT MIN(next_poll_at) AS next FROM delegations WHERE status IN ('pending', 'in-progress')`)
+			.one();
+		return next ?? undefined;
+	}
+
+	/**
+	 * List delegations in a given status, oldest update first
+	 */
+	listDelegationsByStatus(status: TaskDelegation['status']): TaskDelegation[] {
+		return this.sql
+			.exec<DelegationRow>('SELECT * FROM delegations WHERE status = ? ORDER BY updated_at', status)
+			.toArray()
+			.map(rowToDelegation);
+	}
+
+	/**
+	 * Insert or update a workflow run. `wakeAt` is the earliest pending retry, if any.
+	 */
+	saveWorkflowRun(run: WorkflowRun, wakeAt: number | null): void {
+		const { runId, name, status, createdAt, updatedAt, ...state } = run;
+		this.sql.exec(
+			`INSERT INTO workflow_runs (run_id, name, status, state, wake_at, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(run_id) DO UPDATE SET
+				status = excluded.status,
+				state = excluded.state,
+				wake_at = excluded.wake_at,
+				updated_at = excluded.updated_at`,
+			runId,
+			name,
+			status,
+			JSON.stringify(state),
+			wakeAt,
+			createdAt.getTime(),
+			updatedAt.getTime()
+		);
+	}
+
+	getWorkflowRun(runId: string): WorkflowRun | undefined {
+		const rows = this.sql.exec<WorkflowRunRow>('SELECT * FROM workflow_runs WHERE run_id = ?', runId).toArray();
+		return rows.length > 0 ? rowToWorkflowRun(rows[0]) : undefined;
+	}
+
+	/**
+	 * List workflow runs, newest first, optionally filtered by status
+	 */
+	listWorkflowRuns(status?: WorkflowRun['status'], limit = 50): WorkflowRun[] {
+		const rows = status
+			? this.sql.exec<WorkflowRunRow>('SELECT * FROM workflow_runs WHERE status = ? ORDER BY updated_at DESC LIMIT ?', status, limit)
+			: this.sql.exec<WorkflowRunRow>('SELECT * FROM workflow_runs ORDER BY updated_at DESC LIMIT ?', limit);
+		return rows.toArray().map(rowToWorkflowRun);
+	}
+
+	/**
+	 * Running workflows with a retry due at or before `now`
+	 */
+	listDueWorkflowRuns(now: number): WorkflowRun[] {
+		return this.sql
+			.exec<WorkflowRunRow>(`SELECT * FROM workflow_runs WHERE status = 'running' AND wake_at IS NOT NULL AND wake_at <= ? ORDER BY wake_at`, now)
+			.toArray()
+			.map(rowToWorkflowRun);
+	}
+
+	/**
+	 * Remember which workflow step a delegation belongs to
+	 */
+	linkWorkflowTask(taskId: string, runId: string, stepId: string, deadline: number): void {
+		this.sql.exec('INSERT INTO workflow_tasks (task_id, run_id, step_id, deadline) VALUES (?, ?, ?, ?)', taskId, runId, stepId, deadline);
+	}
+
+	getWorkflowTask(taskId: string): WorkflowTaskLink | undefined {
+		const rows = this.sql.exec<WorkflowTaskRow>('SELECT * FROM workflow_tasks WHERE task_id = ?', taskId).toArray();
+		return rows.length > 0 ? rowToWorkflowTask(rows[0]) : undefined;
+	}
+
+	settleWorkflowTask(taskId: string): void {
+		this.sql.exec('UPDATE workflow_tasks SET settled = 1 WHERE task_id = ?', taskId);
+	}
+
+	/**
+	 * Unsettled workflow delegations past their deadline
+	 */
+	listExpiredWorkflowTasks(now: number): WorkflowTaskLink[] {
+		return this.sql
+			.exec<WorkflowTaskRow>('SELECT * FROM workflow_tasks WHERE settled = 0 AND deadline <= ? ORDER BY deadline', now)
+			.toArray()
+			.map(rowToWorkflowTask);
+	}
+
+	/**
+	 * Earliest upcoming step deadline or retry across all running workflows
+	 */
+	getNextWorkflowWakeTime(): number | undefined {
+		const { next } = this.sql
+			.exec<{ next: number | null }>(
+				`SELECT MIN(t) AS next FROM (
+					SELECT MIN(deadline) AS t FROM workflow_tasks WHERE settled = 0
+					UNION ALL
+					SELECT MIN(wake_at) AS t FROM workflow_runs WHERE status = 'running' AND wake_at IS NOT NULL
+				)`
+			)
+			.one();
+		return next ?? undefined;
+	}
+}
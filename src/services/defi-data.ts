@@ -0,0 +1,422 @@
+/**
+ * DeFi Data Service
+ * Protocol yields, TVL, history and risk read directly from chain.
+ * Every figure carries the contract and block it was read at so it can be verified.
+ */
+
+import { z } from 'zod';
+import type { Address, PublicClient } from 'viem';
+import { CHAIN_NAMES, getPublicClient, secondsPerBlock, type ChainName, type PublicClientFactory } from './chains';
+import { AAVE_V3_POOLS, listAaveAssets, readAaveReserves, type AaveReserve } from './aave-v3';
+import { listCometAssets, readCometMarket, type CometMarket } from './compound-v3';
+import { toPercent, type TokenInfo } from './defi-math';
+import { listMoonwellMarkets, readMoonwellMarkets, type MoonwellMarket } from './moonwell';
+import { matchesAsset } from './tokens';
+
+export const DEFI_PROTOCOLS = ['aave-v3', 'compound-v3', 'moonwell'] as const;
+
+export type DefiProtocol = (typeof DEFI_PROTOCOLS)[number];
+
+const chainSchema = z.enum(CHAIN_NAMES).describe('Blockchain network');
+const protocolsSchema = z.array(z.enum(DEFI_PROTOCOLS)).min(1).optional().describe('Protocols to include (default: all)');
+const assetSchema = z.string().min(1).describe('Asset symbol (e.g. "USDC") or token address');
+
+export const protocolYieldsSchema = z.object({
+	chain: chainSchema,
+	protocols: protocolsSchema,
+	asset: assetSchema.optional(),
+	minSupplyAPY: z.number().min(0).optional().describe('Only markets paying at least this supply APY, in percent'),
+});
+
+export const compareProtocolsSchema = z.object({
+	chain: chainSchema,
+	asset: assetSchema,
+	protocols: protocolsSchema,
+});
+
+export const historicalAPYSchema = z.object({
+	chain: chainSchema,
+	protocol: z.enum(DEFI_PROTOCOLS),
+	asset: assetSchema,
+	days: z.number().int().min(1).max(90).default(7).describe('How far back to look'),
+	points: z.number().int().min(2).max(30).default(8).describe('Number of evenly spaced samples'),
+});
+
+export const tvlDataSchema = z.object({
+	chain: chainSchema,
+	protocols: protocolsSchema,
+	asset: assetSchema.optional(),
+});
+
+export const protocolRisksSchema = z.object({
+	chain: chainSchema,
+	protocol: z.enum(DEFI_PROTOCOLS),
+	asset: assetSchema.optional(),
+});
+
+/**
+ * Where a figure was read from
+ */
+export interface DataSource {
+	protocol: DefiProtocol;
+	chain: ChainName;
+	contract: Address;
+	methods: string[];
+	blockNumber: number;
+}
+
+/**
+ * One lending market. Rates and utilization are percentages; amounts are in whole tokens.
+ */
+export interface MarketSnapshot {
+	protocol: DefiProtocol;
+	chain: ChainName;
+	asset: TokenInfo;
+	supplyAPY: number;
+	borrowAPY: number;
+	utilization: number;
+	totalSupplied: string;
+	totalBorrowed: string;
+	priceUsd?: number;
+	tvlUsd?: number;
+	source: DataSource;
+}
+
+export interface RiskFlag {
+	level: 'info' | 'warning' | 'critical';
+	code: string;
+	message: string;
+}
+
+const RISK_LEVELS: RiskFlag['level'][] = ['info', 'warning', 'critical'];
+
+// Utilization above these leaves little liquidity for withdrawals
+const HIGH_UTILIZATION = 0.85;
+const CRITICAL_UTILIZATION = 0.95;
+const CAP_NEARLY_REACHED = 0.95;
+
+// Asset of a market, plus the Comet proxy for Compound markets or the mToken for Moonwell
+type MarketTarget = { address: Address; symbol: string; comet?: Address; mToken?: Address };
+
+type MarketRead = { snapshot: MarketSnapshot } & (
+	| { protocol: 'aave-v3'; reserve: AaveReserve }
+	| { protocol: 'compound-v3'; market: CometMarket }
+	| { protocol: 'moonwell'; market: MoonwellMarket }
+);
+
+export class DefiDataService {
+	constructor(private clientFor: PublicClientFactory = getPublicClient) {}
+
+	/**
+	 * Current supply and borrow APYs, highest supply APY first
+	 */
+	async getProtocolYields(params: z.infer<typeof protocolYieldsSchema>) {
+		const { blockNumber, reads } = await this.readLatest(params.chain, params.protocols, params.asset);
+		const markets = reads
+			.map((read) => read.snapshot)
+			.filter((market) => params.minSupplyAPY === undefined || market.supplyAPY >= params.minSupplyAPY)
+			.sort((a, b) => b.supplyAPY - a.supplyAPY);
+
+		return { chain: params.chain, blockNumber: Number(blockNumber), markets };
+	}
+
+	/**
+	 * Side-by-side rates for one asset, with the best place to supply and to borrow
+	 */
+	async compareProtocols(params: z.infer<typeof compareProtocolsSchema>) {
+		const { blockNumber, reads } = await this.readLatest(params.chain, params.protocols, params.asset);
+		if (reads.length === 0) {
+			throw new Error(`No ${params.asset} market on ${params.chain}`);
+		}
+
+		const markets = reads.map((read) => read.snapshot).sort((a, b) => b.supplyAPY - a.supplyAPY);
+		const bestBorrow = [...markets].sort((a, b) => a.borrowAPY - b.borrowAPY)[0];
+
+		return {
+			chain: params.chain,
+			asset: params.asset,
+			blockNumber: Number(blockNumber),
+			markets,
+			bestSupply: { protocol: markets[0].protocol, supplyAPY: markets[0].supplyAPY },
+			bestBorrow: { protocol: bestBorrow.protocol, borrowAPY: bestBorrow.borrowAPY },
+			supplySpread: Number((markets[0].supplyAPY - markets[markets.length - 1].supplyAPY).toFixed(4)),
+		};
+	}
+
+	/**
+	 * Rates sampled at evenly spaced past blocks. Needs an archive RPC endpoint.
+	 */
+	async getHistoricalAPY(params: z.input<typeof historicalAPYSchema>) {
+		const { chain, protocol, asset, days, points } = historicalAPYSchema.parse(params);
+		const client = this.clientFor(chain);
+
+		const latest = await client.getBlock();
+		const blockTime = await secondsPerBlock(client, latest);
+
+		const targets = await this.resolveMarkets(client, chain, protocol, asset, latest.number);
+		if (targets.length === 0) {
+			throw new Error(`No ${asset} market for ${protocol} on ${chain}`);
+		}
+
+		const span = days * 24 * 60 * 60;
+		const blocks = Array.from({ length: points }, (_, i) => {
+			const secondsAgo = span * (1 - i / (points - 1));
+			const block = latest.number - BigInt(Math.round(secondsAgo / blockTime));
+			return block > 0n ? block : 1n;
+		});
+
+		const series = await Promise.all(
+			blocks.map(async (blockNumber) => {
+				const [block, [read]] = await Promise.all([
+					client.getBlock({ blockNumber }),
+					this.readMarkets(client, chain, protocol, targets.slice(0, 1), blockNumber),
+				]);
+				return {
+					blockNumber: Number(blockNumber),
+					timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+					supplyAPY: read.snapshot.supplyAPY,
+					borrowAPY: read.snapshot.borrowAPY,
+					utilization: read.snapshot.utilization,
+				};
+			})
+		);
+
+		const average = (key: 'supplyAPY' | 'borrowAPY') => Number((series.reduce((sum, point) => sum + point[key], 0) / series.length).toFixed(4));
+
+		return {
+			chain,
+			protocol,
+			asset,
+			days,
+			blockNumber: Number(latest.number),
+			averageSupplyAPY: average('supplyAPY'),
+			averageBorrowAPY: average('borrowAPY'),
+			series,
+			source: { ...this.sourceFor(chain, protocol, targets[0]), blockNumber: Number(latest.number) },
+		};
+	}
+
+	/**
+	 * Supplied and borrowed amounts per market, valued with the protocol's own oracle
+	 */
+	async getTVLData(params: z.infer<typeof tvlDataSchema>) {
+		const { blockNumber, reads } = await this.readLatest(params.chain, params.protocols, params.asset);
+		const markets = reads.map((read) => read.snapshot).sort((a, b) => (b.tvlUsd ?? 0) - (a.tvlUsd ?? 0));
+
+		const totals: Partial<Record<DefiProtocol, number>> = {};
+		for (const market of markets) {
+			totals[market.protocol] = (totals[market.protocol] ?? 0) + (market.tvlUsd ?? 0);
+		}
+
+		return {
+			chain: params.chain,
+			blockNumber: Number(blockNumber),
+			totalTvlUsd: Number(Object.values(totals).reduce((sum, value) => sum + value, 0).toFixed(2)),
+			byProtocol: totals,
+			markets,
+		};
+	}
+
+	/**
+	 * Risk parameters and flags (pauses, liquidity, caps, bad debt) per market
+	 */
+	async getProtocolRisks(params: z.infer<typeof protocolRisksSchema>) {
+		const { blockNumber, reads } = await this.readLatest(params.chain, [params.protocol], params.asset);
+
+		const markets = reads.map((read) => {
+			const { risks, parameters } =
+				read.protocol === 'aave-v3' ? aaveRisks(read.reserve) : read.protocol === 'moonwell' ? moonwellRisks(read.market) : cometRisks(read.market);
+			const level = risks.reduce<RiskFlag['level']>(
+				(worst, risk) => (RISK_LEVELS.indexOf(risk.level) > RISK_LEVELS.indexOf(worst) ? risk.level : worst),
+				'info'
+			);
+			return { asset: read.snapshot.asset, level, risks, parameters, utilization: read.snapshot.utilization, source: read.snapshot.source };
+		});
+
+		return { chain: params.chain, protocol: params.protocol, blockNumber: Number(blockNumber), markets };
+	}
+
+	private async readLatest(chain: ChainName, protocols: readonly DefiProtocol[] = DEFI_PROTOCOLS, asset?: string) {
+		const client = this.clientFor(chain);
+		const blockNumber = await client.getBlockNumber();
+
+		const reads = await Promise.all(
+			protocols.map(async (protocol) => {
+				const targets = await this.resolveMarkets(client, chain, protocol, asset, blockNumber);
+				return this.readMarkets(client, chain, protocol, targets, blockNumber);
+			})
+		);
+
+		return { blockNumber, reads: reads.flat() };
+	}
+
+	private async resolveMarkets(
+		client: PublicClient,
+		chain: ChainName,
+		protocol: DefiProtocol,
+		asset: string | undefined,
+		blockNumber: bigint
+	): Promise<MarketTarget[]> {
+		const candidates: MarketTarget[] =
+			protocol === 'aave-v3'
+				? await listAaveAssets(client, chain, blockNumber)
+				: protocol === 'moonwell'
+					? await listMoonwellMarkets(client, chain, blockNumber)
+					: await listCometAssets(client, chain, blockNumber);
+		return candidates.filter((candidate) => matchesAsset(candidate, asset));
+	}
+
+	private async readMarkets(
+		client: PublicClient,
+		chain: ChainName,
+		protocol: DefiProtocol,
+		targets: MarketTarget[],
+		blockNumber: bigint
+	): Promise<MarketRead[]> {
+		if (targets.length === 0) return [];
+
+		if (protocol === 'aave-v3') {
+			const reserves = await readAaveReserves(client, chain, targets, blockNumber);
+			return reserves.map((reserve) => ({
+				protocol,
+				reserve,
+				snapshot: toSnapshot(protocol, chain, reserve, { ...this.sourceFor(chain, protocol, targets[0]), blockNumber: Number(blockNumber) }),
+			}));
+		}
+
+		if (protocol === 'moonwell') {
+			const markets = await readMoonwellMarkets(
+				client,
+				chain,
+				targets.map((target) => ({ mToken: target.mToken!, address: target.address, symbol: target.symbol })),
+				blockNumber
+			);
+			return markets.map((market, index) => ({
+				protocol,
+				market,
+				snapshot: toSnapshot(protocol, chain, market, { ...this.sourceFor(chain, protocol, targets[index]), blockNumber: Number(blockNumber) }),
+			}));
+		}
+
+		return Promise.all(
+			targets.map(async (target) => {
+				const market = await readCometMarket(client, { comet: target.comet!, address: target.address, symbol: target.symbol }, blockNumber);
+				return {
+					protocol,
+					market,
+					snapshot: toSnapshot(protocol, chain, market, { ...this.sourceFor(chain, protocol, target), blockNumber: Number(blockNumber) }),
+				};
+			})
+		);
+	}
+
+	private sourceFor(chain: ChainName, protocol: DefiProtocol, target: MarketTarget): Omit<DataSource, 'blockNumber'> {
+		if (protocol === 'moonwell') {
+			return { protocol, chain, contract: target.mToken!, methods: ['supplyRatePerTimestamp', 'borrowRatePerTimestamp', 'getCash', 'totalBorrows', 'totalReserves', 'oracle.getUnderlyingPrice'] };
+		}
+		return protocol === 'aave-v3'
+			? { protocol, chain, contract: AAVE_V3_POOLS[chain], methods: ['getReserveData', 'aToken.totalSupply', 'variableDebtToken.totalSupply', 'stableDebtToken.totalSupply', 'oracle.getAssetsPrices'] }
+			: { protocol, chain, contract: target.comet!, methods: ['getUtilization', 'getSupplyRate', 'getBorrowRate', 'totalSupply', 'totalBorrow', 'getPrice'] };
+	}
+}
+
+function toSnapshot(protocol: DefiProtocol, chain: ChainName, market: AaveReserve | CometMarket | MoonwellMarket, source: DataSource): MarketSnapshot {
+	const tvlUsd = market.priceUsd !== undefined ? Number((Number(market.totalSupplied) * market.priceUsd).toFixed(2)) : undefined;
+	return {
+		protocol,
+		chain,
+		asset: market.asset,
+		supplyAPY: toPercent(market.supplyAPY),
+		borrowAPY: toPercent(market.borrowAPY),
+		utilization: toPercent(market.utilization, 2),
+		totalSupplied: market.totalSupplied,
+		totalBorrowed: market.totalBorrowed,
+		priceUsd: market.priceUsd,
+		tvlUsd,
+		source,
+	};
+}
+
+function utilizationRisks(utilization: number): RiskFlag[] {
+	if (utilization >= CRITICAL_UTILIZATION) {
+		return [{ level: 'critical', code: 'liquidity', message: `Utilization is ${toPercent(utilization, 2)}%; withdrawals may fail until borrowers repay` }];
+	}
+	if (utilization >= HIGH_UTILIZATION) {
+		return [{ level: 'warning', code: 'liquidity', message: `Utilization is ${toPercent(utilization, 2)}%; available liquidity is thin` }];
+	}
+	return [];
+}
+
+function aaveRisks(reserve: AaveReserve) {
+	const config = reserve.configuration;
+	const risks: RiskFlag[] = [];
+
+	if (!config.active) risks.push({ level: 'critical', code: 'inactive', message: 'Reserve is inactive' });
+	if (config.paused) risks.push({ level: 'critical', code: 'paused', message: 'Reserve is paused; no supply, withdraw, borrow or repay' });
+	if (config.frozen) risks.push({ level: 'warning', code: 'frozen', message: 'Reserve is frozen; no new supply or borrows' });
+	risks.push(...utilizationRisks(reserve.utilization));
+	if (config.supplyCap > 0 && Number(reserve.totalSupplied) >= config.supplyCap * CAP_NEARLY_REACHED) {
+		risks.push({ level: 'warning', code: 'supply-cap', message: `Supply is near its cap of ${config.supplyCap} ${reserve.asset.symbol}` });
+	}
+	if (config.borrowCap > 0 && Number(reserve.totalBorrowed) >= config.borrowCap * CAP_NEARLY_REACHED) {
+		risks.push({ level: 'warning', code: 'borrow-cap', message: `Borrows are near their cap of ${config.borrowCap} ${reserve.asset.symbol}` });
+	}
+	if (reserve.priceUsd === undefined) risks.push({ level: 'warning', code: 'oracle', message: 'Oracle price could not be read' });
+	if (config.ltv === 0) risks.push({ level: 'info', code: 'not-collateral', message: 'Asset cannot be used as collateral (LTV 0)' });
+	if (!config.borrowingEnabled) risks.push({ level: 'info', code: 'borrowing-disabled', message: 'Borrowing is disabled' });
+
+	return {
+		risks,
+		parameters: {
+			ltv: toPercent(config.ltv, 2),
+			liquidationThreshold: toPercent(config.liquidationThreshold, 2),
+			liquidationBonus: toPercent(config.liquidationBonus, 2),
+			reserveFactor: toPercent(config.reserveFactor, 2),
+			supplyCap: config.supplyCap,
+			borrowCap: config.borrowCap,
+			eModeCategory: config.eModeCategory,
+		},
+	};
+}
+
+function cometRisks(market: CometMarket) {
+	const risks: RiskFlag[] = [];
+
+	if (market.supplyPaused) risks.push({ level: 'critical', code: 'paused', message: 'Supply is paused' });
+	if (market.withdrawPaused) risks.push({ level: 'critical', code: 'paused', message: 'Withdrawals are paused' });
+	if (Number(market.reserves) < 0) {
+		risks.push({ level: 'critical', code: 'bad-debt', message: `Reserves are negative (${market.reserves} ${market.asset.symbol}); the market carries bad debt` });
+	}
+	risks.push(...utilizationRisks(market.utilization));
+
+	return { risks, parameters: { reserves: market.reserves } };
+}
+
+function moonwellRisks(market: MoonwellMarket) {
+	const config = market.configuration;
+	const risks: RiskFlag[] = [];
+
+	if (!config.listed) risks.push({ level: 'critical', code: 'inactive', message: 'Market is not listed on the Comptroller' });
+	if (config.mintPaused) risks.push({ level: 'warning', code: 'paused', message: 'Supply is paused' });
+	risks.push(...utilizationRisks(market.utilization));
+	if (config.supplyCap > 0 && Number(market.totalSupplied) >= config.supplyCap * CAP_NEARLY_REACHED) {
+		risks.push({ level: 'warning', code: 'supply-cap', message: `Supply is near its cap of ${config.supplyCap} ${market.asset.symbol}` });
+	}
+	if (config.borrowCap > 0 && Number(market.totalBorrowed) >= config.borrowCap * CAP_NEARLY_REACHED) {
+		risks.push({ level: 'warning', code: 'borrow-cap', message: `Borrows are near their cap of ${config.borrowCap} ${market.asset.symbol}` });
+	}
+	if (market.priceUsd === undefined) risks.push({ level: 'warning', code: 'oracle', message: 'Oracle price could not be read' });
+	if (config.ltv === 0) risks.push({ level: 'info', code: 'not-collateral', message: 'Asset cannot be used as collateral (collateral factor 0)' });
+	if (config.borrowPaused) risks.push({ level: 'info', code: 'borrowing-disabled', message: 'Borrowing is paused' });
+
+	return {
+		risks,
+		parameters: {
+			collateralFactor: toPercent(config.ltv, 2),
+			liquidationIncentive: toPercent(config.liquidationBonus, 2),
+			reserveFactor: toPercent(config.reserveFactor, 2),
+			supplyCap: config.supplyCap,
+			borrowCap: config.borrowCap,
+		},
+	};
+}
@@ -0,0 +1,34 @@
+/**
+ * DeFi Math
+ * Rate conversions and token metadata shared by the protocol readers
+ */
+
+import type { Address } from 'viem';
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/** Aave fixed-point unit (27 decimals) */
+export const RAY = 10n ** 27n;
+
+/** Compound-style fixed-point unit (18 decimals) */
+export const WAD = 10n ** 18n;
+
+export interface TokenInfo {
+	address: Address;
+	symbol: string;
+	decimals: number;
+}
+
+/**
+ * Annual yield of a per-second rate compounded every second, as a fraction (0.05 = 5%)
+ */
+export function rateToAPY(ratePerSecond: number): number {
+	return Math.expm1(SECONDS_PER_YEAR * Math.log1p(ratePerSecond));
+}
+
+/**
+ * Fraction to percent, rounded for display
+ */
+export function toPercent(fraction: number, digits = 4): number {
+	return Number((fraction * 100).toFixed(digits));
+}
@@ -0,0 +1,390 @@
+/**
+ * ERC-4626 Vaults
+ * Reader for any tokenized vault: asset, totals, share price, a holder's position and realized APY from the share price
+ * at past blocks. MetaMorpho vaults also report their allocation across Morpho Blue markets, fee and curator.
+ */
+
+import { formatUnits, maxUint184, parseAbi, zeroAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { secondsPerBlock } from './chains';
+import { rateToAPY, SECONDS_PER_YEAR, WAD, type TokenInfo } from './defi-math';
+import { readAll, readMany } from './multicall';
+
+/**
+ * Trailing windows, in days, over which realized APY is measured
+ */
+export const APY_WINDOWS = [7, 30] as const;
+
+/**
+ * Most Morpho Blue markets read from a MetaMorpho withdraw queue (the vault itself allows 30)
+ */
+export const MAX_VAULT_MARKETS = 30;
+
+// Shares priced per read: a million whole shares keeps precision when the asset has few decimals
+const PRICE_SHARES = 1_000_000n;
+
+const vaultAbi = parseAbi([
+	'function asset() view returns (address)',
+	'function totalAssets() view returns (uint256)',
+	'function totalSupply() view returns (uint256)',
+	'function convertToAssets(uint256 shares) view returns (uint256)',
+	'function balanceOf(address account) view returns (uint256)',
+	'function name() view returns (string)',
+	'function symbol() view returns (string)',
+	'function decimals() view returns (uint8)',
+]);
+
+const metaMorphoAbi = parseAbi([
+	'function MORPHO() view returns (address)',
+	'function curator() view returns (address)',
+	'function owner() view returns (address)',
+	'function guardian() view returns (address)',
+	'function fee() view returns (uint96)',
+	'function feeRecipient() view returns (address)',
+	'function timelock() view returns (uint256)',
+	'function withdrawQueueLength() view returns (uint256)',
+	'function withdrawQueue(uint256 index) view returns (bytes32)',
+	'function config(bytes32 id) view returns (uint184 cap, bool enabled, uint64 removableAt)',
+]);
+
+const morphoAbi = parseAbi([
+	'function idToMarketParams(bytes32 id) view returns (address loanToken, address collateralToken, address oracle, address irm, uint256 lltv)',
+	'function market(bytes32 id) view returns (uint128 totalSupplyAssets, uint128 totalSupplyShares, uint128 totalBorrowAssets, uint128 totalBorrowShares, uint128 lastUpdate, uint128 fee)',
+	'function position(bytes32 id, address user) view returns (uint256 supplyShares, uint128 borrowShares, uint128 collateral)',
+]);
+
+// Borrow rate per second, WAD-scaled, for the market's current state
+const irmAbi = parseAbi([
+	'struct MarketParams { address loanToken; address collateralToken; address oracle; address irm; uint256 lltv; }',
+	'struct Market { uint128 totalSupplyAssets; uint128 totalSupplyShares; uint128 totalBorrowAssets; uint128 totalBorrowShares; uint128 lastUpdate; uint128 fee; }',
+	'function borrowRateView(MarketParams marketParams, Market market) view returns (uint256)',
+]);
+
+type MarketParams = readonly [Address, Address, Address, Address, bigint];
+type MarketState = readonly [bigint, bigint, bigint, bigint, bigint, bigint];
+
+export interface VaultSharePrice {
+	blockNumber: bigint;
+	timestamp: number;
+	/** Assets per whole share */
+	sharePrice: number;
+}
+
+/**
+ * Share-price growth over a trailing window, annualized with compounding. Without `apy`, `error` says why:
+ * usually the vault did not exist yet or the RPC endpoint keeps no archive state that far back.
+ */
+export interface RealizedAPY {
+	days: number;
+	apy?: number;
+	from?: VaultSharePrice;
+	error?: string;
+}
+
+/**
+ * A Morpho Blue market in a MetaMorpho vault's withdraw queue. Amounts are in the vault's asset
+ * as of the market's last interest accrual; fractions as elsewhere (0.05 = 5%).
+ */
+export interface MorphoAllocation {
+	marketId: Hex;
+	/** Undefined for an idle market, which lends nothing out */
+	collateralToken?: TokenInfo;
+	oracle: Address;
+	irm: Address;
+	lltv: number;
+	supplied: string;
+	/** Fraction of the vault's total assets */
+	share: number;
+	/** 'uncapped' at the largest cap the vault can store */
+	cap: string;
+	enabled: boolean;
+	marketSupplied: string;
+	marketBorrowed: string;
+	utilization: number;
+	/** Undefined when the rate model cannot be read */
+	supplyAPY?: number;
+}
+
+export interface MetaMorphoInfo {
+	morpho: Address;
+	curator: Address;
+	owner: Address;
+	guardian: Address;
+	feeRecipient: Address;
+	/** Performance fee taken from interest, as a fraction */
+	fee: number;
+	/** Seconds before cap raises and market removals take effect */
+	timelock: number;
+	allocations: MorphoAllocation[];
+	/** Current supply APY across allocations weighted by size, net of the fee */
+	netAPY?: number;
+}
+
+export interface VaultData {
+	address: Address;
+	name: string;
+	symbol: string;
+	decimals: number;
+	asset: TokenInfo;
+	blockNumber: bigint;
+	timestamp: number;
+	totalAssets: string;
+	totalSupply: string;
+	sharePrice: number;
+	realizedAPY: RealizedAPY[];
+	holder?: { address: Address; shares: string; assets: string };
+	metaMorpho?: MetaMorphoInfo;
+}
+
+/**
+ * Read a vault at the latest block, with a holder's position if given. Realized APY compares the share price
+ * with the blocks about 7 and 30 days back, so it needs an archive RPC endpoint; the rest reads the latest state.
+ */
+export async function readVault(client: PublicClient, vault: Address, holder?: Address): Promise<VaultData> {
+	const latest = await client.getBlock();
+	const blockNumber = latest.number;
+
+	const [asset, morpho] = await readMany(
+		client,
+		[
+			{ address: vault, abi: vaultAbi, functionName: 'asset' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'MORPHO' },
+		],
+		blockNumber
+	);
+	if (!asset.success) throw new Error(`${vault} is not an ERC-4626 vault: asset() failed`);
+	const assetAddress = asset.result as Address;
+
+	const [name, symbol, decimals, totalAssets, totalSupply, assetSymbol, assetDecimals] = (await readAll(
+		client,
+		[
+			{ address: vault, abi: vaultAbi, functionName: 'name' },
+			{ address: vault, abi: vaultAbi, functionName: 'symbol' },
+			{ address: vault, abi: vaultAbi, functionName: 'decimals' },
+			{ address: vault, abi: vaultAbi, functionName: 'totalAssets' },
+			{ address: vault, abi: vaultAbi, functionName: 'totalSupply' },
+			{ address: assetAddress, abi: vaultAbi, functionName: 'symbol' },
+			{ address: assetAddress, abi: vaultAbi, functionName: 'decimals' },
+		],
+		blockNumber
+	)) as [string, string, number, bigint, bigint, string, number];
+	const token: TokenInfo = { address: assetAddress, symbol: assetSymbol, decimals: assetDecimals };
+
+	const priceUnit = PRICE_SHARES * 10n ** BigInt(decimals);
+	const [priceAssets, blockTime] = await Promise.all([
+		client.readContract({ address: vault, abi: vaultAbi, functionName: 'convertToAssets', args: [priceUnit], blockNumber }),
+		secondsPerBlock(client, latest),
+	]);
+	const current = { blockNumber, timestamp: Number(latest.timestamp), assets: priceAssets };
+
+	const [realizedAPY, position, metaMorpho] = await Promise.all([
+		Promise.all(APY_WINDOWS.map((days) => readRealizedAPY(client, vault, priceUnit, assetDecimals, current, blockTime, days))),
+		holder ? readHolder(client, vault, holder, blockNumber) : undefined,
+		morpho.success ? readMetaMorpho(client, vault, morpho.result as Address, token, totalAssets, blockNumber) : undefined,
+	]);
+
+	return {
+		address: vault,
+		name,
+		symbol,
+		decimals,
+		asset: token,
+		blockNumber,
+		timestamp: current.timestamp,
+		totalAssets: formatUnits(totalAssets, assetDecimals),
+		totalSupply: formatUnits(totalSupply, decimals),
+		sharePrice: toSharePrice(priceAssets, assetDecimals),
+		realizedAPY,
+		holder: position && { address: holder!, shares: formatUnits(position.shares, decimals), assets: formatUnits(position.assets, assetDecimals) },
+		metaMorpho,
+	};
+}
+
+function toSharePrice(assets: bigint, assetDecimals: number): number {
+	return Number(formatUnits(assets, assetDecimals)) / Number(PRICE_SHARES);
+}
+
+async function readRealizedAPY(
+	client: PublicClient,
+	vault: Address,
+	priceUnit: bigint,
+	assetDecimals: number,
+	current: { blockNumber: bigint; timestamp: number; assets: bigint },
+	blockTime: number,
+	days: number
+): Promise<RealizedAPY> {
+	const blockNumber = current.blockNumber - BigInt(Math.round((days * 24 * 60 * 60) / blockTime));
+	try {
+		if (blockNumber <= 0n) throw new Error(`The chain is younger than ${days} days`);
+		const [block, assets] = await Promise.all([
+			client.getBlock({ blockNumber }),
+			client.readContract({ address: vault, abi: vaultAbi, functionName: 'convertToAssets', args: [priceUnit], blockNumber }),
+		]);
+		if (assets === 0n) throw new Error(`Vault had no share price at block ${blockNumber}`);
+
+		const elapsed = current.timestamp - Number(block.timestamp);
+		const growth = Number((current.assets * WAD) / assets) / Number(WAD);
+		return {
+			days,
+			apy: Math.expm1((Math.log(growth) * SECONDS_PER_YEAR) / elapsed),
+			from: { blockNumber, timestamp: Number(block.timestamp), sharePrice: toSharePrice(assets, assetDecimals) },
+		};
+	} catch (error: any) {
+		return { days, error: `No share price at block ${blockNumber}: ${(error.shortMessage ?? error.message).split('\n')[0]}` };
+	}
+}
+
+async function readHolder(client: PublicClient, vault: Address, holder: Address, blockNumber: bigint) {
+	const shares = await client.readContract({ address: vault, abi: vaultAbi, functionName: 'balanceOf', args: [holder], blockNumber });
+	const assets = await client.readContract({ address: vault, abi: vaultAbi, functionName: 'convertToAssets', args: [shares], blockNumber });
+	return { shares, assets };
+}
+
+/**
+ * Governance, fee and the vault's supply in every market of its withdraw queue, with each market's
+ * utilization and supply APY from its interest rate model
+ */
+async function readMetaMorpho(
+	client: PublicClient,
+	vault: Address,
+	morpho: Address,
+	asset: TokenInfo,
+	totalAssets: bigint,
+	blockNumber: bigint
+): Promise<MetaMorphoInfo> {
+	const [curator, owner, guardian, feeRecipient, fee, timelock, queueLength] = (await readAll(
+		client,
+		[
+			{ address: vault, abi: metaMorphoAbi, functionName: 'curator' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'owner' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'guardian' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'feeRecipient' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'fee' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'timelock' },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'withdrawQueueLength' },
+		],
+		blockNumber
+	)) as [Address, Address, Address, Address, bigint, bigint, bigint];
+
+	const indexes = Array.from({ length: Math.min(Number(queueLength), MAX_VAULT_MARKETS) }, (_, index) => BigInt(index));
+	const ids = (await readAll(
+		client,
+		indexes.map((index) => ({ address: vault, abi: metaMorphoAbi, functionName: 'withdrawQueue', args: [index] })),
+		blockNumber
+	)) as Hex[];
+
+	const reads = await readAll(
+		client,
+		ids.flatMap((id) => [
+			{ address: morpho, abi: morphoAbi, functionName: 'idToMarketParams', args: [id] },
+			{ address: morpho, abi: morphoAbi, functionName: 'market', args: [id] },
+			{ address: morpho, abi: morphoAbi, functionName: 'position', args: [id, vault] },
+			{ address: vault, abi: metaMorphoAbi, functionName: 'config', args: [id] },
+		]),
+		blockNumber
+	);
+	const markets = ids.map((id, index) => ({
+		id,
+		params: reads[index * 4] as MarketParams,
+		state: reads[index * 4 + 1] as MarketState,
+		supplyShares: (reads[index * 4 + 2] as readonly [bigint, bigint, bigint])[0],
+		config: reads[index * 4 + 3] as readonly [bigint, boolean, bigint],
+	}));
+
+	// Idle markets have neither collateral nor a rate model
+	const lending = markets.filter(({ params }) => params[3] !== zeroAddress);
+	const collaterals = [...new Set(lending.map(({ params }) => params[1]))];
+	const [rates, metadata] = await Promise.all([
+		readMany(
+			client,
+			lending.map(({ params: [loanToken, collateralToken, oracle, irm, lltv], state }) => ({
+				address: irm,
+				abi: irmAbi,
+				functionName: 'borrowRateView',
+				args: [
+					{ loanToken, collateralToken, oracle, irm, lltv },
+					{
+						totalSupplyAssets: state[0],
+						totalSupplyShares: state[1],
+						totalBorrowAssets: state[2],
+						totalBorrowShares: state[3],
+						lastUpdate: state[4],
+						fee: state[5],
+					},
+				],
+			})),
+			blockNumber
+		),
+		readMany(
+			client,
+			collaterals.flatMap((address) => [
+				{ address, abi: vaultAbi, functionName: 'symbol' },
+				{ address, abi: vaultAbi, functionName: 'decimals' },
+			]),
+			blockNumber
+		),
+	]);
+	const tokens = new Map(
+		collaterals.map((address, index) => {
+			const [symbol, decimals] = [metadata[index * 2], metadata[index * 2 + 1]];
+			return [
+				address,
+				{
+					address,
+					symbol: symbol.success ? String(symbol.result) : address,
+					decimals: decimals.success ? Number(decimals.result) : 18,
+				},
+			];
+		})
+	);
+
+	const allocations = markets.map(({ id, params, state, supplyShares, config }): MorphoAllocation => {
+		const [, collateralToken, oracle, irm, lltv] = params;
+		const [marketSupplied, marketShares, marketBorrowed, , , marketFee] = state;
+		const supplied = marketShares > 0n ? (supplyShares * marketSupplied) / marketShares : 0n;
+		const utilization = marketSupplied > 0n ? Number((marketBorrowed * WAD) / marketSupplied) / Number(WAD) : 0;
+
+		let supplyAPY: number | undefined = 0;
+		if (irm !== zeroAddress) {
+			const rate = rates[lending.findIndex((market) => market.id === id)];
+			supplyAPY = rate.success
+				? rateToAPY(Number(rate.result as bigint) / Number(WAD)) * utilization * (1 - Number(marketFee) / Number(WAD))
+				: undefined;
+		}
+
+		return {
+			marketId: id,
+			collateralToken: irm === zeroAddress ? undefined : tokens.get(collateralToken),
+			oracle,
+			irm,
+			lltv: Number(lltv) / Number(WAD),
+			supplied: formatUnits(supplied, asset.decimals),
+			share: totalAssets > 0n ? Number((supplied * WAD) / totalAssets) / Number(WAD) : 0,
+			cap: config[0] === maxUint184 ? 'uncapped' : formatUnits(config[0], asset.decimals),
+			enabled: config[1],
+			marketSupplied: formatUnits(marketSupplied, asset.decimals),
+			marketBorrowed: formatUnits(marketBorrowed, asset.decimals),
+			utilization,
+			supplyAPY,
+		};
+	});
+
+	const feeFraction = Number(fee) / Number(WAD);
+	const invested = allocations.filter((allocation) => Number(allocation.supplied) > 0);
+	const weight = invested.reduce((sum, allocation) => sum + Number(allocation.supplied), 0);
+	const netAPY =
+		invested.every((allocation) => allocation.supplyAPY !== undefined) && weight > 0
+			? (invested.reduce((sum, allocation) => sum + Number(allocation.supplied) * allocation.supplyAPY!, 0) / weight) * (1 - feeFraction)
+			: undefined;
+
+	return {
+		morpho,
+		curator,
+		owner,
+		guardian,
+		feeRecipient,
+		fee: feeFraction,
+		timelock: Number(timelock),
+		allocations,
+		netAPY,
+	};
+}
@@ -0,0 +1,100 @@
+/**
+ * A2A Message Delivery
+ * At-least-once push delivery to agent endpoints, with polling as a fallback
+ */
+
+import type { AgentMessage } from './agent-coordinator';
+import { isPublicHttpsUrl } from './public-url';
+
+/**
+ * Attempts (pushes or unacknowledged polls) before a message is dead-lettered
+ */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const DELIVERY_BACKOFF_MS = 1000;
+const MAX_DELIVERY_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * How long an endpoint has to acknowledge a push
+ */
+export const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How long polled messages stay hidden while waiting for an acknowledgement
+ */
+export const POLL_LEASE_MS = 60 * 1000;
+
+/**
+ * Messages pushed per scheduled run; the rest go out on the next wake-up
+ */
+export const DELIVERY_BATCH_SIZE = 25;
+
+/**
+ * `push`: the coordinator POSTs messages to the agent's endpoint.
+ * `poll`: the agent fetches and acknowledges messages itself.
+ * `a2a`: the endpoint speaks Agent2Agent JSON-RPC; delegations go out as `message/send` and are followed with `tasks/get`.
+ */
+export type DeliveryMode = 'push' | 'poll' | 'a2a';
+
+/**
+ * Whether the coordinator sends messages to the agent itself rather than waiting to be polled
+ */
+export function isPushDelivery(mode: DeliveryMode | undefined): boolean {
+	return mode === 'push' || mode === 'a2a';
+}
+
+/**
+ * How often the coordinator asks a card agent for the status of a delegated task
+ */
+export const A2A_TASK_POLL_MS = 15 * 1000;
+
+/**
+ * A message in a recipient's queue
+ */
+export type QueuedMessage = AgentMessage & {
+	id: number;
+	attempts: number;
+	lastError?: string;
+};
+
+/**
+ * Sends one message to an agent endpoint. Resolving counts as the acknowledgement; throwing schedules a retry.
+ */
+export interface MessageTransport {
+	deliver(endpoint: string, message: QueuedMessage): Promise<void>;
+}
+
+/**
+ * Delay before the next attempt, doubling per attempt made
+ */
+export function deliveryBackoff(attempts: number): number {
+	return Math.min(MAX_DELIVERY_BACKOFF_MS, DELIVERY_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * POST the message as JSON; any 2xx response acknowledges it
+ */
+export const httpTransport: MessageTransport = {
+	async deliver(endpoint, message) {
+		// Keeps pushes off internal networks even for endpoints stored before registration validated them
+		if (!isPublicHttpsUrl(endpoint)) {
+			throw new Error(`Refusing to push to a non-public endpoint: ${endpoint}`);
+		}
+
+		const { lastError, ...body } = message;
+		const response = await fetch(endpoint, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-A2A-Message-Id': String(message.id),
+				'X-A2A-Delivery-Attempt': String(message.attempts),
+			},
+			body: JSON.stringify(body),
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new Error(`Endpoint responded with ${response.status}`);
+		}
+	},
+};
@@ -0,0 +1,114 @@
+/**
+ * A2A Message Signing
+ * EIP-712 typed data for agent messages and signature verification with viem
+ */
+
+import { getAddress, isAddress, verifyTypedData, type Address, type Hex } from 'viem';
+import { publicKeyToAddress } from 'viem/accounts';
+import { base } from 'viem/chains';
+
+/**
+ * Messages older (or further in the future) than this are rejected
+ */
+export const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+export const A2A_DOMAIN = {
+	name: 'Base Yield Agent A2A',
+	version: '1',
+	chainId: base.id,
+} as const;
+
+export const AGENT_MESSAGE_TYPES = {
+	AgentMessage: [
+		{ name: 'from', type: 'string' },
+		{ name: 'to', type: 'string' },
+		{ name: 'type', type: 'string' },
+		{ name: 'payload', type: 'string' },
+		{ name: 'timestamp', type: 'uint256' },
+		{ name: 'nonce', type: 'string' },
+	],
+} as const;
+
+/**
+ * Fields covered by an agent message signature
+ */
+export interface SignableMessage {
+	from: string;
+	to: string;
+	type: string;
+	payload: any;
+	timestamp: number;
+	nonce: string;
+}
+
+/**
+ * Serialize a payload deterministically (sorted object keys) so signer and verifier hash the same string
+ */
+export function canonicalPayload(payload: unknown): string {
+	const normalize = (value: any): any => {
+		if (Array.isArray(value)) return value.map(normalize);
+		if (value && typeof value === 'object') {
+			return Object.keys(value)
+				.sort()
+				.reduce<Record<string, any>>((sorted, key) => {
+					if (value[key] !== undefined) sorted[key] = normalize(value[key]);
+					return sorted;
+				}, {});
+		}
+		return value;
+	};
+
+	return JSON.stringify(normalize(payload ?? null));
+}
+
+/**
+ * Build the EIP-712 typed data for a message. Clients pass this to `signTypedData`.
+ */
+export function getAgentMessageTypedData(message: SignableMessage) {
+	return {
+		domain: A2A_DOMAIN,
+		types: AGENT_MESSAGE_TYPES,
+		primaryType: 'AgentMessage' as const,
+		message: {
+			from: message.from,
+			to: message.to,
+			type: message.type,
+			payload: canonicalPayload(message.payload),
+			timestamp: BigInt(message.timestamp),
+			nonce: message.nonce,
+		},
+	};
+}
+
+/**
+ * Verify that a message was signed by the given address
+ */
+export async function verifyAgentMessage(message: SignableMessage, signature: string, signer: Address): Promise<boolean> {
+	try {
+		return await verifyTypedData({
+			address: signer,
+			signature: signature as Hex,
+			...getAgentMessageTypedData(message),
+		});
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolve the signing address an agent registers with, from an EOA address or an uncompressed public key
+ */
+export function resolveSignerAddress(signer: { address?: string; publicKey?: string }): Address {
+	if (signer.address) {
+		if (!isAddress(signer.address)) {
+			throw new Error(`Invalid signer address: ${signer.address}`);
+		}
+		return getAddress(signer.address);
+	}
+
+	if (signer.publicKey) {
+		return publicKeyToAddress(signer.publicKey as Hex);
+	}
+
+	throw new Error('A signer address or public key is required');
+}
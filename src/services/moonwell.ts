@@ -0,0 +1,425 @@
+/**
+ * Moonwell
+ * On-chain reader for Moonwell's Compound-style markets: per-timestamp rates, WELL and other reward emissions,
+ * Comptroller risk parameters and account liquidity. Results share the Aave reader's shapes so the two compare directly.
+ */
+
+import { formatUnits, getAddress, parseAbi, type Address, type PublicClient } from 'viem';
+import { liquidationPrice, type AaveAccountData, type AavePositionAsset } from './aave-v3';
+import { quoteInAero } from './aerodrome';
+import type { ChainName } from './chains';
+import { rateToAPY, SECONDS_PER_YEAR, WAD, type TokenInfo } from './defi-math';
+import { readAll, readMany } from './multicall';
+
+/**
+ * Comptroller (Unitroller proxy) per chain where Moonwell is deployed
+ */
+export const MOONWELL_COMPTROLLERS: Partial<Record<ChainName, Address>> = {
+	base: '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C',
+	optimism: '0xCa889f40aae37FFf165BccF69aeF1E82b5C511B9',
+};
+
+const comptrollerAbi = parseAbi([
+	'function getAllMarkets() view returns (address[])',
+	'function oracle() view returns (address)',
+	'function rewardDistributor() view returns (address)',
+	'function markets(address mToken) view returns (bool isListed, uint256 collateralFactorMantissa)',
+	'function borrowCaps(address mToken) view returns (uint256)',
+	'function supplyCaps(address mToken) view returns (uint256)',
+	'function mintGuardianPaused(address mToken) view returns (bool)',
+	'function borrowGuardianPaused(address mToken) view returns (bool)',
+	'function liquidationIncentiveMantissa() view returns (uint256)',
+	'function getAssetsIn(address account) view returns (address[])',
+	'function getAccountLiquidity(address account) view returns (uint256 errorCode, uint256 liquidity, uint256 shortfall)',
+]);
+
+const mTokenAbi = parseAbi([
+	'function underlying() view returns (address)',
+	'function supplyRatePerTimestamp() view returns (uint256)',
+	'function borrowRatePerTimestamp() view returns (uint256)',
+	'function getCash() view returns (uint256)',
+	'function totalBorrows() view returns (uint256)',
+	'function totalReserves() view returns (uint256)',
+	'function reserveFactorMantissa() view returns (uint256)',
+	'function accrualBlockTimestamp() view returns (uint256)',
+	'function getAccountSnapshot(address account) view returns (uint256 errorCode, uint256 mTokenBalance, uint256 borrowBalance, uint256 exchangeRateMantissa)',
+]);
+
+// USD prices carry 36 - (underlying decimals) decimals, so one whole token is price / 1e18
+const oracleAbi = parseAbi(['function getUnderlyingPrice(address mToken) view returns (uint256)']);
+
+const distributorAbi = parseAbi([
+	'struct MarketConfig { address owner; address emissionToken; uint256 endTime; uint224 supplyGlobalIndex; uint32 supplyGlobalTimestamp; uint224 borrowGlobalIndex; uint32 borrowGlobalTimestamp; uint256 supplyEmissionsPerSec; uint256 borrowEmissionsPerSec; }',
+	'function getAllMarketConfigs(address mToken) view returns (MarketConfig[])',
+]);
+
+const erc20Abi = parseAbi(['function symbol() view returns (string)', 'function decimals() view returns (uint8)']);
+
+/**
+ * Comptroller risk parameters, in the Aave reader's terms. Compound-style markets use one collateral factor
+ * both for borrowing power and for liquidation. Fractions as in Aave; caps in whole tokens, 0 meaning uncapped.
+ */
+export interface MoonwellMarketConfiguration {
+	listed: boolean;
+	ltv: number;
+	liquidationThreshold: number;
+	liquidationBonus: number;
+	reserveFactor: number;
+	supplyCap: number;
+	borrowCap: number;
+	mintPaused: boolean;
+	borrowPaused: boolean;
+}
+
+/**
+ * One emission stream on a market. APRs are fractions; undefined when the reward token has no price.
+ */
+export interface MoonwellReward {
+	token: TokenInfo;
+	/** Unix time emissions stop */
+	endTime: number;
+	supplyPerSecond: number;
+	borrowPerSecond: number;
+	priceUsd?: number;
+	supplyAPR?: number;
+	/** Paid to borrowers, offsetting the borrow rate */
+	borrowAPR?: number;
+}
+
+export interface MoonwellMarket {
+	asset: TokenInfo;
+	mToken: Address;
+	supplyAPR: number;
+	supplyAPY: number;
+	borrowAPR: number;
+	borrowAPY: number;
+	lastUpdateTimestamp: number;
+	totalSupplied: string;
+	totalBorrowed: string;
+	utilization: number;
+	priceUsd?: number;
+	configuration: MoonwellMarketConfiguration;
+	rewards: MoonwellReward[];
+}
+
+/**
+ * A held asset with the market it is held in, which repays and supplies go through
+ */
+export interface MoonwellPositionAsset extends AavePositionAsset {
+	mToken: Address;
+}
+
+/**
+ * A user's Moonwell account in the Aave reader's shape. Collateral counts only markets the user entered.
+ */
+export interface MoonwellUserPosition extends AaveAccountData {
+	assets: MoonwellPositionAsset[];
+}
+
+/**
+ * A listed market: its mToken and underlying asset
+ */
+export type MoonwellMarketTarget = { mToken: Address; address: Address; symbol: string };
+
+function comptrollerFor(chain: ChainName): Address {
+	const comptroller = MOONWELL_COMPTROLLERS[chain];
+	if (!comptroller) throw new Error(`Moonwell is not deployed on ${chain}`);
+	return comptroller;
+}
+
+/**
+ * Every market on the chain's Comptroller with its underlying symbol; none where Moonwell is not deployed
+ */
+export async function listMoonwellMarkets(client: PublicClient, chain: ChainName, blockNumber: bigint): Promise<MoonwellMarketTarget[]> {
+	const comptroller = MOONWELL_COMPTROLLERS[chain];
+	if (!comptroller) return [];
+
+	const mTokens = await client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'getAllMarkets', blockNumber });
+	const underlyings = (await readAll(
+		client,
+		mTokens.map((mToken) => ({ address: mToken, abi: mTokenAbi, functionName: 'underlying' })),
+		blockNumber
+	)) as Address[];
+	const symbols = await readMany(
+		client,
+		underlyings.map((address) => ({ address, abi: erc20Abi, functionName: 'symbol' })),
+		blockNumber
+	);
+
+	return mTokens.map((mToken, index) => ({
+		mToken,
+		address: underlyings[index],
+		symbol: symbols[index].success ? String(symbols[index].result) : underlyings[index],
+	}));
+}
+
+/**
+ * Read markets at a block: rates, totals, oracle prices, risk parameters and reward emissions.
+ * Prices are omitted when the oracle read fails.
+ */
+export async function readMoonwellMarkets(client: PublicClient, chain: ChainName, markets: MoonwellMarketTarget[], blockNumber: bigint): Promise<MoonwellMarket[]> {
+	const comptroller = comptrollerFor(chain);
+	if (markets.length === 0) return [];
+
+	const [oracle, distributor, incentive, block] = await Promise.all([
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'oracle', blockNumber }),
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'rewardDistributor', blockNumber }),
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'liquidationIncentiveMantissa', blockNumber }),
+		client.getBlock({ blockNumber }),
+	]);
+
+	const fields = 14;
+	const state = await readMany(
+		client,
+		markets.flatMap(({ mToken, address }) => [
+			{ address, abi: erc20Abi, functionName: 'decimals' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'supplyRatePerTimestamp' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'borrowRatePerTimestamp' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'getCash' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'totalBorrows' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'totalReserves' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'reserveFactorMantissa' },
+			{ address: mToken, abi: mTokenAbi, functionName: 'accrualBlockTimestamp' },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'markets', args: [mToken] },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'supplyCaps', args: [mToken] },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'borrowCaps', args: [mToken] },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'mintGuardianPaused', args: [mToken] },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'borrowGuardianPaused', args: [mToken] },
+			{ address: oracle, abi: oracleAbi, functionName: 'getUnderlyingPrice', args: [mToken] },
+		]),
+		blockNumber
+	);
+	const configs = await readMany(
+		client,
+		markets.map(({ mToken }) => ({ address: distributor, abi: distributorAbi, functionName: 'getAllMarketConfigs', args: [mToken] })),
+		blockNumber
+	);
+
+	const reads = markets.map((market, index) => {
+		const results = state.slice(index * fields, (index + 1) * fields);
+		// The oracle is the only read allowed to fail
+		const failed = results.slice(0, fields - 1).find((result) => !result.success);
+		if (failed && !failed.success) throw new Error(`Moonwell market ${market.mToken} could not be read: ${failed.error}`);
+
+		const values = results.map((result) => (result.success ? result.result : undefined));
+		const decimals = Number(values[0]);
+		const price = values[13] as bigint | undefined;
+		return { market, decimals, values, priceUsd: price === undefined ? undefined : Number(formatUnits(price, 36 - decimals)) };
+	});
+
+	const emissions = configs.map((result) =>
+		result.success
+			? (result.result as ReadonlyArray<{ emissionToken: Address; endTime: bigint; supplyEmissionsPerSec: bigint; borrowEmissionsPerSec: bigint }>)
+			: []
+	);
+	const rewardTokens = await readRewardTokens(
+		client,
+		chain,
+		[...new Set(emissions.flat().map((config) => getAddress(config.emissionToken)))],
+		oracle,
+		blockNumber
+	);
+	const now = Number(block.timestamp);
+
+	return reads.map(({ market, decimals, values, priceUsd }, index) => {
+		const [, supplyRate, borrowRate, cash, borrows, reserves, reserveFactor, accrued, listing, supplyCap, borrowCap, mintPaused, borrowPaused] = values as [
+			number,
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			readonly [boolean, bigint],
+			bigint,
+			bigint,
+			boolean,
+			boolean,
+		];
+		const supplied = cash + borrows - reserves;
+		const supplyPerSecond = Number(supplyRate) / Number(WAD);
+		const borrowPerSecond = Number(borrowRate) / Number(WAD);
+		const collateralFactor = Number(listing[1]) / Number(WAD);
+		const suppliedUsd = priceUsd === undefined ? undefined : Number(formatUnits(supplied, decimals)) * priceUsd;
+		const borrowedUsd = priceUsd === undefined ? undefined : Number(formatUnits(borrows, decimals)) * priceUsd;
+
+		const rewards = emissions[index].map((config): MoonwellReward => {
+			const reward = rewardTokens.get(config.emissionToken.toLowerCase())!;
+			const live = Number(config.endTime) > now;
+			const supplyPerSecondReward = live ? Number(formatUnits(config.supplyEmissionsPerSec, reward.token.decimals)) : 0;
+			const borrowPerSecondReward = live ? Number(formatUnits(config.borrowEmissionsPerSec, reward.token.decimals)) : 0;
+			const apr = (perSecond: number, valueUsd: number | undefined) =>
+				reward.priceUsd === undefined || !valueUsd ? undefined : (perSecond * SECONDS_PER_YEAR * reward.priceUsd) / valueUsd;
+
+			return {
+				token: reward.token,
+				endTime: Number(config.endTime),
+				supplyPerSecond: supplyPerSecondReward,
+				borrowPerSecond: borrowPerSecondReward,
+				priceUsd: reward.priceUsd,
+				supplyAPR: apr(supplyPerSecondReward, suppliedUsd),
+				borrowAPR: apr(borrowPerSecondReward, borrowedUsd),
+			};
+		});
+
+		return {
+			asset: { address: market.address, symbol: market.symbol, decimals },
+			mToken: market.mToken,
+			supplyAPR: supplyPerSecond * SECONDS_PER_YEAR,
+			supplyAPY: rateToAPY(supplyPerSecond),
+			borrowAPR: borrowPerSecond * SECONDS_PER_YEAR,
+			borrowAPY: rateToAPY(borrowPerSecond),
+			lastUpdateTimestamp: Number(accrued),
+			totalSupplied: formatUnits(supplied, decimals),
+			totalBorrowed: formatUnits(borrows, decimals),
+			utilization: supplied > 0n ? Number(borrows) / Number(supplied) : 0,
+			priceUsd,
+			configuration: {
+				listed: listing[0],
+				ltv: collateralFactor,
+				liquidationThreshold: collateralFactor,
+				liquidationBonus: Number(incentive) / Number(WAD) - 1,
+				reserveFactor: Number(reserveFactor) / Number(WAD),
+				supplyCap: Number(formatUnits(supplyCap, decimals)),
+				borrowCap: Number(formatUnits(borrowCap, decimals)),
+				mintPaused,
+				borrowPaused,
+			},
+			rewards,
+		};
+	});
+}
+
+/**
+ * Read a user's supplies and borrows in every market, with account totals computed as Aave reports them.
+ * The health factor is collateral weighted by collateral factors over debt, so it reaches 1 exactly
+ * when the Comptroller reports a shortfall.
+ */
+export async function readMoonwellUserPosition(client: PublicClient, chain: ChainName, user: Address, blockNumber: bigint): Promise<MoonwellUserPosition> {
+	const comptroller = comptrollerFor(chain);
+	const [markets, entered, liquidity, oracle] = await Promise.all([
+		listMoonwellMarkets(client, chain, blockNumber),
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'getAssetsIn', args: [user], blockNumber }),
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'getAccountLiquidity', args: [user], blockNumber }),
+		client.readContract({ address: comptroller, abi: comptrollerAbi, functionName: 'oracle', blockNumber }),
+	]);
+
+	const snapshots = (await readAll(
+		client,
+		markets.map(({ mToken }) => ({ address: mToken, abi: mTokenAbi, functionName: 'getAccountSnapshot', args: [user] })),
+		blockNumber
+	)) as Array<readonly [bigint, bigint, bigint, bigint]>;
+
+	const held = markets
+		.map((market, index) => {
+			const [, mTokenBalance, borrowed, exchangeRate] = snapshots[index];
+			return { market, supplied: (mTokenBalance * exchangeRate) / WAD, borrowed };
+		})
+		.filter((entry) => entry.supplied > 0n || entry.borrowed > 0n);
+
+	const details = await readAll(
+		client,
+		held.flatMap(({ market }) => [
+			{ address: market.address, abi: erc20Abi, functionName: 'decimals' },
+			{ address: comptroller, abi: comptrollerAbi, functionName: 'markets', args: [market.mToken] },
+			{ address: oracle, abi: oracleAbi, functionName: 'getUnderlyingPrice', args: [market.mToken] },
+		]),
+		blockNumber
+	);
+
+	const memberships = new Set(entered.map((mToken) => mToken.toLowerCase()));
+	const positions = held.map(({ market, supplied, borrowed }, index) => {
+		const decimals = Number(details[index * 3]);
+		const [, collateralFactor] = details[index * 3 + 1] as readonly [boolean, bigint];
+		const priceUsd = Number(formatUnits(details[index * 3 + 2] as bigint, 36 - decimals));
+		const suppliedAmount = formatUnits(supplied, decimals);
+		const borrowedAmount = formatUnits(borrowed, decimals);
+
+		return {
+			asset: { address: market.address, symbol: market.symbol, decimals },
+			mToken: market.mToken,
+			supplied: suppliedAmount,
+			borrowed: borrowedAmount,
+			suppliedUsd: Number(suppliedAmount) * priceUsd,
+			borrowedUsd: Number(borrowedAmount) * priceUsd,
+			usedAsCollateral: supplied > 0n && memberships.has(market.mToken.toLowerCase()),
+			liquidationThreshold: Number(collateralFactor) / Number(WAD),
+			priceUsd,
+		};
+	});
+
+	const collateral = positions.filter((position) => position.usedAsCollateral);
+	const totalCollateralUsd = collateral.reduce((sum, position) => sum + position.suppliedUsd, 0);
+	const weightedCollateralUsd = collateral.reduce((sum, position) => sum + position.suppliedUsd * position.liquidationThreshold, 0);
+	const totalDebtUsd = positions.reduce((sum, position) => sum + position.borrowedUsd, 0);
+	const [, excess] = liquidity;
+	const factor = totalCollateralUsd > 0 ? weightedCollateralUsd / totalCollateralUsd : 0;
+
+	return {
+		totalCollateralUsd,
+		totalDebtUsd,
+		availableBorrowsUsd: Number(formatUnits(excess, 18)),
+		ltv: factor,
+		liquidationThreshold: factor,
+		healthFactor: totalDebtUsd > 0 ? weightedCollateralUsd / totalDebtUsd : undefined,
+		assets: positions.map((position) => ({ ...position, liquidationPriceUsd: liquidationPrice(position, positions) })),
+	};
+}
+
+/**
+ * Symbol, decimals and USD price of each emission token. Tokens listed as a Moonwell market use its oracle;
+ * others (WELL on Base) are quoted through Aerodrome.
+ */
+async function readRewardTokens(
+	client: PublicClient,
+	chain: ChainName,
+	tokens: Address[],
+	oracle: Address,
+	blockNumber: bigint
+): Promise<Map<string, { token: TokenInfo; priceUsd?: number }>> {
+	const rewards = new Map<string, { token: TokenInfo; priceUsd?: number }>();
+	if (tokens.length === 0) return rewards;
+
+	const [metadata, markets] = await Promise.all([
+		readAll(
+			client,
+			tokens.flatMap((address) => [
+				{ address, abi: erc20Abi, functionName: 'symbol' },
+				{ address, abi: erc20Abi, functionName: 'decimals' },
+			]),
+			blockNumber
+		),
+		listMoonwellMarkets(client, chain, blockNumber),
+	]);
+	const infos: TokenInfo[] = tokens.map((address, index) => ({ address, symbol: String(metadata[index * 2]), decimals: Number(metadata[index * 2 + 1]) }));
+
+	const listed = infos.map((token) => markets.find((market) => market.address.toLowerCase() === token.address.toLowerCase()));
+	const oraclePrices = await readMany(
+		client,
+		listed.flatMap((market) => (market ? [{ address: oracle, abi: oracleAbi, functionName: 'getUnderlyingPrice', args: [market.mToken] }] : [])),
+		blockNumber
+	);
+
+	let offset = 0;
+	const prices = infos.map((token, index) => {
+		if (!listed[index]) return undefined;
+		const result = oraclePrices[offset++];
+		return result.success ? Number(formatUnits(result.result as bigint, 36 - token.decimals)) : undefined;
+	});
+
+	const unpriced = infos.filter((_, index) => prices[index] === undefined);
+	if (chain === 'base' && unpriced.length > 0) {
+		const quotes = await quoteInAero(client, unpriced, blockNumber).catch((error) => {
+			console.error('Aerodrome reward quote failed', error);
+			return undefined;
+		});
+		infos.forEach((token, index) => {
+			const inAero = quotes?.prices.get(token.address.toLowerCase());
+			if (prices[index] === undefined && inAero !== undefined && quotes?.aeroUsd !== undefined) prices[index] = inAero * quotes.aeroUsd;
+		});
+	}
+
+	infos.forEach((token, index) => rewards.set(token.address.toLowerCase(), { token, priceUsd: prices[index] }));
+	return rewards;
+}
@@ -0,0 +1,195 @@
+/**
+ * Multicall
+ * Batches contract reads into Multicall3 aggregate3 calls, isolating failures per call,
+ * and reads many tokens for many wallets across many chains in one round-trip per chain
+ */
+
+import { z } from 'zod';
+import { formatUnits, parseAbi, type Abi, type Address, type PublicClient } from 'viem';
+import { CHAIN_NAMES, CHAINS, getPublicClient, MULTICALL_BATCH_BYTES, type ChainName, type PublicClientFactory } from './chains';
+import { NATIVE_TOKEN, resolveToken } from './tokens';
+
+export const MAX_BALANCE_READS = 1_000;
+
+export interface ContractRead {
+	address: Address;
+	abi: Abi;
+	functionName: string;
+	args?: readonly unknown[];
+}
+
+export type ReadResult<T = unknown> = { success: true; result: T } | { success: false; error: string };
+
+const multicall3Abi = parseAbi([
+	'function getBlockNumber() view returns (uint256 blockNumber)',
+	'function getEthBalance(address addr) view returns (uint256 balance)',
+]);
+
+const erc20Abi = parseAbi([
+	'function balanceOf(address owner) view returns (uint256)',
+	'function decimals() view returns (uint8)',
+	'function symbol() view returns (string)',
+]);
+
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 20-byte hex address');
+
+export const tokenBalancesSchema = z
+	.object({
+		owners: z.array(addressSchema).min(1).max(20).describe('Wallet addresses'),
+		tokens: z
+			.array(z.string().min(1))
+			.min(1)
+			.max(50)
+			.describe('Token symbols (e.g. "USDC"), addresses, or the native currency ("ETH" or "native")'),
+		chains: z.array(z.enum(CHAIN_NAMES)).min(1).describe('Chains to check'),
+	})
+	.refine((query) => query.owners.length * query.tokens.length * query.chains.length <= MAX_BALANCE_READS, {
+		message: `At most ${MAX_BALANCE_READS} owner × token × chain combinations per request`,
+	});
+
+export type TokenBalancesQuery = z.infer<typeof tokenBalancesSchema>;
+
+export interface TokenBalance {
+	chain: ChainName;
+	owner: Address;
+	token: Address | typeof NATIVE_TOKEN;
+	symbol: string;
+	decimals: number;
+	/** Raw integer balance */
+	balance: string;
+	/** Balance in whole tokens */
+	formatted: string;
+}
+
+export interface BalanceError {
+	chain: ChainName;
+	token?: string;
+	owner?: Address;
+	error: string;
+}
+
+/**
+ * Read many calls in as few aggregate3 requests as possible. A reverting call yields a failed result
+ * instead of failing the batch.
+ */
+export async function readMany(client: PublicClient, reads: ContractRead[], blockNumber?: bigint): Promise<ReadResult[]> {
+	if (reads.length === 0) return [];
+
+	const results = await client.multicall({
+		contracts: reads,
+		allowFailure: true,
+		blockNumber,
+		batchSize: MULTICALL_BATCH_BYTES,
+	});
+
+	return results.map((result) =>
+		result.status === 'success' ? { success: true, result: result.result } : { success: false, error: result.error.message }
+	);
+}
+
+/**
+ * Read calls that must all succeed, in one batch
+ */
+export async function readAll(client: PublicClient, reads: ContractRead[], blockNumber?: bigint): Promise<unknown[]> {
+	const results = await readMany(client, reads, blockNumber);
+	return results.map((result, index) => {
+		if (!result.success) throw new Error(`${reads[index].functionName} on ${reads[index].address} failed: ${result.error}`);
+		return result.result;
+	});
+}
+
+/**
+ * Balances of every token for every owner on every chain: one aggregate3 round-trip per chain, chains in parallel.
+ * Unknown symbols, reverting tokens and unreachable chains are reported in errors without failing the rest.
+ */
+export async function getTokenBalances(
+	query: TokenBalancesQuery,
+	clientFor: PublicClientFactory = getPublicClient
+): Promise<{ balances: TokenBalance[]; errors: BalanceError[]; blockNumbers: Partial<Record<ChainName, number>> }> {
+	const balances: TokenBalance[] = [];
+	const errors: BalanceError[] = [];
+	const blockNumbers: Partial<Record<ChainName, number>> = {};
+
+	await Promise.all(
+		query.chains.map(async (chain) => {
+			try {
+				const result = await readChainBalances(clientFor(chain), chain, query.owners as Address[], query.tokens);
+				balances.push(...result.balances);
+				errors.push(...result.errors);
+				blockNumbers[chain] = result.blockNumber;
+			} catch (error) {
+				errors.push({ chain, error: error instanceof Error ? error.message : String(error) });
+			}
+		})
+	);
+
+	return { balances, errors, blockNumbers };
+}
+
+async function readChainBalances(client: PublicClient, chain: ChainName, owners: Address[], tokens: string[]) {
+	const errors: BalanceError[] = [];
+	const multicall3 = CHAINS[chain].contracts.multicall3.address;
+
+	const resolved: Array<Address | typeof NATIVE_TOKEN> = [];
+	for (const token of tokens) {
+		const address = resolveToken(chain, token);
+		if (!address) {
+			errors.push({ chain, token, error: `Unknown token symbol on ${chain}: ${token}` });
+		} else if (!resolved.some((known) => known.toLowerCase() === address.toLowerCase())) {
+			resolved.push(address);
+		}
+	}
+	const erc20s = resolved.filter((token): token is Address => token !== NATIVE_TOKEN);
+
+	// The block number rides along in the batch, so all balances are from one reported block
+	const reads: ContractRead[] = [
+		{ address: multicall3, abi: multicall3Abi, functionName: 'getBlockNumber' },
+		...erc20s.flatMap((token) => [
+			{ address: token, abi: erc20Abi, functionName: 'decimals' },
+			{ address: token, abi: erc20Abi, functionName: 'symbol' },
+		]),
+		...resolved.flatMap((token) =>
+			owners.map((owner) =>
+				token === NATIVE_TOKEN
+					? { address: multicall3, abi: multicall3Abi, functionName: 'getEthBalance', args: [owner] }
+					: { address: token, abi: erc20Abi, functionName: 'balanceOf', args: [owner] }
+			)
+		),
+	];
+
+	const results = await readMany(client, reads);
+	const [blockResult, ...rest] = results;
+	if (!blockResult.success) throw new Error(`Multicall3 unavailable on ${chain}: ${blockResult.error}`);
+
+	const metadata = new Map<string, { symbol: string; decimals: number } | string>();
+	erc20s.forEach((token, index) => {
+		const [decimals, symbol] = [rest[index * 2], rest[index * 2 + 1]];
+		metadata.set(
+			token.toLowerCase(),
+			decimals.success ? { decimals: Number(decimals.result), symbol: symbol.success ? String(symbol.result) : token } : decimals.error
+		);
+	});
+	const native = CHAINS[chain].nativeCurrency;
+
+	const balanceResults = rest.slice(erc20s.length * 2);
+	const balances: TokenBalance[] = [];
+	resolved.forEach((token, tokenIndex) => {
+		const info = token === NATIVE_TOKEN ? { symbol: native.symbol, decimals: native.decimals } : metadata.get(token.toLowerCase())!;
+		owners.forEach((owner, ownerIndex) => {
+			const result = balanceResults[tokenIndex * owners.length + ownerIndex];
+			if (typeof info === 'string') {
+				errors.push({ chain, token, owner, error: `Not an ERC-20 token: ${info}` });
+				return;
+			}
+			if (!result.success) {
+				errors.push({ chain, token, owner, error: result.error });
+				return;
+			}
+
+			const raw = result.result as bigint;
+			balances.push({ chain, owner, token, ...info, balance: raw.toString(), formatted: formatUnits(raw, info.decimals) });
+		});
+	});
+
+	return { balances, errors, blockNumber: Number(blockResult.result) };
+}
@@ -0,0 +1,517 @@
+/**
+ * Position Watchdog
+ * Scheduled health-factor monitoring for lending positions, with webhook and chat-session alerts
+ * that carry ready-to-sign repay and deposit-collateral transactions
+ */
+
+import { z } from 'zod';
+import { erc20Abi, getAddress, parseAbi, parseUnits, type Abi, type Address, type PublicClient } from 'viem';
+import { CHAIN_NAMES, getPublicClient, type ChainName, type PublicClientFactory } from './chains';
+import { AAVE_V3_POOLS, readAaveAccountData, readAaveUserPosition, type AaveAccountData, type AavePositionAsset } from './aave-v3';
+import { MOONWELL_COMPTROLLERS, readMoonwellUserPosition } from './moonwell';
+import type { TokenInfo } from './defi-math';
+import { generateToken, hashToken, isGeneratedToken } from './access-tokens';
+import { isPublicHttpsUrl, publicHttpsUrlSchema } from './public-url';
+import { WatchdogStore } from './watchdog-store';
+import { buildTransaction } from '../tools/blockchain-tools';
+
+export const WATCH_PROTOCOLS = ['aave-v3', 'moonwell'] as const;
+export type WatchProtocol = (typeof WATCH_PROTOCOLS)[number];
+
+/**
+ * Suggested transactions aim for the threshold plus this margin, so the next check does not alert again straight away
+ */
+export const REMEDIATION_HEADROOM = 1.1;
+
+/**
+ * Watches checked per scheduled run; the rest are picked up on the next wake-up
+ */
+export const WATCHDOG_BATCH_SIZE = 25;
+
+/**
+ * How long a webhook has to accept an alert
+ */
+export const ALERT_TIMEOUT_MS = 10 * 1000;
+
+const MAX_ALERTS_PER_PAGE = 100;
+
+export const registerWatchSchema = z
+	.object({
+		wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 20-byte hex address'),
+		chain: z.enum(CHAIN_NAMES).default('base'),
+		protocol: z.enum(WATCH_PROTOCOLS).default('aave-v3'),
+		threshold: z.number().gt(1, 'Threshold must be above 1, where liquidation starts').max(100),
+		intervalSeconds: z.number().int().min(60).max(24 * 60 * 60).default(300),
+		webhookUrl: publicHttpsUrlSchema.optional(),
+		sessionId: z.string().min(1).max(128).optional().describe('Chat session whose alert inbox receives the alerts'),
+	})
+	.refine((watch) => watch.webhookUrl !== undefined || watch.sessionId !== undefined, {
+		message: 'Provide a webhookUrl, a sessionId or both',
+		path: ['webhookUrl'],
+	})
+	.refine((watch) => watch.protocol !== 'moonwell' || MOONWELL_COMPTROLLERS[watch.chain] !== undefined, {
+		message: `Moonwell is only deployed on ${Object.keys(MOONWELL_COMPTROLLERS).join(', ')}`,
+		path: ['chain'],
+	});
+
+export type WatchRegistration = z.input<typeof registerWatchSchema>;
+
+export interface PositionWatch {
+	id: string;
+	wallet: Address;
+	chain: ChainName;
+	protocol: WatchProtocol;
+	/** Alert when the health factor drops below this */
+	threshold: number;
+	intervalSeconds: number;
+	webhookUrl?: string;
+	sessionId?: string;
+	/** Below the threshold and already alerted; re-armed once the health factor recovers */
+	alerting: boolean;
+	/** Absent while the position has no debt */
+	lastHealthFactor?: number;
+	lastCheckedAt?: number;
+	/** Why the last check failed */
+	lastError?: string;
+	nextCheckAt: number;
+	createdAt: number;
+}
+
+/**
+ * One way to bring the health factor back above the threshold
+ */
+export interface RemediationPlan {
+	action: 'repay' | 'supply';
+	asset: TokenInfo;
+	/** Whole tokens */
+	amount: string;
+	amountUsd: number;
+	/** Health factor after the transactions, at current prices */
+	targetHealthFactor: number;
+	/** Approval first, then the pool call */
+	transactions: Array<{ description: string; transaction: BuiltTransaction }>;
+}
+
+export type BuiltTransaction = Awaited<ReturnType<typeof buildTransaction>>['transaction'];
+
+export interface WatchdogAlert {
+	id: number;
+	watchId: string;
+	wallet: Address;
+	chain: ChainName;
+	protocol: WatchProtocol;
+	sessionId?: string;
+	healthFactor: number;
+	threshold: number;
+	totalCollateralUsd: number;
+	totalDebtUsd: number;
+	/** One line, for chat and webhook consumers that do not render the rest */
+	summary: string;
+	suggestions: RemediationPlan[];
+	/** Why no suggestions could be built */
+	suggestionError?: string;
+	/** `delivered`, or the failure, for watches with a webhook */
+	webhookStatus?: string;
+	createdAt: number;
+}
+
+export type WatchdogErrorCode = 'NOT_FOUND' | 'INVALID' | 'UNAUTHORIZED';
+
+/**
+ * Error raised by the watchdog, tagged so transports can map it to a status code
+ */
+export class WatchdogError extends Error {
+	constructor(
+		public code: WatchdogErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = 'WatchdogError';
+	}
+}
+
+/**
+ * Wakes the watchdog for due checks. Backed by Durable Object alarms.
+ */
+export interface WatchdogScheduler {
+	/** Ensure the watchdog runs scheduled work no later than `time` (epoch ms) */
+	scheduleAt(time: number): Promise<void>;
+}
+
+/**
+ * Sends one alert to a webhook. Throwing marks the delivery as failed; alerts are not retried.
+ */
+export interface AlertTransport {
+	deliver(webhookUrl: string, alert: WatchdogAlert): Promise<void>;
+}
+
+/**
+ * POST the alert as JSON; any 2xx response counts as delivered
+ */
+export const webhookTransport: AlertTransport = {
+	async deliver(webhookUrl, alert) {
+		if (!isPublicHttpsUrl(webhookUrl)) {
+			throw new Error(`Refusing to call a non-public webhook: ${webhookUrl}`);
+		}
+
+		const response = await fetch(webhookUrl, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'X-Watchdog-Alert-Id': String(alert.id) },
+			body: JSON.stringify(alert),
+			signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new Error(`Webhook responded with ${response.status}`);
+		}
+	},
+};
+
+type AccountHealth = Pick<AaveAccountData, 'totalCollateralUsd' | 'totalDebtUsd' | 'healthFactor'>;
+
+/**
+ * What the watchdog needs from a lending protocol
+ */
+interface WatchedProtocol {
+	label: string;
+	/** Cheap read, made on every check */
+	readAccount(client: PublicClient, chain: ChainName, wallet: Address): Promise<AccountHealth>;
+	/** Full position read, made only when alerting */
+	planRemediation(client: PublicClient, chain: ChainName, wallet: Address, targetHealthFactor: number): Promise<RemediationPlan[]>;
+}
+
+const aavePoolWriteAbi = parseAbi([
+	'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)',
+	'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+]);
+
+const mTokenWriteAbi = parseAbi(['function repayBorrow(uint256 repayAmount) returns (uint256)', 'function mint(uint256 mintAmount) returns (uint256)']);
+
+// Stable-rate borrowing is deprecated on every V3 market
+const VARIABLE_RATE_MODE = 2n;
+
+const PROTOCOLS: Record<WatchProtocol, WatchedProtocol> = {
+	'aave-v3': {
+		label: 'Aave V3',
+		readAccount: (client, chain, wallet) => readAaveAccountData(client, chain, wallet),
+		planRemediation: planAaveRemediation,
+	},
+	moonwell: {
+		label: 'Moonwell',
+		// Moonwell has no single-call account summary, so every check reads the full position
+		readAccount: async (client, chain, wallet) => readMoonwellUserPosition(client, chain, wallet, await client.getBlockNumber()),
+		planRemediation: planMoonwellRemediation,
+	},
+};
+
+/**
+ * A position as the remediation sizing sees it, in the Aave reader's shape that the Moonwell reader shares
+ */
+interface RemediationPosition<T extends AavePositionAsset> {
+	healthFactor?: number;
+	totalDebtUsd: number;
+	assets: T[];
+}
+
+/**
+ * The contract calls a protocol's repay and supply go through, all signed by the watched wallet
+ */
+interface RemediationCalls<T extends AavePositionAsset> {
+	/** Contract that pulls the tokens, and what to call it in the approval */
+	spender(asset: T): { address: Address; name: string };
+	repay(asset: T, amount: bigint): Promise<BuiltTransaction>;
+	supply(asset: T, amount: bigint): Promise<BuiltTransaction>;
+}
+
+export async function planAaveRemediation(client: PublicClient, chain: ChainName, wallet: Address, target: number): Promise<RemediationPlan[]> {
+	const position = await readAaveUserPosition(client, chain, wallet, await client.getBlockNumber());
+	const pool = AAVE_V3_POOLS[chain];
+
+	return planRemediation(chain, position, target, {
+		spender: () => ({ address: pool, name: 'the pool' }),
+		repay: (asset, amount) => build(chain, pool, aavePoolWriteAbi, 'repay', [asset.asset.address, amount, VARIABLE_RATE_MODE, wallet]),
+		supply: (asset, amount) => build(chain, pool, aavePoolWriteAbi, 'supply', [asset.asset.address, amount, wallet, 0]),
+	});
+}
+
+/**
+ * Moonwell repays and supplies go to each asset's mToken. Supplying only counts as collateral in a market the wallet
+ * has entered, which holds for the collateral asset chosen here.
+ */
+export async function planMoonwellRemediation(client: PublicClient, chain: ChainName, wallet: Address, target: number): Promise<RemediationPlan[]> {
+	const position = await readMoonwellUserPosition(client, chain, wallet, await client.getBlockNumber());
+
+	return planRemediation(chain, position, target, {
+		spender: (asset) => ({ address: asset.mToken, name: `the ${asset.asset.symbol} market` }),
+		repay: (asset, amount) => build(chain, asset.mToken, mTokenWriteAbi, 'repayBorrow', [amount]),
+		supply: (asset, amount) => build(chain, asset.mToken, mTokenWriteAbi, 'mint', [amount]),
+	});
+}
+
+/**
+ * Size a repay of the largest debt and a supply of the largest collateral, each of which alone
+ * lifts the health factor to the target. HF = collateral × LT / debt, so repaying r USD gives
+ * HF × D / (D - r) and supplying s USD of an asset with threshold lt gives HF + s × lt / D.
+ */
+async function planRemediation<T extends AavePositionAsset>(
+	chain: ChainName,
+	position: RemediationPosition<T>,
+	target: number,
+	calls: RemediationCalls<T>
+): Promise<RemediationPlan[]> {
+	const healthFactor = position.healthFactor;
+	if (healthFactor === undefined || healthFactor >= target) return [];
+
+	const debt = position.totalDebtUsd;
+	const largest = <I>(items: I[], value: (item: I) => number) => items.reduce<I | undefined>((best, item) => (best && value(best) >= value(item) ? best : item), undefined);
+	const plans: RemediationPlan[] = [];
+
+	const borrowed = largest(
+		position.assets.filter((asset) => asset.borrowedUsd > 0),
+		(asset) => asset.borrowedUsd
+	);
+	if (borrowed) {
+		const amountUsd = Math.min(debt * (1 - healthFactor / target), borrowed.borrowedUsd);
+		const amount = toUnits(amountUsd / borrowed.priceUsd, borrowed.asset.decimals);
+		plans.push({
+			action: 'repay',
+			asset: borrowed.asset,
+			amount: (amountUsd / borrowed.priceUsd).toFixed(Math.min(borrowed.asset.decimals, 6)),
+			amountUsd: roundUsd(amountUsd),
+			targetHealthFactor: roundHealthFactor((healthFactor * debt) / (debt - amountUsd)),
+			transactions: [
+				await approval(chain, borrowed.asset, calls.spender(borrowed), amount),
+				{ description: `Repay ${borrowed.asset.symbol} debt`, transaction: await calls.repay(borrowed, amount) },
+			],
+		});
+	}
+
+	const collateral = largest(
+		position.assets.filter((asset) => asset.usedAsCollateral && asset.liquidationThreshold > 0),
+		(asset) => asset.suppliedUsd
+	);
+	if (collateral) {
+		const amountUsd = (debt * (target - healthFactor)) / collateral.liquidationThreshold;
+		const amount = toUnits(amountUsd / collateral.priceUsd, collateral.asset.decimals);
+		plans.push({
+			action: 'supply',
+			asset: collateral.asset,
+			amount: (amountUsd / collateral.priceUsd).toFixed(Math.min(collateral.asset.decimals, 6)),
+			amountUsd: roundUsd(amountUsd),
+			targetHealthFactor: roundHealthFactor(healthFactor + (amountUsd * collateral.liquidationThreshold) / debt),
+			transactions: [
+				await approval(chain, collateral.asset, calls.spender(collateral), amount),
+				{ description: `Supply ${collateral.asset.symbol} as collateral`, transaction: await calls.supply(collateral, amount) },
+			],
+		});
+	}
+
+	return plans;
+}
+
+async function approval(chain: ChainName, asset: TokenInfo, spender: { address: Address; name: string }, amount: bigint) {
+	return {
+		description: `Approve ${asset.symbol} for ${spender.name}`,
+		transaction: (
+			await buildTransaction({ chain, contractAddress: asset.address, functionName: 'approve', abi: [...erc20Abi], args: [spender.address, amount] })
+		).transaction,
+	};
+}
+
+async function build(chain: ChainName, contractAddress: Address, abi: Abi, functionName: string, args: unknown[]): Promise<BuiltTransaction> {
+	return (await buildTransaction({ chain, contractAddress, functionName, abi: [...abi], args })).transaction;
+}
+
+function toUnits(tokens: number, decimals: number): bigint {
+	return parseUnits(tokens.toFixed(decimals), decimals);
+}
+
+const roundUsd = (value: number) => Number(value.toFixed(2));
+const roundHealthFactor = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Position Watchdog Service
+ * Re-reads each watched account on its interval and raises an alert when the health factor drops
+ * below the watch's threshold. Alerts are edge-triggered: one per crossing, re-armed on recovery.
+ */
+export class PositionWatchdogService {
+	constructor(
+		private store: WatchdogStore,
+		private scheduler: WatchdogScheduler,
+		private clientFor: PublicClientFactory = getPublicClient,
+		private transport: AlertTransport = webhookTransport
+	) {}
+
+	async initialize(): Promise<void> {
+		console.log('Initializing Position Watchdog Service');
+		this.store.migrate();
+
+		const next = this.store.getNextCheckTime();
+		if (next !== undefined) {
+			await this.scheduler.scheduleAt(next);
+		}
+	}
+
+	/**
+	 * Register a watch and check it straight away, so the response carries the current health factor.
+	 * The watch belongs to `ownerToken` when given, otherwise to a new token returned once here. Tokens are only
+	 * issued here: a given token must be one that already owns watches.
+	 */
+	async registerWatch(
+		registration: WatchRegistration,
+		ownerToken?: string,
+		now: number = Date.now()
+	): Promise<{ watch: PositionWatch; alert?: WatchdogAlert; ownerToken: string }> {
+		const parsed = registerWatchSchema.safeParse(registration);
+		if (!parsed.success) {
+			throw new WatchdogError('INVALID', parsed.error.issues.map((issue) => issue.message).join('; '));
+		}
+
+		if (ownerToken !== undefined && !(isGeneratedToken(ownerToken) && this.store.hasOwner(await hashToken(ownerToken)))) {
+			throw new WatchdogError('UNAUTHORIZED', 'Unknown owner token; register without one to be issued a new token');
+		}
+
+		const token = ownerToken ?? generateToken();
+		const { wallet, ...options } = parsed.data;
+		const watch: PositionWatch = {
+			...options,
+			id: crypto.randomUUID(),
+			wallet: getAddress(wallet),
+			alerting: false,
+			nextCheckAt: now,
+			createdAt: now,
+		};
+		this.store.saveWatch(watch, await hashToken(token));
+		console.log(`Watch registered: ${watch.wallet} on ${watch.chain} ${watch.protocol} below ${watch.threshold} (${watch.id})`);
+
+		return { ...(await this.check(watch, now)), ownerToken: token };
+	}
+
+	/**
+	 * Get a watch by id. Watches of other owners are reported as not found.
+	 */
+	async getWatch(id: string, ownerToken: string | undefined): Promise<PositionWatch> {
+		const watch = this.store.getWatch(id, await this.ownerHash(ownerToken));
+		if (!watch) throw new WatchdogError('NOT_FOUND', `Watch not found: ${id}`);
+		return watch;
+	}
+
+	async listWatches(ownerToken: string | undefined, wallet?: string): Promise<PositionWatch[]> {
+		return this.store.listWatches(await this.ownerHash(ownerToken), wallet === undefined ? undefined : getAddress(wallet.toLowerCase()));
+	}
+
+	async deleteWatch(id: string, ownerToken: string | undefined): Promise<void> {
+		if (!this.store.deleteWatch(id, await this.ownerHash(ownerToken))) throw new WatchdogError('NOT_FOUND', `Watch not found: ${id}`);
+		console.log(`Watch deleted: ${id}`);
+	}
+
+	/**
+	 * Check a watch now instead of waiting for its next scheduled check
+	 */
+	async checkWatch(id: string, ownerToken: string | undefined, now: number = Date.now()): Promise<{ watch: PositionWatch; alert?: WatchdogAlert }> {
+		return this.check(await this.getWatch(id, ownerToken), now);
+	}
+
+	/**
+	 * Alerts on the owner's watches for a chat session or a watch, after the given alert id (the last one the caller has seen)
+	 */
+	async listAlerts(ownerToken: string | undefined, filter: { sessionId?: string; watchId?: string; after?: number }): Promise<WatchdogAlert[]> {
+		return this.store.listAlerts(await this.ownerHash(ownerToken), filter, MAX_ALERTS_PER_PAGE);
+	}
+
+	/**
+	 * Run the checks that are due. Returns when the watchdog next needs to wake up, if ever.
+	 */
+	async runScheduledWork(now: number = Date.now()): Promise<number | undefined> {
+		for (const watch of this.store.getDueWatches(now, WATCHDOG_BATCH_SIZE)) {
+			await this.check(watch, now);
+		}
+		return this.store.getNextCheckTime();
+	}
+
+	private async ownerHash(ownerToken: string | undefined): Promise<string> {
+		if (!ownerToken) throw new WatchdogError('UNAUTHORIZED', 'Send the owner token returned at registration as a Bearer token');
+		return hashToken(ownerToken);
+	}
+
+	/**
+	 * Read the account, alert on a downward crossing and schedule the next check.
+	 * A failed read keeps the previous state and is retried on the normal interval.
+	 */
+	private async check(watch: PositionWatch, now: number): Promise<{ watch: PositionWatch; alert?: WatchdogAlert }> {
+		const protocol = PROTOCOLS[watch.protocol];
+		const client = this.clientFor(watch.chain);
+		let updated: PositionWatch = { ...watch, lastCheckedAt: now, nextCheckAt: now + watch.intervalSeconds * 1000 };
+		let alert: WatchdogAlert | undefined;
+
+		try {
+			const account = await protocol.readAccount(client, watch.chain, watch.wallet);
+			const healthFactor = account.healthFactor;
+			const below = healthFactor !== undefined && healthFactor < watch.threshold;
+			updated = { ...updated, alerting: below, lastHealthFactor: healthFactor, lastError: undefined };
+
+			if (below && !watch.alerting) {
+				alert = await this.raiseAlert(updated, account, healthFactor, now);
+			} else if (!below && watch.alerting) {
+				console.log(`Watch ${watch.id} recovered: health factor ${healthFactor ?? 'n/a (no debt)'}`);
+			}
+		} catch (error: any) {
+			console.error(`Watch ${watch.id} check failed`, error);
+			updated = { ...updated, lastError: error.message.split('\n')[0] };
+		}
+
+		this.store.saveWatch(updated);
+		await this.scheduler.scheduleAt(updated.nextCheckAt);
+		return { watch: updated, alert };
+	}
+
+	/**
+	 * Build suggestions, record the alert for the session inbox and push it to the webhook
+	 */
+	private async raiseAlert(watch: PositionWatch, account: AccountHealth, healthFactor: number, now: number): Promise<WatchdogAlert> {
+		const protocol = PROTOCOLS[watch.protocol];
+		const target = watch.threshold * REMEDIATION_HEADROOM;
+
+		let suggestions: RemediationPlan[] = [];
+		let suggestionError: string | undefined;
+		try {
+			suggestions = await protocol.planRemediation(this.clientFor(watch.chain), watch.chain, watch.wallet, target);
+		} catch (error: any) {
+			console.error(`Watch ${watch.id} remediation failed`, error);
+			suggestionError = error.message.split('\n')[0];
+		}
+
+		const options = suggestions.map((plan) => `${plan.action} ${plan.amount} ${plan.asset.symbol}`).join(' or ');
+		const alert = this.store.saveAlert({
+			watchId: watch.id,
+			wallet: watch.wallet,
+			chain: watch.chain,
+			protocol: watch.protocol,
+			...(watch.sessionId !== undefined ? { sessionId: watch.sessionId } : {}),
+			healthFactor: roundHealthFactor(healthFactor),
+			threshold: watch.threshold,
+			totalCollateralUsd: roundUsd(account.totalCollateralUsd),
+			totalDebtUsd: roundUsd(account.totalDebtUsd),
+			summary:
+				`${protocol.label} health factor for ${watch.wallet} on ${watch.chain} fell to ${healthFactor.toFixed(3)}, below ${watch.threshold}.` +
+				(options ? ` To get back to ${target.toFixed(2)}: ${options}.` : ''),
+			suggestions,
+			...(suggestionError !== undefined ? { suggestionError } : {}),
+			createdAt: now,
+		});
+		console.log(`Watch ${watch.id} alert ${alert.id}: health factor ${healthFactor} below ${watch.threshold}`);
+
+		if (watch.webhookUrl) {
+			try {
+				await this.transport.deliver(watch.webhookUrl, alert);
+				alert.webhookStatus = 'delivered';
+			} catch (error: any) {
+				console.error(`Watch ${watch.id} webhook delivery failed`, error);
+				alert.webhookStatus = `failed: ${error.message}`;
+			}
+			this.store.setAlertWebhookStatus(alert.id, alert.webhookStatus);
+		}
+
+		return alert;
+	}
+}
@@ -0,0 +1,127 @@
+/**
+ * Public URL Checks
+ * Keeps user-supplied callback URLs (agent endpoints, agent cards, webhooks) off internal networks
+ */
+
+import { z } from 'zod';
+
+/**
+ * Host names that only resolve inside a network
+ */
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+/**
+ * Non-public IPv4 ranges as [network, prefix length]: this-network, private, CGNAT, loopback,
+ * link-local, IETF protocol assignments, benchmarking, and multicast/reserved
+ */
+const PRIVATE_IPV4_RANGES: [number, number][] = [
+	[0x00000000, 8],
+	[0x0a000000, 8],
+	[0x64400000, 10],
+	[0x7f000000, 8],
+	[0xa9fe0000, 16],
+	[0xac100000, 12],
+	[0xc0000000, 24],
+	[0xc0a80000, 16],
+	[0xc6120000, 15],
+	[0xe0000000, 3],
+];
+
+function parseIPv4(host: string): number | undefined {
+	const octets = host.split('.');
+	if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) return undefined;
+	return octets.reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(address: number): boolean {
+	return PRIVATE_IPV4_RANGES.some(([network, prefix]) => Math.floor(address / 2 ** (32 - prefix)) === Math.floor(network / 2 ** (32 - prefix)));
+}
+
+/**
+ * Expand an IPv6 address (as normalized by URL, without brackets) into its eight 16-bit groups
+ */
+function parseIPv6(host: string): number[] | undefined {
+	let text = host;
+
+	// A trailing dotted IPv4 part (e.g. ::ffff:10.0.0.1) counts as two groups
+	const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+	if (dotted) {
+		const ipv4 = parseIPv4(dotted[2]);
+		if (ipv4 === undefined) return undefined;
+		text = `${dotted[1]}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+	}
+
+	const [head, tail, ...rest] = text.split('::');
+	if (rest.length > 0) return undefined;
+
+	const toGroups = (part: string | undefined) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+	const headGroups = toGroups(head);
+	const tailGroups = toGroups(tail);
+	const missing = 8 - headGroups.length - tailGroups.length;
+	if (tail === undefined ? missing !== 0 : missing < 1) return undefined;
+
+	const groups = [...headGroups, ...Array<number>(tail === undefined ? 0 : missing).fill(0), ...tailGroups];
+	return groups.every((group) => Number.isInteger(group) && group >= 0 && group <= 0xffff) ? groups : undefined;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+	const [first] = groups;
+	const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+	// Unspecified and loopback
+	if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) return true;
+	// IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses are checked as IPv4
+	if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+		return isPrivateIPv4(groups[6] * 0x10000 + groups[7]);
+	}
+
+	return (
+		(first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+		(first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+		(first & 0xff00) === 0xff00 || // multicast
+		first === 0x64 // NAT64 64:ff9b::/96 can reach any IPv4 address
+	);
+}
+
+/**
+ * Whether a host name or IP literal could only be reached on a local or private network
+ */
+export function isPrivateHost(hostname: string): boolean {
+	const host = hostname.toLowerCase().replace(/\.$/, '');
+
+	if (host === 'localhost' || PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) return true;
+
+	if (host.startsWith('[') && host.endsWith(']')) {
+		const groups = parseIPv6(host.slice(1, -1));
+		return groups === undefined || isPrivateIPv6(groups);
+	}
+
+	const ipv4 = parseIPv4(host);
+	if (ipv4 !== undefined) return isPrivateIPv4(ipv4);
+
+	// Single-label names only resolve through local search domains
+	return !host.includes('.');
+}
+
+/**
+ * Whether a URL is https, carries no credentials and names a public host.
+ * Host names are checked as written; names that resolve to private addresses are not caught here.
+ */
+export function isPublicHttpsUrl(value: string): boolean {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return false;
+	}
+
+	return url.protocol === 'https:' && url.username === '' && url.password === '' && !isPrivateHost(url.hostname);
+}
+
+/**
+ * Zod schema for a URL the server will call out to
+ */
+export const publicHttpsUrlSchema = z
+	.string()
+	.url()
+	.refine(isPublicHttpsUrl, 'Must be an https URL on a public host (no localhost, private, loopback or link-local addresses)');
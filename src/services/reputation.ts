@@ -0,0 +1,105 @@
+/**
+ * Agent Reputation
+ * Scores agents from delegation outcomes, per capability, decaying toward neutral over time
+ */
+
+export const NEUTRAL_REPUTATION = 100;
+export const MIN_REPUTATION = 0;
+export const MAX_REPUTATION = 200;
+
+/**
+ * Without new outcomes, the distance from neutral halves every week
+ */
+export const REPUTATION_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type DelegationOutcome = 'completed' | 'failed' | 'timeout';
+
+const OUTCOME_DELTAS: Record<DelegationOutcome, number> = {
+	completed: 5,
+	failed: -8,
+	timeout: -12,
+};
+
+// Completions within FAST_LATENCY_MS earn the full reward, tapering to MIN_LATENCY_FACTOR at SLOW_LATENCY_MS
+const FAST_LATENCY_MS = 10 * 1000;
+const SLOW_LATENCY_MS = 5 * 60 * 1000;
+const MIN_LATENCY_FACTOR = 0.2;
+
+// Weight of the newest sample in the moving latency average
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Track record of one agent for one capability
+ */
+export interface CapabilityReputation {
+	agentId: string;
+	capability: string;
+	score: number;
+	completed: number;
+	failed: number;
+	timedOut: number;
+	avgLatencyMs?: number;
+	updatedAt: Date;
+}
+
+export function clampReputation(score: number): number {
+	return Math.max(MIN_REPUTATION, Math.min(MAX_REPUTATION, score));
+}
+
+/**
+ * Decay a score recorded at `updatedAt` toward neutral, as of `now`
+ */
+export function decayReputation(score: number, updatedAt: number, now: number = Date.now()): number {
+	const elapsed = Math.max(0, now - updatedAt);
+	return NEUTRAL_REPUTATION + (score - NEUTRAL_REPUTATION) * 0.5 ** (elapsed / REPUTATION_HALF_LIFE_MS);
+}
+
+/**
+ * Score change for one delegation outcome. Slow completions earn less than fast ones.
+ */
+export function outcomeDelta(outcome: DelegationOutcome, latencyMs: number): number {
+	if (outcome !== 'completed') return OUTCOME_DELTAS[outcome];
+
+	const slowness = Math.min(1, Math.max(0, (latencyMs - FAST_LATENCY_MS) / (SLOW_LATENCY_MS - FAST_LATENCY_MS)));
+	return OUTCOME_DELTAS.completed * (1 - slowness * (1 - MIN_LATENCY_FACTOR));
+}
+
+/**
+ * Fold an outcome into a capability track record (starting from neutral if there is none yet)
+ */
+export function applyOutcome(
+	current: CapabilityReputation | undefined,
+	agentId: string,
+	capability: string,
+	outcome: DelegationOutcome,
+	latencyMs: number,
+	now: number = Date.now()
+): CapabilityReputation {
+	const base: CapabilityReputation = current ?? {
+		agentId,
+		capability,
+		score: NEUTRAL_REPUTATION,
+		completed: 0,
+		failed: 0,
+		timedOut: 0,
+		updatedAt: new Date(now),
+	};
+
+	const next: CapabilityReputation = {
+		...base,
+		score: clampReputation(decayReputation(base.score, base.updatedAt.getTime(), now) + outcomeDelta(outcome, latencyMs)),
+		updatedAt: new Date(now),
+	};
+
+	if (outcome === 'completed') {
+		next.completed += 1;
+		next.avgLatencyMs =
+			next.avgLatencyMs === undefined ? latencyMs : Math.round(next.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+	} else if (outcome === 'failed') {
+		next.failed += 1;
+	} else {
+		next.timedOut += 1;
+	}
+
+	return next;
+}
@@ -0,0 +1,219 @@
+/**
+ * RPC Transport
+ * Redundant JSON-RPC transports: several endpoints per chain, each with a request timeout, a circuit breaker
+ * and passive health stats, tried in order of those stats on every request
+ */
+
+import { createTransport, http, HttpRequestError, LimitExceededRpcError, TimeoutError, type EIP1193RequestFn, type Transport } from 'viem';
+
+export interface RpcTransportOptions {
+	/** Per-request timeout in ms */
+	timeoutMs: number;
+	/** Consecutive endpoint failures that open the circuit */
+	failureThreshold: number;
+	/** How long an open circuit rejects requests before letting one probe through */
+	cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+	/** Host only: provider keys usually sit in the path or query */
+	host: string;
+	state: CircuitState;
+	requests: number;
+	failures: number;
+	errorRate: number;
+	/** Exponentially weighted failure rate, which ranking uses so endpoints recover from old failures */
+	recentErrorRate: number;
+	/** Exponentially weighted average latency of successful requests */
+	latencyMs?: number;
+	lastError?: string;
+}
+
+/**
+ * Thrown instead of calling an endpoint whose circuit is open, so the transport moves on immediately
+ */
+export class CircuitOpenError extends Error {
+	constructor(host: string) {
+		super(`RPC circuit open for ${host}`);
+		this.name = 'CircuitOpenError';
+	}
+}
+
+// Weight of the newest sample in the latency and error rate averages
+const SMOOTHING = 0.2;
+
+// Ranking weights, as in viem's fallback ranking: mostly stability, then latency
+const STABILITY_WEIGHT = 0.7;
+const LATENCY_WEIGHT = 0.3;
+
+/**
+ * Whether an error says something about the endpoint rather than the request: network failures,
+ * HTTP errors, timeouts and rate limits. Reverts and invalid params do not count against it.
+ */
+function isEndpointFailure(error: unknown): boolean {
+	return (
+		error instanceof HttpRequestError ||
+		error instanceof TimeoutError ||
+		(error instanceof Error && 'code' in error && error.code === LimitExceededRpcError.code)
+	);
+}
+
+/**
+ * One RPC URL with its circuit breaker and health counters
+ */
+export class RpcEndpoint {
+	readonly host: string;
+	private requests = 0;
+	private failures = 0;
+	private consecutiveFailures = 0;
+	private latencyMs?: number;
+	private recentErrorRate = 0;
+	private lastError?: string;
+	private openedAt?: number;
+	private probing = false;
+	// Last state reported in the logs, so each transition is logged once
+	private loggedState: CircuitState = 'closed';
+
+	constructor(
+		readonly url: string,
+		private options: Pick<RpcTransportOptions, 'failureThreshold' | 'cooldownMs'>,
+		private now: () => number = Date.now
+	) {
+		this.host = new URL(url).host;
+	}
+
+	get state(): CircuitState {
+		if (this.openedAt === undefined) return 'closed';
+		return this.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+	}
+
+	/**
+	 * Run a request through the breaker. A half-open circuit lets a single probe through;
+	 * its outcome closes the circuit or restarts the cooldown.
+	 */
+	async call<T>(request: () => Promise<T>): Promise<T> {
+		const state = this.state;
+		if (state === 'open' || (state === 'half-open' && this.probing)) throw new CircuitOpenError(this.host);
+
+		if (state === 'half-open') this.logTransition('half-open', 'probing with one request');
+		this.probing = state === 'half-open';
+		this.requests++;
+		const started = this.now();
+		try {
+			const response = await request();
+			this.recordSuccess(this.now() - started);
+			return response;
+		} catch (error) {
+			if (isEndpointFailure(error)) this.recordFailure(error as Error);
+			else this.recordSuccess(this.now() - started);
+			throw error;
+		} finally {
+			this.probing = false;
+		}
+	}
+
+	health(): EndpointHealth {
+		return {
+			host: this.host,
+			state: this.state,
+			requests: this.requests,
+			failures: this.failures,
+			errorRate: this.requests > 0 ? this.failures / this.requests : 0,
+			recentErrorRate: this.recentErrorRate,
+			latencyMs: this.latencyMs === undefined ? undefined : Math.round(this.latencyMs),
+			lastError: this.lastError,
+		};
+	}
+
+	private recordSuccess(latencyMs: number) {
+		this.consecutiveFailures = 0;
+		this.openedAt = undefined;
+		this.logTransition('closed', 'request succeeded');
+		this.recentErrorRate -= SMOOTHING * this.recentErrorRate;
+		this.latencyMs = this.latencyMs === undefined ? latencyMs : this.latencyMs + SMOOTHING * (latencyMs - this.latencyMs);
+	}
+
+	private recordFailure(error: Error) {
+		this.failures++;
+		this.consecutiveFailures++;
+		this.lastError = error.message.split('\n')[0];
+		this.recentErrorRate += SMOOTHING * (1 - this.recentErrorRate);
+
+		// A failed probe restarts the cooldown; otherwise open once the threshold is reached
+		if (this.openedAt !== undefined || this.consecutiveFailures >= this.options.failureThreshold) {
+			this.openedAt = this.now();
+			this.logTransition('open', `${this.consecutiveFailures} consecutive failures, last: ${this.lastError}`);
+		}
+	}
+
+	private logTransition(state: CircuitState, reason: string) {
+		if (state === this.loggedState) return;
+
+		console.warn(`RPC circuit ${this.loggedState} -> ${state} for ${this.host}: ${reason}`);
+		this.loggedState = state;
+	}
+}
+
+/**
+ * Order endpoints for one request: open circuits last, the rest by a stability and latency score.
+ * Endpoints without latency samples score as the slowest, so with no stats the configured order holds.
+ */
+export function rankEndpoints(endpoints: RpcEndpoint[]): RpcEndpoint[] {
+	const health = new Map(endpoints.map((endpoint) => [endpoint, endpoint.health()]));
+	const slowest = Math.max(0, ...[...health.values()].map(({ latencyMs }) => latencyMs ?? 0));
+
+	const score = (endpoint: RpcEndpoint) => {
+		const { recentErrorRate, latencyMs } = health.get(endpoint)!;
+		const latency = slowest > 0 ? (latencyMs ?? slowest) / slowest : 1;
+		return STABILITY_WEIGHT * (1 - recentErrorRate) + LATENCY_WEIGHT * (1 - latency);
+	};
+	const isOpen = (endpoint: RpcEndpoint) => (health.get(endpoint)!.state === 'open' ? 1 : 0);
+
+	// Array.prototype.sort is stable, so ties keep the configured order
+	return [...endpoints].sort((a, b) => isOpen(a) - isOpen(b) || score(b) - score(a));
+}
+
+/**
+ * Build a transport over the URLs that ranks the endpoints on every request and tries them in that order,
+ * moving on after endpoint failures and open circuits. Ranking uses the stats requests already record:
+ * viem's `rank` option pings from a timer loop, and Workers do not run timers once the request that started
+ * them has returned.
+ */
+export function createRedundantTransport(urls: string[], options: RpcTransportOptions): { transport: Transport; endpoints: RpcEndpoint[] } {
+	if (urls.length === 0) throw new Error('At least one RPC URL is required');
+
+	const endpoints = urls.map((url) => new RpcEndpoint(url, options));
+
+	const transport: Transport = ({ chain }) => {
+		const clients = new Map(
+			endpoints.map((endpoint) => [endpoint, http(endpoint.url, { timeout: options.timeoutMs, retryCount: 0 })({ chain, retryCount: 0 })])
+		);
+
+		const request = (async ({ method, params }) => {
+			let lastError: unknown;
+			for (const endpoint of rankEndpoints(endpoints)) {
+				try {
+					return await endpoint.call(() => clients.get(endpoint)!.request({ method, params }));
+				} catch (error) {
+					// Reverts and bad params would fail the same way anywhere
+					if (!(error instanceof CircuitOpenError) && !isEndpointFailure(error)) throw error;
+					lastError = error;
+				}
+			}
+			throw lastError;
+		}) as EIP1193RequestFn;
+
+		return createTransport({
+			key: 'redundant',
+			name: 'Redundant',
+			type: 'redundant',
+			request,
+			// Breakers already skip dead endpoints, so one extra pass over the list is enough
+			retryCount: 1,
+		});
+	};
+
+	return { transport, endpoints };
+}
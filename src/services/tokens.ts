@@ -0,0 +1,93 @@
+/**
+ * Token List
+ * Well-known ERC-20 addresses per chain, so tools can take symbols instead of addresses
+ */
+
+import type { Address } from 'viem';
+import { CHAINS, type ChainName } from './chains';
+
+/**
+ * Stands for the chain's native currency in balance queries
+ */
+export const NATIVE_TOKEN = 'native';
+
+export const KNOWN_TOKENS: Record<ChainName, Record<string, Address>> = {
+	base: {
+		USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+		USDbC: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+		WETH: '0x4200000000000000000000000000000000000006',
+		AERO: '0x940181a94A35A4569E4529A3CDfB74e38FD98631',
+		cbETH: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
+		DAI: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+	},
+	mainnet: {
+		USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+		USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+		DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+		WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+	},
+	arbitrum: {
+		USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+		USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+		DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+		WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+	},
+	optimism: {
+		USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+		USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+		DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+		WETH: '0x4200000000000000000000000000000000000006',
+	},
+	polygon: {
+		USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+		USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+		DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+		WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+	},
+};
+
+/**
+ * Resolve a symbol (case-insensitive) or address on a chain. The native currency can be named by
+ * its symbol ("ETH") or as "native". Returns undefined for unknown symbols.
+ */
+export function resolveToken(chain: ChainName, token: string): Address | typeof NATIVE_TOKEN | undefined {
+	if (token.startsWith('0x')) return token as Address;
+	if (token.toLowerCase() === NATIVE_TOKEN || token.toUpperCase() === CHAINS[chain].nativeCurrency.symbol.toUpperCase()) return NATIVE_TOKEN;
+
+	const wanted = token.toUpperCase();
+	const symbol = Object.keys(KNOWN_TOKENS[chain]).find((known) => known.toUpperCase() === wanted);
+	return symbol ? KNOWN_TOKENS[chain][symbol] : undefined;
+}
+
+/**
+ * Resolve a token for contracts that hold ERC-20s only: the native currency ("ETH") becomes WETH.
+ * Throws for unknown symbols and for native currencies without a listed wrapper.
+ */
+export function resolveErc20(chain: ChainName, token: string): Address {
+	const resolved = resolveToken(chain, token);
+	if (resolved === undefined) throw new Error(`Unknown token symbol on ${chain}: ${token}`);
+	if (resolved !== NATIVE_TOKEN) return resolved;
+	if (CHAINS[chain].nativeCurrency.symbol !== 'ETH') throw new Error(`Pass the wrapped ${token} address on ${chain}`);
+	return KNOWN_TOKENS[chain].WETH;
+}
+
+/**
+ * Whether a listed token is the one asked for: by address, or by symbol ignoring case ("ETH" also matches WETH)
+ */
+export function matchesAsset(token: { address: Address; symbol: string }, asset?: string): boolean {
+	if (!asset) return true;
+	if (asset.startsWith('0x')) return token.address.toLowerCase() === asset.toLowerCase();
+
+	const symbol = token.symbol.toUpperCase();
+	const wanted = asset.toUpperCase();
+	return symbol === wanted || (wanted === 'ETH' && symbol === 'WETH');
+}
+
+const USD_STABLECOINS = new Set(['USDC', 'USDBC', 'USDT', 'DAI', 'USDC.E']);
+
+/**
+ * Whether a symbol is a dollar stablecoin, close enough to $1 to value other amounts in
+ */
+export function isUsdStablecoin(symbol: string): boolean {
+	return USD_STABLECOINS.has(symbol.toUpperCase());
+}
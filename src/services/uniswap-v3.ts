@@ -0,0 +1,543 @@
+/**
+ * Uniswap V3
+ * On-chain pool reader: state, token metadata, prices, TVL, fee APR from swaps, and factory lookups;
+ * plus LP position NFTs with their amounts, uncollected fees and impermanent loss
+ */
+
+import {
+	BaseError,
+	ContractFunctionRevertedError,
+	ContractFunctionZeroDataError,
+	formatUnits,
+	maxUint128,
+	parseAbi,
+	parseAbiItem,
+	zeroAddress,
+	type Address,
+	type PublicClient,
+} from 'viem';
+import type { ChainName } from './chains';
+import { SECONDS_PER_YEAR, type TokenInfo } from './defi-math';
+import { readAll, readMany } from './multicall';
+import { isUsdStablecoin } from './tokens';
+
+export const UNISWAP_V3_FACTORIES: Record<ChainName, Address> = {
+	base: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+	mainnet: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+	arbitrum: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+	optimism: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+	polygon: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+};
+
+export const UNISWAP_V3_POSITION_MANAGERS: Record<ChainName, Address> = {
+	base: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+	mainnet: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+	arbitrum: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+	optimism: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+	polygon: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+};
+
+/**
+ * Position NFTs read per wallet
+ */
+export const MAX_POSITIONS = 50;
+
+/**
+ * Fee tiers enabled on every factory, in hundredths of a basis point
+ */
+export const FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+/**
+ * Blocks per eth_getLogs request; many public endpoints reject wider ranges
+ */
+export const LOG_CHUNK_BLOCKS = 2_000n;
+
+export const uniswapV3PoolAbi = parseAbi([
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function fee() view returns (uint24)',
+	'function liquidity() view returns (uint128)',
+	'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+]);
+
+const factoryAbi = parseAbi(['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)']);
+
+const tokenAbi = parseAbi([
+	'function symbol() view returns (string)',
+	'function name() view returns (string)',
+	'function decimals() view returns (uint8)',
+	'function balanceOf(address owner) view returns (uint256)',
+]);
+
+const swapEvent = parseAbiItem(
+	'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+);
+
+export interface PoolState {
+	token0: Address;
+	token1: Address;
+	/** Fee tier in hundredths of a basis point (500 = 0.05%) */
+	fee: number;
+	liquidity: bigint;
+	sqrtPriceX96: bigint;
+	tick: number;
+	/** Protocol fee denominators: low 4 bits for token0, high 4 bits for token1; 0 means off */
+	feeProtocol: number;
+}
+
+export type PoolToken = TokenInfo & { name: string };
+
+/**
+ * What one pool holds and earns: prices are decimal-adjusted, amounts in whole tokens
+ */
+export interface PoolAnalytics {
+	state: PoolState;
+	blockNumber: bigint;
+	token0: PoolToken;
+	token1: PoolToken;
+	/** Price of one token0 in token1, and the inverse */
+	token0Price: number;
+	token1Price: number;
+	balance0: number;
+	balance1: number;
+	tvlInToken0: number;
+	tvlInToken1: number;
+	/** Only when one side is a USD stablecoin */
+	tvlUsd?: number;
+	fees: SwapFeeEstimate;
+}
+
+export interface SwapFeeEstimate {
+	fromBlock: bigint;
+	toBlock: bigint;
+	windowSeconds: number;
+	swaps: number;
+	/** Amounts swapped in, per token */
+	volume0: number;
+	volume1: number;
+	/** LP fees after the protocol's cut, valued in token1 */
+	feesInToken1: number;
+	/** Fees annualized over TVL, as a fraction; undefined for an empty pool or window */
+	feeAPR?: number;
+}
+
+/**
+ * Read a pool's tokens, fee, liquidity and current price in one multicall
+ */
+export async function readPoolState(client: PublicClient, pool: Address, blockNumber?: bigint): Promise<PoolState> {
+	const read = (functionName: 'token0' | 'token1' | 'fee' | 'liquidity' | 'slot0') => ({ address: pool, abi: uniswapV3PoolAbi, functionName });
+
+	const [token0, token1, fee, liquidity, slot0] = await readAll(
+		client,
+		[read('token0'), read('token1'), read('fee'), read('liquidity'), read('slot0')],
+		blockNumber
+	);
+	const [sqrtPriceX96, tick, , , , feeProtocol] = slot0 as readonly [bigint, number, number, number, number, number, boolean];
+
+	return {
+		token0: token0 as Address,
+		token1: token1 as Address,
+		fee: Number(fee),
+		liquidity: liquidity as bigint,
+		sqrtPriceX96,
+		tick,
+		feeProtocol,
+	};
+}
+
+/**
+ * Price of one token0 in token1 from sqrtPriceX96, adjusted for decimals
+ */
+export function sqrtPriceToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+	const ratio = Number(sqrtPriceX96) / 2 ** 96;
+	return ratio * ratio * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Pools for a token pair, one per fee tier that exists, with their in-range liquidity.
+ * Pass a fee to look up a single tier.
+ */
+export async function findPools(
+	client: PublicClient,
+	chain: ChainName,
+	tokenA: Address,
+	tokenB: Address,
+	fee?: number,
+	blockNumber?: bigint
+): Promise<Array<{ pool: Address; fee: number; liquidity: bigint }>> {
+	const fees = fee === undefined ? [...FEE_TIERS] : [fee];
+	const pools = (await readAll(
+		client,
+		fees.map((tier) => ({ address: UNISWAP_V3_FACTORIES[chain], abi: factoryAbi, functionName: 'getPool', args: [tokenA, tokenB, tier] })),
+		blockNumber
+	)) as Address[];
+
+	const existing = fees.map((tier, index) => ({ pool: pools[index], fee: tier })).filter(({ pool }) => pool !== zeroAddress);
+	const liquidity = await readAll(
+		client,
+		existing.map(({ pool }) => ({ address: pool, abi: uniswapV3PoolAbi, functionName: 'liquidity' })),
+		blockNumber
+	);
+
+	return existing.map((entry, index) => ({ ...entry, liquidity: liquidity[index] as bigint }));
+}
+
+/**
+ * Symbol, name and decimals of each token, plus what the pool holds of it
+ */
+export async function readPoolTokens(client: PublicClient, pool: Address, tokens: Address[], blockNumber: bigint) {
+	const results = await readMany(
+		client,
+		tokens.flatMap((token) => [
+			{ address: token, abi: tokenAbi, functionName: 'symbol' },
+			{ address: token, abi: tokenAbi, functionName: 'name' },
+			{ address: token, abi: tokenAbi, functionName: 'decimals' },
+			{ address: token, abi: tokenAbi, functionName: 'balanceOf', args: [pool] },
+		]),
+		blockNumber
+	);
+
+	return tokens.map((address, index) => {
+		const [symbol, name, decimals, balance] = results.slice(index * 4, index * 4 + 4);
+		if (!decimals.success || !balance.success) throw new Error(`Not an ERC-20 token: ${address}`);
+		// Some older tokens return bytes32 symbols and fail to decode; fall back to the address
+		const token: PoolToken = {
+			address,
+			symbol: symbol.success ? String(symbol.result) : address,
+			name: name.success ? String(name.result) : address,
+			decimals: Number(decimals.result),
+		};
+		return { token, balance: Number(formatUnits(balance.result as bigint, token.decimals)) };
+	});
+}
+
+/**
+ * Sum the pool's Swap events between two blocks. LPs earn the fee on the amount swapped in,
+ * minus the protocol's 1/n share when the protocol fee is on.
+ */
+export async function estimateSwapFees(
+	client: PublicClient,
+	pool: Address,
+	state: PoolState,
+	decimals: [number, number],
+	fromBlock: bigint,
+	toBlock: bigint
+): Promise<Omit<SwapFeeEstimate, 'feeAPR'>> {
+	const ranges: Array<[bigint, bigint]> = [];
+	for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+		const end = start + LOG_CHUNK_BLOCKS - 1n;
+		ranges.push([start, end < toBlock ? end : toBlock]);
+	}
+
+	const [chunks, from, to] = await Promise.all([
+		Promise.all(ranges.map(([start, end]) => client.getLogs({ address: pool, event: swapEvent, fromBlock: start, toBlock: end }))),
+		client.getBlock({ blockNumber: fromBlock }),
+		client.getBlock({ blockNumber: toBlock }),
+	]);
+	const logs = chunks.flat();
+
+	let in0 = 0n;
+	let in1 = 0n;
+	for (const { args } of logs) {
+		if (args.amount0 !== undefined && args.amount0 > 0n) in0 += args.amount0;
+		if (args.amount1 !== undefined && args.amount1 > 0n) in1 += args.amount1;
+	}
+
+	const volume0 = Number(formatUnits(in0, decimals[0]));
+	const volume1 = Number(formatUnits(in1, decimals[1]));
+	const lpShare = (denominator: number) => (denominator === 0 ? 1 : 1 - 1 / denominator);
+	const feeRate = state.fee / 1_000_000;
+	const price = sqrtPriceToPrice(state.sqrtPriceX96, decimals[0], decimals[1]);
+
+	return {
+		fromBlock,
+		toBlock,
+		windowSeconds: Number(to.timestamp - from.timestamp),
+		swaps: logs.length,
+		volume0,
+		volume1,
+		feesInToken1: feeRate * (volume0 * price * lpShare(state.feeProtocol & 0x0f) + volume1 * lpShare(state.feeProtocol >> 4)),
+	};
+}
+
+/**
+ * Read a pool's state, tokens, prices, TVL from its token balances and fee APR over the last `blockWindow` blocks.
+ * The fee APR spreads fees over all the pool holds, so in-range positions earn more.
+ */
+export async function readPoolAnalytics(client: PublicClient, pool: Address, blockWindow: bigint): Promise<PoolAnalytics> {
+	const blockNumber = await client.getBlockNumber();
+	const state = await readPoolState(client, pool, blockNumber);
+	const [first, second] = await readPoolTokens(client, pool, [state.token0, state.token1], blockNumber);
+
+	const token0Price = sqrtPriceToPrice(state.sqrtPriceX96, first.token.decimals, second.token.decimals);
+	const tvlInToken1 = first.balance * token0Price + second.balance;
+	const tvlInToken0 = token0Price > 0 ? tvlInToken1 / token0Price : 0;
+	const tvlUsd = isUsdStablecoin(second.token.symbol) ? tvlInToken1 : isUsdStablecoin(first.token.symbol) ? tvlInToken0 : undefined;
+
+	const fromBlock = blockNumber > blockWindow ? blockNumber - blockWindow + 1n : 0n;
+	const fees = await estimateSwapFees(client, pool, state, [first.token.decimals, second.token.decimals], fromBlock, blockNumber);
+	const feeAPR = tvlInToken1 > 0 && fees.windowSeconds > 0 ? (fees.feesInToken1 / tvlInToken1) * (SECONDS_PER_YEAR / fees.windowSeconds) : undefined;
+
+	return {
+		state,
+		blockNumber,
+		token0: first.token,
+		token1: second.token,
+		token0Price,
+		token1Price: token0Price > 0 ? 1 / token0Price : 0,
+		balance0: first.balance,
+		balance1: second.balance,
+		tvlInToken0,
+		tvlInToken1,
+		tvlUsd,
+		fees: { ...fees, feeAPR },
+	};
+}
+
+const positionManagerAbi = parseAbi([
+	'function balanceOf(address owner) view returns (uint256)',
+	'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+	'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+	'struct CollectParams { uint256 tokenId; address recipient; uint128 amount0Max; uint128 amount1Max; }',
+	'function collect(CollectParams params) returns (uint256 amount0, uint256 amount1)',
+]);
+
+type PositionData = readonly [bigint, Address, Address, Address, number, number, number, bigint, bigint, bigint, bigint, bigint];
+
+/**
+ * Price of one token0 in token1 at a tick, adjusted for decimals
+ */
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+	return 1.0001 ** tick * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Raw token amounts a liquidity amount stands for at a price, between two ticks
+ */
+export function amountsForLiquidity(liquidity: number, sqrtPrice: number, tickLower: number, tickUpper: number): [number, number] {
+	const sqrtLower = 1.0001 ** (tickLower / 2);
+	const sqrtUpper = 1.0001 ** (tickUpper / 2);
+	if (sqrtPrice <= sqrtLower) return [(liquidity * (sqrtUpper - sqrtLower)) / (sqrtLower * sqrtUpper), 0];
+	if (sqrtPrice >= sqrtUpper) return [0, liquidity * (sqrtUpper - sqrtLower)];
+	return [(liquidity * (sqrtUpper - sqrtPrice)) / (sqrtPrice * sqrtUpper), liquidity * (sqrtPrice - sqrtLower)];
+}
+
+/**
+ * One LP position NFT, amounts in whole tokens and values in token1
+ */
+export interface LiquidityPosition {
+	tokenId: bigint;
+	pool: Address;
+	fee: number;
+	token0: PoolToken;
+	token1: PoolToken;
+	tickLower: number;
+	tickUpper: number;
+	currentTick: number;
+	inRange: boolean;
+	/** Prices of token0 in token1 at the range bounds and now */
+	priceLower: number;
+	priceUpper: number;
+	price: number;
+	liquidity: bigint;
+	amount0: number;
+	amount1: number;
+	valueInToken1: number;
+	/** What `collect` would pay out now */
+	fees0: number;
+	fees1: number;
+	feesInToken1: number;
+	impermanentLoss?: ImpermanentLoss;
+	/** Why impermanent loss could not be computed */
+	impermanentLossError?: string;
+}
+
+/**
+ * The position against holding what its liquidity was worth at the mint block's price.
+ * Assumes the liquidity did not change since minting.
+ */
+export interface ImpermanentLoss {
+	entryBlock: bigint;
+	entryPrice: number;
+	holdValueInToken1: number;
+	lossInToken1: number;
+	/** Negative fraction: -0.05 means the position is worth 5% less than holding */
+	fraction: number;
+}
+
+/**
+ * List a wallet's position NFTs with amounts at the current price, range status, uncollected fees
+ * and impermanent loss. Closed positions (no liquidity, nothing owed) are skipped unless asked for.
+ * Impermanent loss needs archive state to find the mint block.
+ */
+export async function readLiquidityPositions(
+	client: PublicClient,
+	chain: ChainName,
+	owner: Address,
+	includeClosed = false
+): Promise<{ blockNumber: bigint; total: number; positions: LiquidityPosition[] }> {
+	const manager = UNISWAP_V3_POSITION_MANAGERS[chain];
+	const blockNumber = await client.getBlockNumber();
+	const count = await client.readContract({ address: manager, abi: positionManagerAbi, functionName: 'balanceOf', args: [owner], blockNumber });
+
+	const indexes = Array.from({ length: Math.min(Number(count), MAX_POSITIONS) }, (_, index) => BigInt(index));
+	const tokenIds = (await readAll(
+		client,
+		indexes.map((index) => ({ address: manager, abi: positionManagerAbi, functionName: 'tokenOfOwnerByIndex', args: [owner, index] })),
+		blockNumber
+	)) as bigint[];
+	const data = (await readAll(
+		client,
+		tokenIds.map((tokenId) => ({ address: manager, abi: positionManagerAbi, functionName: 'positions', args: [tokenId] })),
+		blockNumber
+	)) as PositionData[];
+
+	const open = tokenIds
+		.map((tokenId, index) => ({ tokenId, data: data[index] }))
+		.filter(({ data }) => includeClosed || data[7] > 0n || data[10] > 0n || data[11] > 0n);
+
+	// Positions share pools, so read each pool once
+	const pools = new Map<string, Promise<{ pool: Address; state: PoolState; tokens: [PoolToken, PoolToken] }>>();
+	const poolFor = ([, , token0, token1, fee]: PositionData) => {
+		const key = `${token0}-${token1}-${fee}`;
+		if (!pools.has(key)) pools.set(key, readPositionPool(client, chain, token0, token1, fee, blockNumber));
+		return pools.get(key)!;
+	};
+
+	const positions = await Promise.all(
+		open.map(async ({ tokenId, data }) => {
+			const [{ pool, state, tokens }, fees] = await Promise.all([poolFor(data), readUncollectedFees(client, manager, owner, tokenId, blockNumber)]);
+			const position = toLiquidityPosition(tokenId, data, pool, state, tokens, fees);
+
+			if (position.liquidity === 0n) return position;
+			try {
+				return { ...position, impermanentLoss: await readImpermanentLoss(client, manager, pool, position, blockNumber) };
+			} catch (error: any) {
+				return { ...position, impermanentLossError: (error.shortMessage ?? error.message).split('\n')[0] };
+			}
+		})
+	);
+
+	return { blockNumber, total: Number(count), positions };
+}
+
+async function readPositionPool(client: PublicClient, chain: ChainName, token0: Address, token1: Address, fee: number, blockNumber: bigint) {
+	const [found] = await findPools(client, chain, token0, token1, fee, blockNumber);
+	if (!found) throw new Error(`No pool for ${token0}/${token1} at fee ${fee}`);
+
+	const [state, [first, second]] = await Promise.all([
+		readPoolState(client, found.pool, blockNumber),
+		readPoolTokens(client, found.pool, [token0, token1], blockNumber),
+	]);
+	return { pool: found.pool, state, tokens: [first.token, second.token] as [PoolToken, PoolToken] };
+}
+
+/**
+ * Simulate `collect` as the owner: the pool settles accrued fees first, so this includes fees
+ * not yet reflected in tokensOwed
+ */
+async function readUncollectedFees(client: PublicClient, manager: Address, owner: Address, tokenId: bigint, blockNumber: bigint) {
+	const { result } = await client.simulateContract({
+		address: manager,
+		abi: positionManagerAbi,
+		functionName: 'collect',
+		args: [{ tokenId, recipient: owner, amount0Max: maxUint128, amount1Max: maxUint128 }],
+		account: owner,
+		blockNumber,
+	});
+	return result;
+}
+
+function toLiquidityPosition(
+	tokenId: bigint,
+	data: PositionData,
+	pool: Address,
+	state: PoolState,
+	[token0, token1]: [PoolToken, PoolToken],
+	[fees0, fees1]: readonly [bigint, bigint]
+): LiquidityPosition {
+	const [, , , , fee, tickLower, tickUpper, liquidity] = data;
+	const price = sqrtPriceToPrice(state.sqrtPriceX96, token0.decimals, token1.decimals);
+	const [raw0, raw1] = amountsForLiquidity(Number(liquidity), Number(state.sqrtPriceX96) / 2 ** 96, tickLower, tickUpper);
+	const amount0 = raw0 / 10 ** token0.decimals;
+	const amount1 = raw1 / 10 ** token1.decimals;
+	const owed0 = Number(formatUnits(fees0, token0.decimals));
+	const owed1 = Number(formatUnits(fees1, token1.decimals));
+
+	return {
+		tokenId,
+		pool,
+		fee,
+		token0,
+		token1,
+		tickLower,
+		tickUpper,
+		currentTick: state.tick,
+		inRange: tickLower <= state.tick && state.tick < tickUpper,
+		priceLower: tickToPrice(tickLower, token0.decimals, token1.decimals),
+		priceUpper: tickToPrice(tickUpper, token0.decimals, token1.decimals),
+		price,
+		liquidity,
+		amount0,
+		amount1,
+		valueInToken1: amount0 * price + amount1,
+		fees0: owed0,
+		fees1: owed1,
+		feesInToken1: owed0 * price + owed1,
+	};
+}
+
+/**
+ * Value the position's liquidity at the mint block's pool price, held instead of provided, at today's price
+ */
+async function readImpermanentLoss(
+	client: PublicClient,
+	manager: Address,
+	pool: Address,
+	position: LiquidityPosition,
+	blockNumber: bigint
+): Promise<ImpermanentLoss> {
+	const entryBlock = await findMintBlock(client, manager, position.tokenId, blockNumber);
+	const entry = await readPoolState(client, pool, entryBlock);
+	const { token0, token1 } = position;
+
+	const [raw0, raw1] = amountsForLiquidity(Number(position.liquidity), Number(entry.sqrtPriceX96) / 2 ** 96, position.tickLower, position.tickUpper);
+	const holdValueInToken1 = (raw0 / 10 ** token0.decimals) * position.price + raw1 / 10 ** token1.decimals;
+	const lossInToken1 = position.valueInToken1 - holdValueInToken1;
+
+	return {
+		entryBlock,
+		entryPrice: sqrtPriceToPrice(entry.sqrtPriceX96, token0.decimals, token1.decimals),
+		holdValueInToken1,
+		lossInToken1,
+		fraction: holdValueInToken1 > 0 ? lossInToken1 / holdValueInToken1 : 0,
+	};
+}
+
+/**
+ * Binary search for the first block where `positions(tokenId)` resolves. Before the mint it reverts
+ * (or the manager has no code yet); any other error, such as a pruned node, is thrown.
+ */
+async function findMintBlock(client: PublicClient, manager: Address, tokenId: bigint, latest: bigint): Promise<bigint> {
+	const exists = async (blockNumber: bigint) => {
+		try {
+			await client.readContract({ address: manager, abi: positionManagerAbi, functionName: 'positions', args: [tokenId], blockNumber });
+			return true;
+		} catch (error) {
+			const notYet =
+				error instanceof BaseError &&
+				error.walk((cause) => cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError) !== null;
+			if (notYet) return false;
+			throw error;
+		}
+	};
+
+	let low = 0n;
+	let high = latest;
+	while (low < high) {
+		const middle = (low + high) / 2n;
+		if (await exists(middle)) high = middle;
+		else low = middle + 1n;
+	}
+	return low;
+}
@@ -0,0 +1,290 @@
+/**
+ * Watchdog Store
+ * SQLite-backed Durable Object storage for the position watchdog
+ */
+
+import type { PositionWatch, WatchdogAlert } from './position-watchdog';
+
+interface Migration {
+	version: number;
+	name: string;
+	statements: string[];
+}
+
+/**
+ * Schema migrations, applied in order. Never edit a shipped migration - append a new one.
+ */
+const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: 'initial-schema',
+		statements: [
+			`CREATE TABLE watches (
+				id TEXT PRIMARY KEY,
+				wallet TEXT NOT NULL,
+				chain TEXT NOT NULL,
+				protocol TEXT NOT NULL,
+				threshold REAL NOT NULL,
+				interval_seconds INTEGER NOT NULL,
+				webhook_url TEXT,
+				session_id TEXT,
+				alerting INTEGER NOT NULL DEFAULT 0,
+				last_health_factor REAL,
+				last_checked_at INTEGER,
+				last_error TEXT,
+				next_check_at INTEGER NOT NULL,
+				created_at INTEGER NOT NULL
+			)`,
+			`CREATE INDEX idx_watches_next_check_at ON watches(next_check_at)`,
+			`CREATE TABLE alerts (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				watch_id TEXT NOT NULL,
+				session_id TEXT,
+				payload TEXT NOT NULL,
+				webhook_status TEXT,
+				created_at INTEGER NOT NULL
+			)`,
+			`CREATE INDEX idx_alerts_session ON alerts(session_id, id)`,
+			`CREATE INDEX idx_alerts_watch ON alerts(watch_id, id)`,
+		],
+	},
+	{
+		version: 2,
+		name: 'watch-owners',
+		// Watches from before this migration have no owner: they are still checked, but not reachable through the API
+		statements: [`ALTER TABLE watches ADD COLUMN owner_hash TEXT`, `CREATE INDEX idx_watches_owner ON watches(owner_hash, created_at)`],
+	},
+];
+
+type WatchRow = {
+	id: string;
+	wallet: string;
+	chain: string;
+	protocol: string;
+	threshold: number;
+	interval_seconds: number;
+	webhook_url: string | null;
+	session_id: string | null;
+	alerting: number;
+	last_health_factor: number | null;
+	last_checked_at: number | null;
+	last_error: string | null;
+	next_check_at: number;
+	created_at: number;
+};
+
+type AlertRow = {
+	id: number;
+	watch_id: string;
+	session_id: string | null;
+	payload: string;
+	webhook_status: string | null;
+	created_at: number;
+};
+
+function rowToWatch(row: WatchRow): PositionWatch {
+	return {
+		id: row.id,
+		wallet: row.wallet as PositionWatch['wallet'],
+		chain: row.chain as PositionWatch['chain'],
+		protocol: row.protocol as PositionWatch['protocol'],
+		threshold: row.threshold,
+		intervalSeconds: row.interval_seconds,
+		...(row.webhook_url !== null ? { webhookUrl: row.webhook_url } : {}),
+		...(row.session_id !== null ? { sessionId: row.session_id } : {}),
+		alerting: row.alerting === 1,
+		...(row.last_health_factor !== null ? { lastHealthFactor: row.last_health_factor } : {}),
+		...(row.last_checked_at !== null ? { lastCheckedAt: row.last_checked_at } : {}),
+		...(row.last_error !== null ? { lastError: row.last_error } : {}),
+		nextCheckAt: row.next_check_at,
+		createdAt: row.created_at,
+	};
+}
+
+function rowToAlert(row: AlertRow): WatchdogAlert {
+	return {
+		...JSON.parse(row.payload),
+		id: row.id,
+		watchId: row.watch_id,
+		...(row.webhook_status !== null ? { webhookStatus: row.webhook_status } : {}),
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * Watchdog Store
+ * Persists watched positions and the alerts raised for them
+ */
+export class WatchdogStore {
+	constructor(private storage: DurableObjectStorage) {}
+
+	private get sql(): SqlStorage {
+		return this.storage.sql;
+	}
+
+	/**
+	 * Apply pending schema migrations
+	 */
+	migrate(): void {
+		this.sql.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at INTEGER NOT NULL
+		)`);
+
+		const { version } = this.sql.exec<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations').one();
+		const current = version ?? 0;
+
+		for (const migration of MIGRATIONS) {
+			if (migration.version <= current) continue;
+
+			this.storage.transactionSync(() => {
+				for (const statement of migration.statements) {
+					this.sql.exec(statement);
+				}
+				this.sql.exec(
+					'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+					migration.version,
+					migration.name,
+					Date.now()
+				);
+			});
+
+			console.log(`Watchdog store migrated to v${migration.version} (${migration.name})`);
+		}
+	}
+
+	/**
+	 * Insert or replace a watch. The owner's token hash is only written on insert.
+	 */
+	saveWatch(watch: PositionWatch, ownerHash?: string): void {
+		this.sql.exec(
+			`INSERT INTO watches (id, wallet, chain, protocol, threshold, interval_seconds, webhook_url, session_id, alerting,
+				last_health_factor, last_checked_at, last_error, next_check_at, created_at, owner_hash)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(id) DO UPDATE SET
+				threshold = excluded.threshold,
+				interval_seconds = excluded.interval_seconds,
+				webhook_url = excluded.webhook_url,
+				session_id = excluded.session_id,
+				alerting = excluded.alerting,
+				last_health_factor = excluded.last_health_factor,
+				last_checked_at = excluded.last_checked_at,
+				last_error = excluded.last_error,
+				next_check_at = excluded.next_check_at`,
+			watch.id,
+			watch.wallet,
+			watch.chain,
+			watch.protocol,
+			watch.threshold,
+			watch.intervalSeconds,
+			watch.webhookUrl ?? null,
+			watch.sessionId ?? null,
+			watch.alerting ? 1 : 0,
+			watch.lastHealthFactor ?? null,
+			watch.lastCheckedAt ?? null,
+			watch.lastError ?? null,
+			watch.nextCheckAt,
+			watch.createdAt,
+			ownerHash ?? null
+		);
+	}
+
+	/**
+	 * Get a watch if it belongs to the owner
+	 */
+	hasOwner(ownerHash: string): boolean {
+		return this.sql.exec('SELECT 1 FROM watches WHERE owner_hash = ? LIMIT 1', ownerHash).toArray().length > 0;
+	}
+
+	getWatch(id: string, ownerHash: string): PositionWatch | undefined {
+		const row = this.sql.exec<WatchRow>('SELECT * FROM watches WHERE id = ? AND owner_hash = ?', id, ownerHash).toArray()[0];
+		return row ? rowToWatch(row) : undefined;
+	}
+
+	/**
+	 * List an owner's watches, optionally only those for a (checksummed) wallet
+	 */
+	listWatches(ownerHash: string, wallet?: string): PositionWatch[] {
+		const rows =
+			wallet === undefined
+				? this.sql.exec<WatchRow>('SELECT * FROM watches WHERE owner_hash = ? ORDER BY created_at', ownerHash).toArray()
+				: this.sql.exec<WatchRow>('SELECT * FROM watches WHERE owner_hash = ? AND wallet = ? ORDER BY created_at', ownerHash, wallet).toArray();
+		return rows.map(rowToWatch);
+	}
+
+	/**
+	 * Delete an owner's watch and its alerts. Returns whether it existed.
+	 */
+	deleteWatch(id: string, ownerHash: string): boolean {
+		return this.storage.transactionSync(() => {
+			if (this.sql.exec('SELECT id FROM watches WHERE id = ? AND owner_hash = ?', id, ownerHash).toArray().length === 0) return false;
+
+			this.sql.exec('DELETE FROM alerts WHERE watch_id = ?', id);
+			this.sql.exec('DELETE FROM watches WHERE id = ?', id);
+			return true;
+		});
+	}
+
+	/**
+	 * Watches whose next check is due, earliest first
+	 */
+	getDueWatches(now: number, limit: number): PositionWatch[] {
+		return this.sql
+			.exec<WatchRow>('SELECT * FROM watches WHERE next_check_at <= ? ORDER BY next_check_at LIMIT ?', now, limit)
+			.toArray()
+			.map(rowToWatch);
+	}
+
+	getNextCheckTime(): number | undefined {
+		const { next } = this.sql.exec<{ next: number | null }>('SELECT MIN(next_check_at) AS next FROM watches').one();
+		return next ?? undefined;
+	}
+
+	/**
+	 * Record an alert and return it with its id
+	 */
+	saveAlert(alert: Omit<WatchdogAlert, 'id' | 'webhookStatus'>): WatchdogAlert {
+		const { watchId, createdAt, ...payload } = alert;
+		const row = this.sql
+			.exec<{ id: number }>(
+				'INSERT INTO alerts (watch_id, session_id, payload, created_at) VALUES (?, ?, ?, ?) RETURNING id',
+				watchId,
+				alert.sessionId ?? null,
+				JSON.stringify(payload),
+				createdAt
+			)
+			.one();
+		return { id: row.id, ...alert };
+	}
+
+	setAlertWebhookStatus(id: number, status: string): void {
+		this.sql.exec('UPDATE alerts SET webhook_status = ? WHERE id = ?', status, id);
+	}
+
+	/**
+	 * Alerts on an owner's watches for a chat session or a watch, oldest first, after the given alert id
+	 */
+	listAlerts(ownerHash: string, filter: { sessionId?: string; watchId?: string; after?: number }, limit: number): WatchdogAlert[] {
+		const conditions = ['watches.owner_hash = ?', 'alerts.id > ?'];
+		const params: (string | number)[] = [ownerHash, filter.after ?? 0];
+		if (filter.sessionId !== undefined) {
+			conditions.push('alerts.session_id = ?');
+			params.push(filter.sessionId);
+		}
+		if (filter.watchId !== undefined) {
+			conditions.push('alerts.watch_id = ?');
+			params.push(filter.watchId);
+		}
+
+		return this.sql
+			.exec<AlertRow>(
+				`SELECT alerts.* FROM alerts JOIN watches ON watches.id = alerts.watch_id
+				WHERE ${conditions.join(' AND ')} ORDER BY alerts.id LIMIT ?`,
+				...params,
+				limit
+			)
+			.toArray()
+			.map(rowToAlert);
+	}
+}
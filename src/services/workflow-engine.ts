@@ -0,0 +1,602 @@
+/**
+ * Workflow Engine
+ * Runs multi-agent workflows on top of task delegation
+ */
+
+import type { CoordinatorScheduler, DelegationRequest, RegisteredAgent, TaskDelegation } from './agent-coordinator';
+import type { CoordinatorStore } from './coordinator-store';
+import { CoordinatorError } from './coordinator-errors';
+
+/**
+ * Agent id the coordinator uses when it delegates workflow steps
+ */
+export const COORDINATOR_AGENT_ID = 'coordinator';
+
+export interface RetryPolicy {
+	/** Total attempts including the first one */
+	maxAttempts: number;
+	/** Delay before the first retry, doubled for every further retry */
+	backoffMs: number;
+}
+
+/**
+ * Condition evaluated against the template context (`input`, `steps.<id>.result`).
+ * `value` may itself be a template, e.g. `{{input.minGainBps}}`.
+ */
+export type WorkflowCondition =
+	| { ref: string; op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'truthy'; value?: any }
+	| { all: WorkflowCondition[] }
+	| { any: WorkflowCondition[] }
+	| { not: WorkflowCondition };
+
+export interface WorkflowStepDefinition {
+	/** Unique step id, referenced from templates. Defaults to `step-<index>`. */
+	id?: string;
+	agentCapability: string;
+	/** Task parameters. Strings may reference earlier results: `{{steps.<id>.result.<path>}}` or `{{input.<path>}}` */
+	task: any;
+	/** Steps this one waits for. Omitted means the previous step (linear); `[]` makes it a root. */
+	dependsOn?: string[];
+	/**
+	 * How to join multiple dependencies: `all` (default) needs every dependency completed,
+	 * `any` waits for all to settle and needs at least one completed. Otherwise the step is skipped.
+	 */
+	join?: 'all' | 'any';
+	/** Run only if this holds once dependencies are met; otherwise the step is skipped */
+	when?: WorkflowCondition;
+	timeoutMs?: number;
+	retry?: Partial<RetryPolicy>;
+}
+
+export interface WorkflowDefinition {
+	name: string;
+	steps: WorkflowStepDefinition[];
+	input?: Record<string, any>;
+	defaults?: {
+		timeoutMs?: number;
+		retry?: Partial<RetryPolicy>;
+	};
+}
+
+export interface WorkflowAttempt {
+	taskId: string;
+	agentId: string;
+	startedAt: number;
+	deadline: number;
+	status: 'running' | 'completed' | 'failed' | 'canceled';
+	finishedAt?: number;
+	error?: string;
+}
+
+export interface WorkflowStepRun {
+	id: string;
+	agentCapability: string;
+	/** `canceled`: the step was still running or waiting to retry when another step failed the run */
+	status: 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'skipped' | 'canceled';
+	/** Steps that must settle before this one starts */
+	dependsOn: string[];
+	join: 'all' | 'any';
+	timeoutMs: number;
+	retry: RetryPolicy;
+	attempts: WorkflowAttempt[];
+	nextAttemptAt?: number;
+	parameters?: any;
+	result?: any;
+	error?: string;
+	skipReason?: string;
+}
+
+export interface WorkflowRun {
+	runId: string;
+	name: string;
+	status: 'running' | 'completed' | 'failed';
+	input: Record<string, any>;
+	definition: WorkflowDefinition;
+	steps: WorkflowStepRun[];
+	createdAt: Date;
+	updatedAt: Date;
+	completedAt?: Date;
+	error?: string;
+}
+
+/**
+ * Coordinator operations the engine drives
+ */
+export interface WorkflowHost {
+	discoverAgents(capability: string): Promise<RegisteredAgent[]>;
+	delegateTask(delegation: DelegationRequest): Promise<TaskDelegation>;
+	/** Fail a delegation that ran past its deadline */
+	expireDelegation(taskId: string, error: string): Promise<void>;
+	/** Cancel a delegation if it is still open */
+	cancelDelegation(taskId: string): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY: RetryPolicy = { maxAttempts: 3, backoffMs: 1000 };
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Look up a dotted path (`steps.fetch.result.apy`) in the template context
+ */
+function resolvePath(context: Record<string, any>, path: string): unknown {
+	return path.split('.').reduce<any>((value, key) => (value === undefined || value === null ? undefined : value[key]), context);
+}
+
+/**
+ * Substitute `{{path}}` references in task parameters.
+ * A string that is exactly one reference keeps the referenced value's type.
+ */
+export function renderTemplate(value: any, context: Record<string, any>): any {
+	if (typeof value === 'string') {
+		const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+		if (whole) {
+			const resolved = resolvePath(context, whole[1]);
+			if (resolved === undefined) throw new Error(`Unresolved template reference: ${whole[1]}`);
+			return resolved;
+		}
+
+		return value.replace(TEMPLATE_PATTERN, (_match, path: string) => {
+			const resolved = resolvePath(context, path);
+			if (resolved === undefined) throw new Error(`Unresolved template reference: ${path}`);
+			return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+		});
+	}
+
+	if (Array.isArray(value)) return value.map((item) => renderTemplate(item, context));
+
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, context)]));
+	}
+
+	return value;
+}
+
+function compare(actual: any, op: string, expected: any): boolean {
+	switch (op) {
+		case 'eq':
+			return JSON.stringify(actual) === JSON.stringify(expected);
+		case 'neq':
+			return JSON.stringify(actual) !== JSON.stringify(expected);
+		case 'gt':
+			return Number(actual) > Number(expected);
+		case 'gte':
+			return Number(actual) >= Number(expected);
+		case 'lt':
+			return Number(actual) < Number(expected);
+		case 'lte':
+			return Number(actual) <= Number(expected);
+		case 'exists':
+			return actual !== undefined && actual !== null;
+		case 'truthy':
+			return Boolean(actual);
+		default:
+			throw new Error(`Unknown condition operator: ${op}`);
+	}
+}
+
+/**
+ * Evaluate a step condition against earlier results
+ */
+export function evaluateCondition(condition: WorkflowCondition, context: Record<string, any>): boolean {
+	if ('all' in condition) return condition.all.every((child) => evaluateCondition(child, context));
+	if ('any' in condition) return condition.any.some((child) => evaluateCondition(child, context));
+	if ('not' in condition) return !evaluateCondition(condition.not, context);
+
+	const expected = condition.value === undefined ? undefined : renderTemplate(condition.value, context);
+	return compare(resolvePath(context, condition.ref), condition.op, expected);
+}
+
+/**
+ * Step ids referenced by templates (`{{steps.<id>...}}`) anywhere in a value
+ */
+function templateStepRefs(value: any, refs: Set<string> = new Set()): Set<string> {
+	if (typeof value === 'string') {
+		for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+			const [root, id] = match[1].split('.');
+			if (root === 'steps' && id) refs.add(id);
+		}
+	} else if (Array.isArray(value)) {
+		value.forEach((item) => templateStepRefs(item, refs));
+	} else if (value && typeof value === 'object') {
+		Object.values(value).forEach((item) => templateStepRefs(item, refs));
+	}
+	return refs;
+}
+
+/**
+ * Step ids referenced by a condition's `ref` paths and templated values
+ */
+function conditionStepRefs(condition: WorkflowCondition, refs: Set<string> = new Set()): Set<string> {
+	if ('all' in condition) condition.all.forEach((child) => conditionStepRefs(child, refs));
+	else if ('any' in condition) condition.any.forEach((child) => conditionStepRefs(child, refs));
+	else if ('not' in condition) conditionStepRefs(condition.not, refs);
+	else {
+		const [root, id] = condition.ref.split('.');
+		if (root === 'steps' && id) refs.add(id);
+		templateStepRefs(condition.value, refs);
+	}
+	return refs;
+}
+
+/**
+ * Workflow Engine
+ * Dispatches steps as delegations and advances runs as delegations complete, fail or time out
+ */
+export class WorkflowEngine {
+	constructor(
+		private store: CoordinatorStore,
+		private host: WorkflowHost,
+		private scheduler: CoordinatorScheduler
+	) {}
+
+	/**
+	 * Validate a definition and start a run
+	 */
+	async start(definition: WorkflowDefinition): Promise<WorkflowRun> {
+		const steps = this.planSteps(definition);
+		const now = new Date();
+
+		const run: WorkflowRun = {
+			runId: crypto.randomUUID(),
+			name: definition.name,
+			status: 'running',
+			input: definition.input ?? {},
+			definition,
+			steps,
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		this.save(run);
+		console.log(`Workflow started: ${run.name} (${run.runId})`);
+
+		await this.advance(run);
+		return run;
+	}
+
+	getRun(runId: string): WorkflowRun | undefined {
+		return this.store.getWorkflowRun(runId);
+	}
+
+	listRuns(status?: WorkflowRun['status']): WorkflowRun[] {
+		return this.store.listWorkflowRuns(status);
+	}
+
+	/**
+	 * React to a delegation status change. Ignores delegations that are not a live workflow attempt.
+	 */
+	async onDelegationUpdate(delegation: TaskDelegation): Promise<void> {
+		if (delegation.status !== 'completed' && delegation.status !== 'failed' && delegation.status !== 'canceled') return;
+
+		const link = this.store.getWorkflowTask(delegation.taskId);
+		if (!link || link.settled) return;
+		this.store.settleWorkflowTask(delegation.taskId);
+
+		const run = this.store.getWorkflowRun(link.runId);
+		if (!run || run.status !== 'running') return;
+
+		const step = run.steps.find((candidate) => candidate.id === link.stepId);
+		const attempt = step?.attempts.find((candidate) => candidate.taskId === delegation.taskId);
+		if (!step || !attempt) return;
+
+		attempt.status = delegation.status === 'completed' ? 'completed' : 'failed';
+		attempt.finishedAt = Date.now();
+
+		if (delegation.status === 'completed') {
+			step.status = 'completed';
+			step.result = delegation.result;
+			step.error = undefined;
+			await this.advance(run);
+			return;
+		}
+
+		attempt.error = delegation.error || 'Delegation failed';
+		await this.handleAttemptFailure(run, step, attempt.error);
+	}
+
+	/**
+	 * Time out overdue attempts and dispatch due retries.
+	 * Returns the next time the engine needs to wake up, if any.
+	 */
+	async runScheduledWork(now: number): Promise<number | undefined> {
+		for (const task of this.store.listExpiredWorkflowTasks(now)) {
+			// Expiring the delegation routes back through onDelegationUpdate
+			const run = this.store.getWorkflowRun(task.runId);
+			const step = run?.steps.find((candidate) => candidate.id === task.stepId);
+			await this.host.expireDelegation(task.taskId, `Timed out after ${step?.timeoutMs ?? 0}ms`);
+		}
+
+		for (const run of this.store.listDueWorkflowRuns(now)) {
+			await this.advance(run);
+		}
+
+		return this.store.getNextWorkflowWakeTime();
+	}
+
+	/**
+	 * Normalize step definitions into run state, validating ids, the dependency graph and policies
+	 */
+	private planSteps(definition: WorkflowDefinition): WorkflowStepRun[] {
+		if (definition.steps.length === 0) {
+			throw new CoordinatorError('INVALID', 'Workflow must have at least one step');
+		}
+
+		const ids = definition.steps.map((step, index) => step.id ?? `step-${index}`);
+		const seen = new Set<string>();
+
+		const steps: WorkflowStepRun[] = definition.steps.map((step, index) => {
+			const id = ids[index];
+			if (!/^[\w-]+$/.test(id)) throw new CoordinatorError('INVALID', `Invalid workflow step id: ${id}`);
+			if (seen.has(id)) throw new CoordinatorError('INVALID', `Duplicate workflow step id: ${id}`);
+			seen.add(id);
+
+			const retry: RetryPolicy = { ...DEFAULT_RETRY, ...definition.defaults?.retry, ...step.retry };
+			if (retry.maxAttempts < 1) throw new CoordinatorError('INVALID', `Step ${id}: maxAttempts must be at least 1`);
+
+			return {
+				id,
+				agentCapability: step.agentCapability,
+				status: 'pending',
+				// Without explicit dependencies each step waits for the one before it
+				dependsOn: step.dependsOn ?? (index === 0 ? [] : [ids[index - 1]]),
+				join: step.join ?? 'all',
+				timeoutMs: step.timeoutMs ?? definition.defaults?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+				retry,
+				attempts: [],
+			};
+		});
+
+		for (const step of steps) {
+			for (const dependency of step.dependsOn) {
+				if (!seen.has(dependency)) {
+					throw new CoordinatorError('INVALID', `Step ${step.id} depends on unknown step: ${dependency}`);
+				}
+			}
+		}
+
+		const ancestors = this.resolveAncestors(steps);
+
+		// Templates and conditions may only read results of steps guaranteed to have settled
+		definition.steps.forEach((step, index) => {
+			const id = ids[index];
+			const refs = templateStepRefs(step.task);
+			if (step.when) conditionStepRefs(step.when, refs);
+
+			for (const ref of refs) {
+				if (!seen.has(ref)) throw new CoordinatorError('INVALID', `Step ${id} references unknown step: ${ref}`);
+				if (!ancestors.get(id)!.has(ref)) {
+					throw new CoordinatorError('INVALID', `Step ${id} references step ${ref}, which is not one of its dependencies`);
+				}
+			}
+		});
+
+		return steps;
+	}
+
+	/**
+	 * Compute each step's transitive dependencies, rejecting cycles
+	 */
+	private resolveAncestors(steps: WorkflowStepRun[]): Map<string, Set<string>> {
+		const byId = new Map(steps.map((step) => [step.id, step]));
+		const ancestors = new Map<string, Set<string>>();
+		const visiting = new Set<string>();
+
+		const visit = (id: string, path: string[]): Set<string> => {
+			const known = ancestors.get(id);
+			if (known) return known;
+			if (visiting.has(id)) {
+				throw new CoordinatorError('INVALID', `Workflow has a dependency cycle: ${[...path, id].join(' -> ')}`);
+			}
+
+			visiting.add(id);
+			const result = new Set<string>();
+			for (const dependency of byId.get(id)!.dependsOn) {
+				result.add(dependency);
+				for (const ancestor of visit(dependency, [...path, id])) result.add(ancestor);
+			}
+			visiting.delete(id);
+
+			ancestors.set(id, result);
+			return result;
+		};
+
+		for (const step of steps) visit(step.id, []);
+		return ancestors;
+	}
+
+	/**
+	 * Dispatch or skip every step whose dependencies have settled, then settle the run if nothing is left.
+	 * Parallel branches are simply steps that become ready in the same pass.
+	 */
+	private async advance(run: WorkflowRun): Promise<void> {
+		const now = Date.now();
+		const byId = new Map(run.steps.map((step) => [step.id, step]));
+
+		// Skips can unblock (or skip) later steps, so repeat until a pass changes nothing
+		let changed = true;
+		while (changed && run.status === 'running') {
+			changed = false;
+
+			for (const step of run.steps) {
+				if (run.status !== 'running') break;
+
+				if (step.status === 'retrying' && (step.nextAttemptAt ?? 0) <= now) {
+					await this.dispatch(run, step);
+					continue;
+				}
+
+				if (step.status !== 'pending') continue;
+
+				const dependencies = step.dependsOn.map((id) => byId.get(id)!);
+				if (!dependencies.every((dependency) => dependency.status === 'completed' || dependency.status === 'skipped')) continue;
+
+				const completed = dependencies.filter((dependency) => dependency.status === 'completed').length;
+				const joined = step.join === 'all' ? completed === dependencies.length : completed > 0 || dependencies.length === 0;
+
+				if (!joined) {
+					this.skipStep(step, step.join === 'all' ? 'A dependency was skipped' : 'No dependency completed');
+					changed = true;
+					continue;
+				}
+
+				const definition = run.definition.steps[run.steps.indexOf(step)];
+				if (definition.when) {
+					let holds: boolean;
+					try {
+						holds = evaluateCondition(definition.when, this.templateContext(run));
+					} catch (error: any) {
+						await this.failStep(run, step, error.message);
+						break;
+					}
+
+					if (!holds) {
+						this.skipStep(step, 'Condition not met');
+						changed = true;
+						continue;
+					}
+				}
+
+				await this.dispatch(run, step);
+				changed = true;
+			}
+		}
+
+		if (run.status === 'running' && run.steps.every((step) => step.status === 'completed' || step.status === 'skipped')) {
+			run.status = 'completed';
+			run.completedAt = new Date();
+			console.log(`Workflow completed: ${run.name} (${run.runId})`);
+		}
+
+		this.save(run);
+	}
+
+	private skipStep(step: WorkflowStepRun, reason: string): void {
+		step.status = 'skipped';
+		step.skipReason = reason;
+	}
+
+	/**
+	 * Delegate one attempt of a step, preferring agents that have not been tried yet
+	 */
+	private async dispatch(run: WorkflowRun, step: WorkflowStepRun): Promise<void> {
+		const definition = run.definition.steps[run.steps.indexOf(step)];
+
+		let parameters: any;
+		try {
+			parameters = renderTemplate(definition.task, this.templateContext(run));
+		} catch (error: any) {
+			// Bad references will not fix themselves on retry
+			await this.failStep(run, step, error.message);
+			return;
+		}
+
+		const candidates = await this.host.discoverAgents(step.agentCapability);
+		if (candidates.length === 0) {
+			await this.failStep(run, step, `No agent found with capability: ${step.agentCapability}`);
+			return;
+		}
+
+		const tried = new Set(step.attempts.map((attempt) => attempt.agentId));
+		const agent = candidates.find((candidate) => !tried.has(candidate.id)) ?? candidates[0];
+
+		const delegation = await this.host.delegateTask({
+			fromAgent: COORDINATOR_AGENT_ID,
+			toAgent: agent.id,
+			task: {
+				type: step.agentCapability,
+				description: `Workflow step: ${run.name}/${step.id}`,
+				parameters,
+			},
+		});
+
+		const startedAt = Date.now();
+		const deadline = startedAt + step.timeoutMs;
+
+		step.status = 'running';
+		step.parameters = parameters;
+		step.nextAttemptAt = undefined;
+		step.attempts.push({ taskId: delegation.taskId, agentId: agent.id, startedAt, deadline, status: 'running' });
+
+		this.store.linkWorkflowTask(delegation.taskId, run.runId, step.id, deadline);
+		await this.scheduler.scheduleAt(deadline);
+	}
+
+	/**
+	 * Retry with backoff on the next-best agent, or fail the step once attempts are exhausted
+	 */
+	private async handleAttemptFailure(run: WorkflowRun, step: WorkflowStepRun, error: string): Promise<void> {
+		step.error = error;
+
+		if (step.attempts.length >= step.retry.maxAttempts) {
+			await this.failStep(run, step, error);
+			this.save(run);
+			return;
+		}
+
+		const retries = Math.max(0, step.attempts.length - 1);
+		step.status = 'retrying';
+		step.nextAttemptAt = Date.now() + step.retry.backoffMs * 2 ** retries;
+
+		if (step.retry.backoffMs === 0) {
+			await this.advance(run);
+			return;
+		}
+
+		this.save(run);
+		await this.scheduler.scheduleAt(step.nextAttemptAt);
+	}
+
+	private async failStep(run: WorkflowRun, step: WorkflowStepRun, error: string): Promise<void> {
+		step.status = 'failed';
+		step.error = error;
+		run.status = 'failed';
+		run.error = `Step ${step.id} failed: ${error}`;
+		run.completedAt = new Date();
+		console.log(`Workflow failed: ${run.name} (${run.runId}) - ${run.error}`);
+
+		await this.cancelOutstanding(run);
+	}
+
+	/**
+	 * Cancel the delegations of a failed run that are still in flight, so their agents stop working on them
+	 */
+	private async cancelOutstanding(run: WorkflowRun): Promise<void> {
+		const now = Date.now();
+
+		for (const step of run.steps) {
+			if (step.status !== 'running' && step.status !== 'retrying') continue;
+
+			step.status = 'canceled';
+			step.nextAttemptAt = undefined;
+
+			for (const attempt of step.attempts.filter((candidate) => candidate.status === 'running')) {
+				// Settle the link first so the cancellation does not route back into this run
+				this.store.settleWorkflowTask(attempt.taskId);
+				attempt.status = 'canceled';
+				attempt.finishedAt = now;
+				await this.host.cancelDelegation(attempt.taskId);
+			}
+		}
+	}
+
+	private templateContext(run: WorkflowRun): Record<string, any> {
+		return {
+			input: run.input,
+			steps: Object.fromEntries(run.steps.map((step) => [step.id, { status: step.status, result: step.result }])),
+		};
+	}
+
+	/**
+	 * Persist the run with the earliest pending retry as its wake-up time
+	 */
+	private save(run: WorkflowRun): void {
+		run.updatedAt = new Date();
+
+		const retryTimes = run.steps.filter((step) => step.status === 'retrying' && step.nextAttemptAt).map((step) => step.nextAttemptAt!);
+		const wakeAt = run.status === 'running' && retryTimes.length > 0 ? Math.min(...retryTimes) : null;
+
+		this.store.saveWorkflowRun(run, wakeAt);
+	}
+}
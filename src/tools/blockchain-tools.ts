@@ -1,55 +1,51 @@
 /**
  * Enhanced Blockchain Tools for Agent Composability
- * Provides comprehensive Web3 interaction capabilities
+ * Provides comprehensive Web3 interaction capabilities. Each capability is defined once and exposed
+ * as a plain function, an AI SDK tool, an MCP tool and an HTTP route.
  */
 
 import { z } from 'zod';
-import { createPublicClient, http, parseAbi, encodeFunctionData, Address } from 'viem';
-import { base, mainnet, arbitrum, optimism, polygon } from 'viem/chains';
-
-// Chain configuration
-const CHAINS = {
-	base,
-	mainnet,
-	arbitrum,
-	optimism,
-	polygon,
-};
-
-const RPC_URLS = {
-	base: 'https://mainnet.base.org',
-	mainnet: 'https://eth.llamarpc.com',
-	arbitrum: 'https://arb1.arbitrum.io/rpc',
-	optimism: 'https://mainnet.optimism.io',
-	polygon: 'https://polygon-rpc.com',
-};
+import { encodeFunctionData, type Address, type Hex } from 'viem';
+import { CHAIN_NAMES, CHAINS } from '../services/chains';
+import { findAaveAsset, readAaveReserves, readAaveUserPosition, type AaveAccountData, type AavePositionAsset } from '../services/aave-v3';
+import { findAerodromePools, readAerodromePool, readVeAeroLocks, type EpochReward } from '../services/aerodrome';
+import { toPercent } from '../services/defi-math';
+import { readVault } from '../services/erc4626';
+import { listMoonwellMarkets, readMoonwellMarkets, readMoonwellUserPosition } from '../services/moonwell';
+import { getTokenBalances, tokenBalancesSchema } from '../services/multicall';
+import { findPools, FEE_TIERS, readLiquidityPositions, readPoolAnalytics } from '../services/uniswap-v3';
+import { isUsdStablecoin, matchesAsset, resolveErc20 } from '../services/tokens';
+import { defineCapability, toAiTool, type Capability } from './capability';
 
-/**
- * Get public client for a chain
- */
-function getPublicClient(chainName: keyof typeof CHAINS) {
-	const chain = CHAINS[chainName];
-	return createPublicClient({
-		chain,
-		transport: http(RPC_URLS[chainName]),
-	});
-}
+const chainSchema = z.enum(CHAIN_NAMES).describe('Blockchain network');
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 20-byte hex address');
+
+// About 4 hours on Base and a day on mainnet
+const DEFAULT_FEE_WINDOW_BLOCKS = 7_200;
+const MAX_FEE_WINDOW_BLOCKS = 50_000;
 
 /**
  * Call Smart Contract (Read)
  */
-export async function callContract(params: {
-	chain: keyof typeof CHAINS;
-	contractAddress: string;
-	functionName: string;
-	abi: any[];
-	args?: any[];
-}) {
-	try {
-		const { chain, contractAddress, functionName, abi, args = [] } = params;
-		const client = getPublicClient(chain);
-
-		const result = await client.readContract({
+export const callContractCapability = defineCapability({
+	name: 'callContract',
+	description: 'Call a read-only (view/pure) function on a smart contract',
+	input: z.object({
+		chain: chainSchema,
+		contractAddress: addressSchema.describe('Smart contract address'),
+		functionName: z.string().describe('Function name to call'),
+		abi: z.array(z.any()).describe('Contract ABI'),
+		args: z.array(z.any()).optional().describe('Function arguments'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		contract: z.string(),
+		function: z.string(),
+		result: z.unknown(),
+	}),
+	readOnly: true,
+	run: async ({ chain, contractAddress, functionName, abi, args = [] }, clientFor) => {
+		const result = await clientFor(chain).readContract({
 			address: contractAddress as Address,
 			abi,
 			functionName,
@@ -57,62 +53,52 @@ export async function callContract(params: {
 		});
 
 		return {
-			success: true,
 			chain,
 			contract: contractAddress,
 			function: functionName,
 			result,
 		};
-	} catch (error: any) {
-		return {
-			success: false,
-			error: error.message,
-			chain: params.chain,
-			contract: params.contractAddress,
-		};
-	}
-}
+	},
+});
 
 /**
- * Tool: Simulate Transaction
+ * Simulate Transaction. A reverting transaction is a result (willSucceed: false), not an error.
  */
-export const simulateTransactionTool = tool({
-	description: 'Simulate a transaction before execution to check if it will succeed',
-	parameters: z.object({
-		chain: z.enum(['base', 'mainnet', 'arbitrum', 'optimism', 'polygon']).describe('Blockchain network'),
-		from: z.string().describe('Sender address'),
-		to: z.string().describe('Recipient/contract address'),
+export const simulateTransactionCapability = defineCapability({
+	name: 'simulateTransaction',
+	description: 'Simulate a transaction before execution to check if it will succeed and estimate its gas',
+	input: z.object({
+		chain: chainSchema,
+		from: addressSchema.describe('Sender address'),
+		to: addressSchema.describe('Recipient/contract address'),
 		data: z.string().optional().describe('Transaction data (for contract calls)'),
-		value: z.string().optional().describe('ETH value to send (in wei)'),
+		value: z.string().optional().describe('Native value to send (in wei)'),
 	}),
-	execute: async ({ chain, from, to, data, value }: {
-		chain: keyof typeof CHAINS;
-		from: string;
-		to: string;
-		data?: string;
-		value?: string;
-	}) => {
+	output: z.object({
+		chain: chainSchema,
+		simulation: z.object({
+			willSucceed: z.boolean(),
+			result: z.string().optional(),
+			estimatedGas: z.string().optional(),
+			error: z.string().optional(),
+		}),
+	}),
+	readOnly: true,
+	run: async ({ chain, from, to, data, value }, clientFor) => {
+		const client = clientFor(chain);
+		const request = {
+			account: from as Address,
+			to: to as Address,
+			data: data as Hex | undefined,
+			value: value ? BigInt(value) : undefined,
+		};
+
 		try {
-			const client = getPublicClient(chain);
-
-			// Simulate the transaction
-			const result = await client.call({
-				account: from as Address,
-				to: to as Address,
-				data: data as `0x${string}`,
-				value: value ? BigInt(value) : undefined,
-			});
-
-			// Estimate gas
-			const gasEstimate = await client.estimateGas({
-				account: from as Address,
-				to: to as Address,
-				data: data as `0x${string}`,
-				value: value ? BigInt(value) : undefined,
-			});
+			// Simulate the transaction, then estimate gas
+			const result = await client.call(request);
+			const gasEstimate = await client.estimateGas(request);
 
 			return {
-				success: true,
 				chain,
 				simulation: {
 					willSucceed: true,
@@ -122,7 +108,6 @@ export const simulateTransactionTool = tool({
 			};
 		} catch (error: any) {
 			return {
-				success: false,
 				chain,
 				simulation: {
 					willSucceed: false,
@@ -134,251 +119,1002 @@ export const simulateTransactionTool = tool({
 });
 
 /**
- * Tool: Build Transaction Data
+ * Build Transaction Data
  */
-export const buildTransactionTool = tool({
+export const buildTransactionCapability = defineCapability({
+	name: 'buildTransaction',
 	description: 'Build transaction data for user to sign and execute',
-	parameters: z.object({
-		chain: z.enum(['base', 'mainnet', 'arbitrum', 'optimism', 'polygon']).describe('Blockchain network'),
-		contractAddress: z.string().describe('Smart contract address'),
+	input: z.object({
+		chain: chainSchema,
+		contractAddress: addressSchema.describe('Smart contract address'),
 		functionName: z.string().describe('Function name to call'),
 		abi: z.array(z.any()).describe('Contract ABI'),
 		args: z.array(z.any()).optional().describe('Function arguments'),
 		value: z.string().optional().describe('ETH value to send (in wei)'),
 	}),
-	execute: async ({ chain, contractAddress, functionName, abi, args = [], value }: {
-		chain: keyof typeof CHAINS;
-		contractAddress: string;
-		functionName: string;
-		abi: any[];
-		args?: any[];
-		value?: string;
-	}) => {
-		try {
-			// Encode function data
-			const data = encodeFunctionData({
-				abi,
-				functionName,
-				args,
-			});
+	output: z.object({
+		chain: chainSchema,
+		transaction: z.object({
+			to: z.string(),
+			data: z.string(),
+			value: z.string(),
+			chainId: z.number(),
+		}),
+		instructions: z.string(),
+	}),
+	// Only encodes calldata; the user signs and sends
+	readOnly: true,
+	run: async ({ chain, contractAddress, functionName, abi, args = [], value }) => {
+		const data = encodeFunctionData({
+			abi,
+			functionName,
+			args,
+		});
 
-			return {
-				success: true,
-				chain,
-				transaction: {
-					to: contractAddress,
-					data,
-					value: value || '0',
-					chainId: CHAINS[chain].id,
-				},
-				instructions: 'User should sign and broadcast this transaction using their wallet',
-			};
-		} catch (error: any) {
-			return {
-				success: false,
-				error: error.message,
-			};
-		}
+		return {
+			chain,
+			transaction: {
+				to: contractAddress,
+				data,
+				value: value || '0',
+				chainId: CHAINS[chain].id,
+			},
+			instructions: 'User should sign and broadcast this transaction using their wallet',
+		};
 	},
 });
 
 /**
- * Tool: Get DeFi Protocol Data (Aave)
+ * Get DeFi Protocol Data (Aave)
  */
-export const getAaveDataTool = tool({
-	description: 'Get lending/borrowing data from Aave protocol',
-	parameters: z.object({
-		chain: z.enum(['base', 'mainnet', 'arbitrum', 'optimism', 'polygon']).describe('Blockchain network'),
-		asset: z.string().describe('Asset address (e.g., USDC, WETH)'),
+export const getAaveDataCapability = defineCapability({
+	name: 'getAaveData',
+	description:
+		'Get Aave V3 reserve data for an asset: supply and borrow APR and compounded APY, utilization, totals, oracle price, LTV, liquidation threshold and bonus, reserve factor, caps, frozen/paused flags and e-mode category. Percentages are in percent.',
+	input: z.object({
+		chain: chainSchema,
+		asset: z.string().min(1).describe('Asset symbol (e.g. "USDC", "WETH") or token address'),
 	}),
-	execute: async ({ chain, asset }: {
-		chain: keyof typeof CHAINS;
-		asset: string;
-	}) => {
-		try {
-			const client = getPublicClient(chain);
-
-			// Aave V3 Pool address (example for Base)
-			const AAVE_POOL_ADDRESSES: Record<string, Address> = {
-				base: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
-				mainnet: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
-				arbitrum: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-				optimism: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-				polygon: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-			};
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		asset: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }),
+		blockNumber: z.number(),
+		data: z.object({
+			supplyAPR: z.number(),
+			supplyAPY: z.number(),
+			borrowAPR: z.number(),
+			borrowAPY: z.number(),
+			utilization: z.number(),
+			totalSupplied: z.string(),
+			totalBorrowed: z.string(),
+			priceUsd: z.number().optional(),
+			aTokenAddress: z.string(),
+			variableDebtTokenAddress: z.string(),
+			lastUpdate: z.string(),
+		}),
+		configuration: z.object({
+			ltv: z.number(),
+			liquidationThreshold: z.number(),
+			liquidationBonus: z.number(),
+			reserveFactor: z.number(),
+			supplyCap: z.number().describe('Whole tokens, 0 for uncapped'),
+			borrowCap: z.number().describe('Whole tokens, 0 for uncapped'),
+			active: z.boolean(),
+			frozen: z.boolean(),
+			paused: z.boolean(),
+			borrowingEnabled: z.boolean(),
+			eModeCategory: z.number().describe('0 when the asset is in no e-mode category'),
+		}),
+	}),
+	readOnly: true,
+	run: async ({ chain, asset }, clientFor) => {
+		const client = clientFor(chain);
+		const blockNumber = await client.getBlockNumber();
 
-			const poolAddress = AAVE_POOL_ADDRESSES[chain];
+		const listed = await findAaveAsset(client, chain, asset, blockNumber);
+		if (!listed) throw new Error(`${asset} is not an Aave V3 reserve on ${chain}`);
 
-			// Get reserve data
-			const reserveData = await client.readContract({
-				address: poolAddress,
-				abi: parseAbi([
-					'function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
-				]),
-				functionName: 'getReserveData',
-				args: [asset as Address],
-			}) as any[];
+		const [reserve] = await readAaveReserves(client, chain, [listed], blockNumber);
+		const { configuration } = reserve;
 
-			// Calculate APY from rates (Aave uses ray units: 1e27)
-			const supplyAPY = (Number(reserveData[2]) / 1e27) * 100;
-			const borrowAPY = (Number(reserveData[4]) / 1e27) * 100;
+		return {
+			chain,
+			protocol: 'Aave V3',
+			asset: reserve.asset,
+			blockNumber: Number(blockNumber),
+			data: {
+				supplyAPR: toPercent(reserve.supplyAPR),
+				supplyAPY: toPercent(reserve.supplyAPY),
+				borrowAPR: toPercent(reserve.borrowAPR),
+				borrowAPY: toPercent(reserve.borrowAPY),
+				utilization: toPercent(reserve.utilization, 2),
+				totalSupplied: reserve.totalSupplied,
+				totalBorrowed: reserve.totalBorrowed,
+				priceUsd: reserve.priceUsd,
+				aTokenAddress: reserve.aToken,
+				variableDebtTokenAddress: reserve.variableDebtToken,
+				lastUpdate: new Date(reserve.lastUpdateTimestamp * 1000).toISOString(),
+			},
+			configuration: {
+				ltv: toPercent(configuration.ltv, 2),
+				liquidationThreshold: toPercent(configuration.liquidationThreshold, 2),
+				liquidationBonus: toPercent(configuration.liquidationBonus, 2),
+				reserveFactor: toPercent(configuration.reserveFactor, 2),
+				supplyCap: configuration.supplyCap,
+				borrowCap: configuration.borrowCap,
+				active: configuration.active,
+				frozen: configuration.frozen,
+				paused: configuration.paused,
+				borrowingEnabled: configuration.borrowingEnabled,
+				eModeCategory: configuration.eModeCategory,
+			},
+		};
+	},
+});
 
-			return {
-				success: true,
-				chain,
-				protocol: 'Aave V3',
-				asset,
-				data: {
-					supplyAPY: supplyAPY.toFixed(2) + '%',
-					borrowAPY: borrowAPY.toFixed(2) + '%',
-					aTokenAddress: reserveData[8],
-					lastUpdate: new Date(Number(reserveData[6]) * 1000).toISOString(),
-				},
-			};
-		} catch (error: any) {
-			return {
-				success: false,
-				error: error.message,
-				chain,
-				protocol: 'Aave V3',
-			};
+const accountSchema = z.object({
+	totalCollateralUsd: z.number(),
+	totalDebtUsd: z.number(),
+	availableBorrowsUsd: z.number(),
+	ltv: z.number(),
+	liquidationThreshold: z.number(),
+	healthFactor: z.number().nullable().describe('Below 1 the position can be liquidated; null without debt'),
+});
+
+const positionAssetSchema = z.object({
+	asset: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }),
+	supplied: z.string(),
+	borrowed: z.string(),
+	suppliedUsd: z.number(),
+	borrowedUsd: z.number(),
+	usedAsCollateral: z.boolean(),
+	liquidationThreshold: z.number(),
+	priceUsd: z.number(),
+	liquidationPriceUsd: z.number().nullable().describe('Price of this asset, others unchanged, at which the health factor reaches 1'),
+});
+
+const usd = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Account totals and per-asset positions for output: USD to cents, fractions to percent
+ */
+function toPositionOutput(position: AaveAccountData & { assets: AavePositionAsset[] }) {
+	return {
+		account: {
+			totalCollateralUsd: usd(position.totalCollateralUsd),
+			totalDebtUsd: usd(position.totalDebtUsd),
+			availableBorrowsUsd: usd(position.availableBorrowsUsd),
+			ltv: toPercent(position.ltv, 2),
+			liquidationThreshold: toPercent(position.liquidationThreshold, 2),
+			healthFactor: position.healthFactor === undefined ? null : Number(position.healthFactor.toFixed(4)),
+		},
+		positions: position.assets.map((asset) => ({
+			...asset,
+			suppliedUsd: usd(asset.suppliedUsd),
+			borrowedUsd: usd(asset.borrowedUsd),
+			liquidationThreshold: toPercent(asset.liquidationThreshold, 2),
+			liquidationPriceUsd: asset.liquidationPriceUsd === undefined ? null : Number(asset.liquidationPriceUsd.toPrecision(6)),
+		})),
+	};
+}
+
+/**
+ * Get Aave Position
+ */
+export const getAavePositionCapability = defineCapability({
+	name: 'getAavePosition',
+	description:
+		"Get a wallet's Aave V3 position on a chain: supplied and borrowed amounts per asset, which assets are collateral, health factor, available borrows and an approximate liquidation price for each collateral asset. Percentages are in percent, values in USD.",
+	input: z.object({
+		chain: chainSchema,
+		address: addressSchema.describe('Wallet address'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		address: z.string(),
+		blockNumber: z.number(),
+		account: accountSchema.extend({ eModeCategory: z.number() }),
+		positions: z.array(positionAssetSchema),
+	}),
+	readOnly: true,
+	run: async ({ chain, address }, clientFor) => {
+		const client = clientFor(chain);
+		const blockNumber = await client.getBlockNumber();
+		const position = await readAaveUserPosition(client, chain, address as Address, blockNumber);
+		const { account, positions } = toPositionOutput(position);
+
+		return {
+			chain,
+			protocol: 'Aave V3',
+			address,
+			blockNumber: Number(blockNumber),
+			account: { ...account, eModeCategory: position.eModeCategory },
+			positions,
+		};
+	},
+});
+
+/**
+ * Get DeFi Protocol Data (Moonwell)
+ */
+export const getMoonwellDataCapability = defineCapability({
+	name: 'getMoonwellData',
+	description:
+		"Get Moonwell market data for an asset, in the same shape as getAaveData: supply and borrow APR and compounded APY from the mToken's per-second rates, utilization, totals, oracle price, collateral factor (as both LTV and liquidation threshold), liquidation incentive, reserve factor, caps and pause flags. Also lists reward emissions (WELL and others) with their supply and borrow APR. Percentages are in percent.",
+	input: z.object({
+		chain: chainSchema.default('base').describe('Blockchain network; Moonwell runs on Base and Optimism'),
+		asset: z.string().min(1).describe('Asset symbol (e.g. "USDC", "WETH") or token address'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		asset: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }),
+		blockNumber: z.number(),
+		data: z.object({
+			supplyAPR: z.number(),
+			supplyAPY: z.number(),
+			borrowAPR: z.number(),
+			borrowAPY: z.number(),
+			supplyRewardAPR: z.number().describe('Sum of priced reward emissions to suppliers'),
+			borrowRewardAPR: z.number().describe('Sum of priced reward emissions to borrowers; offsets the borrow APY'),
+			utilization: z.number(),
+			totalSupplied: z.string(),
+			totalBorrowed: z.string(),
+			priceUsd: z.number().optional(),
+			mTokenAddress: z.string(),
+			lastUpdate: z.string(),
+		}),
+		configuration: z.object({
+			ltv: z.number().describe('Collateral factor'),
+			liquidationThreshold: z.number().describe('Same as the collateral factor in Compound-style markets'),
+			liquidationBonus: z.number(),
+			reserveFactor: z.number(),
+			supplyCap: z.number().describe('Whole tokens, 0 for uncapped'),
+			borrowCap: z.number().describe('Whole tokens, 0 for uncapped'),
+			active: z.boolean(),
+			supplyPaused: z.boolean(),
+			borrowingEnabled: z.boolean(),
+		}),
+		rewards: z.array(
+			z.object({
+				token: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }),
+				endTime: z.string(),
+				priceUsd: z.number().nullable(),
+				supplyAPR: z.number().nullable(),
+				borrowAPR: z.number().nullable(),
+			})
+		),
+	}),
+	readOnly: true,
+	run: async ({ chain, asset }, clientFor) => {
+		const client = clientFor(chain);
+		const blockNumber = await client.getBlockNumber();
+
+		const listed = (await listMoonwellMarkets(client, chain, blockNumber)).find((market) => matchesAsset(market, asset));
+		if (!listed) throw new Error(`${asset} is not a Moonwell market on ${chain}`);
+
+		const [market] = await readMoonwellMarkets(client, chain, [listed], blockNumber);
+		const { configuration } = market;
+		const rewardAPR = (side: 'supplyAPR' | 'borrowAPR') => toPercent(market.rewards.reduce((sum, reward) => sum + (reward[side] ?? 0), 0));
+
+		return {
+			chain,
+			protocol: 'Moonwell',
+			asset: market.asset,
+			blockNumber: Number(blockNumber),
+			data: {
+				supplyAPR: toPercent(market.supplyAPR),
+				supplyAPY: toPercent(market.supplyAPY),
+				borrowAPR: toPercent(market.borrowAPR),
+				borrowAPY: toPercent(market.borrowAPY),
+				supplyRewardAPR: rewardAPR('supplyAPR'),
+				borrowRewardAPR: rewardAPR('borrowAPR'),
+				utilization: toPercent(market.utilization, 2),
+				totalSupplied: market.totalSupplied,
+				totalBorrowed: market.totalBorrowed,
+				priceUsd: market.priceUsd,
+				mTokenAddress: market.mToken,
+				lastUpdate: new Date(market.lastUpdateTimestamp * 1000).toISOString(),
+			},
+			configuration: {
+				ltv: toPercent(configuration.ltv, 2),
+				liquidationThreshold: toPercent(configuration.liquidationThreshold, 2),
+				liquidationBonus: toPercent(configuration.liquidationBonus, 2),
+				reserveFactor: toPercent(configuration.reserveFactor, 2),
+				supplyCap: configuration.supplyCap,
+				borrowCap: configuration.borrowCap,
+				active: configuration.listed,
+				supplyPaused: configuration.mintPaused,
+				borrowingEnabled: !configuration.borrowPaused,
+			},
+			rewards: market.rewards.map((reward) => ({
+				token: reward.token,
+				endTime: new Date(reward.endTime * 1000).toISOString(),
+				priceUsd: reward.priceUsd ?? null,
+				supplyAPR: reward.supplyAPR === undefined ? null : toPercent(reward.supplyAPR),
+				borrowAPR: reward.borrowAPR === undefined ? null : toPercent(reward.borrowAPR),
+			})),
+		};
+	},
+});
+
+/**
+ * Get Moonwell Position
+ */
+export const getMoonwellPositionCapability = defineCapability({
+	name: 'getMoonwellPosition',
+	description:
+		"Get a wallet's Moonwell position, in the same shape as getAavePosition: supplied and borrowed amounts per market, which markets are entered as collateral, health factor (collateral weighted by collateral factors over debt), available borrows from the Comptroller's account liquidity and an approximate liquidation price for each collateral asset. Percentages are in percent, values in USD.",
+	input: z.object({
+		chain: chainSchema.default('base').describe('Blockchain network; Moonwell runs on Base and Optimism'),
+		address: addressSchema.describe('Wallet address'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		address: z.string(),
+		blockNumber: z.number(),
+		account: accountSchema,
+		positions: z.array(positionAssetSchema),
+	}),
+	readOnly: true,
+	run: async ({ chain, address }, clientFor) => {
+		const client = clientFor(chain);
+		const blockNumber = await client.getBlockNumber();
+		const position = await readMoonwellUserPosition(client, chain, address as Address, blockNumber);
+
+		return {
+			chain,
+			protocol: 'Moonwell',
+			address,
+			blockNumber: Number(blockNumber),
+			...toPositionOutput(position),
+		};
+	},
+});
+
+const feeTierSchema = z
+	.number()
+	.int()
+	.refine((fee) => (FEE_TIERS as readonly number[]).includes(fee), `Fee tier must be one of ${FEE_TIERS.join(', ')}`)
+	.describe('Fee tier in hundredths of a basis point: 100 (0.01%), 500 (0.05%), 3000 (0.3%) or 10000 (1%)');
+
+const poolTokenSchema = z.object({ address: z.string(), symbol: z.string(), name: z.string(), decimals: z.number() });
+
+/**
+ * Get Uniswap V3 Pool Data
+ */
+export const getUniswapPoolCapability = defineCapability({
+	name: 'getUniswapPool',
+	description:
+		'Get Uniswap V3 pool analytics: token symbols and names, decimal-adjusted price in both directions, TVL from the pool\'s token balances, swap volume and fee APR estimated from recent Swap events. Identify the pool by address, or by a token pair (symbols or addresses) with an optional fee tier; without one the deepest tier is used. APR is in percent.',
+	input: z.object({
+		chain: chainSchema,
+		poolAddress: addressSchema.optional().describe('Uniswap V3 pool address'),
+		tokenA: z.string().optional().describe('First token of the pair, when no pool address is given'),
+		tokenB: z.string().optional().describe('Second token of the pair'),
+		fee: feeTierSchema.optional(),
+		blockWindow: z
+			.number()
+			.int()
+			.min(10)
+			.max(MAX_FEE_WINDOW_BLOCKS)
+			.default(DEFAULT_FEE_WINDOW_BLOCKS)
+			.describe('Recent blocks to sum Swap events over for volume and fee APR'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		pool: z.string(),
+		blockNumber: z.number(),
+		data: z.object({
+			token0: z.string(),
+			token1: z.string(),
+			fee: z.string(),
+			liquidity: z.string(),
+			currentTick: z.number(),
+			sqrtPriceX96: z.string(),
+		}),
+		tokens: z.object({ token0: poolTokenSchema, token1: poolTokenSchema }),
+		price: z.object({
+			token0InToken1: z.number().describe('How much token1 one token0 buys'),
+			token1InToken0: z.number(),
+		}),
+		tvl: z.object({
+			amount0: z.number(),
+			amount1: z.number(),
+			inToken0: z.number(),
+			inToken1: z.number(),
+			usd: z.number().nullable().describe('Only when one side is a USD stablecoin'),
+		}),
+		fees: z.object({
+			fromBlock: z.number(),
+			toBlock: z.number(),
+			windowSeconds: z.number(),
+			swaps: z.number(),
+			volume0: z.number(),
+			volume1: z.number(),
+			feesInToken1: z.number(),
+			feeAPR: z.number().nullable().describe('LP fees annualized over TVL, in percent; in-range positions earn more'),
+		}),
+	}),
+	readOnly: true,
+	run: async ({ chain, poolAddress, tokenA, tokenB, fee, blockWindow }, clientFor) => {
+		const client = clientFor(chain);
+		let pool = poolAddress as Address | undefined;
+		if (!pool) {
+			if (!tokenA || !tokenB) throw new Error('Provide a poolAddress, or tokenA and tokenB');
+			const pools = await findPools(client, chain, resolveErc20(chain, tokenA), resolveErc20(chain, tokenB), fee);
+			if (pools.length === 0) throw new Error(`No Uniswap V3 pool for ${tokenA}/${tokenB}${fee ? ` at fee ${fee}` : ''} on ${chain}`);
+			pool = pools.reduce((best, candidate) => (candidate.liquidity > best.liquidity ? candidate : best)).pool;
 		}
+
+		const analytics = await readPoolAnalytics(client, pool, BigInt(blockWindow));
+		const { state, fees } = analytics;
+		const round = (value: number) => Number(value.toPrecision(8));
+
+		return {
+			chain,
+			protocol: 'Uniswap V3',
+			pool,
+			blockNumber: Number(analytics.blockNumber),
+			data: {
+				token0: state.token0,
+				token1: state.token1,
+				fee: state.fee / 10000 + '%',
+				liquidity: state.liquidity.toString(),
+				currentTick: state.tick,
+				sqrtPriceX96: state.sqrtPriceX96.toString(),
+			},
+			tokens: { token0: analytics.token0, token1: analytics.token1 },
+			price: { token0InToken1: round(analytics.token0Price), token1InToken0: round(analytics.token1Price) },
+			tvl: {
+				amount0: round(analytics.balance0),
+				amount1: round(analytics.balance1),
+				inToken0: round(analytics.tvlInToken0),
+				inToken1: round(analytics.tvlInToken1),
+				usd: analytics.tvlUsd === undefined ? null : Number(analytics.tvlUsd.toFixed(2)),
+			},
+			fees: {
+				fromBlock: Number(fees.fromBlock),
+				toBlock: Number(fees.toBlock),
+				windowSeconds: fees.windowSeconds,
+				swaps: fees.swaps,
+				volume0: round(fees.volume0),
+				volume1: round(fees.volume1),
+				feesInToken1: round(fees.feesInToken1),
+				feeAPR: fees.feeAPR === undefined ? null : toPercent(fees.feeAPR, 2),
+			},
+		};
 	},
 });
 
 /**
- * Tool: Get Uniswap V3 Pool Data
+ * Find Uniswap V3 Pools
  */
-export const getUniswapPoolTool = tool({
-	description: 'Get liquidity pool data from Uniswap V3',
-	parameters: z.object({
-		chain: z.enum(['base', 'mainnet', 'arbitrum', 'optimism', 'polygon']).describe('Blockchain network'),
-		poolAddress: z.string().describe('Uniswap V3 pool address'),
+export const findUniswapPoolCapability = defineCapability({
+	name: 'findUniswapPool',
+	description:
+		'Resolve Uniswap V3 pools for a token pair through the factory: one per existing fee tier with its in-range liquidity, or a single tier when a fee is given. Tokens may be symbols ("USDC", "ETH") or addresses.',
+	input: z.object({
+		chain: chainSchema,
+		tokenA: z.string().describe('Token symbol or address'),
+		tokenB: z.string().describe('Token symbol or address'),
+		fee: feeTierSchema.optional(),
 	}),
-	execute: async ({ chain, poolAddress }: {
-		chain: keyof typeof CHAINS;
-		poolAddress: string;
-	}) => {
-		try {
-			const client = getPublicClient(chain);
-
-			// Get pool data
-			const [token0, token1, fee, liquidity, slot0] = await Promise.all([
-				client.readContract({
-					address: poolAddress as Address,
-					abi: parseAbi(['function token0() view returns (address)']),
-					functionName: 'token0',
-				}),
-				client.readContract({
-					address: poolAddress as Address,
-					abi: parseAbi(['function token1() view returns (address)']),
-					functionName: 'token1',
-				}),
-				client.readContract({
-					address: poolAddress as Address,
-					abi: parseAbi(['function fee() view returns (uint24)']),
-					functionName: 'fee',
-				}),
-				client.readContract({
-					address: poolAddress as Address,
-					abi: parseAbi(['function liquidity() view returns (uint128)']),
-					functionName: 'liquidity',
-				}),
-				client.readContract({
-					address: poolAddress as Address,
-					abi: parseAbi([
-						'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
-					]),
-					functionName: 'slot0',
+	output: z.object({
+		chain: chainSchema,
+		tokenA: z.string(),
+		tokenB: z.string(),
+		pools: z.array(z.object({ pool: z.string(), fee: z.number(), feePercent: z.string(), liquidity: z.string() })),
+	}),
+	readOnly: true,
+	run: async ({ chain, tokenA, tokenB, fee }, clientFor) => {
+		const [addressA, addressB] = [resolveErc20(chain, tokenA), resolveErc20(chain, tokenB)];
+		const pools = await findPools(clientFor(chain), chain, addressA, addressB, fee);
+
+		return {
+			chain,
+			tokenA: addressA,
+			tokenB: addressB,
+			pools: pools.map((entry) => ({ ...entry, feePercent: entry.fee / 10000 + '%', liquidity: entry.liquidity.toString() })),
+		};
+	},
+});
+
+/**
+ * Get Uniswap V3 LP Positions
+ */
+export const getUniswapPositionsCapability = defineCapability({
+	name: 'getUniswapPositions',
+	description:
+		"List a wallet's Uniswap V3 liquidity position NFTs: pool and fee tier, price range and whether the current price is inside it, token amounts at the current price, uncollected fees (from a static collect call) and impermanent loss versus holding the tokens deposited at the mint block's price. Values are in token1, and in USD when token1 or token0 is a USD stablecoin; impermanent loss is in percent.",
+	input: z.object({
+		chain: chainSchema.default('base'),
+		owner: addressSchema.describe('Wallet that holds the position NFTs'),
+		includeClosed: z.boolean().default(false).describe('Also list positions with no liquidity and nothing to collect'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		owner: z.string(),
+		blockNumber: z.number(),
+		totalPositions: z.number().describe('NFTs held, including closed ones and any beyond the read limit'),
+		positions: z.array(
+			z.object({
+				tokenId: z.string(),
+				pool: z.string(),
+				fee: z.string(),
+				token0: poolTokenSchema,
+				token1: poolTokenSchema,
+				range: z.object({
+					tickLower: z.number(),
+					tickUpper: z.number(),
+					currentTick: z.number(),
+					priceLower: z.number().describe('token0 in token1 at the lower tick'),
+					priceUpper: z.number(),
+					currentPrice: z.number(),
 				}),
-			]);
+				inRange: z.boolean(),
+				liquidity: z.string(),
+				amount0: z.number(),
+				amount1: z.number(),
+				valueInToken1: z.number(),
+				valueUsd: z.number().nullable(),
+				uncollectedFees: z.object({ amount0: z.number(), amount1: z.number(), valueInToken1: z.number(), valueUsd: z.number().nullable() }),
+				impermanentLoss: z
+					.object({
+						entryBlock: z.number(),
+						entryPrice: z.number(),
+						holdValueInToken1: z.number(),
+						lossInToken1: z.number(),
+						percent: z.number(),
+					})
+					.nullable()
+					.describe('Assumes the liquidity has not changed since minting; needs an archive RPC endpoint'),
+				impermanentLossError: z.string().optional(),
+			})
+		),
+	}),
+	readOnly: true,
+	run: async ({ chain, owner, includeClosed }, clientFor) => {
+		const { blockNumber, total, positions } = await readLiquidityPositions(clientFor(chain), chain, owner as Address, includeClosed);
+		const round = (value: number) => Number(value.toPrecision(8));
 
-			return {
-				success: true,
-				chain,
-				protocol: 'Uniswap V3',
-				pool: poolAddress,
-				data: {
-					token0,
-					token1,
-					fee: Number(fee) / 10000 + '%',
-					liquidity: liquidity.toString(),
-					currentTick: slot0[1],
-					sqrtPriceX96: slot0[0].toString(),
-				},
-			};
-		} catch (error: any) {
-			return {
-				success: false,
-				error: error.message,
-				chain,
-				protocol: 'Uniswap V3',
-			};
+		return {
+			chain,
+			protocol: 'Uniswap V3',
+			owner,
+			blockNumber: Number(blockNumber),
+			totalPositions: total,
+			positions: positions.map((position) => {
+				// Values are in token1; convert when either side is a dollar stablecoin
+				const toUsd = (inToken1: number) =>
+					isUsdStablecoin(position.token1.symbol)
+						? Number(inToken1.toFixed(2))
+						: isUsdStablecoin(position.token0.symbol) && position.price > 0
+							? Number((inToken1 / position.price).toFixed(2))
+							: null;
+				const loss = position.impermanentLoss;
+
+				return {
+					tokenId: position.tokenId.toString(),
+					pool: position.pool,
+					fee: position.fee / 10000 + '%',
+					token0: position.token0,
+					token1: position.token1,
+					range: {
+						tickLower: position.tickLower,
+						tickUpper: position.tickUpper,
+						currentTick: position.currentTick,
+						priceLower: round(position.priceLower),
+						priceUpper: round(position.priceUpper),
+						currentPrice: round(position.price),
+					},
+					inRange: position.inRange,
+					liquidity: position.liquidity.toString(),
+					amount0: round(position.amount0),
+					amount1: round(position.amount1),
+					valueInToken1: round(position.valueInToken1),
+					valueUsd: toUsd(position.valueInToken1),
+					uncollectedFees: {
+						amount0: round(position.fees0),
+						amount1: round(position.fees1),
+						valueInToken1: round(position.feesInToken1),
+						valueUsd: toUsd(position.feesInToken1),
+					},
+					impermanentLoss: loss
+						? {
+								entryBlock: Number(loss.entryBlock),
+								entryPrice: round(loss.entryPrice),
+								holdValueInToken1: round(loss.holdValueInToken1),
+								lossInToken1: round(loss.lossInToken1),
+								percent: toPercent(loss.fraction, 2),
+							}
+						: null,
+					...(position.impermanentLossError ? { impermanentLossError: position.impermanentLossError } : {}),
+				};
+			}),
+		};
+	},
+});
+
+const epochRewardSchema = z.object({
+	token: poolTokenSchema,
+	currentEpoch: z.number().describe('Deposited so far for the running epoch'),
+	previousEpoch: z.number().describe('Paid to voters for the last finished epoch'),
+	priceAero: z.number().nullable(),
+});
+
+/**
+ * Get Aerodrome Pool Data
+ */
+export const getAerodromePoolCapability = defineCapability({
+	name: 'getAerodromePool',
+	description:
+		"Get an Aerodrome pool on Base (stable or volatile): reserves, price, swap fee and TVL in AERO and USD; its gauge's AERO emissions, staked share and emissions APR; and what voters earn: votes and vote share this epoch, trading fees and bribes per token for the running and last epoch, and voting APR. Identify the pool by address, or by a token pair with an optional stable flag; without one the deeper pool is used. Values are priced in AERO through the Aerodrome router; APRs are in percent.",
+	input: z.object({
+		poolAddress: addressSchema.optional().describe('Aerodrome pool address'),
+		tokenA: z.string().optional().describe('First token of the pair, when no pool address is given'),
+		tokenB: z.string().optional().describe('Second token of the pair'),
+		stable: z.boolean().optional().describe('true for the stable (correlated) pool, false for the volatile one'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		pool: z.string(),
+		symbol: z.string(),
+		stable: z.boolean(),
+		fee: z.string(),
+		blockNumber: z.number(),
+		tokens: z.object({ token0: poolTokenSchema, token1: poolTokenSchema }),
+		reserves: z.object({ amount0: z.number(), amount1: z.number() }),
+		price: z.object({ token0InToken1: z.number(), token1InToken0: z.number() }),
+		tvl: z.object({ inToken1: z.number(), aero: z.number().nullable(), usd: z.number().nullable() }),
+		aeroUsd: z.number().nullable(),
+		gauge: z
+			.object({
+				address: z.string(),
+				alive: z.boolean(),
+				aeroPerSecond: z.number(),
+				emissionsPerEpoch: z.number().describe('AERO per week at the current rate'),
+				periodFinish: z.number(),
+				stakedShare: z.number().describe('Percent of LP tokens staked; only staked LPs earn emissions'),
+				emissionsAPR: z.number().nullable().describe('Emissions over the staked TVL, in percent; staked LPs give up trading fees'),
+			})
+			.nullable(),
+		voting: z
+			.object({
+				epochStart: z.number(),
+				epochEnd: z.number(),
+				votes: z.number().describe('veAERO voting for the pool this epoch'),
+				voteShare: z.number().describe('Percent of all votes, which sets the share of next epoch\'s emissions'),
+				fees: z.array(epochRewardSchema),
+				bribes: z.array(epochRewardSchema),
+				votingAPR: z.number().nullable().describe("Last epoch's fees and bribes over the current votes, annualized, in percent"),
+			})
+			.nullable(),
+	}),
+	readOnly: true,
+	run: async ({ poolAddress, tokenA, tokenB, stable }, clientFor) => {
+		const client = clientFor('base');
+		let pool = poolAddress as Address | undefined;
+		if (!pool) {
+			if (!tokenA || !tokenB) throw new Error('Provide a poolAddress, or tokenA and tokenB');
+			const addressA = resolveErc20('base', tokenA);
+			const pools = await findAerodromePools(client, addressA, resolveErc20('base', tokenB), stable);
+			if (pools.length === 0) throw new Error(`No Aerodrome ${stable === undefined ? '' : stable ? 'stable ' : 'volatile '}pool for ${tokenA}/${tokenB}`);
+			pool = pools.reduce((best, candidate) => (candidate.reserveA > best.reserveA ? candidate : best)).pool;
 		}
+
+		const data = await readAerodromePool(client, pool);
+		const round = (value: number) => Number(value.toPrecision(8));
+		const nullableRound = (value: number | undefined) => (value === undefined ? null : round(value));
+		const toRewards = (rewards: EpochReward[]) =>
+			rewards.map((reward) => ({
+				token: reward.token,
+				currentEpoch: round(reward.currentEpoch),
+				previousEpoch: round(reward.previousEpoch),
+				priceAero: nullableRound(reward.priceAero),
+			}));
+
+		return {
+			chain: 'base' as const,
+			protocol: 'Aerodrome',
+			pool,
+			symbol: data.symbol,
+			stable: data.stable,
+			fee: toPercent(data.fee) + '%',
+			blockNumber: Number(data.blockNumber),
+			tokens: { token0: data.token0, token1: data.token1 },
+			reserves: { amount0: round(data.reserve0), amount1: round(data.reserve1) },
+			price: { token0InToken1: round(data.token0Price), token1InToken0: round(data.token1Price) },
+			tvl: {
+				inToken1: round(data.tvlInToken1),
+				aero: nullableRound(data.tvlAero),
+				usd: data.tvlUsd === undefined ? null : Number(data.tvlUsd.toFixed(2)),
+			},
+			aeroUsd: nullableRound(data.aeroUsd),
+			gauge: data.gauge
+				? {
+						address: data.gauge.address,
+						alive: data.gauge.alive,
+						aeroPerSecond: round(data.gauge.rewardRate),
+						emissionsPerEpoch: round(data.gauge.emissionsPerEpoch),
+						periodFinish: data.gauge.periodFinish,
+						stakedShare: toPercent(data.gauge.stakedShare, 2),
+						emissionsAPR: data.gauge.emissionsAPR === undefined ? null : toPercent(data.gauge.emissionsAPR, 2),
+					}
+				: null,
+			voting: data.voting
+				? {
+						epochStart: data.voting.epochStart,
+						epochEnd: data.voting.epochEnd,
+						votes: round(data.voting.votes),
+						voteShare: toPercent(data.voting.voteShare),
+						fees: toRewards(data.voting.fees),
+						bribes: toRewards(data.voting.bribes),
+						votingAPR: data.voting.votingAPR === undefined ? null : toPercent(data.voting.votingAPR, 2),
+					}
+				: null,
+		};
 	},
 });
 
 /**
- * Tool: Get Multi-Chain Token Balance
+ * Get veAERO Locks
  */
-export const getMultiChainBalanceTool = tool({
-	description: 'Get token balance across multiple chains',
-	parameters: z.object({
-		address: z.string().describe('Wallet address'),
-		tokenAddress: z.string().describe('Token contract address'),
-		chains: z.array(z.enum(['base', 'mainnet', 'arbitrum', 'optimism', 'polygon'])).describe('Chains to check'),
+export const getAerodromeLocksCapability = defineCapability({
+	name: 'getAerodromeLocks',
+	description:
+		"List a wallet's veAERO locks on Base: AERO locked, unlock time or permanent lock, current voting power, when it last voted and whether that was this epoch, and the pools it votes for with each vote's weight and share.",
+	input: z.object({
+		owner: addressSchema.describe('Wallet that holds the veAERO NFTs'),
 	}),
-	execute: async ({ address, tokenAddress, chains }: {
-		address: string;
-		tokenAddress: string;
-		chains: Array<keyof typeof CHAINS>;
-	}) => {
-		try {
-			const balances: Record<string, string> = {};
-
-			// Check balance on each chain
-			await Promise.all(
-				chains.map(async (chain: keyof typeof CHAINS) => {
-					try {
-						const client = getPublicClient(chain);
-
-						const balance = await client.readContract({
-							address: tokenAddress as Address,
-							abi: parseAbi(['function balanceOf(address) view returns (uint256)']),
-							functionName: 'balanceOf',
-							args: [address as Address],
-						});
-
-						balances[chain] = balance.toString();
-					} catch (error) {
-						balances[chain] = 'Error: ' + (error as Error).message;
+	output: z.object({
+		chain: chainSchema,
+		protocol: z.string(),
+		owner: z.string(),
+		blockNumber: z.number(),
+		totalLocks: z.number().describe('veAERO NFTs held, including any beyond the read limit'),
+		locks: z.array(
+			z.object({
+				tokenId: z.string(),
+				amount: z.number().describe('AERO locked'),
+				unlockTime: z.number().nullable().describe('Unix time; null for permanent locks'),
+				permanent: z.boolean(),
+				votingPower: z.number().describe('veAERO; decays toward the unlock time unless permanent'),
+				lastVoted: z.number().nullable(),
+				votedThisEpoch: z.boolean(),
+				votes: z.array(z.object({ pool: z.string(), symbol: z.string(), votes: z.number(), share: z.number().describe('Percent of the lock\'s votes') })),
+			})
+		),
+	}),
+	readOnly: true,
+	run: async ({ owner }, clientFor) => {
+		const { blockNumber, total, locks } = await readVeAeroLocks(clientFor('base'), owner as Address);
+		const round = (value: number) => Number(value.toPrecision(8));
+
+		return {
+			chain: 'base' as const,
+			protocol: 'Aerodrome',
+			owner,
+			blockNumber: Number(blockNumber),
+			totalLocks: total,
+			locks: locks.map((lock) => ({
+				tokenId: lock.tokenId.toString(),
+				amount: round(lock.amount),
+				unlockTime: lock.unlockTime ?? null,
+				permanent: lock.permanent,
+				votingPower: round(lock.votingPower),
+				lastVoted: lock.lastVoted ?? null,
+				votedThisEpoch: lock.votedThisEpoch,
+				votes: lock.votes.map((vote) => ({ ...vote, votes: round(vote.votes), share: toPercent(vote.share, 2) })),
+			})),
+		};
+	},
+});
+
+/**
+ * Get ERC-4626 Vault Data
+ */
+export const getVaultDataCapability = defineCapability({
+	name: 'getVaultData',
+	description:
+		"Inspect any ERC-4626 vault (Morpho, Yearn, Euler, sDAI and the like): underlying asset, total assets and shares, share price, a holder's shares and their underlying value, and realized APY from share-price growth over the last 7 and 30 days (needs an archive RPC endpoint). MetaMorpho vaults also return the Morpho Blue markets in their withdraw queue with the vault's supply, cap, utilization and supply APY in each, plus the performance fee, curator, owner, guardian and timelock. Percentages are in percent.",
+	input: z.object({
+		chain: chainSchema.default('base'),
+		vault: addressSchema.describe('ERC-4626 vault address'),
+		holder: addressSchema.optional().describe('Wallet whose shares to value'),
+	}),
+	output: z.object({
+		chain: chainSchema,
+		vault: z.object({ address: z.string(), name: z.string(), symbol: z.string(), decimals: z.number() }),
+		asset: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }),
+		blockNumber: z.number(),
+		totalAssets: z.string(),
+		totalSupply: z.string().describe('Vault shares outstanding'),
+		sharePrice: z.number().describe('Assets per whole share'),
+		realizedAPY: z.array(
+			z.object({
+				days: z.number(),
+				apy: z.number().nullable(),
+				fromBlock: z.number().nullable(),
+				fromSharePrice: z.number().nullable(),
+				error: z.string().optional(),
+			})
+		),
+		holder: z.object({ address: z.string(), shares: z.string(), assets: z.string() }).nullable(),
+		metaMorpho: z
+			.object({
+				morpho: z.string(),
+				curator: z.string(),
+				owner: z.string(),
+				guardian: z.string(),
+				feeRecipient: z.string(),
+				fee: z.number().describe('Performance fee on interest'),
+				timelock: z.number().describe('Seconds'),
+				netAPY: z.number().nullable().describe('Current supply APY across allocations weighted by size, after the fee'),
+				allocations: z.array(
+					z.object({
+						marketId: z.string(),
+						collateralToken: z.object({ address: z.string(), symbol: z.string(), decimals: z.number() }).nullable().describe('null for an idle market'),
+						lltv: z.number(),
+						oracle: z.string(),
+						irm: z.string(),
+						supplied: z.string().describe("The vault's supply, as of the market's last accrual"),
+						share: z.number().describe("Percent of the vault's total assets"),
+						cap: z.string(),
+						enabled: z.boolean(),
+						marketSupplied: z.string(),
+						marketBorrowed: z.string(),
+						utilization: z.number(),
+						supplyAPY: z.number().nullable(),
+					})
+				),
+			})
+			.nullable()
+			.describe('null unless the vault is a MetaMorpho vault'),
+	}),
+	readOnly: true,
+	run: async ({ chain, vault, holder }, clientFor) => {
+		const data = await readVault(clientFor(chain), vault as Address, holder as Address | undefined);
+		const metaMorpho = data.metaMorpho;
+		const round = (value: number) => Number(value.toPrecision(10));
+
+		return {
+			chain,
+			vault: { address: data.address, name: data.name, symbol: data.symbol, decimals: data.decimals },
+			asset: data.asset,
+			blockNumber: Number(data.blockNumber),
+			totalAssets: data.totalAssets,
+			totalSupply: data.totalSupply,
+			sharePrice: round(data.sharePrice),
+			realizedAPY: data.realizedAPY.map((window) => ({
+				days: window.days,
+				apy: window.apy === undefined ? null : toPercent(window.apy),
+				fromBlock: window.from ? Number(window.from.blockNumber) : null,
+				fromSharePrice: window.from ? round(window.from.sharePrice) : null,
+				...(window.error && { error: window.error }),
+			})),
+			holder: data.holder ?? null,
+			metaMorpho: metaMorpho
+				? {
+						morpho: metaMorpho.morpho,
+						curator: metaMorpho.curator,
+						owner: metaMorpho.owner,
+						guardian: metaMorpho.guardian,
+						feeRecipient: metaMorpho.feeRecipient,
+						fee: toPercent(metaMorpho.fee, 2),
+						timelock: metaMorpho.timelock,
+						netAPY: metaMorpho.netAPY === undefined ? null : toPercent(metaMorpho.netAPY),
+						allocations: metaMorpho.allocations.map((allocation) => ({
+							...allocation,
+							collateralToken: allocation.collateralToken ?? null,
+							lltv: toPercent(allocation.lltv, 2),
+							share: toPercent(allocation.share, 2),
+							utilization: toPercent(allocation.utilization, 2),
+							supplyAPY: allocation.supplyAPY === undefined ? null : toPercent(allocation.supplyAPY),
+						})),
 					}
-				})
-			);
+				: null,
+		};
+	},
+});
 
-			return {
-				success: true,
-				address,
-				token: tokenAddress,
-				balances,
-			};
-		} catch (error: any) {
-			return {
-				success: false,
-				error: error.message,
-			};
-		}
+/**
+ * Get Multi-Chain Token Balance
+ */
+export const getMultiChainBalanceCapability = defineCapability({
+	name: 'getMultiChainBalance',
+	description: 'Get balances of one or more tokens across multiple chains (one batched request per chain)',
+	input: z.object({
+		address: addressSchema.describe('Wallet address'),
+		tokenAddress: z.string().optional().describe('Token contract address'),
+		tokens: z
+			.array(z.string())
+			.optional()
+			.describe('Several tokens at once: symbols (e.g. "USDC"), addresses, or the native currency ("ETH")'),
+		chains: z.array(chainSchema).describe('Chains to check'),
+	}),
+	output: z.object({
+		address: z.string(),
+		balances: z.array(
+			z.object({
+				chain: chainSchema,
+				owner: z.string(),
+				token: z.string(),
+				symbol: z.string(),
+				decimals: z.number(),
+				balance: z.string(),
+				formatted: z.string(),
+			})
+		),
+		errors: z.array(
+			z.object({
+				chain: chainSchema,
+				token: z.string().optional(),
+				owner: z.string().optional(),
+				error: z.string(),
+			})
+		),
+		blockNumbers: z.record(z.number()),
+	}),
+	readOnly: true,
+	run: async ({ address, tokenAddress, tokens, chains }, clientFor) => {
+		const query = tokenBalancesSchema.parse({ owners: [address], tokens: tokens ?? (tokenAddress ? [tokenAddress] : []), chains });
+		const { balances, errors, blockNumbers } = await getTokenBalances(query, clientFor);
+
+		return {
+			address,
+			balances,
+			errors,
+			blockNumbers,
+		};
 	},
 });
 
 /**
- * Export all blockchain tools
+ * Every blockchain capability, in registration order
+ */
+export const blockchainCapabilities: Capability[] = [
+	callContractCapability,
+	simulateTransactionCapability,
+	buildTransactionCapability,
+	getAaveDataCapability,
+	getAavePositionCapability,
+	getMoonwellDataCapability,
+	getMoonwellPositionCapability,
+	getUniswapPoolCapability,
+	findUniswapPoolCapability,
+	getUniswapPositionsCapability,
+	getAerodromePoolCapability,
+	getAerodromeLocksCapability,
+	getVaultDataCapability,
+	getMultiChainBalanceCapability,
+];
+
+/**
+ * Plain functions: validate input, throw on failure
+ */
+export const callContract = callContractCapability.call;
+export const simulateTransaction = simulateTransactionCapability.call;
+export const buildTransaction = buildTransactionCapability.call;
+export const getAaveData = getAaveDataCapability.call;
+export const getAavePosition = getAavePositionCapability.call;
+export const getMoonwellData = getMoonwellDataCapability.call;
+export const getMoonwellPosition = getMoonwellPositionCapability.call;
+export const getUniswapPool = getUniswapPoolCapability.call;
+export const findUniswapPool = findUniswapPoolCapability.call;
+export const getUniswapPositions = getUniswapPositionsCapability.call;
+export const getAerodromePool = getAerodromePoolCapability.call;
+export const getAerodromeLocks = getAerodromeLocksCapability.call;
+export const getVaultData = getVaultDataCapability.call;
+export const getMultiChainBalance = getMultiChainBalanceCapability.call;
+
+/**
+ * Export all blockchain tools (AI SDK)
  */
-export const blockchainTools = {
-	callContract: callContractTool,
-	simulateTransaction: simulateTransactionTool,
-	buildTransaction: buildTransactionTool,
-	getAaveData: getAaveDataTool,
-	getUniswapPool: getUniswapPoolTool,
-	getMultiChainBalance: getMultiChainBalanceTool,
-};
+export const blockchainTools = Object.fromEntries(blockchainCapabilities.map((capability) => [capability.name, toAiTool(capability)]));
@@ -0,0 +1,58 @@
+/**
+ * Capabilities
+ * One definition per blockchain capability, from which the plain function, the AI SDK tool,
+ * the MCP tool and the HTTP route are all derived
+ */
+
+import { z } from 'zod';
+import { tool, type Tool } from 'ai';
+import { getPublicClient, type PublicClientFactory } from '../services/chains';
+
+export interface CapabilityDefinition<Input extends z.AnyZodObject, Output extends z.AnyZodObject> {
+	/** Tool name, also the last segment of the HTTP route */
+	name: string;
+	description: string;
+	input: Input;
+	output: Output;
+	/** False for anything with side effects beyond reading chain state */
+	readOnly: boolean;
+	/** Throws on failure; every surface turns the error into its own error shape */
+	run(input: z.output<Input>, clientFor: PublicClientFactory): Promise<z.input<Output>>;
+}
+
+export interface Capability<Input extends z.AnyZodObject = z.AnyZodObject, Output extends z.AnyZodObject = z.AnyZodObject>
+	extends CapabilityDefinition<Input, Output> {
+	/** Validate the input, run, and validate the output */
+	call(input: z.input<Input>, clientFor?: PublicClientFactory): Promise<z.output<Output>>;
+}
+
+/**
+ * Define a capability
+ */
+export function defineCapability<Input extends z.AnyZodObject, Output extends z.AnyZodObject>(
+	definition: CapabilityDefinition<Input, Output>
+): Capability<Input, Output> {
+	return {
+		...definition,
+		call: async (input, clientFor = getPublicClient) => definition.output.parse(await definition.run(definition.input.parse(input), clientFor)),
+	};
+}
+
+/**
+ * AI SDK tool for a capability
+ */
+export function toAiTool(capability: Capability): Tool {
+	return tool({
+		description: capability.description,
+		inputSchema: capability.input,
+		outputSchema: capability.output,
+		execute: async (input) => capability.call(input),
+	});
+}
+
+/**
+ * Copy of a result that survives JSON: contract reads return bigints
+ */
+export function toJsonSafe<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item)));
+}
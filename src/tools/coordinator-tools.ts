@@ -0,0 +1,62 @@
+/**
+ * Coordinator Tools
+ * Let the agent find other agents through the A2A coordinator
+ */
+
+import { tool } from 'ai';
+import { agentQuerySchema, type AgentQuery, type AgentQueryResult } from '../services/agent-query';
+
+/**
+ * Anything that can serve coordinator requests, e.g. the coordinator Durable Object stub
+ */
+export interface CoordinatorFetcher {
+	fetch(request: Request): Promise<Response>;
+}
+
+/**
+ * Run a structured agent search against the coordinator
+ */
+export async function searchAgents(coordinator: CoordinatorFetcher, query: AgentQuery) {
+	const response = await coordinator.fetch(
+		new Request('https://coordinator/a2a/agents/search', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(query),
+		})
+	);
+
+	if (!response.ok) {
+		const body = (await response.json().catch(() => undefined)) as { error?: { message?: string } } | undefined;
+		return {
+			success: false,
+			error: body?.error?.message || `Agent search failed with status ${response.status}`,
+		};
+	}
+
+	const result = (await response.json()) as AgentQueryResult;
+	return {
+		success: true,
+		total: result.total,
+		agents: result.matches.map((match) => ({
+			id: match.agent.id,
+			name: match.agent.name,
+			health: match.agent.health,
+			reputation: match.agent.reputation,
+			capability: match.capabilityId,
+			score: match.score,
+			reasons: match.reasons,
+		})),
+	};
+}
+
+/**
+ * Build the discovery tool bound to a coordinator
+ */
+export function createDiscoverAgentsTool(coordinator: CoordinatorFetcher) {
+	return tool({
+		description:
+			'Find other agents in the A2A network by the chains, protocols and operations they support, minimum reputation or a text search. Results are ranked and explain why each agent matched.',
+		inputSchema: agentQuerySchema,
+		execute: async (query) => searchAgents(coordinator, query),
+	});
+}
@@ -0,0 +1,167 @@
+/**
+ * Tool Registry
+ * Exposes blockchain tools to the agent and toggles them per deployment
+ */
+
+import { z } from 'zod';
+import { tool, type Tool, type ToolSet } from 'ai';
+import { blockchainCapabilities } from './blockchain-tools';
+import { toAiTool, toJsonSafe } from './capability';
+
+/**
+ * Result envelope shared by every registered tool
+ */
+export const toolResultSchema = z.object({
+	success: z.boolean(),
+	tool: z.string(),
+	data: z.record(z.any()).optional(),
+	error: z.string().optional(),
+	timestamp: z.string(),
+});
+
+export type ToolResult = z.infer<typeof toolResultSchema>;
+
+export interface ToolRegistration {
+	name: string;
+	tool: Tool;
+	enabledByDefault: boolean;
+}
+
+export interface ToolConfig {
+	enabled: string[] | '*';
+	disabled: string[];
+}
+
+/**
+ * Parse tool toggles from the deployment config.
+ * ENABLED_TOOLS is a comma-separated allow-list ("*" for every tool that is on by default),
+ * DISABLED_TOOLS is a comma-separated deny-list applied on top of it.
+ */
+export function parseToolConfig(env: { ENABLED_TOOLS?: string; DISABLED_TOOLS?: string }): ToolConfig {
+	const split = (value?: string) =>
+		(value || '')
+			.split(',')
+			.map((name) => name.trim())
+			.filter(Boolean);
+
+	const enabled = split(env.ENABLED_TOOLS);
+
+	return {
+		enabled: enabled.length === 0 || enabled.includes('*') ? '*' : enabled,
+		disabled: split(env.DISABLED_TOOLS),
+	};
+}
+
+/**
+ * Normalize a raw tool result into the shared envelope
+ */
+function toToolResult(name: string, raw: unknown): ToolResult {
+	// Contract reads return bigints, which the model transport cannot serialize
+	raw = raw === undefined ? raw : toJsonSafe(raw);
+
+	if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+		const { success, error, simulation, ...rest } = raw as Record<string, any>;
+		const failed = success === false;
+
+		return toolResultSchema.parse({
+			success: !failed,
+			tool: name,
+			data: simulation ? { ...rest, simulation } : rest,
+			error: failed ? error || simulation?.error || 'Unknown error' : undefined,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	return toolResultSchema.parse({
+		success: true,
+		tool: name,
+		data: { result: raw },
+		timestamp: new Date().toISOString(),
+	});
+}
+
+/**
+ * Tool Registry
+ * Holds every known tool and resolves the enabled set for a deployment
+ */
+export class ToolRegistry {
+	private tools: Map<string, ToolRegistration> = new Map();
+
+	/**
+	 * Register a tool under a name. Its result is wrapped into the shared envelope.
+	 */
+	register(name: string, registered: Tool, options: { enabledByDefault?: boolean } = {}): this {
+		if (this.tools.has(name)) {
+			throw new Error(`Tool already registered: ${name}`);
+		}
+
+		const execute = registered.execute;
+		const wrapped = tool({
+			description: registered.description,
+			inputSchema: registered.inputSchema,
+			outputSchema: toolResultSchema,
+			execute: async (input: any, options: any): Promise<ToolResult> => {
+				try {
+					const raw = execute ? await execute(input, options) : undefined;
+					return toToolResult(name, raw);
+				} catch (error: any) {
+					return toolResultSchema.parse({
+						success: false,
+						tool: name,
+						error: error.message,
+						timestamp: new Date().toISOString(),
+					});
+				}
+			},
+		});
+
+		this.tools.set(name, {
+			name,
+			tool: wrapped,
+			enabledByDefault: options.enabledByDefault ?? true,
+		});
+
+		return this;
+	}
+
+	/**
+	 * Copy of this registry with one more tool, for tools bound to per-deployment resources
+	 */
+	with(name: string, registered: Tool, options: { enabledByDefault?: boolean } = {}): ToolRegistry {
+		const registry = new ToolRegistry();
+		registry.tools = new Map(this.tools);
+		return registry.register(name, registered, options);
+	}
+
+	/**
+	 * List all registered tools
+	 */
+	list(): ToolRegistration[] {
+		return Array.from(this.tools.values());
+	}
+
+	/**
+	 * Resolve the tool set to hand to the model
+	 */
+	getTools(config: ToolConfig): ToolSet {
+		const tools: ToolSet = {};
+
+		for (const registration of this.tools.values()) {
+			const allowed = config.enabled === '*' ? registration.enabledByDefault : config.enabled.includes(registration.name);
+
+			if (allowed && !config.disabled.includes(registration.name)) {
+				tools[registration.name] = registration.tool;
+			}
+		}
+
+		return tools;
+	}
+}
+
+/**
+ * Default registry with the built-in blockchain tools
+ */
+export const toolRegistry = blockchainCapabilities.reduce(
+	(registry, capability) => registry.register(capability.name, toAiTool(capability)),
+	new ToolRegistry()
+);
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createA2ARoutes } from '../src/routes/a2a';
+import { createStandInAgent } from '../src/routes/a2a-stand-in';
+import { JSON_RPC_ERRORS, type A2ATask, type AgentCard } from '../src/services/a2a-protocol';
+import { AgentCoordinatorService } from '../src/services/agent-coordinator';
+import { CoordinatorStore } from '../src/services/coordinator-store';
+import { createSqliteStorage } from './sqlite-storage';
+
+const STAND_IN_ORIGIN = 'https://stand-in.example';
+const CARD_URL = `${STAND_IN_ORIGIN}/a2a-stand-in/.well-known/agent.json`;
+
+describe('A2A delegation to a card agent', () => {
+	let coordinator: AgentCoordinatorService;
+	let routes: ReturnType<typeof createA2ARoutes>;
+	let standInCalls: string[];
+
+	beforeEach(async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		// The stand-in answers every outbound request the coordinator makes
+		const standIn = createStandInAgent('/a2a-stand-in');
+		standInCalls = [];
+		vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+			const request = new Request(input, init);
+			if (new URL(request.url).origin !== STAND_IN_ORIGIN) throw new Error(`Unexpected fetch: ${request.url}`);
+
+			const body = request.method === 'POST' ? ((await request.clone().json()) as { method: string }) : undefined;
+			standInCalls.push(body ? body.method : `GET ${new URL(request.url).pathname}`);
+			return standIn.fetch(request);
+		});
+
+		coordinator = new AgentCoordinatorService(new CoordinatorStore(await createSqliteStorage()), { scheduleAt: vi.fn(async () => {}) });
+		await coordinator.initialize();
+		routes = createA2ARoutes(coordinator);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	async function jsonRpc(method: string, params: unknown) {
+		const response = await routes.request('/a2a/jsonrpc', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+		});
+		return (await response.json()) as { id: number; result?: A2ATask; error?: { code: number; message: string } };
+	}
+
+	const echoMessage = {
+		kind: 'message',
+		messageId: 'm-1',
+		role: 'user',
+		parts: [
+			{ kind: 'text', text: 'Echo this' },
+			{ kind: 'data', data: { amount: '100' } },
+		],
+	};
+
+	it('imports the stand-in from its card and advertises its skill', async () => {
+		const agent = await coordinator.importAgent(CARD_URL);
+
+		expect(agent).toMatchObject({
+			id: 'stand-in-echo-agent',
+			endpoint: `${STAND_IN_ORIGIN}/a2a-stand-in/jsonrpc`,
+			delivery: 'a2a',
+			capabilities: [{ id: 'echo', chains: ['base'], protocols: ['test'], operations: ['echo'] }],
+		});
+		expect(agent.signer).toBeUndefined();
+
+		const card = (await (await routes.request('https://coordinator.example/.well-known/agent.json')).json()) as AgentCard;
+		expect(card.url).toBe('https://coordinator.example/a2a/jsonrpc');
+		expect(card.skills.map((skill) => skill.id)).toEqual(['echo']);
+	});
+
+	it('delegates a tasks/send request to the card agent and reports the result through tasks/get', async () => {
+		await coordinator.importAgent(CARD_URL);
+
+		const sent = await jsonRpc('tasks/send', { message: echoMessage, metadata: { skillId: 'echo' } });
+		expect(sent.error).toBeUndefined();
+		expect(sent.result).toMatchObject({
+			kind: 'task',
+			status: { state: 'submitted' },
+			metadata: { skillId: 'echo', agentId: 'stand-in-echo-agent' },
+		});
+
+		// Delivery hands the delegation to the stand-in with message/send, which completes it straight away
+		await coordinator.runScheduledWork();
+		expect(standInCalls).toEqual(['GET /a2a-stand-in/.well-known/agent.json', 'message/send']);
+
+		const taskId = sent.result!.id;
+		const { result } = await jsonRpc('tasks/get', { id: taskId });
+		expect(result).toMatchObject({
+			id: taskId,
+			status: { state: 'completed' },
+			artifacts: [{ parts: [{ kind: 'data', data: { amount: '100', text: 'Echo this' } }] }],
+		});
+		expect(await coordinator.getDelegation(taskId)).toMatchObject({
+			fromAgent: 'a2a-client',
+			task: { type: 'echo', description: 'Echo this', parameters: { amount: '100' } },
+			remoteTaskId: expect.any(String),
+		});
+	});
+
+	it('rejects skills no registered agent offers', async () => {
+		await coordinator.importAgent(CARD_URL);
+
+		const sent = await jsonRpc('tasks/send', { message: echoMessage, metadata: { skillId: 'swap' } });
+
+		expect(sent.result).toBeUndefined();
+		expect(sent.error).toEqual({ code: JSON_RPC_ERRORS.INVALID_PARAMS, message: 'No agent found with skill: swap' });
+		expect(await coordinator.listDelegations('pending')).toEqual([]);
+	});
+});
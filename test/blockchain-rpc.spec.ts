@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { parseAbi, type PublicClient } from 'viem';
+import { createBlockchainRpcMcpServer } from '../src/mcp/blockchain-rpc-server';
+import { BlockchainRpcService, MAX_LOG_PAGE_BLOCKS } from '../src/services/blockchain-rpc';
+import { BLOCK, createMulticallClient } from './multicall-client';
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const BROKEN = '0x000000000000000000000000000000000000dEaD';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const LATEST = 50_000n;
+
+const erc20Abi = parseAbi(['function balanceOf(address owner) view returns (uint256)', 'function decimals() view returns (uint8)']);
+
+describe('blockchain-rpc MCP server', () => {
+	let client: Client;
+	let getLogs: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		const { client: multicallClient } = createMulticallClient({
+			[USDC]: { abi: erc20Abi, functions: { balanceOf: () => 1_500_000n, decimals: () => 6 } },
+			[BROKEN]: {
+				abi: erc20Abi,
+				functions: {
+					balanceOf: () => {
+						throw new Error('Paused');
+					},
+				},
+			},
+		});
+		getLogs = vi.fn(async ({ fromBlock }: { fromBlock: bigint }) => [
+			{ address: USDC, blockNumber: fromBlock, transactionHash: '0xabc', logIndex: 0, topics: [], data: '0x' },
+		]);
+		// Log reads are served by plain stubs; calls go through the Multicall3 transport
+		const chainClient = { ...multicallClient, getBlockNumber: async () => LATEST, getLogs } as unknown as PublicClient;
+
+		const server = createBlockchainRpcMcpServer(new BlockchainRpcService(() => chainClient));
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+		client = new Client({ name: 'test', version: '1.0.0' });
+		await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+	});
+
+	async function callTool(name: string, args: Record<string, unknown>) {
+		const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+		return { ...result, data: result.structuredContent as Record<string, any> };
+	}
+
+	describe('batchCalls', () => {
+		it('runs calls in one Multicall3 request and reports each failure on its own', async () => {
+			const { isError, data } = await callTool('batchCalls', {
+				chain: 'base',
+				blockNumber: Number(BLOCK),
+				calls: [
+					{ address: USDC, signature: 'function balanceOf(address owner) view returns (uint256)', args: [ALICE] },
+					{ address: BROKEN, signature: 'function balanceOf(address owner) view returns (uint256)', args: [ALICE] },
+					{ address: USDC, abi: erc20Abi, functionName: 'decimals' },
+				],
+			});
+
+			expect(isError).toBeFalsy();
+			expect(data.blockNumber).toBe(Number(BLOCK));
+			expect(data.results).toEqual([
+				{ address: USDC, functionName: 'balanceOf', success: true, result: '1500000' },
+				{ address: BROKEN, functionName: 'balanceOf', success: false, error: expect.stringContaining('Paused') },
+				{ address: USDC, functionName: 'decimals', success: true, result: 6 },
+			]);
+		});
+
+		it('rejects more calls than one batch takes', async () => {
+			const calls = Array.from({ length: 101 }, () => ({ address: USDC, signature: 'function decimals() view returns (uint8)' }));
+
+			const { isError, content } = await callTool('batchCalls', { chain: 'base', calls });
+
+			expect(isError).toBe(true);
+			expect(JSON.stringify(content)).toContain('calls');
+		});
+	});
+
+	describe('watchEvents', () => {
+		it('pages through a block range with the cursor until done', async () => {
+			const pages: Array<[number, number]> = [];
+			let args: Record<string, unknown> = { chain: 'base', address: USDC, fromBlock: 100, toBlock: 4500, pageSize: 2000 };
+
+			for (;;) {
+				const { data } = await callTool('watchEvents', args);
+				pages.push([data.fromBlock, data.toBlock]);
+				expect(data.logs).toEqual([expect.objectContaining({ blockNumber: data.fromBlock })]);
+				if (data.done) {
+					expect(data.nextCursor).toBeNull();
+					break;
+				}
+				args = { chain: 'base', address: USDC, cursor: data.nextCursor, pageSize: 2000 };
+			}
+
+			expect(pages).toEqual([
+				[100, 2099],
+				[2100, 4099],
+				[4100, 4500],
+			]);
+			expect(getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])).toEqual([
+				[100n, 2099n],
+				[2100n, 4099n],
+				[4100n, 4500n],
+			]);
+		});
+
+		it('defaults to the latest page and keeps the cursor at the head once caught up', async () => {
+			const { data: latest } = await callTool('watchEvents', { chain: 'base' });
+			expect(latest).toMatchObject({ fromBlock: 48_001, toBlock: 50_000, latestBlock: 50_000, done: false });
+
+			getLogs.mockClear();
+			const { data: caughtUp } = await callTool('watchEvents', { chain: 'base', cursor: latest.nextCursor });
+
+			expect(caughtUp).toMatchObject({ fromBlock: 50_001, toBlock: 50_000, logs: [], done: false, nextCursor: latest.nextCursor });
+			expect(getLogs).not.toHaveBeenCalled();
+		});
+
+		it('rejects pages larger than the limit', async () => {
+			const { isError, content } = await callTool('watchEvents', { chain: 'base', pageSize: MAX_LOG_PAGE_BLOCKS + 1 });
+
+			expect(isError).toBe(true);
+			expect(JSON.stringify(content)).toContain('pageSize');
+			expect(getLogs).not.toHaveBeenCalled();
+		});
+
+		it('caps the page at the requested end block', async () => {
+			const { data } = await callTool('watchEvents', { chain: 'base', fromBlock: 49_000, toBlock: 49_010, pageSize: MAX_LOG_PAGE_BLOCKS });
+
+			expect(data).toMatchObject({ fromBlock: 49_000, toBlock: 49_010, done: true, nextCursor: null });
+		});
+	});
+});
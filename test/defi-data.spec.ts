@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAddress, zeroAddress, type Address, type PublicClient } from 'viem';
+import { AAVE_V3_POOLS, decodeReserveConfiguration } from '../src/services/aave-v3';
+import { COMPOUND_V3_MARKETS, readCometMarket } from '../src/services/compound-v3';
+import { DefiDataService } from '../src/services/defi-data';
+import { RAY, rateToAPY, SECONDS_PER_YEAR, WAD } from '../src/services/defi-math';
+
+const BLOCK = 1000n;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const A_USDC = '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB';
+const DEBT_USDC = '0x59dca05b6c26dbd64b5381374aAaC5CD05644C28';
+const PROVIDER = '0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D';
+const ORACLE = '0x2Cc0Fc26eD4563A5ce5e8bdcfe1A2878676Ae156';
+const [USDC_COMET, WETH_COMET] = COMPOUND_V3_MARKETS.base;
+const ETH_USD_FEED = '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70';
+const ETH_FEED = '0x9f485610E26B9c0140439f88Dc0C7742903Bd1CF';
+const USDC_FEED = '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B';
+
+type Handler = (args: readonly unknown[]) => unknown;
+type Contracts = Record<string, Record<string, Handler>>;
+
+/**
+ * A client whose reads come from per-contract handlers, checking every read is pinned to the test block
+ */
+function fakeClient(contracts: Contracts): PublicClient {
+	const handlers = Object.fromEntries(Object.entries(contracts).map(([address, methods]) => [address.toLowerCase(), methods]));
+	return {
+		getBlockNumber: async () => BLOCK,
+		readContract: vi.fn(async ({ address, functionName, args = [], blockNumber }: { address: Address; functionName: string; args?: unknown[]; blockNumber?: bigint }) => {
+			expect(blockNumber).toBe(BLOCK);
+			const handler = handlers[address.toLowerCase()]?.[functionName];
+			if (!handler) throw new Error(`Unexpected read ${functionName} on ${address}`);
+			return handler(args);
+		}),
+	} as unknown as PublicClient;
+}
+
+/**
+ * Pack an Aave reserve configuration bitmap the way ReserveConfiguration does
+ */
+function packConfiguration(fields: Array<[value: number, offset: number]>): bigint {
+	return fields.reduce((bitmap, [value, offset]) => bitmap | (BigInt(value) << BigInt(offset)), 0n);
+}
+
+// LTV 80%, threshold 82.5%, bonus 5%, 6 decimals, active and borrowable, reserve factor 10%, caps 1M/2M, e-mode 1
+const USDC_CONFIGURATION = packConfiguration([
+	[8000, 0],
+	[8250, 16],
+	[10500, 32],
+	[6, 48],
+	[1, 56],
+	[1, 58],
+	[1000, 64],
+	[1_000_000, 80],
+	[2_000_000, 116],
+	[1, 168],
+]);
+
+const aaveContracts = (configuration = USDC_CONFIGURATION): Contracts => ({
+	[AAVE_V3_POOLS.base]: {
+		getReservesList: () => [USDC],
+		ADDRESSES_PROVIDER: () => PROVIDER,
+		getReserveData: () => ({
+			configuration,
+			liquidityIndex: RAY,
+			currentLiquidityRate: (4n * RAY) / 100n,
+			currentVariableBorrowRate: (6n * RAY) / 100n,
+			lastUpdateTimestamp: 1_700_000_000,
+			aTokenAddress: A_USDC,
+			variableDebtTokenAddress: DEBT_USDC,
+			stableDebtTokenAddress: zeroAddress,
+		}),
+	},
+	[PROVIDER]: { getPriceOracle: () => ORACLE },
+	[ORACLE]: { getAssetsPrices: () => [100_000_000n] },
+	[USDC]: { symbol: () => 'USDC' },
+	[A_USDC]: { totalSupply: () => 1_000_000n * 10n ** 6n },
+	[DEBT_USDC]: { totalSupply: () => 900_000n * 10n ** 6n },
+});
+
+/**
+ * A Comet with utilization 50% and a supply rate of 3% a year (as a per-second WAD rate)
+ */
+function comet(baseToken: Address, decimals: number, priceFeed: Address) {
+	return {
+		baseToken: () => baseToken,
+		baseTokenPriceFeed: () => priceFeed,
+		getUtilization: () => WAD / 2n,
+		getSupplyRate: () => (3n * WAD) / 100n / BigInt(SECONDS_PER_YEAR),
+		getBorrowRate: () => (5n * WAD) / 100n / BigInt(SECONDS_PER_YEAR),
+		totalSupply: () => 2000n * 10n ** BigInt(decimals),
+		totalBorrow: () => 1000n * 10n ** BigInt(decimals),
+		decimals: () => decimals,
+		getReserves: () => 10n ** BigInt(decimals),
+		isSupplyPaused: () => false,
+		isWithdrawPaused: () => false,
+	};
+}
+
+describe('decodeReserveConfiguration', () => {
+	it('unpacks the risk parameters from their bit ranges', () => {
+		expect(decodeReserveConfiguration(USDC_CONFIGURATION)).toEqual({
+			ltv: 0.8,
+			liquidationThreshold: 0.825,
+			liquidationBonus: 0.05,
+			decimals: 6,
+			active: true,
+			frozen: false,
+			borrowingEnabled: true,
+			paused: false,
+			reserveFactor: 0.1,
+			borrowCap: 1_000_000,
+			supplyCap: 2_000_000,
+			eModeCategory: 1,
+		});
+	});
+
+	it('reads flags independently and a zero bonus as none', () => {
+		const decoded = decodeReserveConfiguration(packConfiguration([[1, 57], [1, 60]]));
+		expect(decoded).toMatchObject({ active: false, frozen: true, borrowingEnabled: false, paused: true, liquidationBonus: 0 });
+	});
+});
+
+describe('rateToAPY', () => {
+	it('compounds a per-second rate over a year', () => {
+		expect(rateToAPY(0)).toBe(0);
+		// Continuous compounding of 5% APR: e^0.05 - 1
+		expect(rateToAPY(0.05 / SECONDS_PER_YEAR)).toBeCloseTo(Math.expm1(0.05), 9);
+		expect(rateToAPY(0.05 / SECONDS_PER_YEAR)).toBeGreaterThan(0.05);
+	});
+});
+
+describe('readCometMarket', () => {
+	it('prices an ETH-quoted WETH Comet in USD through the ETH/USD feed', async () => {
+		const getPrice = vi.fn(([feed]: readonly unknown[]) => (getAddress(feed as Address) === ETH_USD_FEED ? 3000n * 10n ** 8n : 10n ** 8n));
+		const client = fakeClient({ [WETH_COMET]: { ...comet(WETH, 18, ETH_FEED), getPrice } });
+
+		const market = await readCometMarket(client, { comet: WETH_COMET, address: WETH, symbol: 'WETH' }, BLOCK);
+
+		expect(market.priceUsd).toBe(3000);
+		expect(getPrice.mock.calls.map(([[feed]]) => getAddress(feed as Address))).toEqual([ETH_FEED, ETH_USD_FEED]);
+		expect(market).toMatchObject({ totalSupplied: '2000', totalBorrowed: '1000', utilization: 0.5, reserves: '1' });
+		expect(market.supplyAPR).toBeCloseTo(0.03, 6);
+		expect(market.supplyAPY).toBeCloseTo(Math.expm1(0.03), 6);
+	});
+
+	it('takes USD-quoted prices as they are', async () => {
+		const getPrice = vi.fn(() => 99_990_000n);
+		const client = fakeClient({ [USDC_COMET]: { ...comet(USDC, 6, USDC_FEED), getPrice } });
+
+		const market = await readCometMarket(client, { comet: USDC_COMET, address: USDC, symbol: 'USDC' }, BLOCK);
+
+		expect(market.priceUsd).toBe(0.9999);
+		expect(getPrice).toHaveBeenCalledOnce();
+	});
+});
+
+describe('DefiDataService', () => {
+	const contracts = (configuration?: bigint): Contracts => ({
+		...aaveContracts(configuration),
+		[USDC_COMET]: { ...comet(USDC, 6, USDC_FEED), getPrice: () => 10n ** 8n },
+		[WETH_COMET]: { ...comet(WETH, 18, ETH_FEED), getPrice: () => 10n ** 8n },
+		[WETH]: { symbol: () => 'WETH' },
+	});
+
+	it('reports each protocol market for an asset with its source, best supply first', async () => {
+		const service = new DefiDataService(() => fakeClient(contracts()));
+
+		const { blockNumber, markets } = await service.getProtocolYields({ chain: 'base', protocols: ['aave-v3', 'compound-v3'], asset: 'USDC' });
+
+		expect(blockNumber).toBe(Number(BLOCK));
+		expect(markets.map((market) => market.protocol)).toEqual(['aave-v3', 'compound-v3']);
+		const [aave, compound] = markets;
+		expect(aave).toMatchObject({
+			asset: { address: USDC, symbol: 'USDC', decimals: 6 },
+			supplyAPY: Number((Math.expm1(0.04) * 100).toFixed(4)),
+			borrowAPY: Number((Math.expm1(0.06) * 100).toFixed(4)),
+			utilization: 90,
+			totalSupplied: '1000000',
+			totalBorrowed: '900000',
+			priceUsd: 1,
+			tvlUsd: 1_000_000,
+			source: { protocol: 'aave-v3', chain: 'base', contract: AAVE_V3_POOLS.base, blockNumber: Number(BLOCK) },
+		});
+		expect(compound).toMatchObject({ utilization: 50, totalSupplied: '2000', source: { protocol: 'compound-v3', contract: USDC_COMET } });
+	});
+
+	it('flags frozen reserves and thin liquidity', async () => {
+		const frozen = USDC_CONFIGURATION | (1n << 57n);
+		const service = new DefiDataService(() => fakeClient(contracts(frozen)));
+
+		const { markets } = await service.getProtocolRisks({ chain: 'base', protocol: 'aave-v3', asset: 'USDC' });
+
+		expect(markets).toHaveLength(1);
+		expect(markets[0].level).toBe('warning');
+		expect(markets[0].risks.map((risk) => risk.code)).toEqual(['frozen', 'liquidity']);
+		expect(markets[0].parameters).toMatchObject({ ltv: 80, liquidationThreshold: 82.5, liquidationBonus: 5, reserveFactor: 10, eModeCategory: 1 });
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * Multicall Client
+ * Public client on Base whose transport answers Multicall3 aggregate3 calls from per-contract handlers
+ */
+
+import {
+	createPublicClient,
+	custom,
+	decodeFunctionData,
+	encodeErrorResult,
+	encodeFunctionResult,
+	multicall3Abi,
+	numberToHex,
+	type Abi,
+	type Hex,
+	type PublicClient,
+} from 'viem';
+import { base } from 'viem/chains';
+
+export const BLOCK = 30_000_000n;
+
+type Handler = (args: readonly unknown[]) => unknown;
+
+/** Handlers by contract address and function name. A throwing handler reverts that call with its message. */
+export type Contracts = Record<string, { abi: Abi; functions: Record<string, Handler> }>;
+
+const errorAbi = [{ type: 'error', name: 'Error', inputs: [{ type: 'string', name: 'message' }] }] as const;
+
+export function createMulticallClient(contracts: Contracts): { client: PublicClient; batches: Array<{ calls: number; bytes: number }> } {
+	const byAddress = new Map(Object.entries(contracts).map(([address, contract]) => [address.toLowerCase(), contract]));
+	const batches: Array<{ calls: number; bytes: number }> = [];
+
+	const call = (target: string, callData: Hex): { success: boolean; returnData: Hex } => {
+		const contract = byAddress.get(target.toLowerCase());
+		if (!contract) return { success: false, returnData: '0x' };
+
+		const { functionName, args = [] } = decodeFunctionData({ abi: contract.abi, data: callData });
+		try {
+			const result = contract.functions[functionName](args);
+			return { success: true, returnData: encodeFunctionResult({ abi: contract.abi, functionName, result }) };
+		} catch (error: any) {
+			return { success: false, returnData: encodeErrorResult({ abi: errorAbi, errorName: 'Error', args: [error.message] }) };
+		}
+	};
+
+	const client = createPublicClient({
+		chain: base,
+		transport: custom({
+			async request({ method, params }: { method: string; params?: any }) {
+				if (method === 'eth_blockNumber') return numberToHex(BLOCK);
+				if (method !== 'eth_call') throw new Error(`Unexpected RPC method: ${method}`);
+
+				const [{ to, data }] = params;
+				if (to.toLowerCase() !== base.contracts.multicall3.address.toLowerCase()) {
+					throw new Error(`Unexpected eth_call to ${to}`);
+				}
+
+				const { args } = decodeFunctionData({ abi: multicall3Abi, data });
+				const calls = args[0] as ReadonlyArray<{ target: string; callData: Hex }>;
+				batches.push({ calls: calls.length, bytes: calls.reduce((total, { callData }) => total + (callData.length - 2) / 2, 0) });
+
+				return encodeFunctionResult({
+					abi: multicall3Abi,
+					functionName: 'aggregate3',
+					result: calls.map(({ target, callData }) => call(target, callData)),
+				});
+			},
+		}),
+	}) as PublicClient;
+
+	return { client, batches };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { parseAbi, type Address } from 'viem';
+import { base } from 'viem/chains';
+import { MULTICALL_BATCH_BYTES } from '../src/services/chains';
+import { getTokenBalances, readAll, readMany, type ContractRead } from '../src/services/multicall';
+import { BLOCK, createMulticallClient, type Contracts } from './multicall-client';
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const NOT_A_TOKEN = '0x000000000000000000000000000000000000dEaD';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const erc20Abi = parseAbi([
+	'function balanceOf(address owner) view returns (uint256)',
+	'function decimals() view returns (uint8)',
+	'function symbol() view returns (string)',
+]);
+const multicall3Abi = parseAbi([
+	'function getBlockNumber() view returns (uint256 blockNumber)',
+	'function getEthBalance(address addr) view returns (uint256 balance)',
+]);
+
+const token = (symbol: string, decimals: number, balances: Record<string, bigint>) => ({
+	abi: erc20Abi,
+	functions: {
+		symbol: () => symbol,
+		decimals: () => decimals,
+		balanceOf: ([owner]: readonly unknown[]) => balances[owner as string] ?? 0n,
+	},
+});
+
+const contracts: Contracts = {
+	[base.contracts.multicall3.address]: {
+		abi: multicall3Abi,
+		functions: {
+			getBlockNumber: () => BLOCK,
+			getEthBalance: ([owner]) => (owner === ALICE ? 2n * 10n ** 18n : 0n),
+		},
+	},
+	[USDC]: token('USDC', 6, { [ALICE]: 1_500_000n, [BOB]: 25n * 10n ** 6n }),
+	[WETH]: token('WETH', 18, { [BOB]: 10n ** 17n }),
+	[NOT_A_TOKEN]: {
+		abi: erc20Abi,
+		functions: {
+			decimals: () => {
+				throw new Error('Not a token');
+			},
+		},
+	},
+};
+
+const balanceOf = (owner: Address): ContractRead => ({ address: USDC, abi: erc20Abi, functionName: 'balanceOf', args: [owner] });
+
+describe('readMany', () => {
+	it('splits large read sets into aggregate3 batches and keeps results in order', async () => {
+		const { client, batches } = createMulticallClient(contracts);
+		const owners = Array.from({ length: 1000 }, (_, index) => `0x${(index + 1).toString(16).padStart(40, '0')}` as Address);
+
+		const results = await readMany(client, [...owners.map(balanceOf), balanceOf(ALICE)]);
+
+		expect(batches.length).toBeGreaterThan(1);
+		expect(batches.reduce((total, batch) => total + batch.calls, 0)).toBe(1001);
+		for (const batch of batches) expect(batch.bytes).toBeLessThanOrEqual(MULTICALL_BATCH_BYTES);
+		expect(results).toHaveLength(1001);
+		expect(results[1000]).toEqual({ success: true, result: 1_500_000n });
+	});
+
+	it('reports a reverting call without failing the others', async () => {
+		const { client, batches } = createMulticallClient(contracts);
+
+		const results = await readMany(client, [
+			balanceOf(BOB),
+			{ address: NOT_A_TOKEN, abi: erc20Abi, functionName: 'decimals' },
+			{ address: WETH, abi: erc20Abi, functionName: 'decimals' },
+		]);
+
+		expect(batches).toEqual([{ calls: 3, bytes: expect.any(Number) }]);
+		expect(results[0]).toEqual({ success: true, result: 25n * 10n ** 6n });
+		expect(results[1]).toMatchObject({ success: false, error: expect.stringContaining('Not a token') });
+		expect(results[2]).toEqual({ success: true, result: 18 });
+	});
+
+	it('makes no request for no reads', async () => {
+		const { client, batches } = createMulticallClient(contracts);
+
+		expect(await readMany(client, [])).toEqual([]);
+		expect(batches).toEqual([]);
+	});
+});
+
+describe('readAll', () => {
+	it('throws on the first failed call, naming it', async () => {
+		const { client } = createMulticallClient(contracts);
+
+		await expect(readAll(client, [balanceOf(ALICE), { address: NOT_A_TOKEN, abi: erc20Abi, functionName: 'decimals' }])).rejects.toThrow(
+			`decimals on ${NOT_A_TOKEN} failed`
+		);
+	});
+});
+
+describe('getTokenBalances', () => {
+	it('reads every token for every owner in one batch, reporting bad tokens separately', async () => {
+		const { client, batches } = createMulticallClient(contracts);
+
+		const { balances, errors, blockNumbers } = await getTokenBalances(
+			{ owners: [ALICE, BOB], tokens: ['usdc', 'ETH', WETH, NOT_A_TOKEN, 'NOPE'], chains: ['base'] },
+			() => client
+		);
+
+		expect(batches).toHaveLength(1);
+		expect(blockNumbers).toEqual({ base: Number(BLOCK) });
+		expect(balances.map(({ token, owner, symbol, formatted }) => [token, owner, symbol, formatted])).toEqual([
+			[USDC, ALICE, 'USDC', '1.5'],
+			[USDC, BOB, 'USDC', '25'],
+			['native', ALICE, 'ETH', '2'],
+			['native', BOB, 'ETH', '0'],
+			[WETH, ALICE, 'WETH', '0'],
+			[WETH, BOB, 'WETH', '0.1'],
+		]);
+		expect(errors).toEqual([
+			{ chain: 'base', token: 'NOPE', error: 'Unknown token symbol on base: NOPE' },
+			{ chain: 'base', token: NOT_A_TOKEN, owner: ALICE, error: expect.stringContaining('Not an ERC-20 token') },
+			{ chain: 'base', token: NOT_A_TOKEN, owner: BOB, error: expect.stringContaining('Not an ERC-20 token') },
+		]);
+	});
+
+	it('reports a chain without Multicall3 without failing the others', async () => {
+		const { client } = createMulticallClient(contracts);
+		const down = createMulticallClient({}).client;
+
+		const { balances, errors } = await getTokenBalances({ owners: [ALICE], tokens: ['USDC'], chains: ['base', 'optimism'] }, (chain) =>
+			chain === 'base' ? client : down
+		);
+
+		expect(balances).toHaveLength(1);
+		expect(errors).toEqual([{ chain: 'optimism', error: expect.stringContaining('Multicall3 unavailable on optimism') }]);
+	});
+});
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeFunctionData, formatUnits, parseAbi, type PublicClient } from 'viem';
+import { AAVE_V3_POOLS, readAaveAccountData, readAaveUserPosition, type AaveAccountData, type AaveUserPosition } from '../src/services/aave-v3';
+import { readMoonwellUserPosition, type MoonwellUserPosition } from '../src/services/moonwell';
+import {
+	PositionWatchdogService,
+	planAaveRemediation,
+	planMoonwellRemediation,
+	type AlertTransport,
+	type WatchdogScheduler,
+} from '../src/services/position-watchdog';
+import { WatchdogStore } from '../src/services/watchdog-store';
+import { createSqliteStorage } from './sqlite-storage';
+
+// Stand in for the RPC reads: the tests set the account and position the readers return
+vi.mock('../src/services/aave-v3', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../src/services/aave-v3')>()),
+	readAaveAccountData: vi.fn(),
+	readAaveUserPosition: vi.fn(),
+}));
+vi.mock('../src/services/moonwell', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../src/services/moonwell')>()),
+	readMoonwellUserPosition: vi.fn(),
+}));
+
+const WALLET = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0';
+const USDC = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 } as const;
+const WETH = { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 } as const;
+const INTERVAL_MS = 300 * 1000;
+const M_USDC = '0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22';
+const M_WETH = '0x628ff693426583D9a7FB391E54366292F509D457';
+
+const poolAbi = parseAbi([
+	'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)',
+	'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+]);
+
+const mTokenAbi = parseAbi(['function repayBorrow(uint256 repayAmount) returns (uint256)', 'function mint(uint256 mintAmount) returns (uint256)']);
+
+const client = { getBlockNumber: async () => 1n } as unknown as PublicClient;
+
+function account(healthFactor: number): AaveAccountData {
+	return { totalCollateralUsd: 1500, totalDebtUsd: 1000, availableBorrowsUsd: 0, ltv: 0.75, liquidationThreshold: 0.8, healthFactor };
+}
+
+/**
+ * 0.5 WETH at $3,000 (liquidation threshold 0.8) against 1,000 USDC of debt: health factor 1.2
+ */
+function position(): AaveUserPosition {
+	return {
+		...account(1.2),
+		eModeCategory: 0,
+		assets: [
+			{ asset: USDC, supplied: '0', borrowed: '1000', suppliedUsd: 0, borrowedUsd: 1000, usedAsCollateral: false, liquidationThreshold: 0.78, priceUsd: 1 },
+			{ asset: WETH, supplied: '0.5', borrowed: '0', suppliedUsd: 1500, borrowedUsd: 0, usedAsCollateral: true, liquidationThreshold: 0.8, priceUsd: 3000 },
+		],
+	};
+}
+
+/**
+ * The same position held on Moonwell, where the collateral factor plays the liquidation threshold's part
+ */
+function moonwellPosition(healthFactor = 1.2): MoonwellUserPosition {
+	const { assets, ...totals } = position();
+	const [usdc, weth] = assets;
+	return {
+		...totals,
+		healthFactor,
+		assets: [
+			{ ...usdc, mToken: M_USDC },
+			{ ...weth, mToken: M_WETH },
+		],
+	};
+}
+
+describe('PositionWatchdogService', () => {
+	let scheduler: WatchdogScheduler & { scheduleAt: ReturnType<typeof vi.fn> };
+	let transport: AlertTransport & { deliver: ReturnType<typeof vi.fn> };
+	let watchdog: PositionWatchdogService;
+
+	const setHealthFactor = (healthFactor: number) => vi.mocked(readAaveAccountData).mockResolvedValue(account(healthFactor));
+
+	beforeEach(async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.mocked(readAaveUserPosition).mockResolvedValue(position());
+
+		scheduler = { scheduleAt: vi.fn(async () => {}) };
+		transport = { deliver: vi.fn(async () => {}) };
+		watchdog = new PositionWatchdogService(new WatchdogStore(await createSqliteStorage()), scheduler, () => client, transport);
+		await watchdog.initialize();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	/**
+	 * Move the clock to the next check and run the due work
+	 */
+	async function nextCheck(healthFactor: number) {
+		setHealthFactor(healthFactor);
+		vi.advanceTimersByTime(INTERVAL_MS);
+		await watchdog.runScheduledWork();
+	}
+
+	async function register() {
+		setHealthFactor(2);
+		return watchdog.registerWatch({
+			wallet: WALLET,
+			threshold: 1.5,
+			webhookUrl: 'https://hooks.example.com/health',
+			sessionId: 'session-1',
+		});
+	}
+
+	it('alerts once per crossing below the threshold and re-arms on recovery', async () => {
+		const { watch, alert, ownerToken } = await register();
+		expect(alert).toBeUndefined();
+		expect(watch.lastHealthFactor).toBe(2);
+		expect(scheduler.scheduleAt).toHaveBeenLastCalledWith(Date.now() + INTERVAL_MS);
+
+		await nextCheck(1.2);
+		let alerts = await watchdog.listAlerts(ownerToken, { sessionId: 'session-1' });
+		expect(alerts).toHaveLength(1);
+		expect(alerts[0]).toMatchObject({ watchId: watch.id, healthFactor: 1.2, threshold: 1.5, webhookStatus: 'delivered' });
+		expect(alerts[0].suggestions.map((plan) => plan.action)).toEqual(['repay', 'supply']);
+		expect(transport.deliver).toHaveBeenCalledOnce();
+		expect(transport.deliver).toHaveBeenCalledWith('https://hooks.example.com/health', expect.objectContaining({ id: alerts[0].id }));
+
+		// Still below: no second alert for the same crossing
+		await nextCheck(1.1);
+		expect(await watchdog.listAlerts(ownerToken, { watchId: watch.id })).toHaveLength(1);
+		expect((await watchdog.getWatch(watch.id, ownerToken)).alerting).toBe(true);
+
+		// Recovery re-arms the watch, and the next crossing alerts again
+		await nextCheck(1.6);
+		expect((await watchdog.getWatch(watch.id, ownerToken)).alerting).toBe(false);
+
+		await nextCheck(1.4);
+		alerts = await watchdog.listAlerts(ownerToken, { watchId: watch.id });
+		expect(alerts.map((entry) => entry.healthFactor)).toEqual([1.2, 1.4]);
+		expect(transport.deliver).toHaveBeenCalledTimes(2);
+	});
+
+	it('records a failed webhook delivery on the alert', async () => {
+		const { ownerToken } = await register();
+		transport.deliver.mockRejectedValueOnce(new Error('Webhook responded with 500'));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await nextCheck(1.2);
+		const [alert] = await watchdog.listAlerts(ownerToken, { sessionId: 'session-1' });
+		expect(alert.webhookStatus).toBe('failed: Webhook responded with 500');
+	});
+
+	it('keeps watches and alerts to the owner token', async () => {
+		const { watch, ownerToken } = await register();
+		await nextCheck(1.2);
+
+		await expect(watchdog.listWatches(undefined)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+		await expect(watchdog.listAlerts(undefined, { sessionId: 'session-1' })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+		expect(await watchdog.listWatches('someone-else')).toEqual([]);
+		expect(await watchdog.listAlerts('someone-else', { sessionId: 'session-1' })).toEqual([]);
+		await expect(watchdog.getWatch(watch.id, 'someone-else')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+		await expect(watchdog.deleteWatch(watch.id, 'someone-else')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+		// A second watch registered with the same token joins the owner's list
+		setHealthFactor(2);
+		await watchdog.registerWatch({ wallet: WALLET, chain: 'mainnet', threshold: 1.3, sessionId: 'session-1' }, ownerToken);
+		expect(await watchdog.listWatches(ownerToken)).toHaveLength(2);
+
+		await watchdog.deleteWatch(watch.id, ownerToken);
+		expect(await watchdog.listWatches(ownerToken, WALLET.toLowerCase())).toHaveLength(1);
+		expect(await watchdog.listAlerts(ownerToken, { watchId: watch.id })).toEqual([]);
+	});
+
+	it('only accepts owner tokens it issued', async () => {
+		const { ownerToken } = await register();
+		expect(ownerToken).toMatch(/^[0-9a-f]{64}$/);
+
+		const registration = { wallet: WALLET, threshold: 1.5, sessionId: 'session-1' };
+		await expect(watchdog.registerWatch(registration, 'guessable')).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+		// Well-formed, but never issued
+		await expect(watchdog.registerWatch(registration, 'ab'.repeat(32))).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+		expect(await watchdog.listWatches(ownerToken)).toHaveLength(1);
+	});
+
+	it('watches Moonwell positions and suggests market transactions', async () => {
+		vi.mocked(readMoonwellUserPosition).mockResolvedValue(moonwellPosition(2));
+		const { watch, ownerToken } = await watchdog.registerWatch({ wallet: WALLET, protocol: 'moonwell', threshold: 1.5, sessionId: 'session-1' });
+		expect(watch.lastHealthFactor).toBe(2);
+		expect(readAaveAccountData).not.toHaveBeenCalled();
+
+		vi.mocked(readMoonwellUserPosition).mockResolvedValue(moonwellPosition(1.2));
+		vi.advanceTimersByTime(INTERVAL_MS);
+		await watchdog.runScheduledWork();
+
+		const [alert] = await watchdog.listAlerts(ownerToken, { watchId: watch.id });
+		expect(alert).toMatchObject({ protocol: 'moonwell', healthFactor: 1.2 });
+		expect(alert.summary).toMatch(/^Moonwell health factor/);
+		const [repay, supply] = alert.suggestions;
+		expect(repay.transactions.map(({ transaction }) => transaction.to)).toEqual([USDC.address, M_USDC]);
+		expect(supply.transactions.map(({ transaction }) => transaction.to)).toEqual([WETH.address, M_WETH]);
+	});
+
+	it('rejects Moonwell watches where Moonwell is not deployed', async () => {
+		await expect(
+			watchdog.registerWatch({ wallet: WALLET, chain: 'mainnet', protocol: 'moonwell', threshold: 1.5, sessionId: 'session-1' })
+		).rejects.toMatchObject({ code: 'INVALID', message: 'Moonwell is only deployed on base, optimism' });
+	});
+
+	it('rejects webhooks on private hosts', async () => {
+		await expect(
+			watchdog.registerWatch({ wallet: WALLET, threshold: 1.5, webhookUrl: 'https://169.254.169.254/latest/meta-data' })
+		).rejects.toMatchObject({ code: 'INVALID' });
+		await expect(watchdog.registerWatch({ wallet: WALLET, threshold: 1.5, webhookUrl: 'http://hooks.example.com/health' })).rejects.toMatchObject({
+			code: 'INVALID',
+		});
+	});
+});
+
+describe('planAaveRemediation', () => {
+	beforeEach(() => {
+		vi.mocked(readAaveUserPosition).mockResolvedValue(position());
+	});
+
+	it('sizes a repay and a supply that each reach the target health factor', async () => {
+		const [repay, supply] = await planAaveRemediation(client, 'base', WALLET, 1.65);
+
+		// Repaying r of debt D gives HF × D / (D - r): r = 1000 × (1 - 1.2 / 1.65)
+		expect(repay).toMatchObject({ action: 'repay', asset: USDC, amount: '272.727273', amountUsd: 272.73, targetHealthFactor: 1.65 });
+		// Supplying s of collateral with threshold 0.8 gives HF + 0.8 s / D: s = 1000 × 0.45 / 0.8
+		expect(supply).toMatchObject({ action: 'supply', asset: WETH, amount: '0.187500', amountUsd: 562.5, targetHealthFactor: 1.65 });
+
+		for (const plan of [repay, supply]) {
+			const [approve, call] = plan.transactions;
+			expect(approve.transaction.to).toBe(plan.asset.address);
+			expect(call.transaction.to).toBe(AAVE_V3_POOLS.base);
+		}
+
+		const repayCall = decodeFunctionData({ abi: poolAbi, data: repay.transactions[1].transaction.data as `0x${string}` });
+		expect(repayCall).toEqual({ functionName: 'repay', args: [USDC.address, 272_727_273n, 2n, WALLET] });
+		const supplyCall = decodeFunctionData({ abi: poolAbi, data: supply.transactions[1].transaction.data as `0x${string}` });
+		expect(supplyCall).toMatchObject({ functionName: 'supply', args: [WETH.address, expect.any(BigInt), WALLET, 0] });
+		// Float sizing lands within a few wei of 0.1875 WETH
+		expect(Number(formatUnits(supplyCall.args[1] as bigint, WETH.decimals))).toBeCloseTo(0.1875, 12);
+	});
+
+	it('suggests nothing at or above the target', async () => {
+		expect(await planAaveRemediation(client, 'base', WALLET, 1.2)).toEqual([]);
+	});
+});
+
+describe('planMoonwellRemediation', () => {
+	beforeEach(() => {
+		vi.mocked(readMoonwellUserPosition).mockResolvedValue(moonwellPosition());
+	});
+
+	it('repays and mints through the asset markets, sized as on Aave', async () => {
+		const [repay, supply] = await planMoonwellRemediation(client, 'base', WALLET, 1.65);
+		expect(repay).toMatchObject({ action: 'repay', asset: USDC, amount: '272.727273', targetHealthFactor: 1.65 });
+		expect(supply).toMatchObject({ action: 'supply', asset: WETH, amount: '0.187500', targetHealthFactor: 1.65 });
+
+		// The mToken pulls the tokens, so it is the approved spender
+		const approve = parseAbi(['function approve(address spender, uint256 amount) returns (bool)']);
+		expect(decodeFunctionData({ abi: approve, data: repay.transactions[0].transaction.data as `0x${string}` }).args).toEqual([M_USDC, 272_727_273n]);
+		expect(repay.transactions[0].description).toBe('Approve USDC for the USDC market');
+
+		expect(repay.transactions[1].transaction.to).toBe(M_USDC);
+		expect(decodeFunctionData({ abi: mTokenAbi, data: repay.transactions[1].transaction.data as `0x${string}` })).toEqual({
+			functionName: 'repayBorrow',
+			args: [272_727_273n],
+		});
+		expect(supply.transactions[1].transaction.to).toBe(M_WETH);
+		expect(decodeFunctionData({ abi: mTokenAbi, data: supply.transactions[1].transaction.data as `0x${string}` })).toMatchObject({
+			functionName: 'mint',
+		});
+	});
+});
@@ -0,0 +1,50 @@
+/**
+ * SQLite Storage
+ * In-memory stand-in for the parts of DurableObjectStorage the stores use (sql.exec, transactionSync), on sql.js
+ */
+
+import initSqlJs, { type SqlValue } from 'sql.js';
+
+const sqlJs = initSqlJs();
+
+export async function createSqliteStorage(): Promise<DurableObjectStorage> {
+	const db = new (await sqlJs).Database();
+
+	const sql = {
+		exec(query: string, ...bindings: SqlValue[]) {
+			const statement = db.prepare(query, bindings);
+			const rows: Record<string, SqlValue>[] = [];
+			try {
+				while (statement.step()) rows.push(statement.getAsObject());
+			} finally {
+				statement.free();
+			}
+			return {
+				toArray: () => rows,
+				one: () => {
+					if (rows.length !== 1) throw new Error(`Expected exactly one row, got ${rows.length}`);
+					return rows[0];
+				},
+			};
+		},
+	};
+
+	let depth = 0;
+	const transactionSync = <T>(closure: () => T): T => {
+		const savepoint = `sp${depth++}`;
+		db.exec(`SAVEPOINT ${savepoint}`);
+		try {
+			const result = closure();
+			db.exec(`RELEASE ${savepoint}`);
+			return result;
+		} catch (error) {
+			db.exec(`ROLLBACK TO ${savepoint}`);
+			db.exec(`RELEASE ${savepoint}`);
+			throw error;
+		} finally {
+			depth--;
+		}
+	};
+
+	return { sql, transactionSync } as unknown as DurableObjectStorage;
+}
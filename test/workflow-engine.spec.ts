@@ -0,0 +1,520 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+	AgentCoordinatorService,
+	type DelegationRequest,
+	type RegisteredAgent,
+	type TaskDelegation,
+} from '../src/services/agent-coordinator';
+import { CoordinatorStore } from '../src/services/coordinator-store';
+import { getAgentMessageTypedData } from '../src/services/message-signing';
+import {
+	COORDINATOR_AGENT_ID,
+	evaluateCondition,
+	renderTemplate,
+	WorkflowEngine,
+	type WorkflowDefinition,
+	type WorkflowHost,
+	type WorkflowRun,
+} from '../src/services/workflow-engine';
+import { createSqliteStorage } from './sqlite-storage';
+
+const context = {
+	input: { chain: 'base', minApy: 4 },
+	steps: { fetch: { status: 'completed', result: { apy: 4.2, pools: ['a', 'b'], best: { id: 'a' } } } },
+};
+
+describe('renderTemplate', () => {
+	it('keeps the type of a string that is exactly one reference', () => {
+		expect(renderTemplate('{{steps.fetch.result.apy}}', context)).toBe(4.2);
+		expect(renderTemplate('{{ steps.fetch.result.best }}', context)).toEqual({ id: 'a' });
+	});
+
+	it('interpolates references inside longer strings, objects as JSON', () => {
+		expect(renderTemplate('APY {{steps.fetch.result.apy}} on {{input.chain}}', context)).toBe('APY 4.2 on base');
+		expect(renderTemplate('pools: {{steps.fetch.result.pools}}', context)).toBe('pools: ["a","b"]');
+	});
+
+	it('renders nested arrays and objects and leaves other values alone', () => {
+		expect(
+			renderTemplate({ chain: '{{input.chain}}', pools: ['{{steps.fetch.result.pools.0}}', 7], flag: true, none: null }, context)
+		).toEqual({
+			chain: 'base',
+			pools: ['a', 7],
+			flag: true,
+			none: null,
+		});
+	});
+
+	it('rejects references that do not resolve', () => {
+		expect(() => renderTemplate('{{steps.fetch.result.missing}}', context)).toThrow(
+			'Unresolved template reference: steps.fetch.result.missing'
+		);
+		expect(() => renderTemplate('on {{input.nope}}', context)).toThrow('Unresolved template reference: input.nope');
+	});
+});
+
+describe('evaluateCondition', () => {
+	it('compares a reference with a literal or templated value', () => {
+		expect(evaluateCondition({ ref: 'steps.fetch.result.apy', op: 'gt', value: '{{input.minApy}}' }, context)).toBe(true);
+		expect(evaluateCondition({ ref: 'steps.fetch.result.apy', op: 'lte', value: 4 }, context)).toBe(false);
+		expect(evaluateCondition({ ref: 'steps.fetch.result.best', op: 'eq', value: { id: 'a' } }, context)).toBe(true);
+		expect(evaluateCondition({ ref: 'steps.fetch.status', op: 'neq', value: 'completed' }, context)).toBe(false);
+	});
+
+	it('checks presence and truthiness', () => {
+		expect(evaluateCondition({ ref: 'steps.fetch.result.pools', op: 'exists' }, context)).toBe(true);
+		expect(evaluateCondition({ ref: 'steps.fetch.result.missing', op: 'exists' }, context)).toBe(false);
+		expect(evaluateCondition({ ref: 'steps.fetch.result.missing', op: 'truthy' }, context)).toBe(false);
+	});
+
+	it('combines conditions with all, any and not', () => {
+		const high = { ref: 'steps.fetch.result.apy', op: 'gte', value: 4 } as const;
+		const low = { ref: 'steps.fetch.result.apy', op: 'lt', value: 1 } as const;
+		expect(evaluateCondition({ all: [high, { not: low }] }, context)).toBe(true);
+		expect(evaluateCondition({ any: [low, { not: high }] }, context)).toBe(false);
+	});
+
+	it('rejects unknown operators', () => {
+		expect(() => evaluateCondition({ ref: 'input.chain', op: 'matches' as any, value: 'base' }, context)).toThrow(
+			'Unknown condition operator: matches'
+		);
+	});
+});
+
+describe('WorkflowEngine', () => {
+	let engine: WorkflowEngine;
+	let host: { [K in keyof WorkflowHost]: ReturnType<typeof vi.fn> & WorkflowHost[K] };
+	let scheduler: { scheduleAt: ReturnType<typeof vi.fn> };
+	// Agents offering each capability, best first
+	let agents: Record<string, string[]>;
+
+	beforeEach(async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		const store = new CoordinatorStore(await createSqliteStorage());
+		store.migrate();
+
+		agents = {};
+		let tasks = 0;
+		host = {
+			discoverAgents: vi.fn(async (capability: string) =>
+				(agents[capability] ?? [`${capability}-agent`]).map((id) => ({ id }) as RegisteredAgent)
+			),
+			delegateTask: vi.fn(
+				async (request: DelegationRequest) =>
+					({ ...request, taskId: `task-${++tasks}`, status: 'pending', createdAt: new Date() }) as TaskDelegation
+			),
+			// The coordinator fails the delegation, which comes back through onDelegationUpdate
+			expireDelegation: vi.fn(async (taskId: string, error: string) =>
+				engine.onDelegationUpdate({ taskId, status: 'failed', error } as TaskDelegation)
+			),
+			cancelDelegation: vi.fn(async () => {}),
+		};
+		scheduler = { scheduleAt: vi.fn(async () => {}) };
+		engine = new WorkflowEngine(store, host, scheduler);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	const step = (run: WorkflowRun, id: string) => engine.getRun(run.runId)!.steps.find((candidate) => candidate.id === id)!;
+	const latestTask = (run: WorkflowRun, id: string) => step(run, id).attempts.slice(-1)[0].taskId;
+
+	async function settle(taskId: string, status: 'completed' | 'failed', result?: any) {
+		await engine.onDelegationUpdate({
+			taskId,
+			status,
+			result,
+			...(status === 'failed' ? { error: 'Agent gave up' } : {}),
+		} as TaskDelegation);
+	}
+
+	describe('planning', () => {
+		const rejects = (steps: WorkflowDefinition['steps'], message: string) =>
+			expect(engine.start({ name: 'invalid', steps })).rejects.toMatchObject({
+				code: 'INVALID',
+				message: expect.stringContaining(message),
+			});
+
+		it('rejects dependency cycles', async () => {
+			await rejects(
+				[
+					{ id: 'a', agentCapability: 'x', task: {}, dependsOn: ['c'] },
+					{ id: 'b', agentCapability: 'x', task: {}, dependsOn: ['a'] },
+					{ id: 'c', agentCapability: 'x', task: {}, dependsOn: ['b'] },
+				],
+				'dependency cycle: a -> c -> b -> a'
+			);
+			await rejects([{ id: 'a', agentCapability: 'x', task: {}, dependsOn: ['a'] }], 'dependency cycle');
+		});
+
+		it('rejects unknown and duplicate step ids', async () => {
+			await rejects(
+				[
+					{ id: 'a', agentCapability: 'x', task: {} },
+					{ id: 'b', agentCapability: 'x', task: {}, dependsOn: ['nope'] },
+				],
+				'Step b depends on unknown step: nope'
+			);
+			await rejects(
+				[
+					{ id: 'a', agentCapability: 'x', task: {} },
+					{ id: 'a', agentCapability: 'x', task: {} },
+				],
+				'Duplicate workflow step id: a'
+			);
+			await rejects([], 'at least one step');
+		});
+
+		it('rejects references to steps that are not dependencies', async () => {
+			await rejects(
+				[
+					{ id: 'a', agentCapability: 'x', task: {}, dependsOn: [] },
+					{ id: 'b', agentCapability: 'x', task: { apy: '{{steps.a.result.apy}}' }, dependsOn: [] },
+				],
+				'Step b references step a, which is not one of its dependencies'
+			);
+			await rejects(
+				[{ id: 'a', agentCapability: 'x', task: {}, when: { ref: 'steps.ghost.result', op: 'exists' } }],
+				'Step a references unknown step: ghost'
+			);
+		});
+	});
+
+	it('retries a failed attempt with doubling backoff, preferring untried agents', async () => {
+		agents.quote = ['first', 'second'];
+		const run = await engine.start({
+			name: 'retry',
+			steps: [{ id: 'quote', agentCapability: 'quote', task: {}, retry: { maxAttempts: 3, backoffMs: 1000 } }],
+		});
+		const started = Date.now();
+
+		await settle(latestTask(run, 'quote'), 'failed');
+		expect(step(run, 'quote')).toMatchObject({ status: 'retrying', nextAttemptAt: started + 1000, error: 'Agent gave up' });
+		expect(scheduler.scheduleAt).toHaveBeenLastCalledWith(started + 1000);
+
+		// Not due yet
+		vi.setSystemTime(started + 999);
+		await engine.runScheduledWork(Date.now());
+		expect(host.delegateTask).toHaveBeenCalledTimes(1);
+
+		vi.setSystemTime(started + 1000);
+		expect(await engine.runScheduledWork(Date.now())).toBeGreaterThan(Date.now());
+		expect(step(run, 'quote').attempts.map((attempt) => attempt.agentId)).toEqual(['first', 'second']);
+
+		// The second retry waits twice as long
+		await settle(latestTask(run, 'quote'), 'failed');
+		expect(step(run, 'quote').nextAttemptAt).toBe(started + 1000 + 2000);
+
+		vi.setSystemTime(started + 3000);
+		await engine.runScheduledWork(Date.now());
+		await settle(latestTask(run, 'quote'), 'failed');
+
+		const failed = engine.getRun(run.runId)!;
+		expect(failed.status).toBe('failed');
+		expect(failed.error).toBe('Step quote failed: Agent gave up');
+		expect(failed.steps[0].attempts.map((attempt) => attempt.status)).toEqual(['failed', 'failed', 'failed']);
+	});
+
+	it('times out attempts that run past their deadline', async () => {
+		const run = await engine.start({
+			name: 'timeout',
+			steps: [{ id: 'slow', agentCapability: 'slow', task: {}, timeoutMs: 5000, retry: { maxAttempts: 1 } }],
+		});
+		const deadline = Date.now() + 5000;
+		expect(scheduler.scheduleAt).toHaveBeenCalledWith(deadline);
+
+		await engine.runScheduledWork(deadline - 1);
+		expect(host.expireDelegation).not.toHaveBeenCalled();
+
+		vi.setSystemTime(deadline);
+		await engine.runScheduledWork(deadline);
+		expect(host.expireDelegation).toHaveBeenCalledWith(latestTask(run, 'slow'), 'Timed out after 5000ms');
+		expect(engine.getRun(run.runId)).toMatchObject({ status: 'failed', error: 'Step slow failed: Timed out after 5000ms' });
+
+		// The expired task is settled: a late result changes nothing
+		await settle(latestTask(run, 'slow'), 'completed', { late: true });
+		expect(step(run, 'slow').status).toBe('failed');
+	});
+
+	it('cancels running siblings when a step fails the run', async () => {
+		const run = await engine.start({
+			name: 'siblings',
+			steps: [
+				{ id: 'a', agentCapability: 'x', task: {}, dependsOn: [], retry: { maxAttempts: 1 } },
+				{ id: 'b', agentCapability: 'y', task: {}, dependsOn: [] },
+				{ id: 'c', agentCapability: 'z', task: {}, dependsOn: ['a', 'b'] },
+			],
+		});
+		const siblingTask = latestTask(run, 'b');
+
+		await settle(latestTask(run, 'a'), 'failed');
+
+		const failed = engine.getRun(run.runId)!;
+		expect(failed.status).toBe('failed');
+		expect(failed.steps.map((candidate) => candidate.status)).toEqual(['failed', 'canceled', 'pending']);
+		expect(failed.steps[1].attempts[0].status).toBe('canceled');
+		expect(host.cancelDelegation).toHaveBeenCalledWith(siblingTask);
+
+		// The canceled sibling's own result no longer reaches the run
+		await settle(siblingTask, 'completed', {});
+		expect(step(run, 'b').status).toBe('canceled');
+		expect(host.delegateTask).toHaveBeenCalledTimes(2);
+	});
+
+	describe('dependencies and conditions', () => {
+		it('runs steps without dependsOn one after another', async () => {
+			const run = await engine.start({
+				name: 'linear',
+				steps: [
+					{ agentCapability: 'scan', task: { chain: '{{input.chain}}' } },
+					{ agentCapability: 'deposit', task: { pool: '{{steps.step-0.result.pool}}' } },
+				],
+				input: { chain: 'base' },
+			});
+			expect(run.steps.map((candidate) => candidate.dependsOn)).toEqual([[], ['step-0']]);
+			expect(step(run, 'step-0').parameters).toEqual({ chain: 'base' });
+			expect(step(run, 'step-1').status).toBe('pending');
+
+			await settle(latestTask(run, 'step-0'), 'completed', { pool: 'usdc' });
+			expect(step(run, 'step-1')).toMatchObject({ status: 'running', parameters: { pool: 'usdc' } });
+
+			await settle(latestTask(run, 'step-1'), 'completed', { ok: true });
+			expect(engine.getRun(run.runId)!.status).toBe('completed');
+		});
+
+		it('fans out to independent steps and joins on all of them', async () => {
+			const run = await engine.start({
+				name: 'diamond',
+				steps: [
+					{ id: 'scan', agentCapability: 'scan', task: {} },
+					{ id: 'aave', agentCapability: 'quote', task: { pool: '{{steps.scan.result.aave}}' }, dependsOn: ['scan'] },
+					{ id: 'morpho', agentCapability: 'quote', task: { pool: '{{steps.scan.result.morpho}}' }, dependsOn: ['scan'] },
+					{
+						id: 'pick',
+						agentCapability: 'pick',
+						task: { quotes: ['{{steps.aave.result.apy}}', '{{steps.morpho.result.apy}}'] },
+						dependsOn: ['aave', 'morpho'],
+					},
+				],
+			});
+			expect(host.delegateTask).toHaveBeenCalledTimes(1);
+
+			await settle(latestTask(run, 'scan'), 'completed', { aave: 'a-usdc', morpho: 'm-usdc' });
+			expect(step(run, 'aave')).toMatchObject({ status: 'running', parameters: { pool: 'a-usdc' } });
+			expect(step(run, 'morpho')).toMatchObject({ status: 'running', parameters: { pool: 'm-usdc' } });
+
+			// The join waits for every branch
+			await settle(latestTask(run, 'morpho'), 'completed', { apy: 5.1 });
+			expect(step(run, 'pick').status).toBe('pending');
+
+			await settle(latestTask(run, 'aave'), 'completed', { apy: 4.2 });
+			expect(step(run, 'pick')).toMatchObject({ status: 'running', parameters: { quotes: [4.2, 5.1] } });
+
+			await settle(latestTask(run, 'pick'), 'completed', { pool: 'm-usdc' });
+			expect(engine.getRun(run.runId)).toMatchObject({ status: 'completed', completedAt: expect.any(Date) });
+		});
+
+		it('skips a step whose condition fails, and the steps that need all of it', async () => {
+			const run = await engine.start({
+				name: 'conditional',
+				input: { minApy: 5 },
+				steps: [
+					{ id: 'scan', agentCapability: 'scan', task: {} },
+					{
+						id: 'deposit',
+						agentCapability: 'deposit',
+						task: {},
+						when: { ref: 'steps.scan.result.apy', op: 'gte', value: '{{input.minApy}}' },
+					},
+					{ id: 'report', agentCapability: 'report', task: {}, dependsOn: ['deposit'] },
+					{ id: 'notify', agentCapability: 'notify', task: {}, dependsOn: ['scan', 'deposit'], join: 'any' },
+				],
+			});
+
+			await settle(latestTask(run, 'scan'), 'completed', { apy: 4.2 });
+
+			expect(step(run, 'deposit')).toMatchObject({ status: 'skipped', skipReason: 'Condition not met', attempts: [] });
+			expect(step(run, 'report')).toMatchObject({ status: 'skipped', skipReason: 'A dependency was skipped' });
+			expect(step(run, 'notify').status).toBe('running');
+
+			await settle(latestTask(run, 'notify'), 'completed', {});
+			expect(engine.getRun(run.runId)!.status).toBe('completed');
+			expect(host.delegateTask.mock.calls.map(([request]) => request.task.type)).toEqual(['scan', 'notify']);
+		});
+
+		it('runs a step when its condition holds', async () => {
+			const run = await engine.start({
+				name: 'conditional',
+				steps: [
+					{ id: 'scan', agentCapability: 'scan', task: {} },
+					{
+						id: 'deposit',
+						agentCapability: 'deposit',
+						task: {},
+						when: {
+							any: [
+								{ ref: 'steps.scan.result.apy', op: 'gt', value: 5 },
+								{ ref: 'steps.scan.result.boosted', op: 'truthy' },
+							],
+						},
+					},
+				],
+			});
+
+			await settle(latestTask(run, 'scan'), 'completed', { apy: 4.2, boosted: true });
+			expect(step(run, 'deposit').status).toBe('running');
+		});
+
+		it('skips an any-join when none of its dependencies completed', async () => {
+			const never = { ref: 'input.enabled', op: 'truthy' } as const;
+			const run = await engine.start({
+				name: 'disabled',
+				input: { enabled: false },
+				steps: [
+					{ id: 'a', agentCapability: 'x', task: {}, dependsOn: [], when: never },
+					{ id: 'b', agentCapability: 'x', task: {}, dependsOn: [], when: never },
+					{ id: 'c', agentCapability: 'x', task: {}, dependsOn: ['a', 'b'], join: 'any' },
+				],
+			});
+
+			expect(run.status).toBe('completed');
+			expect(run.steps.map((candidate) => candidate.skipReason)).toEqual([
+				'Condition not met',
+				'Condition not met',
+				'No dependency completed',
+			]);
+			expect(host.delegateTask).not.toHaveBeenCalled();
+		});
+
+		it('fails the step when its condition cannot be evaluated', async () => {
+			const run = await engine.start({
+				name: 'broken',
+				steps: [
+					{ id: 'scan', agentCapability: 'scan', task: {} },
+					{
+						id: 'deposit',
+						agentCapability: 'deposit',
+						task: {},
+						when: { ref: 'steps.scan.result.apy', op: 'gt', value: '{{input.minApy}}' },
+					},
+				],
+			});
+
+			await settle(latestTask(run, 'scan'), 'completed', { apy: 4.2 });
+			expect(engine.getRun(run.runId)).toMatchObject({
+				status: 'failed',
+				error: 'Step deposit failed: Unresolved template reference: input.minApy',
+			});
+		});
+	});
+});
+
+describe('composeWorkflow', () => {
+	const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+	let coordinator: AgentCoordinatorService;
+	let nonce = 0;
+
+	beforeEach(async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		const storage = await createSqliteStorage();
+		coordinator = new AgentCoordinatorService(
+			new CoordinatorStore(storage),
+			{ scheduleAt: vi.fn(async () => {}) },
+			{ deliver: vi.fn(async () => {}) }
+		);
+		await coordinator.initialize();
+
+		await coordinator.registerAgent({
+			id: 'yield-agent',
+			name: 'Yield Agent',
+			endpoint: 'https://yield.example',
+			capabilities: [
+				{
+					id: 'yield',
+					name: 'Yield',
+					description: 'Scans and deposits',
+					chains: ['base'],
+					protocols: ['aave-v3'],
+					operations: ['scan', 'deposit'],
+				},
+			],
+			signer: account.address,
+			delivery: 'poll',
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	/**
+	 * Settle a delegation the way the delegate would: a signed response to the coordinator
+	 */
+	async function respond(taskId: string, status: 'completed' | 'failed', result?: any) {
+		const message = {
+			from: 'yield-agent',
+			to: COORDINATOR_AGENT_ID,
+			type: 'response' as const,
+			payload: { taskId, status, result, error: undefined },
+			timestamp: Date.now(),
+			nonce: `n-${++nonce}`,
+		};
+		const signature = await account.signTypedData(getAgentMessageTypedData(message));
+		await coordinator.updateDelegation(taskId, status, result, undefined, {
+			timestamp: message.timestamp,
+			nonce: message.nonce,
+			signature,
+		});
+	}
+
+	it('advances a run as its delegations complete, through joins and conditions', async () => {
+		const run = await coordinator.composeWorkflow({
+			name: 'rebalance',
+			input: { minApy: 4 },
+			steps: [
+				{ id: 'scan', agentCapability: 'scan', task: { chain: 'base' } },
+				{
+					id: 'deposit',
+					agentCapability: 'deposit',
+					task: { pool: '{{steps.scan.result.pool}}' },
+					when: { ref: 'steps.scan.result.apy', op: 'gte', value: '{{input.minApy}}' },
+				},
+				{
+					id: 'skip',
+					agentCapability: 'deposit',
+					task: {},
+					dependsOn: ['scan'],
+					when: { not: { ref: 'steps.scan.result.apy', op: 'gte', value: '{{input.minApy}}' } },
+				},
+				{ id: 'report', agentCapability: 'scan', task: {}, dependsOn: ['deposit', 'skip'], join: 'any' },
+			],
+		});
+
+		const delegation = async (id: string) =>
+			(await coordinator.getWorkflowRun(run.runId))!.steps.find((candidate) => candidate.id === id)!.attempts[0];
+		const scan = await delegation('scan');
+		expect(scan.agentId).toBe('yield-agent');
+
+		await respond(scan.taskId, 'completed', { pool: 'usdc', apy: 4.2 });
+		const deposit = await delegation('deposit');
+		expect(await coordinator.getDelegation(deposit.taskId)).toMatchObject({
+			fromAgent: COORDINATOR_AGENT_ID,
+			toAgent: 'yield-agent',
+			task: { type: 'deposit', parameters: { pool: 'usdc' } },
+		});
+
+		await respond(deposit.taskId, 'completed', { shares: '100' });
+		await respond((await delegation('report')).taskId, 'completed', {});
+
+		const finished = await coordinator.getWorkflowRun(run.runId);
+		expect(finished!.status).toBe('completed');
+		expect(finished!.steps.map((candidate) => candidate.status)).toEqual(['completed', 'completed', 'skipped', 'completed']);
+		expect(await coordinator.listWorkflowRuns('completed')).toHaveLength(1);
+	});
+});
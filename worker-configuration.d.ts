@@ -5,11 +5,26 @@ declare namespace Cloudflare {
 	interface Env {
 		AI_PROVIDER: "anthropic" | "openai";
 		MODEL_ID: string;
+		ENABLED_TOOLS: string;
+		DISABLED_TOOLS: string;
+		A2A_STAND_IN: string;
+		MCP_BASE_URL: string;
+		RPC_TIMEOUT_MS: string;
+		RPC_CIRCUIT_FAILURES: string;
+		RPC_CIRCUIT_COOLDOWN_MS: string;
 		AI_PROVIDER_API_KEY: string;
 		BASE_RPC_URL: string;
+		RPC_URLS_BASE: string;
+		RPC_URLS_MAINNET: string;
+		RPC_URLS_ARBITRUM: string;
+		RPC_URLS_OPTIMISM: string;
+		RPC_URLS_POLYGON: string;
+		A2A_OPERATOR_TOKEN: string;
 		THIRDWEB_CLIENT_ID: string;
 		THIRDWEB_SECRET_KEY: string;
 		AGENT: DurableObjectNamespace /* SimplePromptAgent */;
+		COORDINATOR: DurableObjectNamespace /* AgentCoordinator */;
+		WATCHDOG: DurableObjectNamespace /* PositionWatchdog */;
 		MCP_SERVICE: Fetcher /* mcp */;
 	}
 }
@@ -18,7 +33,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "AI_PROVIDER" | "MODEL_ID">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "AI_PROVIDER" | "MODEL_ID" | "ENABLED_TOOLS" | "DISABLED_TOOLS" | "A2A_STAND_IN" | "MCP_BASE_URL" | "RPC_TIMEOUT_MS" | "RPC_CIRCUIT_FAILURES" | "RPC_CIRCUIT_COOLDOWN_MS">> {}
 }
 
 // Begin runtime types